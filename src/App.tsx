@@ -1,74 +1,51 @@
-import React, { useState, useCallback } from 'react';
-import { BrowserRouter as Router } from 'react-router-dom';
+import React from 'react';
+import { BrowserRouter as Router, Navigate, Route, Routes, useNavigate } from 'react-router-dom';
 import { useAuth } from './hooks/useAuth';
 import { Header } from './components/Header';
 import { LoginPage } from './pages/LoginPage';
 import { DashboardPage } from './pages/DashboardPage';
 import { AssessmentPage } from './pages/AssessmentPage';
+import { BulkAssessmentPage } from './pages/BulkAssessmentPage';
 import { ResultsPage } from './pages/ResultsPage';
 import { BackOfficePage } from './pages/BackOfficePage';
 import { LoanApplicationPage } from './pages/LoanApplicationPage';
+import { UserManagementPage } from './pages/UserManagementPage';
+import { LoanProductsPage } from './pages/LoanProductsPage';
 import { LoadingSpinner } from './components/LoadingSpinner';
-import { Assessment, LoanOperation } from './types';
 
-type AppView = 'dashboard' | 'assessment' | 'results' | 'backoffice' | 'loan-application';
+function AppRoutes() {
+  const navigate = useNavigate();
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header
+        onBackOfficeClick={() => navigate('/backoffice')}
+        onUsersClick={() => navigate('/users')}
+        onProductsClick={() => navigate('/products')}
+      />
+
+      <main className="pb-safe">
+        <Routes>
+          <Route path="/" element={<DashboardPage />} />
+          <Route path="/assessments/new" element={<AssessmentPage />} />
+          <Route path="/assessments/bulk" element={<BulkAssessmentPage />} />
+          {/* Fresh results before they are saved; ResultsPage then replaces it with /assessments/:id */}
+          <Route path="/assessments/result" element={<ResultsPage />} />
+          <Route path="/assessments/:id" element={<ResultsPage />} />
+          <Route path="/backoffice" element={<BackOfficePage />} />
+          <Route path="/operations/new" element={<LoanApplicationPage />} />
+          <Route path="/operations/:operationNumber/:stage?" element={<LoanApplicationPage />} />
+          <Route path="/users" element={<UserManagementPage />} />
+          <Route path="/products" element={<LoanProductsPage />} />
+          <Route path="*" element={<Navigate to="/" replace />} />
+        </Routes>
+      </main>
+    </div>
+  );
+}
 
 function App() {
   const { user, loading, error } = useAuth();
-  const [currentView, setCurrentView] = useState<AppView>('dashboard');
-  const [currentAssessment, setCurrentAssessment] = useState<Partial<Assessment> | null>(null);
-  const [selectedAssessment, setSelectedAssessment] = useState<Assessment | null>(null);
-  const [currentLoanOperation, setCurrentLoanOperation] = useState<LoanOperation | null>(null);
-
-  const handleNewAssessment = useCallback(() => {
-    setCurrentAssessment(null);
-    setSelectedAssessment(null);
-    setCurrentView('assessment');
-  }, []);
-
-  const handleAssessmentComplete = useCallback((assessment: Partial<Assessment>) => {
-    setCurrentAssessment(assessment);
-    setSelectedAssessment(null);
-    setCurrentView('results');
-  }, []);
-
-  const handleViewAssessment = useCallback((assessment: Assessment) => {
-    setSelectedAssessment(assessment);
-    setCurrentAssessment(assessment);
-    setCurrentView('results');
-  }, []);
-
-  const handleBackToDashboard = useCallback(() => {
-    setCurrentAssessment(null);
-    setSelectedAssessment(null);
-    setCurrentLoanOperation(null);
-    setCurrentView('dashboard');
-  }, []);
-
-  const handleBackToAssessment = useCallback(() => {
-    setCurrentView('assessment');
-  }, []);
-
-  const handleGoToBackOffice = useCallback(() => {
-    setCurrentView('backoffice');
-  }, []);
-
-  const handleStartLoanApplication = useCallback((assessment: Assessment) => {
-    setSelectedAssessment(assessment);
-    setCurrentLoanOperation(null);
-    setCurrentView('loan-application');
-  }, []);
-
-  const handleViewLoanOperation = useCallback((operation: LoanOperation) => {
-    setCurrentLoanOperation(operation);
-    setCurrentView('loan-application');
-  }, []);
-
-  const handleBackToBackOffice = useCallback(() => {
-    setCurrentLoanOperation(null);
-    setSelectedAssessment(null);
-    setCurrentView('backoffice');
-  }, []);
 
   // Show error state if there's a critical error
   if (error && error.includes('Missing Supabase')) {
@@ -113,52 +90,9 @@ function App() {
 
   return (
     <Router>
-      <div className="min-h-screen bg-gray-50">
-        <Header onBackOfficeClick={handleGoToBackOffice} />
-        
-        <main className="pb-safe">
-          {currentView === 'dashboard' && (
-            <DashboardPage
-              onNewAssessment={handleNewAssessment}
-              onViewAssessment={handleViewAssessment}
-            />
-          )}
-          
-          {currentView === 'assessment' && (
-            <AssessmentPage
-              onBack={handleBackToDashboard}
-              onComplete={handleAssessmentComplete}
-            />
-          )}
-          
-          {currentView === 'results' && currentAssessment && (
-            <ResultsPage
-              assessment={currentAssessment}
-              onBack={selectedAssessment ? handleBackToDashboard : handleBackToAssessment}
-              onDashboard={handleBackToDashboard}
-            />
-          )}
-
-          {currentView === 'backoffice' && (
-            <BackOfficePage
-              onBack={handleBackToDashboard}
-              onStartLoanApplication={handleStartLoanApplication}
-              onViewLoanOperation={handleViewLoanOperation}
-            />
-          )}
-
-          {currentView === 'loan-application' && (
-            <LoanApplicationPage
-              assessment={selectedAssessment}
-              operation={currentLoanOperation}
-              onBack={handleBackToBackOffice}
-              onComplete={handleBackToBackOffice}
-            />
-          )}
-        </main>
-      </div>
+      <AppRoutes />
     </Router>
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
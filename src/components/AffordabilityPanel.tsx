@@ -0,0 +1,78 @@
+import { AlertCircle, CheckCircle, Scale } from 'lucide-react';
+import { AffordabilityCheck } from '../types';
+import { formatCurrency } from '../utils/loanCalculator';
+import { INCOME_POLICY_LABELS, formatRatio } from '../utils/affordability';
+
+interface AffordabilityPanelProps {
+  check: AffordabilityCheck;
+  error?: string;
+}
+
+function RatioRow({ label, ratio, max }: { label: string; ratio?: number; max?: number }) {
+  const exceeded = ratio !== undefined && max !== undefined && ratio > max;
+
+  return (
+    <div>
+      <p className="text-gray-600">{label}</p>
+      <p className={`font-medium ${exceeded ? 'text-red-600' : ''}`}>
+        {ratio === undefined ? 'N/A' : formatRatio(ratio)}
+        {max !== undefined && <span className="text-gray-500 font-normal"> / máx. {formatRatio(max)}</span>}
+      </p>
+    </div>
+  );
+}
+
+export function AffordabilityPanel({ check, error }: AffordabilityPanelProps) {
+  const passed = check.failures.length === 0;
+
+  return (
+    <div className={`border rounded-lg p-4 space-y-3 ${passed ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'}`}>
+      <div className="flex items-center justify-between">
+        <div className={`flex items-center font-semibold ${passed ? 'text-green-900' : 'text-red-900'}`}>
+          <Scale className="w-4 h-4 mr-2" />
+          Capacidad de pago
+        </div>
+        {passed
+          ? <CheckCircle className="w-5 h-5 text-green-600" />
+          : <AlertCircle className="w-5 h-5 text-red-600" />}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 text-sm">
+        <div>
+          <p className="text-gray-600">Ingreso declarado</p>
+          <p className={`font-medium ${check.income_source === 'declared' ? 'text-gray-900' : 'text-gray-500'}`}>
+            {check.declared_income ? formatCurrency(check.declared_income) : 'N/A'}
+          </p>
+        </div>
+        <div>
+          <p className="text-gray-600">Ingreso VERAZ</p>
+          <p className={`font-medium ${check.income_source === 'veraz' ? 'text-gray-900' : 'text-gray-500'}`}>
+            {check.veraz_income ? formatCurrency(check.veraz_income) : 'N/A'}
+          </p>
+        </div>
+        <div className="col-span-2">
+          <p className="text-gray-600">Ingreso considerado · {INCOME_POLICY_LABELS[check.income_policy]}</p>
+          <p className="font-semibold">{check.income ? formatCurrency(check.income) : 'N/A'}</p>
+        </div>
+        <div>
+          <p className="text-gray-600">Deuda informada BCRA</p>
+          <p className="font-medium">{formatCurrency(check.existing_debt_balance)}</p>
+        </div>
+        <div>
+          <p className="text-gray-600">Servicio de deuda estimado</p>
+          <p className="font-medium">{formatCurrency(check.existing_debt_service)}</p>
+        </div>
+        <RatioRow label="Cuota / ingreso" ratio={check.payment_to_income_ratio} max={check.max_payment_to_income_ratio} />
+        <RatioRow label="Endeudamiento total" ratio={check.debt_to_income_ratio} max={check.max_debt_to_income_ratio} />
+      </div>
+
+      {check.failures.length > 0 && (
+        <ul className="text-sm text-red-700 space-y-1" role={error ? 'alert' : undefined}>
+          {check.failures.map(failure => (
+            <li key={failure}>• {failure}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
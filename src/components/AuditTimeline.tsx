@@ -0,0 +1,136 @@
+import { useEffect, useState } from 'react';
+import { History, PlusCircle, Edit3, Trash2 } from 'lucide-react';
+import { AuditLogEntry, AuditedTable } from '../types';
+import { fetchAuditLog, flattenAuditDiff, formatAuditValue, getAuditFieldLabel } from '../utils/auditLog';
+import { Card } from './Card';
+import { LoadingSpinner } from './LoadingSpinner';
+
+interface AuditTimelineProps {
+  tableName: AuditedTable;
+  rowId: string;
+  // Changes whenever the row is saved so the timeline reloads
+  refreshKey?: string;
+}
+
+const MAX_VISIBLE_CHANGES = 6;
+
+export function AuditTimeline({ tableName, rowId, refreshKey }: AuditTimelineProps) {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState(false);
+  const [expanded, setExpanded] = useState<Record<number, boolean>>({});
+
+  useEffect(() => {
+    let mounted = true;
+
+    setLoading(true);
+    setError(false);
+
+    fetchAuditLog(tableName, rowId)
+      .then(data => {
+        if (mounted) setEntries(data);
+      })
+      .catch(() => {
+        if (mounted) setError(true);
+      })
+      .finally(() => {
+        if (mounted) setLoading(false);
+      });
+
+    return () => {
+      mounted = false;
+    };
+  }, [tableName, rowId, refreshKey]);
+
+  const getActionIcon = (action: AuditLogEntry['action']) => {
+    switch (action) {
+      case 'INSERT':
+        return <PlusCircle className="w-4 h-4 text-green-600" />;
+      case 'DELETE':
+        return <Trash2 className="w-4 h-4 text-red-600" />;
+      default:
+        return <Edit3 className="w-4 h-4 text-blue-600" />;
+    }
+  };
+
+  const getActionText = (action: AuditLogEntry['action']) => {
+    switch (action) {
+      case 'INSERT':
+        return 'Creación';
+      case 'DELETE':
+        return 'Eliminación';
+      default:
+        return 'Modificación';
+    }
+  };
+
+  return (
+    <Card>
+      <h3 className="font-semibold text-gray-900 mb-4 flex items-center">
+        <History className="w-5 h-5 mr-2" />
+        Historial
+      </h3>
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <LoadingSpinner />
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-600">No se pudo cargar el historial</p>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-gray-500">Sin cambios registrados</p>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-2 space-y-5">
+          {entries.map(entry => {
+            // Creation entries list every initial value; only the edits are worth expanding
+            const changes = entry.action === 'INSERT' ? [] : flattenAuditDiff(entry.diff);
+            const visibleChanges = expanded[entry.id] ? changes : changes.slice(0, MAX_VISIBLE_CHANGES);
+
+            return (
+              <li key={entry.id} className="relative ml-4">
+                <span className="absolute -left-6 top-0.5 flex items-center justify-center w-4 h-4 bg-white">
+                  {getActionIcon(entry.action)}
+                </span>
+                <div className="flex justify-between items-baseline">
+                  <p className="text-sm font-medium text-gray-900">{getActionText(entry.action)}</p>
+                  <time className="text-xs text-gray-500">
+                    {new Date(entry.changed_at).toLocaleString('es-AR', {
+                      day: '2-digit',
+                      month: 'short',
+                      hour: '2-digit',
+                      minute: '2-digit',
+                    })}
+                  </time>
+                </div>
+                <p className="text-xs text-gray-500">{entry.actor_email || 'Sistema'}</p>
+
+                {visibleChanges.length > 0 && (
+                  <ul className="mt-2 space-y-1">
+                    {visibleChanges.map(change => (
+                      <li key={change.path} className="text-xs">
+                        <span className="text-gray-600">{getAuditFieldLabel(change.path)}: </span>
+                        <span className="text-red-600 line-through">{formatAuditValue(change.oldValue)}</span>
+                        <span className="text-gray-400"> → </span>
+                        <span className="text-green-700">{formatAuditValue(change.newValue)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {changes.length > MAX_VISIBLE_CHANGES && (
+                  <button
+                    type="button"
+                    onClick={() => setExpanded(prev => ({ ...prev, [entry.id]: !prev[entry.id] }))}
+                    className="text-xs text-blue-600 hover:text-blue-700 mt-1"
+                  >
+                    {expanded[entry.id] ? 'Ver menos' : `Ver ${changes.length - MAX_VISIBLE_CHANGES} cambios más`}
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </Card>
+  );
+}
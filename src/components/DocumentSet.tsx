@@ -0,0 +1,202 @@
+import { useState } from 'react';
+import { Eye, FileText, History, RefreshCw, Upload } from 'lucide-react';
+import { DocumentType, LoanOperationDocument } from '../types';
+import { getAcceptedFileTypes } from '../utils/documentValidation';
+import { getCurrentDocuments, getPreviousVersions } from '../utils/documentVersions';
+import { ProcessedImage, formatFileSize } from '../utils/imageProcessing';
+import { getDocumentLabel } from '../utils/loanProducts';
+import { LoadingSpinner } from './LoadingSpinner';
+
+interface DocumentSetProps {
+  type: DocumentType;
+  required: boolean;
+  // Every version of every document of the operation
+  documents: LoanOperationDocument[];
+  locked: boolean;
+  uploading: boolean;
+  // Path of the file whose signed URL is being requested
+  viewing: string | null;
+  processed?: ProcessedImage;
+  error?: string;
+  onView: (filePath: string) => void;
+  onAdd: (file: File) => Promise<void>;
+  onReplace: (document: LoanOperationDocument, file: File) => Promise<void>;
+}
+
+function formatUpload({ uploaded_by_email, uploaded_at }: LoanOperationDocument) {
+  const date = new Date(uploaded_at).toLocaleString('es-AR', { dateStyle: 'short', timeStyle: 'short' });
+  return uploaded_by_email ? `${uploaded_by_email} · ${date}` : date;
+}
+
+function fileLabel(document: LoanOperationDocument) {
+  return document.file_name || document.file_path.split('/').pop();
+}
+
+export function DocumentSet({
+  type,
+  required,
+  documents,
+  locked,
+  uploading,
+  viewing,
+  processed,
+  error,
+  onView,
+  onAdd,
+  onReplace,
+}: DocumentSetProps) {
+  const [historyOf, setHistoryOf] = useState<string | null>(null);
+  const current = getCurrentDocuments(documents, type);
+  const accept = getAcceptedFileTypes(type);
+
+  const viewButton = (document: LoanOperationDocument) => (
+    <button
+      type="button"
+      onClick={() => onView(document.file_path)}
+      disabled={viewing === document.file_path}
+      className="flex items-center text-sm text-blue-600 hover:text-blue-700 disabled:opacity-50"
+    >
+      {viewing === document.file_path ? <LoadingSpinner size="sm" /> : <Eye className="w-4 h-4 mr-1" />}
+      Ver
+    </button>
+  );
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        {getDocumentLabel(type)} {required ? <span className="text-red-500">*</span> : '(Opcional)'}
+      </label>
+
+      {current.length > 0 && (
+        <ul className="border border-gray-200 rounded-lg divide-y divide-gray-100 mb-2">
+          {current.map(document => {
+            const previous = getPreviousVersions(documents, document);
+
+            return (
+              <li key={document.id} className="p-3">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="flex items-start min-w-0">
+                    <FileText className="w-4 h-4 text-gray-400 mr-2 mt-0.5 flex-shrink-0" />
+                    <div className="min-w-0">
+                      <p className="text-sm text-gray-900 truncate">
+                        {fileLabel(document)} <span className="text-gray-500">· v{document.version}</span>
+                      </p>
+                      <p className="text-xs text-gray-500">{formatUpload(document)}</p>
+                      {document.sha256 && (
+                        <p className="text-xs text-gray-500 font-mono" title={document.sha256}>
+                          SHA-256 {document.sha256.slice(0, 16)}…
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-3 flex-shrink-0">
+                    {viewButton(document)}
+                    {!locked && (
+                      <>
+                        <input
+                          type="file"
+                          accept={accept}
+                          onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) onReplace(document, file);
+                            e.target.value = '';
+                          }}
+                          className="hidden"
+                          id={`replace-${document.id}`}
+                          disabled={uploading}
+                        />
+                        <label
+                          htmlFor={`replace-${document.id}`}
+                          className="flex items-center text-sm text-gray-600 hover:text-gray-800 cursor-pointer"
+                        >
+                          <RefreshCw className="w-4 h-4 mr-1" />
+                          Reemplazar
+                        </label>
+                      </>
+                    )}
+                    {previous.length > 0 && (
+                      <button
+                        type="button"
+                        onClick={() => setHistoryOf(historyOf === document.id ? null : document.id)}
+                        className="flex items-center text-sm text-gray-600 hover:text-gray-800"
+                      >
+                        <History className="w-4 h-4 mr-1" />
+                        {previous.length}
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {historyOf === document.id && (
+                  <ul className="mt-2 ml-6 space-y-2 border-l-2 border-gray-100 pl-3">
+                    {previous.map(version => (
+                      <li key={version.id} className="flex items-center justify-between gap-3">
+                        <div className="min-w-0">
+                          <p className="text-xs text-gray-700 truncate">
+                            v{version.version} · {fileLabel(version)} <span className="text-gray-500">(reemplazada)</span>
+                          </p>
+                          <p className="text-xs text-gray-500">{formatUpload(version)}</p>
+                        </div>
+                        {viewButton(version)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {locked ? (
+        current.length === 0 && (
+          <div className="border border-gray-200 rounded-lg p-4 bg-gray-50">
+            <p className="text-sm text-gray-600">No subido</p>
+          </div>
+        )
+      ) : (
+        <div className="border-2 border-dashed border-gray-300 rounded-lg p-4 text-center">
+          {uploading ? (
+            <div className="flex items-center justify-center space-x-2">
+              <LoadingSpinner size="sm" />
+              <span className="text-sm text-gray-600">Subiendo...</span>
+            </div>
+          ) : (
+            <>
+              <Upload className="w-8 h-8 text-gray-400 mx-auto mb-2" />
+              <input
+                type="file"
+                accept={accept}
+                multiple
+                onChange={async (e) => {
+                  const files = Array.from(e.target.files || []);
+                  e.target.value = '';
+                  // One at a time: each page is processed and verified before the next one
+                  for (const file of files) {
+                    await onAdd(file);
+                  }
+                }}
+                className="hidden"
+                id={`document-${type}`}
+              />
+              <label htmlFor={`document-${type}`} className="cursor-pointer text-blue-600 hover:text-blue-700">
+                {current.length > 0 ? 'Agregar archivos' : 'Seleccionar archivos'}
+              </label>
+            </>
+          )}
+        </div>
+      )}
+
+      {processed && !error && (
+        <p className="text-xs text-gray-500 mt-1">
+          {processed.converted ? 'HEIC convertido a JPEG · ' : ''}
+          {formatFileSize(processed.originalSize)} → {formatFileSize(processed.processedSize)}
+          {' '}({processed.dimensions.width}×{processed.dimensions.height} px, sin datos EXIF)
+        </p>
+      )}
+      {error && (
+        <p className="text-sm text-red-600 mt-1">{error}</p>
+      )}
+    </div>
+  );
+}
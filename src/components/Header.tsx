@@ -1,14 +1,19 @@
 import React from 'react';
-import { LogOut, User, Building } from 'lucide-react';
+import { LogOut, Building, Users, Package } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
+import { useBranch } from '../hooks/useBranch';
 import { Button } from './Button';
+import { getRoleLabel } from '../utils/permissions';
 
 interface HeaderProps {
   onBackOfficeClick?: () => void;
+  onUsersClick?: () => void;
+  onProductsClick?: () => void;
 }
 
-export function Header({ onBackOfficeClick }: HeaderProps) {
-  const { user, signOut } = useAuth();
+export function Header({ onBackOfficeClick, onUsersClick, onProductsClick }: HeaderProps) {
+  const { user, signOut, hasPermission } = useAuth();
+  const { branches, currentBranch, setCurrentBranch } = useBranch();
 
   return (
     <header className="bg-white border-b border-gray-200 px-4 py-3 sticky top-0 z-50">
@@ -25,15 +30,54 @@ export function Header({ onBackOfficeClick }: HeaderProps) {
             <h1 className="text-lg font-semibold text-gray-900">Evaluación de Préstamos</h1>
             {user && (
               <p className="text-xs text-gray-500">
-                {user.email}
+                {user.email} · {getRoleLabel(user.role)}
               </p>
             )}
+            {user && branches.length > 1 && (
+              <select
+                value={currentBranch?.id || ''}
+                onChange={(e) => setCurrentBranch(e.target.value)}
+                className="text-xs text-gray-700 bg-transparent border-none p-0 pr-6 focus:ring-0 cursor-pointer"
+                aria-label="Sucursal"
+              >
+                {branches.map(branch => (
+                  <option key={branch.id} value={branch.id}>
+                    {branch.code} · {branch.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            {user && branches.length === 1 && currentBranch && (
+              <p className="text-xs text-gray-500">{currentBranch.code} · {currentBranch.name}</p>
+            )}
           </div>
         </div>
         
         {user && (
           <div className="flex items-center space-x-2">
-            {onBackOfficeClick && (
+            {onUsersClick && hasPermission('users:manage') && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={onUsersClick}
+                className="p-2"
+                aria-label="Usuarios"
+              >
+                <Users size={16} />
+              </Button>
+            )}
+            {onProductsClick && hasPermission('products:manage') && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={onProductsClick}
+                className="p-2"
+                aria-label="Productos"
+              >
+                <Package size={16} />
+              </Button>
+            )}
+            {onBackOfficeClick && hasPermission('backoffice:access') && (
               <Button
                 variant="outline"
                 size="sm"
@@ -0,0 +1,198 @@
+import { useMemo, useState } from 'react';
+import { Calculator, ChevronDown, ChevronUp } from 'lucide-react';
+import { LoanTerms } from '../types';
+import { formatCurrency, formatRate, fromPercentInput, simulateLoan, toLoanTerms, toPercentInput } from '../utils/loanCalculator';
+import { Input } from './Input';
+
+interface LoanSimulatorProps {
+  terms: Partial<LoanTerms>;
+  income?: number;
+  errors?: Record<string, string>;
+  disabled?: boolean;
+  // The TNA is set by the loan product
+  rateLocked?: boolean;
+  onChange: (terms: Partial<LoanTerms>) => void;
+}
+
+const toNumber = (value: string) => value === '' ? undefined : parseFloat(value);
+
+export function LoanSimulator({ terms, income, errors = {}, disabled, rateLocked, onChange }: LoanSimulatorProps) {
+  const [showSchedule, setShowSchedule] = useState(false);
+
+  const simulation = useMemo(() => {
+    const complete = toLoanTerms(terms);
+    return complete ? simulateLoan(complete) : null;
+  }, [terms]);
+
+  const update = (changes: Partial<LoanTerms>) => {
+    if (!disabled) onChange({ ...terms, ...changes });
+  };
+
+  const ratio = simulation && income ? simulation.first_payment / income : null;
+
+  return (
+    <div className="space-y-4">
+      <Input
+        type="number"
+        label="Monto Solicitado"
+        placeholder="0"
+        value={terms.amount ?? ''}
+        onChange={(e) => update({ amount: toNumber(e.target.value) })}
+        error={errors.requested_amount}
+        required
+        disabled={disabled}
+      />
+
+      <div className="grid grid-cols-2 gap-3">
+        <Input
+          type="number"
+          label="Plazo (meses)"
+          placeholder="12"
+          min="1"
+          step="1"
+          value={terms.term_months ?? ''}
+          onChange={(e) => update({ term_months: e.target.value === '' ? undefined : parseInt(e.target.value) })}
+          error={errors.term_months}
+          required
+          disabled={disabled}
+        />
+
+        <Input
+          type="number"
+          label="TNA (%)"
+          placeholder="0"
+          step="0.01"
+          value={toPercentInput(terms.tna)}
+          onChange={(e) => update({ tna: fromPercentInput(e.target.value) })}
+          error={errors.tna}
+          hint={rateLocked ? 'Definida por el producto' : undefined}
+          required
+          disabled={disabled || rateLocked}
+        />
+
+        <Input
+          type="number"
+          label="Comisión otorgamiento (%)"
+          placeholder="0"
+          step="0.01"
+          value={toPercentInput(terms.origination_fee_rate)}
+          onChange={(e) => update({ origination_fee_rate: fromPercentInput(e.target.value) })}
+          disabled={disabled}
+        />
+
+        <Input
+          type="number"
+          label="Gastos mensuales"
+          placeholder="0"
+          value={terms.monthly_fee ?? ''}
+          onChange={(e) => update({ monthly_fee: toNumber(e.target.value) })}
+          disabled={disabled}
+        />
+
+        <Input
+          type="number"
+          label="IVA s/intereses (%)"
+          placeholder="21"
+          step="0.5"
+          value={toPercentInput(terms.iva_rate)}
+          onChange={(e) => update({ iva_rate: fromPercentInput(e.target.value) })}
+          disabled={disabled}
+        />
+      </div>
+
+      {simulation ? (
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 space-y-3">
+          <div className="flex items-center text-blue-900 font-semibold">
+            <Calculator className="w-4 h-4 mr-2" />
+            Simulación
+          </div>
+
+          <div className="grid grid-cols-2 gap-3 text-sm">
+            <div>
+              <p className="text-gray-600">Cuota pura</p>
+              <p className="font-medium">{formatCurrency(simulation.installment)}</p>
+            </div>
+            <div>
+              <p className="text-gray-600">Primera cuota total</p>
+              <p className="font-semibold text-blue-900">{formatCurrency(simulation.first_payment)}</p>
+            </div>
+            <div>
+              <p className="text-gray-600">TEM</p>
+              <p className="font-medium">{formatRate(simulation.tem)}</p>
+            </div>
+            <div>
+              <p className="text-gray-600">TEA</p>
+              <p className="font-medium">{formatRate(simulation.tea)}</p>
+            </div>
+            <div>
+              <p className="text-gray-600">CFTEA sin IVA</p>
+              <p className="font-medium">{formatRate(simulation.cft)}</p>
+            </div>
+            <div>
+              <p className="text-gray-600">CFTEA con IVA</p>
+              <p className="font-semibold text-blue-900">{formatRate(simulation.cft_with_iva)}</p>
+            </div>
+            <div>
+              <p className="text-gray-600">Total a pagar</p>
+              <p className="font-medium">{formatCurrency(simulation.total_paid)}</p>
+            </div>
+            <div>
+              <p className="text-gray-600">Relación cuota/ingreso</p>
+              <p className={`font-medium ${ratio === null ? 'text-gray-400' : ''}`}>
+                {ratio === null ? 'Falta ingreso' : `${(ratio * 100).toFixed(1)}%`}
+              </p>
+            </div>
+          </div>
+
+          <button
+            type="button"
+            onClick={() => setShowSchedule(prev => !prev)}
+            className="flex items-center text-sm text-blue-700 hover:text-blue-800"
+          >
+            {showSchedule ? <ChevronUp className="w-4 h-4 mr-1" /> : <ChevronDown className="w-4 h-4 mr-1" />}
+            {showSchedule ? 'Ocultar cuadro de amortización' : 'Ver cuadro de amortización'}
+          </button>
+
+          {showSchedule && (
+            <div className="overflow-x-auto -mx-4 px-4">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-gray-600 text-right">
+                    <th className="py-1 text-left">N°</th>
+                    <th className="py-1">Capital</th>
+                    <th className="py-1">Interés</th>
+                    <th className="py-1">IVA</th>
+                    <th className="py-1">Cuota</th>
+                    <th className="py-1">Saldo</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {simulation.schedule.map(row => (
+                    <tr key={row.period} className="border-t border-blue-100 text-right font-mono">
+                      <td className="py-1 text-left">{row.period}</td>
+                      <td className="py-1">{formatCurrency(row.principal)}</td>
+                      <td className="py-1">{formatCurrency(row.interest)}</td>
+                      <td className="py-1">{formatCurrency(row.iva)}</td>
+                      <td className="py-1">{formatCurrency(row.total_payment)}</td>
+                      <td className="py-1">{formatCurrency(Math.max(row.closing_balance, 0))}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">
+          Complete monto, plazo y TNA para calcular la cuota y el CFT
+        </p>
+      )}
+
+      {(errors.payment_amount || errors.payment_to_income_ratio) && (
+        <p className="text-sm text-red-600" role="alert">
+          {errors.payment_amount || errors.payment_to_income_ratio}
+        </p>
+      )}
+    </div>
+  );
+}
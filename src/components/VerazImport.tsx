@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { FileUp, AlertCircle } from 'lucide-react';
+import { VerazData } from '../types';
+import { formatCurrency } from '../utils/loanCalculator';
+import {
+  MAX_VERAZ_REPORT_SIZE,
+  VERAZ_IMPORT_FIELDS,
+  VerazImportError,
+  VerazImportField,
+  VerazImportValues,
+  VerazReportImport,
+  checkReportIdentification,
+  getVerazImportPreview,
+  parseVerazReport,
+} from '../utils/verazImport';
+import { Button } from './Button';
+
+interface VerazImportProps {
+  current: VerazData;
+  clientCuit?: string;
+  disabled?: boolean;
+  // Stores the original file and applies the values to the stage
+  onApply: (values: VerazImportValues, file: File) => Promise<void>;
+}
+
+const AMOUNT_FIELDS = VERAZ_IMPORT_FIELDS.filter(({ kind }) => kind === 'amount').map(({ field }) => field);
+
+function formatValue(field: VerazImportField, value?: string | number) {
+  if (value === undefined || value === '') return '—';
+  return AMOUNT_FIELDS.includes(field) && typeof value === 'number' ? formatCurrency(value) : String(value);
+}
+
+export function VerazImport({ current, clientCuit, disabled, onApply }: VerazImportProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [report, setReport] = useState<VerazReportImport | null>(null);
+  const [error, setError] = useState('');
+  const [applying, setApplying] = useState(false);
+
+  const reset = () => {
+    setFile(null);
+    setReport(null);
+  };
+
+  const handleFile = async (selected: File) => {
+    reset();
+    setError('');
+
+    if (selected.size > MAX_VERAZ_REPORT_SIZE) {
+      setError('El archivo supera los 2 MB');
+      return;
+    }
+
+    try {
+      const parsed = parseVerazReport(await selected.text());
+      const identificationError = checkReportIdentification(parsed.identification, clientCuit);
+      if (identificationError) {
+        setError(identificationError);
+        return;
+      }
+
+      setFile(selected);
+      setReport(parsed);
+    } catch (error) {
+      console.error('❌ Error parsing Veraz report:', error);
+      setError(error instanceof VerazImportError ? error.message : 'No se pudo leer el archivo');
+    }
+  };
+
+  const handleApply = async () => {
+    if (!file || !report) return;
+
+    setApplying(true);
+    setError('');
+
+    try {
+      await onApply(report.values, file);
+      reset();
+    } catch (error) {
+      console.error('❌ Error applying Veraz report:', error);
+      setError(error instanceof Error ? error.message : 'No se pudo guardar el reporte');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  if (disabled) return null;
+
+  return (
+    <div className="border border-purple-200 bg-purple-50 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-semibold text-purple-900">Importar reporte VERAZ</p>
+          <p className="text-xs text-purple-700">Exportación XML o JSON</p>
+        </div>
+        <input
+          type="file"
+          accept=".xml,.json,application/xml,text/xml,application/json"
+          onChange={(e) => {
+            const selected = e.target.files?.[0];
+            if (selected) handleFile(selected);
+            e.target.value = '';
+          }}
+          className="hidden"
+          id="veraz-report"
+          disabled={applying}
+        />
+        <label
+          htmlFor="veraz-report"
+          className="inline-flex items-center px-3 py-2 text-sm font-medium text-purple-700 border-2 border-purple-600 rounded-lg cursor-pointer hover:bg-purple-100"
+        >
+          <FileUp className="w-4 h-4 mr-1" />
+          Seleccionar
+        </label>
+      </div>
+
+      {current.veraz_report_file && !report && (
+        <p className="text-xs text-gray-600">
+          ✓ Reporte importado: {current.veraz_report_file}
+        </p>
+      )}
+
+      {error && (
+        <div className="flex items-start text-sm text-red-700" role="alert">
+          <AlertCircle className="w-4 h-4 mr-1 mt-0.5 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {report && file && (
+        <div className="space-y-3">
+          <p className="text-xs text-gray-600">{file.name} · {report.format.toUpperCase()}</p>
+          <table className="w-full text-sm bg-white rounded-lg overflow-hidden">
+            <thead>
+              <tr className="text-gray-600 text-left">
+                <th className="p-2">Campo</th>
+                <th className="p-2">Actual</th>
+                <th className="p-2">Reporte</th>
+              </tr>
+            </thead>
+            <tbody>
+              {getVerazImportPreview(current, report.values).map(row => (
+                <tr key={row.field} className={`border-t border-gray-100 ${row.changed ? 'bg-yellow-50' : ''}`}>
+                  <td className="p-2 text-gray-700">{row.label}</td>
+                  <td className="p-2 text-gray-500">{formatValue(row.field, row.current)}</td>
+                  <td className={`p-2 ${row.changed ? 'font-semibold text-gray-900' : 'text-gray-500'}`}>
+                    {formatValue(row.field, row.imported)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {report.missingFields.length > 0 && (
+            <p className="text-xs text-amber-700">
+              El reporte no incluye: {VERAZ_IMPORT_FIELDS
+                .filter(({ field }) => report.missingFields.includes(field))
+                .map(({ label }) => label)
+                .join(', ')}. Se mantienen los valores actuales.
+            </p>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" size="sm" onClick={reset} disabled={applying}>
+              Descartar
+            </Button>
+            <Button size="sm" onClick={handleApply} loading={applying}>
+              Aplicar datos
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,66 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { User as SupabaseUser } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
-import { User, AuthState } from '../types';
+import { User, AuthState, Branch, Permission, UserRole } from '../types';
+import { getPermissions, getPrimaryRole, hasPermission as roleHasPermission } from '../utils/permissions';
+
+// Shared by every useAuth instance so roles are fetched once per session
+const userCache = new Map<string, Promise<User>>();
+
+async function fetchUser(authUser: SupabaseUser): Promise<User> {
+  let fullName: string | undefined;
+  let roles: UserRole[] = ['advisor'];
+  let branches: Branch[] = [];
+  let defaultBranchId: string | undefined;
+
+  try {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('full_name, is_active, memberships(role), branch_memberships(is_default, branch:branches(id, code, name, is_active))')
+      .eq('id', authUser.id)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (data) {
+      fullName = data.full_name || undefined;
+      // Deactivated users keep their session but lose every permission
+      roles = data.is_active ? (data.memberships || []).map((m: { role: UserRole }) => m.role) : [];
+
+      // PostgREST embeds the to-one branch as an object, not the array the query typings infer
+      const branchMemberships = (data.branch_memberships || []) as unknown as { is_default: boolean; branch: Branch | null }[];
+      branches = branchMemberships
+        .filter(m => m.branch?.is_active !== false)
+        .flatMap(m => (m.branch ? [m.branch] : []))
+        .sort((a, b) => a.name.localeCompare(b.name));
+      defaultBranchId = branchMemberships.find(m => m.is_default && m.branch)?.branch?.id;
+    } else {
+      console.warn('⚠️ No profile found, defaulting to advisor role');
+    }
+  } catch (error) {
+    // RLS still enforces roles server-side, so falling back to the least privileged role is safe
+    console.error('❌ Error loading user roles, defaulting to advisor:', error);
+  }
+
+  console.log('👤 User roles loaded:', roles, 'branches:', branches.map(b => b.code));
+
+  return {
+    id: authUser.id,
+    email: authUser.email || '',
+    fullName,
+    role: getPrimaryRole(roles),
+    roles,
+    branches,
+    defaultBranchId,
+  };
+}
+
+function loadUser(authUser: SupabaseUser): Promise<User> {
+  if (!userCache.has(authUser.id)) {
+    userCache.set(authUser.id, fetchUser(authUser));
+  }
+  return userCache.get(authUser.id)!;
+}
 
 export function useAuth() {
   const [authState, setAuthState] = useState<AuthState>({
@@ -30,10 +90,8 @@ export function useAuth() {
         if (session?.user) {
           console.log('✅ Session found, user:', session.user.id);
           
-          const user: User = {
-            id: session.user.id,
-            email: session.user.email || '',
-          };
+          const user = await loadUser(session.user);
+          if (!mounted) return;
 
           setAuthState({ user, loading: false, error: null });
         } else {
@@ -77,21 +135,20 @@ export function useAuth() {
           clearTimeout(timeoutId);
         }
 
-        if (event === 'SIGNED_IN' && session?.user) {
-          const user: User = {
-            id: session.user.id,
-            email: session.user.email || '',
-          };
-          setAuthState({ user, loading: false, error: null });
+        if ((event === 'SIGNED_IN' || event === 'TOKEN_REFRESHED') && session?.user) {
+          if (event === 'TOKEN_REFRESHED') {
+            console.log('🔄 Token refreshed successfully');
+          }
+          const authUser = session.user;
+          // Query profiles outside the auth callback to avoid blocking the auth client
+          setTimeout(() => {
+            loadUser(authUser).then(user => {
+              if (mounted) setAuthState({ user, loading: false, error: null });
+            });
+          }, 0);
         } else if (event === 'SIGNED_OUT') {
+          userCache.clear();
           setAuthState({ user: null, loading: false, error: null });
-        } else if (event === 'TOKEN_REFRESHED' && session?.user) {
-          console.log('🔄 Token refreshed successfully');
-          const user: User = {
-            id: session.user.id,
-            email: session.user.email || '',
-          };
-          setAuthState({ user, loading: false, error: null });
         }
       }
     );
@@ -146,8 +203,20 @@ export function useAuth() {
     }
   };
 
+  const roles = authState.user?.roles;
+
+  const permissions = useMemo<Permission[]>(() => getPermissions(roles || []), [roles]);
+
+  const hasPermission = useCallback(
+    (permission: Permission) => roleHasPermission(roles || [], permission),
+    [roles]
+  );
+
   return {
     ...authState,
+    role: authState.user?.role ?? null,
+    permissions,
+    hasPermission,
     signIn,
     signOut,
   };
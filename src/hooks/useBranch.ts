@@ -0,0 +1,56 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useAuth } from './useAuth';
+import { Branch } from '../types';
+
+const STORAGE_KEY = 'selectedBranchId';
+
+// Shared by every useBranch instance so the header switcher and the pages stay in sync
+let selectedBranchId: string | null = localStorage.getItem(STORAGE_KEY);
+const listeners = new Set<(branchId: string | null) => void>();
+
+function selectBranch(branchId: string | null) {
+  selectedBranchId = branchId;
+
+  if (branchId) {
+    localStorage.setItem(STORAGE_KEY, branchId);
+  } else {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+
+  listeners.forEach(listener => listener(branchId));
+}
+
+export function useBranch() {
+  const { user } = useAuth();
+  const [branchId, setBranchId] = useState<string | null>(selectedBranchId);
+
+  useEffect(() => {
+    listeners.add(setBranchId);
+    return () => {
+      listeners.delete(setBranchId);
+    };
+  }, []);
+
+  const branches = useMemo<Branch[]>(() => user?.branches || [], [user]);
+
+  // Fall back to the default branch when nothing (or a branch the user lost) is selected
+  const currentBranch = useMemo<Branch | null>(() => {
+    return branches.find(branch => branch.id === branchId)
+      || branches.find(branch => branch.id === user?.defaultBranchId)
+      || branches[0]
+      || null;
+  }, [branches, branchId, user]);
+
+  const setCurrentBranch = useCallback((id: string) => {
+    if (branches.some(branch => branch.id === id)) {
+      console.log('🏢 Switching branch:', id);
+      selectBranch(id);
+    }
+  }, [branches]);
+
+  return {
+    branches,
+    currentBranch,
+    setCurrentBranch,
+  };
+}
@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import { AuditedTable, BCRABouncedChecksData, BCRAEligibilityAnalysis, BCRAEligibilityRule, DocumentType, IncomePolicy, LoanOperationReviewDecision, LoanOperationStatus, RejectionReasonCode, UserRole } from '../types';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -10,6 +11,9 @@ if (!supabaseUrl || !supabaseAnonKey) {
 // Ensure URL is properly formatted
 const formattedUrl = supabaseUrl.endsWith('/') ? supabaseUrl.slice(0, -1) : supabaseUrl;
 
+// Base URL for Supabase Edge Functions
+export const supabaseFunctionsUrl = `${formattedUrl}/functions/v1`;
+
 export const supabase = createClient(formattedUrl, supabaseAnonKey, {
   auth: {
     persistSession: true,
@@ -32,6 +36,17 @@ export const supabase = createClient(formattedUrl, supabaseAnonKey, {
   },
 });
 
+// Headers for calling Edge Functions with plain fetch, authenticated as the current user when signed in
+export async function getFunctionHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  return {
+    'Content-Type': 'application/json',
+    'apikey': supabaseAnonKey,
+    'Authorization': `Bearer ${session?.access_token || supabaseAnonKey}`,
+  };
+}
+
 export type Database = {
   public: {
     Tables: {
@@ -39,36 +54,48 @@ export type Database = {
         Row: {
           id: string;
           advisor_id: string;
+          branch_id: string | null;
           client_cuit: string;
           client_name?: string;
           assessment_result: 'eligible' | 'not_eligible' | 'pending';
           bcra_debt_data?: any;
           bcra_historical_data?: any;
           bcra_eligibility_status?: 'BCRA_APTO' | 'BCRA_NO_APTO' | 'BCRA_PENDING';
+          bcra_bounced_checks?: BCRABouncedChecksData | null;
+          bcra_bounced_checks_unavailable?: boolean;
+          bcra_eligibility_analysis?: BCRAEligibilityAnalysis;
           created_at: string;
           updated_at: string;
         };
         Insert: {
           id?: string;
           advisor_id: string;
+          branch_id?: string | null;
           client_cuit: string;
           client_name?: string;
           assessment_result: 'eligible' | 'not_eligible' | 'pending';
           bcra_debt_data?: any;
           bcra_historical_data?: any;
           bcra_eligibility_status?: 'BCRA_APTO' | 'BCRA_NO_APTO' | 'BCRA_PENDING';
+          bcra_bounced_checks?: BCRABouncedChecksData | null;
+          bcra_bounced_checks_unavailable?: boolean;
+          bcra_eligibility_analysis?: BCRAEligibilityAnalysis;
           created_at?: string;
           updated_at?: string;
         };
         Update: {
           id?: string;
           advisor_id?: string;
+          branch_id?: string | null;
           client_cuit?: string;
           client_name?: string;
           assessment_result?: 'eligible' | 'not_eligible' | 'pending';
           bcra_debt_data?: any;
           bcra_historical_data?: any;
           bcra_eligibility_status?: 'BCRA_APTO' | 'BCRA_NO_APTO' | 'BCRA_PENDING';
+          bcra_bounced_checks?: BCRABouncedChecksData | null;
+          bcra_bounced_checks_unavailable?: boolean;
+          bcra_eligibility_analysis?: BCRAEligibilityAnalysis;
           updated_at?: string;
         };
       };
@@ -78,14 +105,27 @@ export type Database = {
           operation_number: string;
           assessment_id: string;
           advisor_id: string;
+          branch_id: string | null;
+          product_id: string | null;
           client_cuit: string;
           client_name?: string;
-          status: 'pending' | 'in_progress' | 'completed' | 'rejected';
+          status: LoanOperationStatus;
           current_stage: 'contact_info' | 'documents' | 'veraz_data' | 'verification';
           contact_info: any;
           documents: any;
           veraz_data: any;
           verification_data: any;
+          rejection_reason_code: RejectionReasonCode | null;
+          rejection_justification: string | null;
+          status_changed_at: string | null;
+          status_changed_by: string | null;
+          submitted_at: string | null;
+          decided_at: string | null;
+          decided_by: string | null;
+          disbursed_at: string | null;
+          verified_by: string | null;
+          verified_at: string | null;
+          review_comments: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -94,9 +134,11 @@ export type Database = {
           operation_number: string;
           assessment_id: string;
           advisor_id: string;
+          branch_id?: string | null;
+          product_id?: string | null;
           client_cuit: string;
           client_name?: string;
-          status?: 'pending' | 'in_progress' | 'completed' | 'rejected';
+          status?: LoanOperationStatus;
           current_stage?: 'contact_info' | 'documents' | 'veraz_data' | 'verification';
           contact_info?: any;
           documents?: any;
@@ -110,17 +152,292 @@ export type Database = {
           operation_number?: string;
           assessment_id?: string;
           advisor_id?: string;
+          branch_id?: string | null;
+          product_id?: string | null;
           client_cuit?: string;
           client_name?: string;
-          status?: 'pending' | 'in_progress' | 'completed' | 'rejected';
+          status?: LoanOperationStatus;
           current_stage?: 'contact_info' | 'documents' | 'veraz_data' | 'verification';
           contact_info?: any;
           documents?: any;
           veraz_data?: any;
           verification_data?: any;
+          rejection_reason_code?: RejectionReasonCode | null;
+          rejection_justification?: string | null;
+          review_comments?: string | null;
           updated_at?: string;
         };
       };
+      loan_products: {
+        Row: {
+          id: string;
+          code: string;
+          name: string;
+          description: string | null;
+          is_active: boolean;
+          min_amount: number;
+          max_amount: number;
+          min_term_months: number;
+          max_term_months: number;
+          tna: number;
+          origination_fee_rate: number;
+          monthly_fee: number;
+          iva_rate: number;
+          max_payment_to_income_ratio: number | null;
+          max_debt_to_income_ratio: number | null;
+          income_policy: IncomePolicy;
+          debt_service_rate: number;
+          min_age: number | null;
+          max_age: number | null;
+          required_documents: DocumentType[];
+          eligibility_rule_set_version: number | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          code: string;
+          name: string;
+          description?: string | null;
+          is_active?: boolean;
+          min_amount: number;
+          max_amount: number;
+          min_term_months: number;
+          max_term_months: number;
+          tna: number;
+          origination_fee_rate?: number;
+          monthly_fee?: number;
+          iva_rate?: number;
+          max_payment_to_income_ratio?: number | null;
+          max_debt_to_income_ratio?: number | null;
+          income_policy?: IncomePolicy;
+          debt_service_rate?: number;
+          min_age?: number | null;
+          max_age?: number | null;
+          required_documents?: DocumentType[];
+          eligibility_rule_set_version?: number | null;
+        };
+        Update: {
+          code?: string;
+          name?: string;
+          description?: string | null;
+          is_active?: boolean;
+          min_amount?: number;
+          max_amount?: number;
+          min_term_months?: number;
+          max_term_months?: number;
+          tna?: number;
+          origination_fee_rate?: number;
+          monthly_fee?: number;
+          iva_rate?: number;
+          max_payment_to_income_ratio?: number | null;
+          max_debt_to_income_ratio?: number | null;
+          income_policy?: IncomePolicy;
+          debt_service_rate?: number;
+          min_age?: number | null;
+          max_age?: number | null;
+          required_documents?: DocumentType[];
+          eligibility_rule_set_version?: number | null;
+        };
+      };
+      eligibility_rule_sets: {
+        Row: {
+          id: string;
+          version: number;
+          name: string;
+          rules: BCRAEligibilityRule[];
+          is_active: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          version: number;
+          name: string;
+          rules: BCRAEligibilityRule[];
+          is_active?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          version?: number;
+          name?: string;
+          rules?: BCRAEligibilityRule[];
+          is_active?: boolean;
+        };
+      };
+      profiles: {
+        Row: {
+          id: string;
+          email: string;
+          full_name: string | null;
+          is_active: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id: string;
+          email: string;
+          full_name?: string | null;
+          is_active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          email?: string;
+          full_name?: string | null;
+          is_active?: boolean;
+          updated_at?: string;
+        };
+      };
+      audit_log: {
+        Row: {
+          id: number;
+          table_name: AuditedTable;
+          row_id: string;
+          action: 'INSERT' | 'UPDATE' | 'DELETE';
+          actor_id: string | null;
+          actor_email: string | null;
+          changed_at: string;
+          diff: Record<string, unknown>;
+        };
+        // Written only by the write_audit_log trigger
+        Insert: never;
+        Update: never;
+      };
+      document_access_log: {
+        Row: {
+          id: number;
+          operation_id: string;
+          file_path: string;
+          purpose: 'view' | 'pdf_export';
+          actor_id: string;
+          actor_email: string | null;
+          accessed_at: string;
+        };
+        // Written only by the log_document_access function
+        Insert: never;
+        Update: never;
+      };
+      loan_operation_documents: {
+        Row: {
+          id: string;
+          operation_id: string;
+          document_type: DocumentType;
+          file_path: string;
+          file_name: string | null;
+          content_type: string | null;
+          size_bytes: number | null;
+          sha256: string | null;
+          version: number;
+          replaces_id: string | null;
+          uploaded_by: string | null;
+          uploaded_by_email: string | null;
+          uploaded_at: string;
+        };
+        // Uploader, timestamp and version are stamped by the stamp_loan_operation_document trigger
+        Insert: {
+          operation_id: string;
+          document_type: DocumentType;
+          file_path: string;
+          file_name?: string | null;
+          content_type?: string | null;
+          size_bytes?: number | null;
+          sha256?: string | null;
+          replaces_id?: string | null;
+        };
+        // Versions are immutable
+        Update: never;
+      };
+      loan_operation_reviews: {
+        Row: {
+          id: string;
+          operation_id: string;
+          reviewer_id: string | null;
+          decision: LoanOperationReviewDecision;
+          comments: string | null;
+          created_at: string;
+        };
+        // Written only by the enforce_loan_operation_transition trigger
+        Insert: never;
+        Update: never;
+      };
+      branches: {
+        Row: {
+          id: string;
+          code: string;
+          name: string;
+          is_active: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          code: string;
+          name: string;
+          is_active?: boolean;
+        };
+        Update: {
+          code?: string;
+          name?: string;
+          is_active?: boolean;
+        };
+      };
+      teams: {
+        Row: {
+          id: string;
+          branch_id: string;
+          name: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          branch_id: string;
+          name: string;
+        };
+        Update: {
+          name?: string;
+        };
+      };
+      branch_memberships: {
+        Row: {
+          id: string;
+          user_id: string;
+          branch_id: string;
+          team_id: string | null;
+          is_default: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          branch_id: string;
+          team_id?: string | null;
+          is_default?: boolean;
+        };
+        Update: {
+          team_id?: string | null;
+          is_default?: boolean;
+        };
+      };
+      memberships: {
+        Row: {
+          id: string;
+          user_id: string;
+          role: UserRole;
+          created_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          role: UserRole;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          role?: UserRole;
+        };
+      };
     };
   };
 };
\ No newline at end of file
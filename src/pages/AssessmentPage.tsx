@@ -1,22 +1,52 @@
-import React, { useState } from 'react';
-import { ArrowLeft, CreditCard, AlertCircle, Building2, TrendingUp } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, CreditCard, AlertCircle, Building2, TrendingUp, WifiOff, RefreshCw } from 'lucide-react';
 import { formatCuit, isValidCuit } from '../utils/cuit';
 import { performLoanAssessment } from '../utils/assessment';
+import { BCRARetryEvent, getBCRACircuitStatus, subscribeToBCRACircuit, subscribeToBCRARetries } from '../utils/bcraApi';
+import { CircuitBreakerStatus } from '../utils/circuitBreaker';
+import { DEFAULT_ELIGIBILITY_RULE_SET, formatRuleCriterion } from '../utils/eligibilityRules';
+import { fetchActiveEligibilityRuleSet } from '../utils/eligibilityRuleSets';
+import { Assessment, BCRAEligibilityRuleSet } from '../types';
 import { Card } from '../components/Card';
 import { Input } from '../components/Input';
 import { Button } from '../components/Button';
 import { LoadingSpinner } from '../components/LoadingSpinner';
 
-interface AssessmentPageProps {
-  onBack: () => void;
-  onComplete: (assessment: any) => void;
-}
-
-export function AssessmentPage({ onBack, onComplete }: AssessmentPageProps) {
+export function AssessmentPage() {
+  const navigate = useNavigate();
   const [cuit, setCuit] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [assessmentStep, setAssessmentStep] = useState<'input' | 'processing' | 'bcra-current' | 'bcra-historical' | 'analyzing'>('input');
+  const [ruleSet, setRuleSet] = useState<BCRAEligibilityRuleSet>(DEFAULT_ELIGIBILITY_RULE_SET);
+  const [circuitStatus, setCircuitStatus] = useState<CircuitBreakerStatus>(getBCRACircuitStatus);
+  const [lastRetry, setLastRetry] = useState<BCRARetryEvent | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+
+    // Only the criteria list depends on it; a failed load leaves the assessment itself pending
+    fetchActiveEligibilityRuleSet()
+      .then(activeRuleSet => {
+        if (mounted) setRuleSet(activeRuleSet);
+      })
+      .catch(() => undefined);
+
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    const unsubscribeCircuit = subscribeToBCRACircuit(setCircuitStatus);
+    const unsubscribeRetries = subscribeToBCRARetries(setLastRetry);
+
+    return () => {
+      unsubscribeCircuit();
+      unsubscribeRetries();
+    };
+  }, []);
 
   const handleCuitChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const formatted = formatCuit(e.target.value);
@@ -34,6 +64,8 @@ export function AssessmentPage({ onBack, onComplete }: AssessmentPageProps) {
 
     setLoading(true);
     setError('');
+    setLastRetry(null);
+    setCircuitStatus(getBCRACircuitStatus());
     setAssessmentStep('processing');
 
     try {
@@ -51,16 +83,20 @@ export function AssessmentPage({ onBack, onComplete }: AssessmentPageProps) {
       }, 3000);
 
       const result = await performLoanAssessment(cuit);
-      onComplete({
+      const assessment: Partial<Assessment> = {
         client_cuit: cuit,
         client_name: result.clientName,
         assessment_result: result.result,
-        eligibility_score: result.score,
-        eligibility_factors: result.factors,
         bcra_debt_data: result.bcraData,
         bcra_historical_data: result.bcraHistoricalData,
+        // null: no checks on record; undefined: the lookup was unavailable
+        bcra_bounced_checks: result.bcraBouncedChecks,
+        bcra_bounced_checks_unavailable: result.bcraBouncedChecks === undefined,
         bcra_eligibility_status: result.bcraEligibilityStatus,
-      });
+        bcra_eligibility_analysis: result.bcraEligibilityAnalysis,
+      };
+      // ResultsPage saves it and moves to /assessments/:id
+      navigate('/assessments/result', { state: { assessment } });
     } catch (error) {
       setError('Failed to perform assessment. Please try again.');
       console.error('Assessment error:', error);
@@ -70,6 +106,52 @@ export function AssessmentPage({ onBack, onComplete }: AssessmentPageProps) {
     }
   };
 
+  const renderBCRAAvailability = () => {
+    if (circuitStatus.state === 'open') {
+      const retryAt = circuitStatus.openUntil
+        ? new Date(circuitStatus.openUntil).toLocaleTimeString('es-AR')
+        : null;
+
+      return (
+        <div className="mt-4 p-4 bg-amber-50 border border-amber-200 rounded-lg flex items-start">
+          <WifiOff className="w-5 h-5 text-amber-600 mr-3 mt-0.5 flex-shrink-0" />
+          <div className="text-sm text-amber-800">
+            <p className="font-medium mb-1">API del BCRA no disponible</p>
+            <p>
+              Se detectaron fallas repetidas al consultar el BCRA y las consultas quedaron en pausa
+              {retryAt ? ` hasta las ${retryAt}` : ''}. La evaluación quedará pendiente: el problema es la
+              disponibilidad del BCRA, no la situación del cliente.
+            </p>
+          </div>
+        </div>
+      );
+    }
+
+    if (circuitStatus.state === 'half_open') {
+      return (
+        <div className="mt-4 p-4 bg-blue-50 border border-blue-200 rounded-lg flex items-center">
+          <RefreshCw className="w-5 h-5 text-blue-600 mr-3 flex-shrink-0" />
+          <p className="text-sm text-blue-800">
+            Verificando si la API del BCRA volvió a estar disponible...
+          </p>
+        </div>
+      );
+    }
+
+    if (lastRetry) {
+      return (
+        <div className="mt-4 p-4 bg-amber-50 border border-amber-200 rounded-lg flex items-center">
+          <RefreshCw className="w-5 h-5 text-amber-600 mr-3 flex-shrink-0" />
+          <p className="text-sm text-amber-800">
+            El BCRA no respondió. Reintentando consulta (intento {lastRetry.attempt + 1} de {lastRetry.maxAttempts})...
+          </p>
+        </div>
+      );
+    }
+
+    return null;
+  };
+
   const renderLoadingStep = () => {
     switch (assessmentStep) {
       case 'processing':
@@ -136,9 +218,9 @@ export function AssessmentPage({ onBack, onComplete }: AssessmentPageProps) {
                 Evaluando criterios de elegibilidad BCRA...
               </p>
               <div className="text-sm text-gray-500 space-y-1">
-                <p>• Situación actual ≤ 1</p>
-                <p>• Últimos 6 meses ≤ 1</p>
-                <p>• Últimos 12 meses ≤ 2</p>
+                {ruleSet.rules.map(rule => (
+                  <p key={rule.id}>• {formatRuleCriterion(rule)}</p>
+                ))}
               </div>
             </div>
           </Card>
@@ -154,7 +236,7 @@ export function AssessmentPage({ onBack, onComplete }: AssessmentPageProps) {
       <div className="mb-6">
         <Button
           variant="outline"
-          onClick={onBack}
+          onClick={() => navigate('/')}
           className="mb-4 p-2"
           disabled={loading}
         >
@@ -201,10 +283,11 @@ export function AssessmentPage({ onBack, onComplete }: AssessmentPageProps) {
                 <p className="font-medium mb-1">Evaluación BCRA</p>
                 <p className="mb-2">Sistema de evaluación basado en criterios del Banco Central:</p>
                 <ul className="list-disc list-inside space-y-1 text-xs">
-                  <li>Situación crediticia actual ≤ 1</li>
-                  <li>Últimos 6 meses ≤ 1</li>
-                  <li>Últimos 12 meses ≤ 2</li>
+                  {ruleSet.rules.map(rule => (
+                    <li key={rule.id}>{formatRuleCriterion(rule)}</li>
+                  ))}
                 </ul>
+                <p className="text-xs text-blue-600 mt-2">Reglas v{ruleSet.version}</p>
               </div>
             </div>
           </div>
@@ -232,6 +315,7 @@ export function AssessmentPage({ onBack, onComplete }: AssessmentPageProps) {
       </Card>
 
       {loading && renderLoadingStep()}
+      {loading && renderBCRAAvailability()}
     </div>
   );
 }
\ No newline at end of file
@@ -1,68 +1,124 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { ArrowLeft, Search, FileText, Plus, Eye, Clock, CheckCircle, XCircle, Building2, Award } from 'lucide-react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Search, FileText, Plus, Eye, Clock, CheckCircle, XCircle, Building2, Award, Package } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../hooks/useAuth';
-import { Assessment, LoanOperation } from '../types';
+import { useBranch } from '../hooks/useBranch';
+import { Assessment, BCRAEligibilityRuleSet, LoanOperation, LoanOperationStatus, LoanProduct } from '../types';
+import { getStatusColor, getStatusLabel, isEditableStatus } from '../utils/loanOperationStatus';
+import { checkProductEligibility, fetchLoanProducts } from '../utils/loanProducts';
+import { fetchEligibilityRuleSetByVersion } from '../utils/eligibilityRuleSets';
 import { Card } from '../components/Card';
 import { Button } from '../components/Button';
 import { Input } from '../components/Input';
 import { LoadingSpinner } from '../components/LoadingSpinner';
 
-interface BackOfficePageProps {
-  onBack: () => void;
-  onStartLoanApplication: (assessment: Assessment) => void;
-  onViewLoanOperation: (operation: LoanOperation) => void;
-}
+type BackOfficeTab = 'approved' | 'operations';
 
-export function BackOfficePage({ onBack, onStartLoanApplication, onViewLoanOperation }: BackOfficePageProps) {
-  const { user } = useAuth();
+export function BackOfficePage() {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { user, hasPermission } = useAuth();
+  const { currentBranch } = useBranch();
   const [approvedAssessments, setApprovedAssessments] = useState<Assessment[]>([]);
   const [loanOperations, setLoanOperations] = useState<LoanOperation[]>([]);
+  const [products, setProducts] = useState<LoanProduct[]>([]);
+  const [productRuleSets, setProductRuleSets] = useState<Record<number, BCRAEligibilityRuleSet>>({});
+  const [pickingProductFor, setPickingProductFor] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
-  const [activeTab, setActiveTab] = useState<'approved' | 'operations'>('approved');
+  const activeTab: BackOfficeTab = searchParams.get('tab') === 'operations' ? 'operations' : 'approved';
+
+  const setActiveTab = (tab: BackOfficeTab) => {
+    setSearchParams(tab === 'approved' ? {} : { tab }, { replace: true });
+  };
+
+  const handleStartLoanApplication = (assessment: Assessment, product?: LoanProduct) => {
+    navigate(`/operations/new?assessment=${assessment.id}${product ? `&product=${product.id}` : ''}`);
+  };
+
+  // LoanApplicationPage opens the operation on its last saved stage
+  const handleViewLoanOperation = (operation: LoanOperation) => {
+    navigate(`/operations/${operation.operation_number}`);
+  };
 
   const fetchApprovedAssessments = useCallback(async () => {
     if (!user) return;
 
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from('assessments')
         .select('*')
-        .eq('advisor_id', user.id)
-        .eq('bcra_eligibility_status', 'BCRA_APTO')
-        .order('created_at', { ascending: false });
+        .eq('bcra_eligibility_status', 'BCRA_APTO');
+
+      // Reviewers see every advisor's assessments; RLS scopes what they can read
+      if (!hasPermission('assessments:view_all')) {
+        query = query.eq('advisor_id', user.id);
+      }
+
+      if (currentBranch) {
+        query = query.eq('branch_id', currentBranch.id);
+      }
+
+      const { data, error } = await query.order('created_at', { ascending: false });
 
       if (error) throw error;
       setApprovedAssessments(data || []);
     } catch (error) {
       console.error('Error fetching approved assessments:', error);
     }
-  }, [user]);
+  }, [user, hasPermission, currentBranch]);
 
   const fetchLoanOperations = useCallback(async () => {
     if (!user) return;
 
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from('loan_operations')
-        .select('*')
-        .eq('advisor_id', user.id)
-        .order('created_at', { ascending: false });
+        .select('*');
+
+      if (!hasPermission('operations:view_all')) {
+        query = query.eq('advisor_id', user.id);
+      }
+
+      if (currentBranch) {
+        query = query.eq('branch_id', currentBranch.id);
+      }
+
+      const { data, error } = await query.order('created_at', { ascending: false });
 
       if (error) throw error;
       setLoanOperations(data || []);
     } catch (error) {
       console.error('Error fetching loan operations:', error);
     }
-  }, [user]);
+  }, [user, hasPermission, currentBranch]);
+
+  // Active products, with the rule sets they evaluate eligibility against
+  const fetchProducts = useCallback(async () => {
+    if (!hasPermission('operations:create')) return;
+
+    try {
+      const productList = await fetchLoanProducts({ activeOnly: true });
+      const versions = [...new Set(productList.map(product => product.eligibility_rule_set_version).filter((version): version is number => version != null))];
+      // A rule set that fails to load only blocks the products that use it
+      const ruleSets = await Promise.allSettled(versions.map(version => fetchEligibilityRuleSetByVersion(version)));
+
+      setProducts(productList);
+      setProductRuleSets(Object.fromEntries(ruleSets
+        .filter((result): result is PromiseFulfilledResult<BCRAEligibilityRuleSet> => result.status === 'fulfilled')
+        .map(({ value }) => [value.version, value])));
+    } catch (error) {
+      console.error('Error fetching loan products:', error);
+    }
+  }, [hasPermission]);
 
   useEffect(() => {
     if (user) {
-      Promise.all([fetchApprovedAssessments(), fetchLoanOperations()])
+      Promise.all([fetchApprovedAssessments(), fetchLoanOperations(), fetchProducts()])
         .finally(() => setLoading(false));
     }
-  }, [user, fetchApprovedAssessments, fetchLoanOperations]);
+  }, [user, fetchApprovedAssessments, fetchLoanOperations, fetchProducts]);
 
   const filteredApprovedAssessments = useMemo(() => {
     if (!searchTerm) return approvedAssessments;
@@ -85,10 +141,10 @@ export function BackOfficePage({ onBack, onStartLoanApplication, onViewLoanOpera
     );
   }, [loanOperations, searchTerm]);
 
-  // Check if an assessment already has a completed operation
-  const hasCompletedOperation = useCallback((assessmentId: string) => {
-    return loanOperations.some(op => 
-      op.assessment_id === assessmentId && op.status === 'completed'
+  // Operation for an assessment that has already been submitted for review (or decided)
+  const getSubmittedOperation = useCallback((assessmentId: string) => {
+    return loanOperations.find(op => 
+      op.assessment_id === assessmentId && !isEditableStatus(op.status)
     );
   }, [loanOperations]);
 
@@ -101,12 +157,18 @@ export function BackOfficePage({ onBack, onStartLoanApplication, onViewLoanOpera
     setSearchTerm(e.target.value);
   }, []);
 
-  const getOperationStatusIcon = (status: string) => {
+  const getOperationStatusIcon = (status: LoanOperationStatus) => {
     switch (status) {
-      case 'completed':
+      case 'approved':
+      case 'disbursed':
         return <CheckCircle className="w-5 h-5 text-green-600" />;
       case 'rejected':
         return <XCircle className="w-5 h-5 text-red-600" />;
+      case 'cancelled':
+      case 'withdrawn':
+        return <XCircle className="w-5 h-5 text-gray-500" />;
+      case 'under_review':
+        return <Eye className="w-5 h-5 text-purple-600" />;
       case 'in_progress':
         return <Clock className="w-5 h-5 text-blue-600" />;
       default:
@@ -114,32 +176,6 @@ export function BackOfficePage({ onBack, onStartLoanApplication, onViewLoanOpera
     }
   };
 
-  const getOperationStatusColor = (status: string) => {
-    switch (status) {
-      case 'completed':
-        return 'bg-green-50 text-green-700 border-green-200';
-      case 'rejected':
-        return 'bg-red-50 text-red-700 border-red-200';
-      case 'in_progress':
-        return 'bg-blue-50 text-blue-700 border-blue-200';
-      default:
-        return 'bg-amber-50 text-amber-700 border-amber-200';
-    }
-  };
-
-  const getOperationStatusText = (status: string) => {
-    switch (status) {
-      case 'completed':
-        return 'COMPLETADA';
-      case 'rejected':
-        return 'RECHAZADA';
-      case 'in_progress':
-        return 'EN PROCESO';
-      default:
-        return 'PENDIENTE';
-    }
-  };
-
   const getStageText = (stage: string) => {
     switch (stage) {
       case 'contact_info':
@@ -171,7 +207,7 @@ export function BackOfficePage({ onBack, onStartLoanApplication, onViewLoanOpera
       <div className="flex items-center justify-between">
         <Button
           variant="outline"
-          onClick={onBack}
+          onClick={() => navigate('/')}
           className="p-2"
         >
           <ArrowLeft className="w-4 h-4" />
@@ -245,7 +281,8 @@ export function BackOfficePage({ onBack, onStartLoanApplication, onViewLoanOpera
           {filteredApprovedAssessments.length > 0 ? (
             <div className="space-y-3">
               {filteredApprovedAssessments.map((assessment) => {
-                const isCompleted = hasCompletedOperation(assessment.id);
+                const submittedOperation = getSubmittedOperation(assessment.id);
+                const isCompleted = !!submittedOperation;
                 const hasOperation = hasAnyOperation(assessment.id);
                 
                 return (
@@ -256,9 +293,9 @@ export function BackOfficePage({ onBack, onStartLoanApplication, onViewLoanOpera
                         <span className="px-2 py-1 rounded-full text-xs font-medium border bg-green-50 text-green-700 border-green-200">
                           BCRA APTO
                         </span>
-                        {isCompleted && (
-                          <span className="px-2 py-1 rounded-full text-xs font-medium border bg-blue-50 text-blue-700 border-blue-200">
-                            OPERACIÓN COMPLETADA
+                        {submittedOperation && (
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium border ${getStatusColor(submittedOperation.status)}`}>
+                            {getStatusLabel(submittedOperation.status)}
                           </span>
                         )}
                       </div>
@@ -268,11 +305,8 @@ export function BackOfficePage({ onBack, onStartLoanApplication, onViewLoanOpera
                           variant="outline"
                           size="sm"
                           onClick={() => {
-                            const operation = loanOperations.find(op => 
-                              op.assessment_id === assessment.id && op.status === 'completed'
-                            );
-                            if (operation) {
-                              onViewLoanOperation(operation);
+                            if (submittedOperation) {
+                              handleViewLoanOperation(submittedOperation);
                             }
                           }}
                           className="flex items-center space-x-1"
@@ -286,7 +320,7 @@ export function BackOfficePage({ onBack, onStartLoanApplication, onViewLoanOpera
                           onClick={() => {
                             const operation = loanOperations.find(op => op.assessment_id === assessment.id);
                             if (operation) {
-                              onViewLoanOperation(operation);
+                              handleViewLoanOperation(operation);
                             }
                           }}
                           className="flex items-center space-x-1"
@@ -294,10 +328,17 @@ export function BackOfficePage({ onBack, onStartLoanApplication, onViewLoanOpera
                           <FileText className="w-4 h-4" />
                           <span>Continuar</span>
                         </Button>
-                      ) : (
+                      ) : hasPermission('operations:create') && (
                         <Button
                           size="sm"
-                          onClick={() => onStartLoanApplication(assessment)}
+                          onClick={() => {
+                            // Without a catalogue the operation starts with the default limits
+                            if (products.length === 0) {
+                              handleStartLoanApplication(assessment);
+                            } else {
+                              setPickingProductFor(prev => prev === assessment.id ? null : assessment.id);
+                            }
+                          }}
                           className="flex items-center space-x-1"
                         >
                           <Plus className="w-4 h-4" />
@@ -305,6 +346,39 @@ export function BackOfficePage({ onBack, onStartLoanApplication, onViewLoanOpera
                         </Button>
                       )}
                     </div>
+
+                    {pickingProductFor === assessment.id && !hasOperation && (
+                      <div className="mb-3 space-y-2">
+                        <p className="text-sm font-medium text-gray-700">Seleccione el producto</p>
+                        {products.map(product => {
+                          const reasons = checkProductEligibility(
+                            product,
+                            assessment,
+                            product.eligibility_rule_set_version != null
+                              ? productRuleSets[product.eligibility_rule_set_version]
+                              : undefined
+                          );
+
+                          return (
+                            <button
+                              key={product.id}
+                              type="button"
+                              disabled={reasons.length > 0}
+                              onClick={() => handleStartLoanApplication(assessment, product)}
+                              className="w-full text-left p-3 rounded-lg border border-gray-200 hover:border-blue-300 hover:bg-blue-50 disabled:opacity-60 disabled:hover:bg-white disabled:hover:border-gray-200 disabled:cursor-not-allowed"
+                            >
+                              <div className="flex items-center space-x-2">
+                                <Package className="w-4 h-4 text-blue-600" />
+                                <span className="text-sm font-medium text-gray-900">{product.name}</span>
+                              </div>
+                              {reasons.map(reason => (
+                                <p key={reason} className="text-xs text-red-600 mt-1">{reason}</p>
+                              ))}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    )}
                     
                     <div className="space-y-2">
                       <div>
@@ -368,13 +442,13 @@ export function BackOfficePage({ onBack, onStartLoanApplication, onViewLoanOpera
                 <Card 
                   key={operation.id} 
                   className="cursor-pointer hover:shadow-md transition-shadow duration-200"
-                  onClick={() => onViewLoanOperation(operation)}
+                  onClick={() => handleViewLoanOperation(operation)}
                 >
                   <div className="flex items-center justify-between mb-3">
                     <div className="flex items-center space-x-2">
                       {getOperationStatusIcon(operation.status)}
-                      <span className={`px-2 py-1 rounded-full text-xs font-medium border ${getOperationStatusColor(operation.status)}`}>
-                        {getOperationStatusText(operation.status)}
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium border ${getStatusColor(operation.status)}`}>
+                        {getStatusLabel(operation.status)}
                       </span>
                     </div>
                     <Button
@@ -382,12 +456,12 @@ export function BackOfficePage({ onBack, onStartLoanApplication, onViewLoanOpera
                       size="sm"
                       onClick={(e) => {
                         e.stopPropagation();
-                        onViewLoanOperation(operation);
+                        handleViewLoanOperation(operation);
                       }}
                       className="flex items-center space-x-1"
                     >
                       <Eye className="w-4 h-4" />
-                      <span>{operation.status === 'completed' ? 'Resumen' : 'Ver'}</span>
+                      <span>{isEditableStatus(operation.status) ? 'Ver' : 'Resumen'}</span>
                     </Button>
                   </div>
                   
@@ -409,7 +483,7 @@ export function BackOfficePage({ onBack, onStartLoanApplication, onViewLoanOpera
                       </div>
                     )}
                     
-                    {operation.status !== 'completed' && (
+                    {isEditableStatus(operation.status) && (
                       <div>
                         <p className="text-sm text-gray-500">Etapa Actual</p>
                         <p className="text-sm font-medium">{getStageText(operation.current_stage)}</p>
@@ -418,10 +492,10 @@ export function BackOfficePage({ onBack, onStartLoanApplication, onViewLoanOpera
                     
                     <div>
                       <p className="text-sm text-gray-500">
-                        {operation.status === 'completed' ? 'Completado' : 'Creado'}
+                        {isEditableStatus(operation.status) ? 'Creado' : 'Último cambio de estado'}
                       </p>
                       <p className="text-sm">
-                        {new Date(operation.status === 'completed' ? operation.updated_at : operation.created_at).toLocaleDateString('es-AR', {
+                        {new Date(isEditableStatus(operation.status) ? operation.created_at : operation.status_changed_at || operation.updated_at).toLocaleDateString('es-AR', {
                           year: 'numeric',
                           month: 'short',
                           day: 'numeric',
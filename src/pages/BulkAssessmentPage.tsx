@@ -0,0 +1,285 @@
+import React, { useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Upload, FileSpreadsheet, Download, CheckCircle, XCircle, Clock, AlertTriangle } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { useBranch } from '../hooks/useBranch';
+import { formatCuit } from '../utils/cuit';
+import {
+  BulkAssessmentProgress,
+  BulkAssessmentResult,
+  BulkAssessmentRow,
+  BulkAssessmentStatus,
+  buildBulkResultsCsv,
+  downloadCsv,
+  getBulkStatusLabel,
+  parseBulkAssessmentCsv,
+  runBulkAssessment,
+} from '../utils/bulkAssessment';
+import { Card } from '../components/Card';
+import { Button } from '../components/Button';
+
+export function BulkAssessmentPage() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { currentBranch } = useBranch();
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<BulkAssessmentRow[]>([]);
+  const [results, setResults] = useState<BulkAssessmentResult[]>([]);
+  const [progress, setProgress] = useState<BulkAssessmentProgress | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState('');
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const validRows = rows.filter(row => row.isValid).length;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setError('');
+    setResults([]);
+    setProgress(null);
+
+    try {
+      const parsedRows = parseBulkAssessmentCsv(await file.text());
+
+      if (parsedRows.length === 0) {
+        setError('El archivo no contiene CUITs');
+        setRows([]);
+        return;
+      }
+
+      setFileName(file.name);
+      setRows(parsedRows);
+    } catch (error) {
+      console.error('❌ Error reading CSV file:', error);
+      setError('No se pudo leer el archivo. Verifique que sea un CSV válido.');
+    } finally {
+      // Allow selecting the same file again
+      e.target.value = '';
+    }
+  };
+
+  const handleStart = async () => {
+    if (!user || rows.length === 0) return;
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    setRunning(true);
+    setResults([]);
+    setError('');
+
+    try {
+      await runBulkAssessment(rows, {
+        advisorId: user.id,
+        branchId: currentBranch?.id,
+        signal: controller.signal,
+        onProgress: setProgress,
+        onResult: (result) => setResults(prev => [...prev, result]),
+      });
+    } catch (error) {
+      console.error('❌ Bulk assessment error:', error);
+      setError('La evaluación masiva se interrumpió. Descargue los resultados parciales e intente nuevamente.');
+    } finally {
+      abortControllerRef.current = null;
+      setRunning(false);
+    }
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleDownload = () => {
+    const baseName = fileName.replace(/\.[^.]+$/, '') || 'evaluaciones';
+    downloadCsv(buildBulkResultsCsv(results), `${baseName}_resultados_${new Date().toISOString().split('T')[0]}.csv`);
+  };
+
+  const getStatusIcon = (status: BulkAssessmentStatus) => {
+    switch (status) {
+      case 'eligible':
+        return <CheckCircle className="w-4 h-4 text-green-600" />;
+      case 'not_eligible':
+        return <XCircle className="w-4 h-4 text-red-600" />;
+      case 'pending':
+        return <Clock className="w-4 h-4 text-amber-600" />;
+      default:
+        return <AlertTriangle className="w-4 h-4 text-gray-500" />;
+    }
+  };
+
+  const renderSummary = () => {
+    if (results.length === 0) return null;
+
+    const counts = results.reduce((acc, result) => {
+      acc[result.status] = (acc[result.status] || 0) + 1;
+      return acc;
+    }, {} as Partial<Record<BulkAssessmentStatus, number>>);
+
+    return (
+      <div className="grid grid-cols-3 gap-2">
+        <div className="text-center rounded-lg border border-green-200 bg-green-50 p-2">
+          <div className="text-lg font-bold text-green-600">{counts.eligible || 0}</div>
+          <div className="text-xs text-gray-600">Elegibles</div>
+        </div>
+        <div className="text-center rounded-lg border border-red-200 bg-red-50 p-2">
+          <div className="text-lg font-bold text-red-600">{counts.not_eligible || 0}</div>
+          <div className="text-xs text-gray-600">No elegibles</div>
+        </div>
+        <div className="text-center rounded-lg border border-amber-200 bg-amber-50 p-2">
+          <div className="text-lg font-bold text-amber-600">
+            {(counts.pending || 0) + (counts.invalid || 0) + (counts.error || 0)}
+          </div>
+          <div className="text-xs text-gray-600">Pendientes / errores</div>
+        </div>
+      </div>
+    );
+  };
+
+  const renderProgress = () => {
+    if (!progress) return null;
+
+    const percentage = progress.total > 0 ? Math.round((progress.processed / progress.total) * 100) : 0;
+
+    return (
+      <div className="space-y-2">
+        <div className="flex justify-between text-sm text-gray-600">
+          <span>
+            {running && progress.current
+              ? `Evaluando ${progress.current.isValid ? formatCuit(progress.current.cuit) : progress.current.cuit}...`
+              : 'Evaluación finalizada'}
+          </span>
+          <span>{progress.processed} / {progress.total}</span>
+        </div>
+        <div className="w-full bg-gray-200 rounded-full h-2">
+          <div
+            className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+            style={{ width: `${percentage}%` }}
+          />
+        </div>
+      </div>
+    );
+  };
+
+  const renderResults = () => {
+    if (results.length === 0) return null;
+
+    return (
+      <Card>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-semibold text-gray-900">Resultados</h3>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleDownload}
+            disabled={running}
+            className="flex items-center"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Descargar CSV
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          {results.map(result => (
+            <div key={result.row.line} className="border border-gray-200 rounded-lg p-3">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  {getStatusIcon(result.status)}
+                  <span className="font-mono text-sm">
+                    {result.row.isValid ? formatCuit(result.row.cuit) : result.row.cuit || '—'}
+                  </span>
+                </div>
+                <span className="text-xs text-gray-500">Línea {result.row.line}</span>
+              </div>
+              {result.clientName && (
+                <p className="text-sm text-gray-700 mt-1">{result.clientName}</p>
+              )}
+              <p className="text-xs text-gray-600 mt-1">
+                {getBulkStatusLabel(result.status)}
+                {result.analysis?.currentSituation != null && ` · Sit. actual ${result.analysis.currentSituation}`}
+                {result.analysis?.last12MonthsWorstSituation != null && ` · Peor 12m ${result.analysis.last12MonthsWorstSituation}`}
+              </p>
+              {result.failureReasons.length > 0 && (
+                <p className="text-xs text-amber-700 mt-1">{result.failureReasons.join(' · ')}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      </Card>
+    );
+  };
+
+  return (
+    <div className="max-w-md mx-auto p-4 space-y-6">
+      <div>
+        <Button
+          variant="outline"
+          onClick={() => navigate('/')}
+          className="mb-4 p-2"
+          disabled={running}
+        >
+          <ArrowLeft className="w-4 h-4" />
+        </Button>
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Evaluación Masiva</h1>
+        <p className="text-gray-600">Cargue un CSV con CUITs (y opcionalmente nombres) para evaluarlos en lote</p>
+      </div>
+
+      <Card>
+        <div className="space-y-4">
+          <label className={`flex flex-col items-center justify-center border-2 border-dashed rounded-lg p-6 transition-colors ${
+            running ? 'border-gray-200 cursor-not-allowed' : 'border-gray-300 hover:border-blue-400 cursor-pointer'
+          }`}>
+            <Upload className="w-8 h-8 text-gray-400 mb-2" />
+            <span className="text-sm font-medium text-gray-700">Seleccionar archivo CSV</span>
+            <span className="text-xs text-gray-500 mt-1">Columnas: cuit, nombre (separadas por coma o punto y coma)</span>
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={handleFileChange}
+              disabled={running}
+              className="hidden"
+            />
+          </label>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          {rows.length > 0 && (
+            <div className="flex items-center space-x-3 bg-gray-50 rounded-lg p-3">
+              <FileSpreadsheet className="w-5 h-5 text-green-600 flex-shrink-0" />
+              <div className="text-sm">
+                <p className="font-medium text-gray-900">{fileName}</p>
+                <p className="text-gray-600">
+                  {rows.length} filas · {validRows} CUITs válidos
+                  {rows.length - validRows > 0 && ` · ${rows.length - validRows} inválidos`}
+                </p>
+              </div>
+            </div>
+          )}
+
+          {renderProgress()}
+
+          {rows.length > 0 && (
+            running ? (
+              <Button variant="danger" onClick={handleStop} className="w-full">
+                Detener
+              </Button>
+            ) : (
+              <Button onClick={handleStart} className="w-full" disabled={validRows === 0}>
+                Evaluar {validRows} CUITs
+              </Button>
+            )
+          )}
+        </div>
+      </Card>
+
+      {renderSummary()}
+      {renderResults()}
+    </div>
+  );
+}
@@ -1,7 +1,9 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { Plus, Search, History } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { Plus, Search, History, FileSpreadsheet } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../hooks/useAuth';
+import { useBranch } from '../hooks/useBranch';
 import { Assessment } from '../types';
 import { Card } from '../components/Card';
 import { Button } from '../components/Button';
@@ -9,13 +11,10 @@ import { Input } from '../components/Input';
 import { AssessmentCard } from '../components/AssessmentCard';
 import { LoadingSpinner } from '../components/LoadingSpinner';
 
-interface DashboardPageProps {
-  onNewAssessment: () => void;
-  onViewAssessment: (assessment: Assessment) => void;
-}
-
-export function DashboardPage({ onNewAssessment, onViewAssessment }: DashboardPageProps) {
-  const { user, signOut } = useAuth();
+export function DashboardPage() {
+  const navigate = useNavigate();
+  const { user, signOut, hasPermission } = useAuth();
+  const { currentBranch } = useBranch();
   const [assessments, setAssessments] = useState<Assessment[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
@@ -41,10 +40,20 @@ export function DashboardPage({ onNewAssessment, onViewAssessment }: DashboardPa
         return;
       }
       
-      const { data, error } = await supabase
+      let query = supabase
         .from('assessments')
-        .select('*')
-        .eq('advisor_id', user.id)
+        .select('*');
+
+      // Reviewers get branch-wide stats; RLS limits them to their own branches
+      if (!hasPermission('assessments:view_all')) {
+        query = query.eq('advisor_id', user.id);
+      }
+
+      if (currentBranch) {
+        query = query.eq('branch_id', currentBranch.id);
+      }
+
+      const { data, error } = await query
         .order('created_at', { ascending: false })
         .limit(50);
 
@@ -92,7 +101,7 @@ export function DashboardPage({ onNewAssessment, onViewAssessment }: DashboardPa
     } finally {
       setLoading(false);
     }
-  }, [user?.id, signOut]);
+  }, [user?.id, signOut, hasPermission, currentBranch]);
 
   useEffect(() => {
     let mounted = true;
@@ -110,7 +119,7 @@ export function DashboardPage({ onNewAssessment, onViewAssessment }: DashboardPa
     return () => {
       mounted = false;
     };
-  }, [user?.id]);
+  }, [user?.id, currentBranch?.id]);
 
   const filteredAssessments = useMemo(() => {
     if (!searchTerm) return assessments;
@@ -171,7 +180,7 @@ export function DashboardPage({ onNewAssessment, onViewAssessment }: DashboardPa
 
       {/* New Assessment Button */}
       <Button 
-        onClick={onNewAssessment}
+        onClick={() => navigate('/assessments/new')}
         className="w-full"
         size="lg"
       >
@@ -179,6 +188,16 @@ export function DashboardPage({ onNewAssessment, onViewAssessment }: DashboardPa
         Nueva Evaluación
       </Button>
 
+      {/* Bulk Assessment Button */}
+      <Button
+        variant="outline"
+        onClick={() => navigate('/assessments/bulk')}
+        className="w-full"
+      >
+        <FileSpreadsheet className="w-5 h-5 mr-2" />
+        Evaluación Masiva (CSV)
+      </Button>
+
       {/* Search */}
       <div className="relative">
         <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
@@ -237,7 +256,7 @@ export function DashboardPage({ onNewAssessment, onViewAssessment }: DashboardPa
               <AssessmentCard
                 key={assessment.id}
                 assessment={assessment}
-                onClick={() => onViewAssessment(assessment)}
+                onClick={() => navigate(`/assessments/${assessment.id}`)}
               />
             ))}
           </div>
@@ -256,7 +275,7 @@ export function DashboardPage({ onNewAssessment, onViewAssessment }: DashboardPa
               }
             </p>
             {!searchTerm && (
-              <Button onClick={onNewAssessment}>
+              <Button onClick={() => navigate('/assessments/new')}>
                 <Plus className="w-4 h-4 mr-2" />
                 Crear Evaluación
               </Button>
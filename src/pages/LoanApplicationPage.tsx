@@ -1,34 +1,119 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { ArrowLeft, User, FileText, BarChart3, CheckSquare, Upload, Calendar, Phone, Mail, DollarSign, AlertCircle, Award, Building2, Eye, Download } from 'lucide-react';
+import { useLocation, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, User, FileText, BarChart3, CheckSquare, Calendar, Phone, Mail, DollarSign, AlertCircle, Award, Building2, Download, Lock, XCircle, MessageSquare } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../hooks/useAuth';
-import { Assessment, LoanOperation, ContactInfo, DocumentsInfo, VerazData, VerificationData } from '../types';
+import { useBranch } from '../hooks/useBranch';
+import { Assessment, LoanOperation, LoanOperationDocument, LoanOperationReview, LoanOperationStatus, LoanProduct, ContactInfo, DocumentsInfo, DocumentType, VerazData, VerificationData } from '../types';
 import { Card } from '../components/Card';
 import { Button } from '../components/Button';
 import { Input } from '../components/Input';
 import { LoadingSpinner } from '../components/LoadingSpinner';
+import { AuditTimeline } from '../components/AuditTimeline';
+import { LoanSimulator } from '../components/LoanSimulator';
+import { AffordabilityPanel } from '../components/AffordabilityPanel';
+import { VerazImport } from '../components/VerazImport';
+import { DocumentSet } from '../components/DocumentSet';
+import { VerazImportValues } from '../utils/verazImport';
 import { formatAmount } from '../utils/bcraApi';
+import { applyLoanSimulation, formatCurrency, formatRate } from '../utils/loanCalculator';
+import { checkAffordability, formatRatio, getAffordabilityPolicy } from '../utils/affordability';
+import {
+  DocumentChecklistItem,
+  checkProductEligibility,
+  fetchLoanProduct,
+  getDocumentChecklist,
+  getDocumentFiles,
+  getDocumentLabel,
+  getProductLoanTerms,
+  validateProductAge,
+  validateProductTerms,
+  validateRequiredDocuments,
+} from '../utils/loanProducts';
 import { uploadDocument, getDocumentUrl, StorageError } from '../utils/storage';
+import { DocumentValidationError } from '../utils/documentValidation';
+import { ProcessedImage, processDocumentImage } from '../utils/imageProcessing';
+import { addOperationDocument, fetchOperationDocuments, getCurrentDocumentFiles } from '../utils/documentVersions';
 import { exportDigitalFile } from '../utils/pdfExport';
-
-interface LoanApplicationPageProps {
-  assessment?: Assessment | null;
-  operation?: LoanOperation | null;
-  onBack: () => void;
-  onComplete: () => void;
-}
+import { fetchEligibilityRuleSetByVersion } from '../utils/eligibilityRuleSets';
+import {
+  LoanOperationTransitionError,
+  REJECTION_REASONS,
+  RejectionDetails,
+  assertTransition,
+  fetchLoanOperationReviews,
+  getAvailableTransitions,
+  getReviewDecisionLabel,
+  getStatusColor,
+  getStatusLabel,
+  isEditableStatus,
+  transitionLoanOperation,
+  validateRejection,
+  validateReturnComments,
+} from '../utils/loanOperationStatus';
 
 type Stage = 'contact_info' | 'documents' | 'veraz_data' | 'verification';
 
-export function LoanApplicationPage({ assessment, operation, onBack, onComplete }: LoanApplicationPageProps) {
-  const { user } = useAuth();
-  const [currentStage, setCurrentStage] = useState<Stage>('contact_info');
+const STAGES: Stage[] = ['contact_info', 'documents', 'veraz_data', 'verification'];
+
+// Set by the route that created the operation so the stage route doesn't fetch it again
+interface LoanApplicationLocationState {
+  operation?: LoanOperation;
+}
+
+const isStage = (value: string | undefined): value is Stage =>
+  STAGES.includes(value as Stage);
+
+const getStatusDescription = (status: LoanOperationStatus): string => {
+  switch (status) {
+    case 'under_review':
+      return 'Datos completos, pendiente de la decisión de un supervisor';
+    case 'approved':
+      return 'Operación aprobada, pendiente de desembolso';
+    case 'rejected':
+      return 'La operación fue rechazada';
+    case 'disbursed':
+      return 'El préstamo fue desembolsado';
+    case 'cancelled':
+      return 'La operación fue cancelada';
+    case 'withdrawn':
+      return 'El cliente desistió de la operación';
+    default:
+      return 'Operación en curso';
+  }
+};
+
+export function LoanApplicationPage() {
+  const { operationNumber, stage: stageParam } = useParams<{ operationNumber: string; stage: string }>();
+  const [searchParams] = useSearchParams();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { user, hasPermission } = useAuth();
+  const { currentBranch } = useBranch();
   const [loading, setLoading] = useState(false);
-  const [operationData, setOperationData] = useState<LoanOperation | null>(operation || null);
+  const [operationData, setOperationData] = useState<LoanOperation | null>(() => {
+    const seeded = (location.state as LoanApplicationLocationState | null)?.operation;
+    return seeded && seeded.operation_number === operationNumber ? seeded : null;
+  });
   const [isReadOnly, setIsReadOnly] = useState(false);
   const [uploadingFiles, setUploadingFiles] = useState<Record<string, boolean>>({});
+  const [viewingDocument, setViewingDocument] = useState<string | null>(null);
+  // Before/after of the photos optimized in this session
+  const [processedImages, setProcessedImages] = useState<Partial<Record<DocumentType, ProcessedImage>>>({});
+  // Every uploaded version; null until loaded
+  const [documentVersions, setDocumentVersions] = useState<LoanOperationDocument[] | null>(null);
   const [exportingPDF, setExportingPDF] = useState(false);
-  const [fetchedAssessment, setFetchedAssessment] = useState<Assessment | null>(null);
+  const [assessment, setAssessment] = useState<Assessment | null>(null);
+  const [product, setProduct] = useState<LoanProduct | null>(null);
+  const [pageError, setPageError] = useState('');
+  const [transitioning, setTransitioning] = useState<LoanOperationStatus | null>(null);
+  const [showRejectionForm, setShowRejectionForm] = useState(false);
+  const [rejection, setRejection] = useState<RejectionDetails>({});
+  const [rejectionErrors, setRejectionErrors] = useState<Record<string, string>>({});
+  const [showReturnForm, setShowReturnForm] = useState(false);
+  const [returnComments, setReturnComments] = useState('');
+  const [returnErrors, setReturnErrors] = useState<Record<string, string>>({});
+  const [reviews, setReviews] = useState<LoanOperationReview[]>([]);
   
   // Form data states
   const [contactInfo, setContactInfo] = useState<ContactInfo>({});
@@ -40,26 +125,36 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [submitError, setSubmitError] = useState<string>('');
 
-  useEffect(() => {
-    if (operationData) {
-      console.log('📋 Loading operation data:', operationData.current_stage, 'Status:', operationData.status);
-      setCurrentStage(operationData.current_stage);
-      setContactInfo(operationData.contact_info || {});
-      setDocumentsInfo(operationData.documents || {});
-      setVerazData(operationData.veraz_data || {});
-      setVerificationData(operationData.verification_data || {});
-      
-      // Set read-only mode if operation is completed
-      setIsReadOnly(operationData.status === 'completed');
+  const fetchOperation = useCallback(async (number: string) => {
+    try {
+      setPageError('');
+      console.log('🔍 Fetching operation:', number);
 
-      // If we have an operation but no assessment, fetch the assessment data
-      if (operationData.assessment_id && !assessment) {
-        fetchAssessmentData(operationData.assessment_id);
+      const { data, error } = await supabase
+        .from('loan_operations')
+        .select('*')
+        .eq('operation_number', number)
+        .maybeSingle();
+
+      if (error) {
+        console.error('❌ Error fetching operation:', error);
+        setPageError('No se pudo cargar la operación');
+        return;
+      }
+
+      if (!data) {
+        setPageError(`No se encontró la operación ${number}`);
+        return;
       }
+
+      setOperationData(data);
+    } catch (error) {
+      console.error('❌ Error in fetchOperation:', error);
+      setPageError('No se pudo cargar la operación');
     }
-  }, [operationData, assessment]);
+  }, []);
 
-  const fetchAssessmentData = async (assessmentId: string) => {
+  const fetchAssessmentData = useCallback(async (assessmentId: string) => {
     try {
       console.log('🔍 Fetching assessment data for ID:', assessmentId);
       
@@ -71,14 +166,141 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
 
       if (error) {
         console.error('❌ Error fetching assessment:', error);
+        if (!operationNumber) setPageError('No se encontró la evaluación');
         return;
       }
 
       console.log('✅ Assessment data fetched:', data);
-      setFetchedAssessment(data);
+      setAssessment(data);
     } catch (error) {
       console.error('❌ Error in fetchAssessmentData:', error);
     }
+  }, [operationNumber]);
+
+  // New operations start from an assessment; existing ones are addressed by their number
+  const assessmentId = operationData?.assessment_id || (operationNumber ? null : searchParams.get('assessment'));
+  // Operations created before the product catalogue have none and keep the default limits
+  const productId = operationData?.product_id || (operationNumber ? null : searchParams.get('product'));
+
+  // The last saved stage and the one after it are reachable; anything else falls back to the saved stage
+  const savedStageIndex = operationData ? STAGES.indexOf(operationData.current_stage) : 0;
+  const currentStage: Stage = isStage(stageParam) && STAGES.indexOf(stageParam) <= savedStageIndex + 1
+    ? stageParam
+    : operationData?.current_stage || 'contact_info';
+
+  useEffect(() => {
+    if (!operationNumber || operationData?.operation_number === operationNumber) return;
+
+    fetchOperation(operationNumber);
+  }, [operationNumber, operationData?.operation_number, fetchOperation]);
+
+  useEffect(() => {
+    if (!assessmentId) {
+      if (!operationNumber) {
+        setPageError('Falta la evaluación para iniciar la operación');
+      }
+      return;
+    }
+
+    if (assessment?.id !== assessmentId) {
+      fetchAssessmentData(assessmentId);
+    }
+  }, [assessmentId, assessment?.id, operationNumber, fetchAssessmentData]);
+
+  useEffect(() => {
+    if (!productId || product?.id === productId) return;
+
+    fetchLoanProduct(productId)
+      .then(setProduct)
+      .catch(() => setPageError('No se pudo cargar el producto de la operación'));
+  }, [productId, product?.id]);
+
+  // The product comes from the URL: re-check it before a new operation is created with it
+  useEffect(() => {
+    if (operationNumber || !product || !assessment) return;
+
+    let cancelled = false;
+    const version = product.eligibility_rule_set_version;
+    const ruleSet = version != null
+      ? fetchEligibilityRuleSetByVersion(version).catch(() => undefined)
+      : Promise.resolve(undefined);
+
+    ruleSet.then(productRuleSet => {
+      const reasons = checkProductEligibility(product, assessment, productRuleSet);
+      if (!cancelled && reasons.length > 0) {
+        setPageError(`${product.name} no está disponible para esta evaluación: ${reasons.join('. ')}`);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [operationNumber, product, assessment]);
+
+  // Keep the URL on the stage actually shown, e.g. after opening /operations/:operationNumber
+  useEffect(() => {
+    if (operationData && operationData.operation_number === operationNumber && stageParam !== currentStage) {
+      navigate(`/operations/${operationData.operation_number}/${currentStage}`, { replace: true });
+    }
+  }, [operationData, operationNumber, stageParam, currentStage, navigate]);
+
+  useEffect(() => {
+    if (operationData) {
+      console.log('📋 Loading operation data:', operationData.current_stage, 'Status:', operationData.status);
+      setContactInfo(operationData.contact_info || {});
+      setDocumentsInfo(operationData.documents || {});
+      setVerazData(operationData.veraz_data || {});
+      setVerificationData(operationData.verification_data || {});
+      
+      // Stages can only be edited until the operation is submitted for review
+      setIsReadOnly(!isEditableStatus(operationData.status));
+    }
+  }, [operationData]);
+
+  useEffect(() => {
+    if (!operationData?.id) return;
+
+    fetchOperationDocuments(operationData.id)
+      .then(setDocumentVersions)
+      .catch(() => setPageError('No se pudieron cargar los documentos de la operación'));
+  }, [operationData?.id]);
+
+  // Review history changes with every status transition
+  useEffect(() => {
+    if (operationData?.id) {
+      fetchLoanOperationReviews(operationData.id).then(setReviews);
+    }
+  }, [operationData?.id, operationData?.status]);
+
+  // Analysts verify; the advisor who owns the operation fills in every other stage
+  const canEditStage = (stage: Stage) => {
+    const isOwner = !operationData || operationData.advisor_id === user?.id;
+
+    if (stage === 'verification') {
+      // Four eyes: the advisor can't verify their own operation
+      return hasPermission('operations:verify') && !isOwner;
+    }
+
+    return hasPermission('operations:edit_own') && isOwner;
+  };
+
+  const stageLocked = isReadOnly || !canEditStage(currentStage);
+  const pageLoading = !pageError && (operationNumber ? !operationData : !assessment);
+
+  const setCurrentStage = (stage: Stage, operation: LoanOperation | null = operationData) => {
+    if (!operation) return;
+
+    // /operations/new is replaced so going back doesn't start another operation
+    if (operationNumber) {
+      navigate(`/operations/${operation.operation_number}/${stage}`);
+    } else {
+      const state: LoanApplicationLocationState = { operation };
+      navigate(`/operations/${operation.operation_number}/${stage}`, { replace: true, state });
+    }
+  };
+
+  const handleBack = () => {
+    navigate(operationData ? '/backoffice?tab=operations' : '/backoffice');
   };
 
   const generateOperationNumber = async (): Promise<string> => {
@@ -124,7 +346,6 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
         
         const updateData: any = {
           current_stage: stage,
-          status: stage === 'verification' ? 'completed' : 'in_progress',
         };
 
         switch (stage) {
@@ -142,6 +363,13 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
             break;
         }
 
+        // Completing verification submits the operation for review
+        const nextStatus: LoanOperationStatus = stage === 'verification' ? 'under_review' : 'in_progress';
+        if (nextStatus !== operationData.status) {
+          assertTransition({ ...operationData, ...updateData }, nextStatus, { userId: user.id, roles: user.roles });
+        }
+        updateData.status = nextStatus;
+
         console.log('📝 Update data:', updateData);
 
         const { data, error } = await supabase
@@ -169,8 +397,11 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
           operation_number: operationNumber,
           assessment_id: assessment.id,
           advisor_id: user.id,
+          // Operations follow the branch where the client was assessed
+          branch_id: assessment.branch_id || currentBranch?.id || null,
           client_cuit: assessment.client_cuit,
           client_name: assessment.client_name,
+          product_id: product?.id ?? null,
           current_stage: stage,
           status: 'in_progress' as const,
           contact_info: stage === 'contact_info' ? stageData : {},
@@ -198,19 +429,24 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
       }
     } catch (error) {
       console.error('❌ Error in createOrUpdateOperation:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      const errorMessage = error instanceof LoanOperationTransitionError
+        ? error.errorMessages.join('. ')
+        : error instanceof Error ? error.message : 'Unknown error occurred';
       setSubmitError(errorMessage);
       throw error;
     } finally {
       setLoading(false);
     }
-  }, [user, assessment, operationData]);
+  }, [user, assessment, operationData, currentBranch, product]);
 
   const validateContactInfo = (data: ContactInfo): Record<string, string> => {
     const errors: Record<string, string> = {};
     
     if (!data.date_of_birth) {
       errors.date_of_birth = 'La fecha de nacimiento es requerida';
+    } else {
+      const ageError = validateProductAge(product, data.date_of_birth);
+      if (ageError) errors.date_of_birth = ageError;
     }
     
     if (!data.phone_number) {
@@ -228,20 +464,34 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
     return errors;
   };
 
+  // The version table is authoritative; the saved snapshot covers the moment before it loads
+  const currentDocumentsInfo: DocumentsInfo = documentVersions
+    ? { ...documentsInfo, files: getCurrentDocumentFiles(documentVersions) }
+    : documentsInfo;
+
+  const formatFileCount = (count: number) =>
+    count === 0 ? 'No subido' : `✓ ${count} ${count === 1 ? 'archivo' : 'archivos'}`;
+
   const validateDocuments = (data: DocumentsInfo): Record<string, string> => {
-    const errors: Record<string, string> = {};
-    
-    if (!data.id_card_front) {
-      errors.id_card_front = 'La foto del frente del DNI es requerida';
-    }
-    
-    if (!data.id_card_back) {
-      errors.id_card_back = 'La foto del dorso del DNI es requerida';
-    }
-    
-    return errors;
+    return validateRequiredDocuments(product, data);
   };
 
+  const getAffordability = (data: VerazData) => checkAffordability({
+    policy: getAffordabilityPolicy(product),
+    declaredIncome: documentsInfo.net_income,
+    verazIncome: data.veraz_report_income,
+    paymentAmount: data.payment_amount,
+    bcraDebtData: assessment?.bcra_debt_data,
+  });
+
+  // The stored ratio uses the income the product's policy selects
+  const simulate = (data: VerazData) => applyLoanSimulation(data, getAffordability(data).income);
+
+  // The rate is the product's; drafts saved with another one are brought in line while editable
+  const withProductRate = (data: VerazData): VerazData => product && !stageLocked && data.loan_terms
+    ? { ...data, loan_terms: { ...data.loan_terms, tna: product.tna } }
+    : data;
+
   const validateVerazData = (data: VerazData): Record<string, string> => {
     const errors: Record<string, string> = {};
     
@@ -269,6 +519,14 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
       errors.financial_inquiries_6m = 'Las consultas financieras son requeridas';
     }
     
+    if (!data.loan_terms?.term_months) {
+      errors.term_months = 'El plazo es requerido';
+    }
+    
+    if (data.loan_terms?.tna === undefined) {
+      errors.tna = 'La TNA es requerida';
+    }
+    
     if (data.payment_amount === undefined) {
       errors.payment_amount = 'El monto de cuota es requerido';
     }
@@ -281,7 +539,13 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
       errors.payment_to_income_ratio = 'La relación cuota/ingreso es requerida';
     }
     
-    return errors;
+    const affordability = getAffordability(data);
+    if (affordability.failures.length > 0) {
+      errors.affordability = affordability.failures.join('. ');
+    }
+    
+    // Product limits only matter once the field itself is filled in
+    return { ...validateProductTerms(product, data.loan_terms), ...errors };
   };
 
   const validateVerification = (data: VerificationData): Record<string, string> => {
@@ -311,6 +575,11 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
       return;
     }
 
+    if (!canEditStage(currentStage)) {
+      console.log('🔒 Current role cannot modify stage:', currentStage);
+      return;
+    }
+
     console.log('🚀 Starting handleNext for stage:', currentStage);
     
     let stageData: any;
@@ -323,15 +592,17 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
         console.log('📞 Contact info data:', stageData);
         break;
       case 'documents':
-        stageData = documentsInfo;
-        validationErrors = validateDocuments(documentsInfo);
+        stageData = currentDocumentsInfo;
+        validationErrors = validateDocuments(currentDocumentsInfo);
         console.log('📄 Documents data:', stageData);
         break;
-      case 'veraz_data':
-        stageData = verazData;
-        validationErrors = validateVerazData(verazData);
+      case 'veraz_data': {
+        const pricedVerazData = simulate(withProductRate(verazData));
+        stageData = { ...pricedVerazData, affordability: getAffordability(pricedVerazData) };
+        validationErrors = validateVerazData(stageData);
         console.log('📊 Veraz data:', stageData);
         break;
+      }
       case 'verification':
         stageData = verificationData;
         validationErrors = validateVerification(verificationData);
@@ -343,7 +614,9 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
 
     if (Object.keys(validationErrors).length > 0) {
       setErrors(validationErrors);
-      setSubmitError('Por favor, corrija los errores en el formulario');
+      setSubmitError(validationErrors.affordability
+        ? `La cuota excede la capacidad de pago: ${validationErrors.affordability}`
+        : 'Por favor, corrija los errores en el formulario');
       return;
     }
 
@@ -355,15 +628,14 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
       const updatedOperation = await createOrUpdateOperation(currentStage, stageData);
 
       // Move to next stage or complete
-      const stages: Stage[] = ['contact_info', 'documents', 'veraz_data', 'verification'];
-      const currentIndex = stages.indexOf(currentStage);
+      const currentIndex = STAGES.indexOf(currentStage);
       
-      if (currentIndex < stages.length - 1) {
-        const nextStage = stages[currentIndex + 1];
+      if (currentIndex < STAGES.length - 1) {
+        const nextStage = STAGES[currentIndex + 1];
         console.log('➡️ Moving to next stage:', nextStage);
         
-        // Update the current stage in the UI
-        setCurrentStage(nextStage);
+        // Update the current stage in the URL
+        setCurrentStage(nextStage, updatedOperation || operationData);
         
         // Also update the operation data to reflect the new stage
         if (updatedOperation) {
@@ -373,7 +645,7 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
         // Completed all stages
         console.log('🎉 All stages completed');
         setIsReadOnly(true); // Set to read-only mode
-        onComplete();
+        handleBack();
       }
     } catch (error) {
       console.error('❌ Error in handleNext:', error);
@@ -381,7 +653,52 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
     }
   };
 
-  const handleFileUpload = async (file: File, field: string) => {
+  const handleTransition = async (to: LoanOperationStatus) => {
+    if (!user || !operationData || transitioning) return;
+
+    if (to === 'rejected') {
+      const validationErrors = validateRejection(rejection);
+      setRejectionErrors(validationErrors);
+      if (Object.keys(validationErrors).length > 0) return;
+    }
+
+    const isReturn = to === 'in_progress' && operationData.status === 'under_review';
+    if (isReturn) {
+      const validationErrors = validateReturnComments(returnComments);
+      setReturnErrors(validationErrors);
+      if (Object.keys(validationErrors).length > 0) return;
+    }
+
+    try {
+      setTransitioning(to);
+      setSubmitError('');
+
+      const updated = await transitionLoanOperation(operationData, to, {
+        userId: user.id,
+        roles: user.roles,
+        rejection: to === 'rejected' ? rejection : undefined,
+        comments: isReturn ? returnComments : undefined,
+      });
+
+      setOperationData(updated);
+      setShowRejectionForm(false);
+      setRejection({});
+      setShowReturnForm(false);
+      setReturnComments('');
+    } catch (error) {
+      console.error('❌ Error changing operation status:', error);
+      setSubmitError(
+        error instanceof LoanOperationTransitionError
+          ? error.errorMessages.join('. ')
+          : 'No se pudo actualizar el estado de la operación'
+      );
+    } finally {
+      setTransitioning(null);
+    }
+  };
+
+  // Adds a file to the set of its type, or a new version of `replaces`
+  const handleFileUpload = async (file: File, field: DocumentType, replaces?: LoanOperationDocument) => {
     if (!operationData) {
       setErrors(prev => ({ ...prev, [field]: 'Debe guardar la operación antes de subir archivos' }));
       return;
@@ -393,24 +710,18 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
 
       console.log(`📤 Uploading ${field} for operation ${operationData.operation_number}`);
       
-      const filePath = await uploadDocument(
-        operationData.operation_number, 
-        file, 
-        field as 'id_card_front' | 'id_card_back' | 'salary_receipt'
-      );
+      const processed = await processDocumentImage(file);
+      const recorded = await addOperationDocument(operationData, field, processed?.file ?? file, replaces);
       
-      // Update the documents info with the file path
-      setDocumentsInfo(prev => ({
-        ...prev,
-        [field]: filePath
-      }));
+      setProcessedImages(prev => ({ ...prev, [field]: processed ?? undefined }));
+      setDocumentVersions(prev => [...(prev || []), recorded]);
 
-      console.log('✅ File uploaded successfully:', filePath);
+      console.log('✅ File uploaded successfully:', recorded.file_path);
     } catch (error) {
       console.error('❌ File upload error:', error);
       
       let errorMessage = 'Error al subir el archivo';
-      if (error instanceof StorageError) {
+      if (error instanceof StorageError || error instanceof DocumentValidationError) {
         errorMessage = error.message;
       }
       
@@ -420,11 +731,51 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
     }
   };
 
+  // Signed URLs expire within a minute, so one is requested on every click
+  const handleViewDocument = async (filePath: string, type: DocumentType) => {
+    // Opened before the await so the browser doesn't block it as a popup
+    const viewer = window.open('', '_blank');
+    setViewingDocument(filePath);
+    setErrors(prev => ({ ...prev, [type]: '' }));
+
+    try {
+      const url = await getDocumentUrl(filePath);
+      if (viewer) {
+        viewer.location.href = url;
+      } else {
+        window.location.href = url;
+      }
+    } catch (error) {
+      viewer?.close();
+      setErrors(prev => ({
+        ...prev,
+        [type]: error instanceof StorageError ? error.message : 'No se pudo abrir el documento',
+      }));
+    } finally {
+      setViewingDocument(null);
+    }
+  };
+
+  // Values are only applied to the form; they are saved with the stage like typed ones
+  const handleVerazImport = async (values: VerazImportValues, file: File) => {
+    if (!operationData) {
+      throw new StorageError('Debe guardar la operación antes de importar el reporte');
+    }
+
+    const { path, sha256 } = await uploadDocument(operationData.operation_number, file, 'veraz_report');
+    console.log('📥 Veraz report stored:', path);
+
+    setVerazData(prev => simulate({
+      ...prev,
+      ...values,
+      veraz_report_file: path,
+      veraz_report_sha256: sha256,
+      veraz_report_imported_at: new Date().toISOString(),
+    }));
+  };
+
   const handleExportPDF = async () => {
-    // Use the assessment prop first, then fallback to fetched assessment
-    const assessmentData = assessment || fetchedAssessment;
-    
-    if (!assessmentData) {
+    if (!assessment) {
       console.error('❌ No assessment data available for PDF export');
       setSubmitError('No hay datos de evaluación disponibles para exportar el PDF');
       return;
@@ -435,7 +786,7 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
       console.log('📄 Exporting digital file PDF...');
       
       await exportDigitalFile({
-        assessment: assessmentData,
+        assessment,
         operation: operationData || undefined
       });
       
@@ -475,7 +826,7 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
   };
 
   const renderProgressBar = () => {
-    const stages: Stage[] = ['contact_info', 'documents', 'veraz_data', 'verification'];
+    const stages = STAGES;
     const currentIndex = stages.indexOf(currentStage);
 
     console.log('🎯 Rendering progress bar - current stage:', currentStage, 'index:', currentIndex);
@@ -510,8 +861,7 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
   };
 
   const renderAssessmentSummary = () => {
-    const assessmentData = assessment || fetchedAssessment;
-    if (!assessmentData && !operationData?.assessment_id) return null;
+    if (!assessment && !operationData?.assessment_id) return null;
 
     return (
       <Card className="mb-6">
@@ -533,8 +883,8 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
           <div>
             <p className="text-gray-500">Fecha Evaluación</p>
             <p className="font-medium">
-              {assessmentData?.created_at 
-                ? new Date(assessmentData.created_at).toLocaleDateString('es-AR')
+              {assessment?.created_at 
+                ? new Date(assessment.created_at).toLocaleDateString('es-AR')
                 : 'N/A'
               }
             </p>
@@ -555,12 +905,12 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
             <div className="w-16 h-16 bg-green-100 rounded-2xl flex items-center justify-center mx-auto mb-4">
               <CheckSquare className="w-8 h-8 text-green-600" />
             </div>
-            <h2 className="text-xl font-bold text-gray-900 mb-2">Operación Completada</h2>
-            <p className="text-gray-600 mb-4">Todos los datos han sido recopilados exitosamente</p>
+            <h2 className="text-xl font-bold text-gray-900 mb-2">Resumen de la Operación</h2>
+            <p className="text-gray-600 mb-4">{getStatusDescription(operationData.status)}</p>
             <div className="flex flex-col items-center space-y-3">
-              <div className="inline-flex items-center px-4 py-2 rounded-full bg-green-50 text-green-700 border border-green-200">
+              <div className={`inline-flex items-center px-4 py-2 rounded-full border ${getStatusColor(operationData.status)}`}>
                 <CheckSquare className="w-4 h-4 mr-2" />
-                <span className="font-medium">COMPLETADA</span>
+                <span className="font-medium">{getStatusLabel(operationData.status)}</span>
               </div>
               
               {/* Export PDF Button */}
@@ -578,6 +928,23 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
           </div>
         </Card>
 
+        {/* Rejection Details */}
+        {operationData.status === 'rejected' && operationData.rejection_reason_code && (
+          <Card className="border-red-200 bg-red-50">
+            <h3 className="font-semibold text-red-800 mb-2 flex items-center">
+              <XCircle className="w-5 h-5 mr-2" />
+              Motivo del Rechazo
+            </h3>
+            <p className="text-sm font-medium text-red-700">{REJECTION_REASONS[operationData.rejection_reason_code]}</p>
+            {operationData.rejection_justification && (
+              <p className="text-sm text-red-600 mt-2 whitespace-pre-line">{operationData.rejection_justification}</p>
+            )}
+          </Card>
+        )}
+
+        {/* Review History */}
+        {renderReviewHistory()}
+
         {/* Pre-evaluation Summary */}
         {renderAssessmentSummary()}
 
@@ -610,18 +977,12 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
             Documentos
           </h3>
           <div className="space-y-3">
-            <div className="flex justify-between">
-              <span className="text-gray-600">DNI Frente:</span>
-              <span className="font-medium">{documentsInfo.id_card_front ? '✓ Subido' : 'No subido'}</span>
-            </div>
-            <div className="flex justify-between">
-              <span className="text-gray-600">DNI Dorso:</span>
-              <span className="font-medium">{documentsInfo.id_card_back ? '✓ Subido' : 'No subido'}</span>
-            </div>
-            <div className="flex justify-between">
-              <span className="text-gray-600">Recibo de Sueldo:</span>
-              <span className="font-medium">{documentsInfo.salary_receipt ? '✓ Subido' : 'No subido'}</span>
-            </div>
+            {getDocumentChecklist(product, currentDocumentsInfo).map(({ type }) => (
+              <div key={type} className="flex justify-between">
+                <span className="text-gray-600">{getDocumentLabel(type)}:</span>
+                <span className="font-medium">{formatFileCount(getDocumentFiles(currentDocumentsInfo, type).length)}</span>
+              </div>
+            ))}
             {documentsInfo.net_income && (
               <div className="flex justify-between">
                 <span className="text-gray-600">Ingresos Netos:</span>
@@ -672,16 +1033,46 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <p className="text-gray-500">Monto Solicitado</p>
-                  <p className="font-medium">{verazData.requested_amount ? formatAmount(verazData.requested_amount) : 'N/A'}</p>
+                  <p className="font-medium">{verazData.requested_amount ? formatCurrency(verazData.requested_amount) : 'N/A'}</p>
                 </div>
                 <div>
                   <p className="text-gray-500">Monto de Cuota</p>
-                  <p className="font-medium">{verazData.payment_amount ? formatAmount(verazData.payment_amount) : 'N/A'}</p>
+                  <p className="font-medium">{verazData.payment_amount ? formatCurrency(verazData.payment_amount) : 'N/A'}</p>
                 </div>
-                <div className="col-span-2">
+                <div>
                   <p className="text-gray-500">Relación Cuota/Ingreso</p>
-                  <p className="font-medium">{verazData.payment_to_income_ratio ? `${(verazData.payment_to_income_ratio * 100).toFixed(1)}%` : 'N/A'}</p>
+                  <p className="font-medium">{verazData.payment_to_income_ratio ? formatRatio(verazData.payment_to_income_ratio) : 'N/A'}</p>
                 </div>
+                <div>
+                  <p className="text-gray-500">Endeudamiento Total</p>
+                  <p className="font-medium">
+                    {verazData.affordability?.debt_to_income_ratio !== undefined
+                      ? formatRatio(verazData.affordability.debt_to_income_ratio)
+                      : 'N/A'}
+                  </p>
+                </div>
+                {verazData.loan_terms && (
+                  <>
+                    <div>
+                      <p className="text-gray-500">Plazo / TNA</p>
+                      <p className="font-medium">
+                        {verazData.loan_terms.term_months} meses · {verazData.loan_terms.tna !== undefined ? formatRate(verazData.loan_terms.tna) : 'N/A'}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-gray-500">TEA</p>
+                      <p className="font-medium">{verazData.tea !== undefined ? formatRate(verazData.tea) : 'N/A'}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-500">CFTEA sin IVA</p>
+                      <p className="font-medium">{verazData.cft !== undefined ? formatRate(verazData.cft) : 'N/A'}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-500">CFTEA con IVA</p>
+                      <p className="font-medium">{verazData.cft_with_iva !== undefined ? formatRate(verazData.cft_with_iva) : 'N/A'}</p>
+                    </div>
+                  </>
+                )}
               </div>
             </div>
           </div>
@@ -712,6 +1103,193 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
     );
   };
 
+  const renderReviewHistory = () => {
+    if (reviews.length === 0) return null;
+
+    return (
+      <Card>
+        <h3 className="font-semibold text-gray-900 mb-4 flex items-center">
+          <MessageSquare className="w-5 h-5 mr-2" />
+          Revisiones
+        </h3>
+        <div className="space-y-3">
+          {reviews.map(review => (
+            <div key={review.id} className="border-l-2 border-gray-200 pl-3">
+              <div className="flex justify-between text-sm">
+                <span className="font-medium text-gray-900">{getReviewDecisionLabel(review.decision)}</span>
+                <span className="text-gray-500">{new Date(review.created_at).toLocaleDateString('es-AR')}</span>
+              </div>
+              {review.comments && (
+                <p className="text-sm text-gray-600 mt-1 whitespace-pre-line">{review.comments}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      </Card>
+    );
+  };
+
+  const renderStatusActions = () => {
+    if (!user || !operationData) return null;
+
+    // Submission for review happens through the stage flow; in_progress is only offered as a return
+    const transitions = getAvailableTransitions(operationData, { userId: user.id, roles: user.roles })
+      .filter(to => to !== 'under_review' && (to !== 'in_progress' || operationData.status === 'under_review'));
+
+    if (transitions.length === 0) return null;
+
+    return (
+      <Card>
+        <h3 className="font-semibold text-gray-900 mb-4">Acciones</h3>
+
+        <div className="flex flex-wrap gap-2">
+          {transitions.includes('approved') && (
+            <Button
+              variant="success"
+              size="sm"
+              onClick={() => handleTransition('approved')}
+              loading={transitioning === 'approved'}
+              disabled={transitioning !== null}
+            >
+              Aprobar
+            </Button>
+          )}
+          {transitions.includes('in_progress') && (
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => {
+                setShowReturnForm(prev => !prev);
+                setShowRejectionForm(false);
+              }}
+              disabled={transitioning !== null}
+            >
+              Devolver
+            </Button>
+          )}
+          {transitions.includes('rejected') && (
+            <Button
+              variant="danger"
+              size="sm"
+              onClick={() => {
+                setShowRejectionForm(prev => !prev);
+                setShowReturnForm(false);
+              }}
+              disabled={transitioning !== null}
+            >
+              Rechazar
+            </Button>
+          )}
+          {transitions.includes('disbursed') && (
+            <Button
+              size="sm"
+              onClick={() => handleTransition('disbursed')}
+              loading={transitioning === 'disbursed'}
+              disabled={transitioning !== null}
+            >
+              Registrar Desembolso
+            </Button>
+          )}
+          {transitions.includes('withdrawn') && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleTransition('withdrawn')}
+              loading={transitioning === 'withdrawn'}
+              disabled={transitioning !== null}
+            >
+              Desistimiento del Cliente
+            </Button>
+          )}
+          {transitions.includes('cancelled') && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleTransition('cancelled')}
+              loading={transitioning === 'cancelled'}
+              disabled={transitioning !== null}
+            >
+              Cancelar Operación
+            </Button>
+          )}
+        </div>
+
+        {showReturnForm && (
+          <div className="mt-4 pt-4 border-t border-gray-200 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Observaciones para el asesor y el analista</label>
+              <textarea
+                value={returnComments}
+                onChange={(e) => setReturnComments(e.target.value)}
+                rows={4}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder="Indique qué debe corregirse antes de volver a enviar la operación"
+              />
+              {returnErrors.comments && (
+                <p className="text-sm text-red-600 mt-1">{returnErrors.comments}</p>
+              )}
+            </div>
+
+            <Button
+              variant="secondary"
+              onClick={() => handleTransition('in_progress')}
+              loading={transitioning === 'in_progress'}
+              disabled={transitioning !== null}
+              className="w-full"
+            >
+              Confirmar Devolución
+            </Button>
+          </div>
+        )}
+
+        {showRejectionForm && (
+          <div className="mt-4 pt-4 border-t border-gray-200 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Motivo del rechazo</label>
+              <select
+                value={rejection.reasonCode || ''}
+                onChange={(e) => setRejection(prev => ({ ...prev, reasonCode: (e.target.value || undefined) as RejectionDetails['reasonCode'] }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">Seleccione un motivo</option>
+                {Object.entries(REJECTION_REASONS).map(([code, label]) => (
+                  <option key={code} value={code}>{label}</option>
+                ))}
+              </select>
+              {rejectionErrors.reasonCode && (
+                <p className="text-sm text-red-600 mt-1">{rejectionErrors.reasonCode}</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Justificación</label>
+              <textarea
+                value={rejection.justification || ''}
+                onChange={(e) => setRejection(prev => ({ ...prev, justification: e.target.value }))}
+                rows={4}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder="Detalle los motivos de la decisión"
+              />
+              {rejectionErrors.justification && (
+                <p className="text-sm text-red-600 mt-1">{rejectionErrors.justification}</p>
+              )}
+            </div>
+
+            <Button
+              variant="danger"
+              onClick={() => handleTransition('rejected')}
+              loading={transitioning === 'rejected'}
+              disabled={transitioning !== null}
+              className="w-full"
+            >
+              Confirmar Rechazo
+            </Button>
+          </div>
+        )}
+      </Card>
+    );
+  };
+
   const renderContactInfoStage = () => (
     <Card>
       <div className="text-center mb-6">
@@ -727,10 +1305,10 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
           type="date"
           label="Fecha de Nacimiento"
           value={contactInfo.date_of_birth || ''}
-          onChange={(e) => !isReadOnly && setContactInfo(prev => ({ ...prev, date_of_birth: e.target.value }))}
+          onChange={(e) => !stageLocked && setContactInfo(prev => ({ ...prev, date_of_birth: e.target.value }))}
           error={errors.date_of_birth}
           required
-          disabled={isReadOnly}
+          disabled={stageLocked}
         />
 
         <Input
@@ -738,10 +1316,10 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
           label="Número de Teléfono"
           placeholder="+54 11 1234-5678"
           value={contactInfo.phone_number || ''}
-          onChange={(e) => !isReadOnly && setContactInfo(prev => ({ ...prev, phone_number: e.target.value }))}
+          onChange={(e) => !stageLocked && setContactInfo(prev => ({ ...prev, phone_number: e.target.value }))}
           error={errors.phone_number}
           required
-          disabled={isReadOnly}
+          disabled={stageLocked}
         />
 
         <Input
@@ -749,15 +1327,32 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
           label="Dirección de Email"
           placeholder="cliente@email.com"
           value={contactInfo.email_address || ''}
-          onChange={(e) => !isReadOnly && setContactInfo(prev => ({ ...prev, email_address: e.target.value }))}
+          onChange={(e) => !stageLocked && setContactInfo(prev => ({ ...prev, email_address: e.target.value }))}
           error={errors.email_address}
           required
-          disabled={isReadOnly}
+          disabled={stageLocked}
         />
       </div>
     </Card>
   );
 
+  const renderDocumentUpload = ({ type, required }: DocumentChecklistItem) => (
+    <DocumentSet
+      key={type}
+      type={type}
+      required={required}
+      documents={documentVersions || []}
+      locked={stageLocked}
+      uploading={!!uploadingFiles[type]}
+      viewing={viewingDocument}
+      processed={processedImages[type]}
+      error={errors[type]}
+      onView={(filePath) => handleViewDocument(filePath, type)}
+      onAdd={(file) => handleFileUpload(file, type)}
+      onReplace={(document, file) => handleFileUpload(file, type, document)}
+    />
+  );
+
   const renderDocumentsStage = () => (
     <Card>
       <div className="text-center mb-6">
@@ -774,142 +1369,15 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
       </div>
 
       <div className="space-y-4">
-        <div>
-          <label className="block text-sm font-medium text-gray-700 mb-2">
-            DNI Frente <span className="text-red-500">*</span>
-          </label>
-          {isReadOnly ? (
-            <div className="border border-gray-200 rounded-lg p-4 bg-gray-50">
-              <p className="text-sm text-gray-600">
-                {documentsInfo.id_card_front ? `✓ Archivo: ${documentsInfo.id_card_front}` : 'No subido'}
-              </p>
-            </div>
-          ) : (
-            <div className="border-2 border-dashed border-gray-300 rounded-lg p-4 text-center">
-              {uploadingFiles.id_card_front ? (
-                <div className="flex items-center justify-center space-x-2">
-                  <LoadingSpinner size="sm" />
-                  <span className="text-sm text-gray-600">Subiendo...</span>
-                </div>
-              ) : (
-                <>
-                  <Upload className="w-8 h-8 text-gray-400 mx-auto mb-2" />
-                  <input
-                    type="file"
-                    accept="image/*"
-                    onChange={(e) => {
-                      const file = e.target.files?.[0];
-                      if (file) handleFileUpload(file, 'id_card_front');
-                    }}
-                    className="hidden"
-                    id="id-front"
-                    disabled={isReadOnly || uploadingFiles.id_card_front}
-                  />
-                  <label htmlFor="id-front" className="cursor-pointer text-blue-600 hover:text-blue-700">
-                    {documentsInfo.id_card_front ? '✓ Archivo subido - Cambiar' : 'Seleccionar archivo'}
-                  </label>
-                </>
-              )}
-            </div>
-          )}
-          {errors.id_card_front && (
-            <p className="text-sm text-red-600 mt-1">{errors.id_card_front}</p>
-          )}
-        </div>
-
-        <div>
-          <label className="block text-sm font-medium text-gray-700 mb-2">
-            DNI Dorso <span className="text-red-500">*</span>
-          </label>
-          {isReadOnly ? (
-            <div className="border border-gray-200 rounded-lg p-4 bg-gray-50">
-              <p className="text-sm text-gray-600">
-                {documentsInfo.id_card_back ? `✓ Archivo: ${documentsInfo.id_card_back}` : 'No subido'}
-              </p>
-            </div>
-          ) : (
-            <div className="border-2 border-dashed border-gray-300 rounded-lg p-4 text-center">
-              {uploadingFiles.id_card_back ? (
-                <div className="flex items-center justify-center space-x-2">
-                  <LoadingSpinner size="sm" />
-                  <span className="text-sm text-gray-600">Subiendo...</span>
-                </div>
-              ) : (
-                <>
-                  <Upload className="w-8 h-8 text-gray-400 mx-auto mb-2" />
-                  <input
-                    type="file"
-                    accept="image/*"
-                    onChange={(e) => {
-                      const file = e.target.files?.[0];
-                      if (file) handleFileUpload(file, 'id_card_back');
-                    }}
-                    className="hidden"
-                    id="id-back"
-                    disabled={isReadOnly || uploadingFiles.id_card_back}
-                  />
-                  <label htmlFor="id-back" className="cursor-pointer text-blue-600 hover:text-blue-700">
-                    {documentsInfo.id_card_back ? '✓ Archivo subido - Cambiar' : 'Seleccionar archivo'}
-                  </label>
-                </>
-              )}
-            </div>
-          )}
-          {errors.id_card_back && (
-            <p className="text-sm text-red-600 mt-1">{errors.id_card_back}</p>
-          )}
-        </div>
-
-        <div>
-          <label className="block text-sm font-medium text-gray-700 mb-2">
-            Recibo de Sueldo (Opcional)
-          </label>
-          {isReadOnly ? (
-            <div className="border border-gray-200 rounded-lg p-4 bg-gray-50">
-              <p className="text-sm text-gray-600">
-                {documentsInfo.salary_receipt ? `✓ Archivo: ${documentsInfo.salary_receipt}` : 'No subido'}
-              </p>
-            </div>
-          ) : (
-            <div className="border-2 border-dashed border-gray-300 rounded-lg p-4 text-center">
-              {uploadingFiles.salary_receipt ? (
-                <div className="flex items-center justify-center space-x-2">
-                  <LoadingSpinner size="sm" />
-                  <span className="text-sm text-gray-600">Subiendo...</span>
-                </div>
-              ) : (
-                <>
-                  <Upload className="w-8 h-8 text-gray-400 mx-auto mb-2" />
-                  <input
-                    type="file"
-                    accept="image/*,.pdf"
-                    onChange={(e) => {
-                      const file = e.target.files?.[0];
-                      if (file) handleFileUpload(file, 'salary_receipt');
-                    }}
-                    className="hidden"
-                    id="salary-receipt"
-                    disabled={isReadOnly || uploadingFiles.salary_receipt}
-                  />
-                  <label htmlFor="salary-receipt" className="cursor-pointer text-blue-600 hover:text-blue-700">
-                    {documentsInfo.salary_receipt ? '✓ Archivo subido - Cambiar' : 'Seleccionar archivo'}
-                  </label>
-                </>
-              )}
-            </div>
-          )}
-          {errors.salary_receipt && (
-            <p className="text-sm text-red-600 mt-1">{errors.salary_receipt}</p>
-          )}
-        </div>
+        {getDocumentChecklist(product, currentDocumentsInfo).map(renderDocumentUpload)}
 
         <Input
           type="number"
           label="Ingresos Netos (Opcional)"
           placeholder="0"
           value={documentsInfo.net_income || ''}
-          onChange={(e) => !isReadOnly && setDocumentsInfo(prev => ({ ...prev, net_income: parseFloat(e.target.value) || undefined }))}
-          disabled={isReadOnly}
+          onChange={(e) => !stageLocked && setDocumentsInfo(prev => ({ ...prev, net_income: parseFloat(e.target.value) || undefined }))}
+          disabled={stageLocked}
         />
       </div>
     </Card>
@@ -926,15 +1394,22 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
       </div>
 
       <div className="space-y-4">
+        <VerazImport
+          current={verazData}
+          clientCuit={assessment?.client_cuit || operationData?.client_cuit}
+          disabled={stageLocked}
+          onApply={handleVerazImport}
+        />
+
         <Input
           type="number"
           label="Puntaje Crediticio"
           placeholder="0-999"
           value={verazData.credit_score || ''}
-          onChange={(e) => !isReadOnly && setVerazData(prev => ({ ...prev, credit_score: parseInt(e.target.value) || undefined }))}
+          onChange={(e) => !stageLocked && setVerazData(prev => ({ ...prev, credit_score: parseInt(e.target.value) || undefined }))}
           error={errors.credit_score}
           required
-          disabled={isReadOnly}
+          disabled={stageLocked}
         />
 
         <Input
@@ -942,10 +1417,10 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
           label="Estado Actual"
           placeholder="Normal, Con seguimiento, etc."
           value={verazData.current_status || ''}
-          onChange={(e) => !isReadOnly && setVerazData(prev => ({ ...prev, current_status: e.target.value }))}
+          onChange={(e) => !stageLocked && setVerazData(prev => ({ ...prev, current_status: e.target.value }))}
           error={errors.current_status}
           required
-          disabled={isReadOnly}
+          disabled={stageLocked}
         />
 
         <Input
@@ -953,10 +1428,10 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
           label="Máximo Atraso (24M)"
           placeholder="Días"
           value={verazData.maximum_delay_24m || ''}
-          onChange={(e) => !isReadOnly && setVerazData(prev => ({ ...prev, maximum_delay_24m: parseInt(e.target.value) || undefined }))}
+          onChange={(e) => !stageLocked && setVerazData(prev => ({ ...prev, maximum_delay_24m: parseInt(e.target.value) || undefined }))}
           error={errors.maximum_delay_24m}
           required
-          disabled={isReadOnly}
+          disabled={stageLocked}
         />
 
         <Input
@@ -964,10 +1439,10 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
           label="Saldo Deuda Sistema Financiero"
           placeholder="0"
           value={verazData.financial_system_debt_balance || ''}
-          onChange={(e) => !isReadOnly && setVerazData(prev => ({ ...prev, financial_system_debt_balance: parseFloat(e.target.value) || undefined }))}
+          onChange={(e) => !stageLocked && setVerazData(prev => ({ ...prev, financial_system_debt_balance: parseFloat(e.target.value) || undefined }))}
           error={errors.financial_system_debt_balance}
           required
-          disabled={isReadOnly}
+          disabled={stageLocked}
         />
 
         <Input
@@ -975,10 +1450,10 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
           label="Ingresos Reporte VERAZ"
           placeholder="0"
           value={verazData.veraz_report_income || ''}
-          onChange={(e) => !isReadOnly && setVerazData(prev => ({ ...prev, veraz_report_income: parseFloat(e.target.value) || undefined }))}
+          onChange={(e) => !stageLocked && setVerazData(prev => simulate({ ...prev, veraz_report_income: parseFloat(e.target.value) || undefined }))}
           error={errors.veraz_report_income}
           required
-          disabled={isReadOnly}
+          disabled={stageLocked}
         />
 
         <Input
@@ -986,10 +1461,10 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
           label="Consultas Financieras (Últimos 6M)"
           placeholder="0"
           value={verazData.financial_inquiries_6m || ''}
-          onChange={(e) => !isReadOnly && setVerazData(prev => ({ ...prev, financial_inquiries_6m: parseInt(e.target.value) || undefined }))}
+          onChange={(e) => !stageLocked && setVerazData(prev => ({ ...prev, financial_inquiries_6m: parseInt(e.target.value) || undefined }))}
           error={errors.financial_inquiries_6m}
           required
-          disabled={isReadOnly}
+          disabled={stageLocked}
         />
 
         {/* Separador visual para los campos de solicitud */}
@@ -999,41 +1474,23 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
             Datos de la Solicitud
           </h3>
           
-          <div className="space-y-4">
-            <Input
-              type="number"
-              label="Monto Solicitado"
-              placeholder="0"
-              value={verazData.requested_amount || ''}
-              onChange={(e) => !isReadOnly && setVerazData(prev => ({ ...prev, requested_amount: parseFloat(e.target.value) || undefined }))}
-              error={errors.requested_amount}
-              required
-              disabled={isReadOnly}
-            />
-
-            <Input
-              type="number"
-              label="Monto de Cuota"
-              placeholder="0"
-              value={verazData.payment_amount || ''}
-              onChange={(e) => !isReadOnly && setVerazData(prev => ({ ...prev, payment_amount: parseFloat(e.target.value) || undefined }))}
-              error={errors.payment_amount}
-              required
-              disabled={isReadOnly}
-            />
-
-            <Input
-              type="number"
-              label="Relación Cuota/Ingreso"
-              placeholder="0.00 - 1.00"
-              step="0.01"
-              value={verazData.payment_to_income_ratio || ''}
-              onChange={(e) => !isReadOnly && setVerazData(prev => ({ ...prev, payment_to_income_ratio: parseFloat(e.target.value) || undefined }))}
-              error={errors.payment_to_income_ratio}
-              required
-              disabled={isReadOnly}
-            />
-          </div>
+          <LoanSimulator
+            terms={withProductRate(verazData).loan_terms || { ...getProductLoanTerms(product), amount: verazData.requested_amount }}
+            income={getAffordability(verazData).income}
+            errors={errors}
+            disabled={stageLocked}
+            rateLocked={!!product}
+            onChange={(terms) => setVerazData(prev => simulate({ ...prev, loan_terms: terms }))}
+          />
+
+          {verazData.payment_amount !== undefined && (
+            <div className="mt-4">
+              <AffordabilityPanel
+                check={stageLocked && verazData.affordability ? verazData.affordability : getAffordability(verazData)}
+                error={errors.affordability}
+              />
+            </div>
+          )}
         </div>
       </div>
     </Card>
@@ -1061,9 +1518,9 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
                 name="employment_verified"
                 value="true"
                 checked={verificationData.employment_status_verified === true}
-                onChange={() => !isReadOnly && setVerificationData(prev => ({ ...prev, employment_status_verified: true }))}
+                onChange={() => !stageLocked && setVerificationData(prev => ({ ...prev, employment_status_verified: true }))}
                 className="mr-2"
-                disabled={isReadOnly}
+                disabled={stageLocked}
               />
               Sí, verificado
             </label>
@@ -1073,9 +1530,9 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
                 name="employment_verified"
                 value="false"
                 checked={verificationData.employment_status_verified === false}
-                onChange={() => !isReadOnly && setVerificationData(prev => ({ ...prev, employment_status_verified: false }))}
+                onChange={() => !stageLocked && setVerificationData(prev => ({ ...prev, employment_status_verified: false }))}
                 className="mr-2"
-                disabled={isReadOnly}
+                disabled={stageLocked}
               />
               No verificado
             </label>
@@ -1096,9 +1553,9 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
                 name="identity_verified"
                 value="true"
                 checked={verificationData.identity_verified === true}
-                onChange={() => !isReadOnly && setVerificationData(prev => ({ ...prev, identity_verified: true }))}
+                onChange={() => !stageLocked && setVerificationData(prev => ({ ...prev, identity_verified: true }))}
                 className="mr-2"
-                disabled={isReadOnly}
+                disabled={stageLocked}
               />
               Sí, verificado
             </label>
@@ -1108,9 +1565,9 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
                 name="identity_verified"
                 value="false"
                 checked={verificationData.identity_verified === false}
-                onChange={() => !isReadOnly && setVerificationData(prev => ({ ...prev, identity_verified: false }))}
+                onChange={() => !stageLocked && setVerificationData(prev => ({ ...prev, identity_verified: false }))}
                 className="mr-2"
-                disabled={isReadOnly}
+                disabled={stageLocked}
               />
               No verificado
             </label>
@@ -1145,13 +1602,35 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
     }
   };
 
+  if (pageError) {
+    return (
+      <div className="max-w-md mx-auto p-4">
+        <Card className="text-center">
+          <AlertCircle className="w-8 h-8 text-red-600 mx-auto mb-3" />
+          <p className="text-gray-900 font-medium mb-4">{pageError}</p>
+          <Button variant="outline" onClick={handleBack}>
+            Volver al BackOffice
+          </Button>
+        </Card>
+      </div>
+    );
+  }
+
+  if (pageLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
   return (
     <div className="max-w-md mx-auto p-4 space-y-6">
       {/* Header */}
       <div className="flex items-center justify-between">
         <Button
           variant="outline"
-          onClick={onBack}
+          onClick={handleBack}
           className="p-2"
         >
           <ArrowLeft className="w-4 h-4" />
@@ -1163,26 +1642,29 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
           {operationData && (
             <p className="text-sm text-gray-600 font-mono">{operationData.operation_number}</p>
           )}
+          {product && (
+            <p className="text-xs text-blue-600">{product.name}</p>
+          )}
         </div>
         <div className="w-10"></div>
       </div>
 
       {/* Client Info */}
-      {(assessment || operationData || fetchedAssessment) && (
+      {(assessment || operationData) && (
         <Card padding="sm">
           <div className="flex items-center space-x-3">
             <div className="w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center">
               <User className="w-5 h-5 text-blue-600" />
             </div>
             <div>
-              <p className="font-medium">{(assessment?.client_name || operationData?.client_name || fetchedAssessment?.client_name) || 'Cliente'}</p>
-              <p className="text-sm text-gray-600 font-mono">{assessment?.client_cuit || operationData?.client_cuit || fetchedAssessment?.client_cuit}</p>
+              <p className="font-medium">{(assessment?.client_name || operationData?.client_name) || 'Cliente'}</p>
+              <p className="text-sm text-gray-600 font-mono">{assessment?.client_cuit || operationData?.client_cuit}</p>
             </div>
-            {isReadOnly && (
+            {isReadOnly && operationData && (
               <div className="ml-auto">
-                <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-50 text-green-700 border border-green-200">
+                <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium border ${getStatusColor(operationData.status)}`}>
                   <CheckSquare className="w-3 h-3 mr-1" />
-                  COMPLETADA
+                  {getStatusLabel(operationData.status)}
                 </span>
               </div>
             )}
@@ -1206,15 +1688,52 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
         </Card>
       )}
 
+      {/* Returned by the reviewer */}
+      {!isReadOnly && operationData?.review_comments && (
+        <Card className="border-amber-200 bg-amber-50">
+          <div className="flex items-start space-x-3">
+            <MessageSquare className="w-5 h-5 text-amber-600 mt-0.5 flex-shrink-0" />
+            <div>
+              <p className="text-sm text-amber-800 font-medium">Devuelta con observaciones</p>
+              <p className="text-sm text-amber-700 mt-1 whitespace-pre-line">{operationData.review_comments}</p>
+            </div>
+          </div>
+        </Card>
+      )}
+
       {/* Current Stage */}
       {renderCurrentStage()}
 
+      {/* Status Transitions */}
+      {renderStatusActions()}
+
+      {/* Stage owned by another role */}
+      {!isReadOnly && stageLocked && (
+        <Card className="border-amber-200 bg-amber-50">
+          <div className="flex items-start space-x-3">
+            <Lock className="w-5 h-5 text-amber-600 mt-0.5 flex-shrink-0" />
+            <p className="text-sm text-amber-800">
+              {currentStage === 'verification'
+                ? operationData?.advisor_id === user?.id
+                  ? 'La verificación debe realizarla un analista distinto del asesor de la operación'
+                  : 'Pendiente de verificación por un analista'
+                : 'Solo el asesor que originó la operación puede modificar esta etapa'}
+            </p>
+          </div>
+        </Card>
+      )}
+
+      {/* Change History */}
+      {operationData?.id && (
+        <AuditTimeline tableName="loan_operations" rowId={operationData.id} refreshKey={operationData.updated_at} />
+      )}
+
       {/* Navigation - Only show if not in read-only mode */}
-      {!isReadOnly && (
+      {!stageLocked && (
         <div className="flex justify-between">
           <Button
             variant="outline"
-            onClick={onBack}
+            onClick={handleBack}
             disabled={loading}
           >
             Cancelar
@@ -1231,11 +1750,11 @@ export function LoanApplicationPage({ assessment, operation, onBack, onComplete
       )}
 
       {/* Read-only mode navigation */}
-      {isReadOnly && (
+      {stageLocked && (
         <div className="flex justify-center">
           <Button
             variant="outline"
-            onClick={onBack}
+            onClick={handleBack}
             className="flex items-center space-x-2"
           >
             <ArrowLeft className="w-4 h-4" />
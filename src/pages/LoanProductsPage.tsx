@@ -0,0 +1,475 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Package, Plus, Shield, Edit3, Power } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import { DocumentType, IncomePolicy, LoanProduct } from '../types';
+import { DEFAULT_IVA_RATE, formatCurrency, formatRate, fromPercentInput, toPercentInput } from '../utils/loanCalculator';
+import { DEFAULT_REQUIRED_DOCUMENTS, DOCUMENT_TYPES, fetchLoanProducts, validateLoanProduct } from '../utils/loanProducts';
+import { DEFAULT_AFFORDABILITY_POLICY, INCOME_POLICY_LABELS } from '../utils/affordability';
+import { Card } from '../components/Card';
+import { Input } from '../components/Input';
+import { Button } from '../components/Button';
+import { LoadingSpinner } from '../components/LoadingSpinner';
+
+const NEW_PRODUCT: Partial<LoanProduct> = {
+  is_active: true,
+  origination_fee_rate: 0,
+  monthly_fee: 0,
+  iva_rate: DEFAULT_IVA_RATE,
+  income_policy: DEFAULT_AFFORDABILITY_POLICY.income_policy,
+  debt_service_rate: DEFAULT_AFFORDABILITY_POLICY.debt_service_rate,
+  required_documents: DEFAULT_REQUIRED_DOCUMENTS,
+};
+
+const toNumber = (value: string) => value === '' ? undefined : parseFloat(value);
+
+export function LoanProductsPage() {
+  const navigate = useNavigate();
+  const { user, hasPermission } = useAuth();
+  const [products, setProducts] = useState<LoanProduct[]>([]);
+  const [ruleSetVersions, setRuleSetVersions] = useState<{ version: number; name: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<Partial<LoanProduct> | null>(null);
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [updating, setUpdating] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const fetchProducts = useCallback(async () => {
+    try {
+      const [productList, { data: ruleSets, error: ruleSetsError }] = await Promise.all([
+        fetchLoanProducts(),
+        supabase.from('eligibility_rule_sets').select('version, name').order('version', { ascending: false }),
+      ]);
+
+      if (ruleSetsError) throw ruleSetsError;
+
+      setProducts(productList);
+      setRuleSetVersions(ruleSets || []);
+    } catch (error) {
+      console.error('Error fetching loan products:', error);
+      setError('No se pudieron cargar los productos');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user && hasPermission('products:manage')) {
+      fetchProducts();
+    }
+  }, [user, hasPermission, fetchProducts]);
+
+  const updateForm = (changes: Partial<LoanProduct>) => {
+    setEditing(prev => prev ? { ...prev, ...changes } : prev);
+  };
+
+  const toggleDocument = (type: DocumentType) => {
+    const current = editing?.required_documents || [];
+    updateForm({
+      required_documents: current.includes(type) ? current.filter(doc => doc !== type) : [...current, type],
+    });
+  };
+
+  const saveProduct = async () => {
+    if (!editing) return;
+
+    const validationErrors = validateLoanProduct(editing);
+    setFormErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) return;
+
+    setSaving(true);
+    setError('');
+
+    const productData = {
+      code: editing.code!.trim().toUpperCase(),
+      name: editing.name!.trim(),
+      description: editing.description?.trim() || null,
+      is_active: editing.is_active ?? true,
+      min_amount: editing.min_amount!,
+      max_amount: editing.max_amount!,
+      min_term_months: editing.min_term_months!,
+      max_term_months: editing.max_term_months!,
+      tna: editing.tna!,
+      origination_fee_rate: editing.origination_fee_rate ?? 0,
+      monthly_fee: editing.monthly_fee ?? 0,
+      iva_rate: editing.iva_rate ?? DEFAULT_IVA_RATE,
+      max_payment_to_income_ratio: editing.max_payment_to_income_ratio ?? null,
+      max_debt_to_income_ratio: editing.max_debt_to_income_ratio ?? null,
+      income_policy: editing.income_policy ?? DEFAULT_AFFORDABILITY_POLICY.income_policy,
+      debt_service_rate: editing.debt_service_rate ?? DEFAULT_AFFORDABILITY_POLICY.debt_service_rate,
+      min_age: editing.min_age ?? null,
+      max_age: editing.max_age ?? null,
+      required_documents: editing.required_documents!,
+      eligibility_rule_set_version: editing.eligibility_rule_set_version ?? null,
+    };
+
+    try {
+      const { error } = editing.id
+        ? await supabase.from('loan_products').update(productData).eq('id', editing.id)
+        : await supabase.from('loan_products').insert(productData);
+
+      if (error) throw error;
+
+      console.log(`📦 Saved loan product ${productData.code}`);
+      setEditing(null);
+      await fetchProducts();
+    } catch (error) {
+      console.error('Error saving loan product:', error);
+      setError('No se pudo guardar el producto');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (product: LoanProduct) => {
+    setUpdating(product.id);
+    setError('');
+
+    try {
+      const { error } = await supabase
+        .from('loan_products')
+        .update({ is_active: !product.is_active })
+        .eq('id', product.id);
+
+      if (error) throw error;
+      await fetchProducts();
+    } catch (error) {
+      console.error('Error updating loan product:', error);
+      setError('No se pudo actualizar el producto');
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  const renderForm = () => {
+    if (!editing) return null;
+
+    return (
+      <Card>
+        <h3 className="font-semibold text-gray-900 mb-4">
+          {editing.id ? `Editar ${editing.name}` : 'Nuevo producto'}
+        </h3>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <Input
+              label="Código"
+              value={editing.code || ''}
+              onChange={(e) => updateForm({ code: e.target.value })}
+              error={formErrors.code}
+              required
+            />
+            <Input
+              label="Nombre"
+              value={editing.name || ''}
+              onChange={(e) => updateForm({ name: e.target.value })}
+              error={formErrors.name}
+              required
+            />
+          </div>
+
+          <Input
+            label="Descripción"
+            value={editing.description || ''}
+            onChange={(e) => updateForm({ description: e.target.value })}
+          />
+
+          <div className="grid grid-cols-2 gap-3">
+            <Input
+              type="number"
+              label="Monto mínimo"
+              value={editing.min_amount ?? ''}
+              onChange={(e) => updateForm({ min_amount: toNumber(e.target.value) })}
+              error={formErrors.min_amount}
+              required
+            />
+            <Input
+              type="number"
+              label="Monto máximo"
+              value={editing.max_amount ?? ''}
+              onChange={(e) => updateForm({ max_amount: toNumber(e.target.value) })}
+              error={formErrors.max_amount}
+              required
+            />
+            <Input
+              type="number"
+              label="Plazo mínimo (meses)"
+              value={editing.min_term_months ?? ''}
+              onChange={(e) => updateForm({ min_term_months: toNumber(e.target.value) })}
+              error={formErrors.min_term_months}
+              required
+            />
+            <Input
+              type="number"
+              label="Plazo máximo (meses)"
+              value={editing.max_term_months ?? ''}
+              onChange={(e) => updateForm({ max_term_months: toNumber(e.target.value) })}
+              error={formErrors.max_term_months}
+              required
+            />
+            <Input
+              type="number"
+              label="TNA (%)"
+              step="0.01"
+              value={toPercentInput(editing.tna)}
+              onChange={(e) => updateForm({ tna: fromPercentInput(e.target.value) })}
+              error={formErrors.tna}
+              required
+            />
+            <Input
+              type="number"
+              label="Comisión otorgamiento (%)"
+              step="0.01"
+              value={toPercentInput(editing.origination_fee_rate)}
+              onChange={(e) => updateForm({ origination_fee_rate: fromPercentInput(e.target.value) })}
+            />
+            <Input
+              type="number"
+              label="Gastos mensuales"
+              value={editing.monthly_fee ?? ''}
+              onChange={(e) => updateForm({ monthly_fee: toNumber(e.target.value) })}
+            />
+            <Input
+              type="number"
+              label="IVA s/intereses (%)"
+              step="0.5"
+              value={toPercentInput(editing.iva_rate)}
+              onChange={(e) => updateForm({ iva_rate: fromPercentInput(e.target.value) })}
+            />
+            <Input
+              type="number"
+              label="Cuota/ingreso máx. (%)"
+              step="1"
+              value={toPercentInput(editing.max_payment_to_income_ratio)}
+              onChange={(e) => updateForm({ max_payment_to_income_ratio: fromPercentInput(e.target.value) })}
+              error={formErrors.max_payment_to_income_ratio}
+            />
+            <Input
+              type="number"
+              label="Endeudamiento máx. (%)"
+              step="1"
+              value={toPercentInput(editing.max_debt_to_income_ratio)}
+              onChange={(e) => updateForm({ max_debt_to_income_ratio: fromPercentInput(e.target.value) })}
+              error={formErrors.max_debt_to_income_ratio}
+            />
+            <div className="space-y-1">
+              <label className="block text-sm font-medium text-gray-700">Ingreso considerado</label>
+              <select
+                value={editing.income_policy ?? DEFAULT_AFFORDABILITY_POLICY.income_policy}
+                onChange={(e) => updateForm({ income_policy: e.target.value as IncomePolicy })}
+                className="w-full px-4 py-3 text-base border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {(Object.keys(INCOME_POLICY_LABELS) as IncomePolicy[]).map(policy => (
+                  <option key={policy} value={policy}>{INCOME_POLICY_LABELS[policy]}</option>
+                ))}
+              </select>
+            </div>
+            <Input
+              type="number"
+              label="Servicio de deuda BCRA (%)"
+              step="0.5"
+              value={toPercentInput(editing.debt_service_rate)}
+              onChange={(e) => updateForm({ debt_service_rate: fromPercentInput(e.target.value) })}
+              hint="Cuota mensual estimada sobre el saldo informado"
+              error={formErrors.debt_service_rate}
+            />
+            <div className="space-y-1">
+              <label className="block text-sm font-medium text-gray-700">Reglas BCRA</label>
+              <select
+                value={editing.eligibility_rule_set_version ?? ''}
+                onChange={(e) => updateForm({ eligibility_rule_set_version: toNumber(e.target.value) })}
+                className="w-full px-4 py-3 text-base border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Vigentes</option>
+                {ruleSetVersions.map(ruleSet => (
+                  <option key={ruleSet.version} value={ruleSet.version}>
+                    v{ruleSet.version} · {ruleSet.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <Input
+              type="number"
+              label="Edad mínima"
+              value={editing.min_age ?? ''}
+              onChange={(e) => updateForm({ min_age: toNumber(e.target.value) })}
+            />
+            <Input
+              type="number"
+              label="Edad máxima"
+              value={editing.max_age ?? ''}
+              onChange={(e) => updateForm({ max_age: toNumber(e.target.value) })}
+              error={formErrors.max_age}
+            />
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Documentos requeridos</p>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(DOCUMENT_TYPES) as DocumentType[]).map(type => {
+                const active = editing.required_documents?.includes(type);
+
+                return (
+                  <button
+                    key={type}
+                    type="button"
+                    onClick={() => toggleDocument(type)}
+                    className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                      active
+                        ? 'bg-blue-50 text-blue-700 border-blue-200'
+                        : 'bg-white text-gray-500 border-gray-200 hover:border-gray-300'
+                    }`}
+                  >
+                    {DOCUMENT_TYPES[type]}
+                  </button>
+                );
+              })}
+            </div>
+            {formErrors.required_documents && (
+              <p className="text-sm text-red-600 mt-1">{formErrors.required_documents}</p>
+            )}
+          </div>
+
+          <div className="flex justify-end space-x-3">
+            <Button variant="outline" onClick={() => setEditing(null)} disabled={saving}>
+              Cancelar
+            </Button>
+            <Button onClick={saveProduct} loading={saving}>
+              Guardar
+            </Button>
+          </div>
+        </div>
+      </Card>
+    );
+  };
+
+  if (!hasPermission('products:manage')) {
+    return (
+      <div className="max-w-md mx-auto p-4">
+        <Card className="text-center py-8">
+          <Shield className="w-12 h-12 mx-auto text-gray-400 mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Acceso restringido</h3>
+          <p className="text-gray-600 mb-4">Solo los administradores pueden gestionar productos.</p>
+          <Button variant="outline" onClick={() => navigate('/')}>Volver</Button>
+        </Card>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="max-w-md mx-auto p-4">
+        <div className="flex items-center justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-md mx-auto p-4 space-y-6">
+      <div>
+        <Button
+          variant="outline"
+          onClick={() => navigate('/')}
+          className="mb-4 p-2"
+        >
+          <ArrowLeft className="w-4 h-4" />
+        </Button>
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Productos</h1>
+        <p className="text-gray-600">Límites, tasas y documentos de cada línea de préstamo</p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {editing ? renderForm() : (
+        <Button
+          onClick={() => {
+            setFormErrors({});
+            setEditing(NEW_PRODUCT);
+          }}
+          className="w-full flex items-center justify-center"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Nuevo producto
+        </Button>
+      )}
+
+      <div className="space-y-3">
+        {products.map(product => (
+          <Card key={product.id} className={product.is_active ? '' : 'opacity-60'}>
+            <div className="flex items-start justify-between mb-3">
+              <div className="flex items-start space-x-3">
+                <Package className="w-5 h-5 text-blue-600 mt-0.5" />
+                <div>
+                  <p className="font-medium text-gray-900">{product.name}</p>
+                  <p className="text-xs text-gray-500 font-mono">{product.code}</p>
+                  {!product.is_active && <p className="text-xs text-red-600 mt-1">Inactivo</p>}
+                </div>
+              </div>
+              <div className="flex space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    setFormErrors({});
+                    setEditing(product);
+                  }}
+                  className="p-2"
+                  aria-label="Editar"
+                >
+                  <Edit3 className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => toggleActive(product)}
+                  loading={updating === product.id}
+                  className="p-2"
+                  aria-label={product.is_active ? 'Desactivar' : 'Activar'}
+                >
+                  <Power className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              <div>
+                <p className="text-gray-500">Monto</p>
+                <p className="font-medium">{formatCurrency(product.min_amount)} – {formatCurrency(product.max_amount)}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Plazo</p>
+                <p className="font-medium">{product.min_term_months} – {product.max_term_months} meses</p>
+              </div>
+              <div>
+                <p className="text-gray-500">TNA</p>
+                <p className="font-medium">{formatRate(product.tna)}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Edad</p>
+                <p className="font-medium">
+                  {product.min_age ?? '—'} – {product.max_age ?? '—'}
+                </p>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-1 mt-3">
+              {product.required_documents.map(type => (
+                <span key={type} className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700">
+                  {DOCUMENT_TYPES[type]}
+                </span>
+              ))}
+            </div>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
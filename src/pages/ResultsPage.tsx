@@ -1,21 +1,40 @@
 import React, { useEffect, useState } from 'react';
-import { ArrowLeft, CheckCircle, XCircle, Clock, Download, Share, Building2, AlertTriangle, Calendar, DollarSign, Award, History } from 'lucide-react';
+import { Navigate, useLocation, useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, CheckCircle, XCircle, Clock, Download, Share, Building2, AlertTriangle, Calendar, DollarSign, Award, History, ListChecks, MinusCircle, Receipt, RotateCcw } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../hooks/useAuth';
-import { Assessment, BCRAEntity, BCRAHistoricalEntity } from '../types';
+import { useBranch } from '../hooks/useBranch';
+import { Assessment, BCRAEligibilityAnalysis, BCRAEntity, BCRAHistoricalEntity } from '../types';
 import { Card } from '../components/Card';
 import { Button } from '../components/Button';
-import { getSituationDescription, getSituationColor, formatPeriod, formatAmount } from '../utils/bcraApi';
-
-interface ResultsPageProps {
+import { Input } from '../components/Input';
+import { AuditTimeline } from '../components/AuditTimeline';
+import { LoadingSpinner } from '../components/LoadingSpinner';
+import { findSavedAssessmentId } from '../utils/assessment';
+import { analyzeBCRAEligibility, getAssessmentBouncedChecks, getSituationDescription, getSituationColor, formatPeriod, formatAmount, formatCheckAmount } from '../utils/bcraApi';
+import { formatRuleWindow, getUnpaidBouncedChecks } from '../utils/eligibilityRules';
+import { fetchActiveEligibilityRuleSet, fetchEligibilityRuleSetByVersion } from '../utils/eligibilityRuleSets';
+
+interface AssessmentResultsProps {
   assessment: Partial<Assessment>;
   onBack: () => void;
   onDashboard: () => void;
 }
 
-export function ResultsPage({ assessment, onBack, onDashboard }: ResultsPageProps) {
+// Unsaved results are handed over by AssessmentPage in the history state
+interface ResultsLocationState {
+  assessment?: Partial<Assessment>;
+}
+
+function AssessmentResults({ assessment, onBack, onDashboard }: AssessmentResultsProps) {
+  const navigate = useNavigate();
   const { user } = useAuth();
+  const { currentBranch } = useBranch();
   const [isSaved, setIsSaved] = useState(false);
+  const [replayDate, setReplayDate] = useState('');
+  const [replayAnalysis, setReplayAnalysis] = useState<BCRAEligibilityAnalysis | null>(null);
+  const [replaying, setReplaying] = useState(false);
+  const [replayError, setReplayError] = useState('');
 
   useEffect(() => {
     // Only save if this is a new assessment (doesn't have an ID) and hasn't been saved yet
@@ -32,33 +51,33 @@ export function ResultsPage({ assessment, onBack, onDashboard }: ResultsPageProp
         cuit: assessment.client_cuit,
         hasCurrentData: !!assessment.bcra_debt_data,
         hasHistoricalData: !!assessment.bcra_historical_data,
-        bcraStatus: assessment.bcra_eligibility_status
+        bcraStatus: assessment.bcra_eligibility_status,
+        ruleSetVersion: assessment.bcra_eligibility_analysis?.ruleSetVersion
       });
 
       // Check if an assessment with the same CUIT already exists for this advisor
-      const { data: existingAssessment, error: checkError } = await supabase
-        .from('assessments')
-        .select('id')
-        .eq('advisor_id', user.id)
-        .eq('client_cuit', assessment.client_cuit!)
-        .eq('assessment_result', assessment.assessment_result!)
-        .eq('bcra_eligibility_status', assessment.bcra_eligibility_status!)
-        .maybeSingle();
-
-      if (checkError) {
-        throw checkError;
-      }
+      const existingAssessmentId = await findSavedAssessmentId(
+        user.id,
+        assessment.client_cuit!,
+        assessment.assessment_result!,
+        assessment.bcra_eligibility_status,
+        assessment.bcra_eligibility_analysis
+      );
 
       // If no existing assessment found, create a new one
-      if (!existingAssessment) {
+      if (!existingAssessmentId) {
         const assessmentData = {
           advisor_id: user.id,
+          branch_id: currentBranch?.id || null,
           client_cuit: assessment.client_cuit!,
           client_name: assessment.client_name || null,
           assessment_result: assessment.assessment_result!,
           bcra_debt_data: assessment.bcra_debt_data || null,
           bcra_historical_data: assessment.bcra_historical_data || null,
+          bcra_bounced_checks: assessment.bcra_bounced_checks || null,
+          bcra_bounced_checks_unavailable: assessment.bcra_bounced_checks_unavailable ?? false,
           bcra_eligibility_status: assessment.bcra_eligibility_status || null,
+          bcra_eligibility_analysis: assessment.bcra_eligibility_analysis || null,
         };
 
         console.log('📝 Inserting assessment data:', assessmentData);
@@ -75,16 +94,25 @@ export function ResultsPage({ assessment, onBack, onDashboard }: ResultsPageProp
         }
 
         console.log('✅ Assessment saved successfully:', data.id);
+        setIsSaved(true);
+        openSavedAssessment(data);
       } else {
+        // Show the saved row as stored rather than this run's data under its id
         console.log('ℹ️ Assessment already exists, skipping save');
+        setIsSaved(true);
+        navigate(`/assessments/${existingAssessmentId}`, { replace: true });
       }
-
-      setIsSaved(true);
     } catch (error) {
       console.error('❌ Error saving assessment:', error);
     }
   };
 
+  // Swap /assessments/result for the permanent link once the assessment has an id
+  const openSavedAssessment = (saved: Partial<Assessment>) => {
+    const state: ResultsLocationState = { assessment: saved };
+    navigate(`/assessments/${saved.id}`, { replace: true, state });
+  };
+
   const getStatusIcon = () => {
     if (assessment.bcra_eligibility_status === 'BCRA_APTO') {
       return <Award className="w-8 h-8 text-green-600" />;
@@ -138,6 +166,188 @@ export function ResultsPage({ assessment, onBack, onDashboard }: ResultsPageProp
     return null;
   };
 
+  // Re-evaluates the stored BCRA data as of a past date, with the rule set version originally applied
+  const handleReplay = async () => {
+    if (!replayDate) return;
+
+    setReplaying(true);
+    setReplayError('');
+    try {
+      const [year, month, day] = replayDate.split('-').map(Number);
+      const asOfDate = new Date(year, month - 1, day);
+      const originalVersion = assessment.bcra_eligibility_analysis?.ruleSetVersion;
+      const ruleSet = originalVersion
+        ? await fetchEligibilityRuleSetByVersion(originalVersion)
+        : await fetchActiveEligibilityRuleSet();
+
+      setReplayAnalysis(analyzeBCRAEligibility(
+        assessment.bcra_debt_data || null,
+        assessment.bcra_historical_data || null,
+        ruleSet,
+        getAssessmentBouncedChecks(assessment),
+        asOfDate
+      ));
+    } catch {
+      setReplayError('No se pudieron cargar las reglas de elegibilidad originales');
+    } finally {
+      setReplaying(false);
+    }
+  };
+
+  const renderEligibilityAnalysis = (
+    analysis: BCRAEligibilityAnalysis | undefined | null,
+    title = 'Criterios de Elegibilidad'
+  ) => {
+    if (!analysis) return null;
+
+    const ruleTrace = analysis.ruleTrace || [];
+    const worstSituations = [
+      { label: 'Actual', value: analysis.currentSituation },
+      { label: '6 meses', value: analysis.last6MonthsWorstSituation },
+      { label: '12 meses', value: analysis.last12MonthsWorstSituation },
+    ];
+
+    return (
+      <Card>
+        <div className="flex items-center space-x-3 mb-4">
+          <div className="w-10 h-10 bg-indigo-100 rounded-lg flex items-center justify-center">
+            <ListChecks className="w-5 h-5 text-indigo-600" />
+          </div>
+          <div>
+            <h3 className="font-semibold text-gray-900">{title}</h3>
+            <p className="text-sm text-gray-600">
+              Reglas v{analysis.ruleSetVersion}
+              {analysis.asOfDate && ` · Al ${new Date(analysis.asOfDate).toLocaleDateString('es-AR')}`}
+              {' · '}Ejecutado {new Date(analysis.analysisDate).toLocaleString('es-AR')}
+            </p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2 mb-4">
+          {worstSituations.map(({ label, value }) => (
+            <div
+              key={label}
+              className={`text-center rounded-lg border p-2 ${value !== null ? getSituationColor(value) : 'text-gray-500 bg-gray-50 border-gray-200'}`}
+            >
+              <div className="text-lg font-bold">{value ?? '—'}</div>
+              <div className="text-xs">Peor sit. {label}</div>
+            </div>
+          ))}
+        </div>
+
+        {ruleTrace.length === 0 && analysis.failureReasons.length > 0 && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 space-y-1">
+            {analysis.failureReasons.map((reason, index) => (
+              <p key={index} className="text-sm text-amber-800">• {reason}</p>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-3">
+          {ruleTrace.map((entry) => {
+            const evaluated = entry.observedValue !== null && !entry.unavailable;
+
+            return (
+              <div
+                key={entry.ruleId}
+                className={`border rounded-lg p-3 ${
+                  entry.unavailable ? 'border-amber-200 bg-amber-50' : !evaluated ? 'border-gray-200' : entry.passed ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'
+                }`}
+              >
+                <div className="flex items-start space-x-2">
+                  {entry.unavailable ? (
+                    <Clock className="w-5 h-5 text-amber-600 flex-shrink-0" />
+                  ) : !evaluated ? (
+                    <MinusCircle className="w-5 h-5 text-gray-400 flex-shrink-0" />
+                  ) : entry.passed ? (
+                    <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0" />
+                  ) : (
+                    <XCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+                  )}
+                  <div className="flex-1">
+                    <p className="font-medium text-gray-900 text-sm">{entry.description}</p>
+                    <p className="text-xs text-gray-600 mt-1">
+                      {entry.unavailable
+                        ? 'Consulta no disponible'
+                        : evaluated ? `Observado: ${entry.observedValue}` : 'Sin datos en la ventana'} · Umbral: ≤ {entry.threshold}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {formatRuleWindow(entry.window)}
+                      {entry.periods.length > 0 && ` (${entry.periods.length} período${entry.periods.length !== 1 ? 's' : ''})`}
+                      {entry.entities.length > 0 && ` · ${entry.entities.length} entidad${entry.entities.length !== 1 ? 'es' : ''}`}
+                    </p>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </Card>
+    );
+  };
+
+  const renderReplay = () => {
+    // Replaying needs the stored BCRA history
+    if (!assessment.bcra_historical_data) return null;
+
+    const replayStatusColor = replayAnalysis?.status === 'BCRA_APTO'
+      ? 'text-green-600'
+      : replayAnalysis?.status === 'BCRA_NO_APTO' ? 'text-red-600' : 'text-amber-600';
+
+    return (
+      <Card>
+        <div className="flex items-center space-x-3 mb-4">
+          <div className="w-10 h-10 bg-slate-100 rounded-lg flex items-center justify-center">
+            <RotateCcw className="w-5 h-5 text-slate-600" />
+          </div>
+          <div>
+            <h3 className="font-semibold text-gray-900">Re-evaluar a una Fecha</h3>
+            <p className="text-sm text-gray-600">
+              Reproduce la decisión con los datos BCRA guardados y las reglas originales
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-end space-x-3">
+          <div className="flex-1">
+            <Input
+              type="date"
+              label="Fecha de referencia"
+              value={replayDate}
+              max={new Date().toISOString().substring(0, 10)}
+              onChange={(e) => {
+                setReplayDate(e.target.value);
+                setReplayAnalysis(null);
+                setReplayError('');
+              }}
+            />
+          </div>
+          <Button
+            variant="outline"
+            onClick={handleReplay}
+            loading={replaying}
+            disabled={!replayDate}
+          >
+            Re-evaluar
+          </Button>
+        </div>
+
+        {replayError && (
+          <p className="mt-4 text-sm text-red-600">{replayError}</p>
+        )}
+
+        {replayAnalysis && (
+          <div className="mt-4 flex justify-between text-sm">
+            <span className="text-gray-600">Resultado al {new Date(replayAnalysis.asOfDate || replayAnalysis.analysisDate).toLocaleDateString('es-AR')}:</span>
+            <span className={`font-medium ${replayStatusColor}`}>
+              {replayAnalysis.status.replace('_', ' ')}
+            </span>
+          </div>
+        )}
+      </Card>
+    );
+  };
+
   const renderBCRACurrentData = () => {
     if (!assessment.bcra_debt_data) return null;
 
@@ -208,6 +418,51 @@ export function ResultsPage({ assessment, onBack, onDashboard }: ResultsPageProp
     );
   };
 
+  const renderBouncedChecks = () => {
+    if (!assessment.bcra_bounced_checks) return null;
+
+    const unpaidChecks = getUnpaidBouncedChecks(assessment.bcra_bounced_checks);
+    const totalChecks = assessment.bcra_bounced_checks.causales
+      .reduce((sum, causal) => sum + causal.entidades.reduce((count, e) => count + e.detalle.length, 0), 0);
+
+    return (
+      <Card>
+        <div className="flex items-center space-x-3 mb-4">
+          <div className="w-10 h-10 bg-rose-100 rounded-lg flex items-center justify-center">
+            <Receipt className="w-5 h-5 text-rose-600" />
+          </div>
+          <div>
+            <h3 className="font-semibold text-gray-900">Cheques Rechazados</h3>
+            <p className="text-sm text-gray-600">
+              {totalChecks} registrado{totalChecks !== 1 ? 's' : ''} · {unpaidChecks.length} impago{unpaidChecks.length !== 1 ? 's' : ''}
+            </p>
+          </div>
+        </div>
+
+        {unpaidChecks.length > 0 ? (
+          <div className="space-y-3">
+            {unpaidChecks.map((cheque) => (
+              <div key={`${cheque.entidad}-${cheque.nroCheque}`} className="border border-red-200 bg-red-50 rounded-lg p-3">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <p className="font-medium text-gray-900 text-sm">Cheque N° {cheque.nroCheque}</p>
+                    <p className="text-xs text-gray-600 mt-1">{cheque.causal} · Entidad {cheque.entidad}</p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Rechazado el {new Date(cheque.fechaRechazo).toLocaleDateString('es-AR')}
+                    </p>
+                  </div>
+                  <span className="font-medium text-red-700 text-sm">{formatCheckAmount(cheque.monto)}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-green-700">Todos los cheques rechazados registrados fueron pagados.</p>
+        )}
+      </Card>
+    );
+  };
+
   const renderBCRAHistoricalData = () => {
     if (!assessment.bcra_historical_data) return null;
 
@@ -339,12 +594,27 @@ export function ResultsPage({ assessment, onBack, onDashboard }: ResultsPageProp
         </div>
       </Card>
 
+      {/* Eligibility Analysis */}
+      {renderEligibilityAnalysis(assessment.bcra_eligibility_analysis)}
+
+      {/* Replay As Of Date */}
+      {renderReplay()}
+      {renderEligibilityAnalysis(replayAnalysis, 'Re-evaluación Histórica')}
+
       {/* BCRA Current Data */}
       {renderBCRACurrentData()}
 
       {/* BCRA Historical Data */}
       {renderBCRAHistoricalData()}
 
+      {/* BCRA Bounced Checks */}
+      {renderBouncedChecks()}
+
+      {/* Change History */}
+      {assessment.id && (
+        <AuditTimeline tableName="assessments" rowId={assessment.id} />
+      )}
+
       {/* Action Buttons */}
       <div className="space-y-3">
         <Button
@@ -373,4 +643,88 @@ export function ResultsPage({ assessment, onBack, onDashboard }: ResultsPageProp
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+export function ResultsPage() {
+  const { id } = useParams<{ id: string }>();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [assessment, setAssessment] = useState<Partial<Assessment> | null>(() => {
+    const seeded = (location.state as ResultsLocationState | null)?.assessment;
+    return seeded && seeded.id === id ? seeded : null;
+  });
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!id || assessment?.id === id) return;
+
+    const fetchAssessment = async () => {
+      console.log('🔍 Fetching assessment:', id);
+      setError('');
+
+      const { data, error } = await supabase
+        .from('assessments')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) {
+        console.error('❌ Error fetching assessment:', error);
+        setError('No se pudo cargar la evaluación');
+        return;
+      }
+
+      if (!data) {
+        setError('No se encontró la evaluación');
+        return;
+      }
+
+      setAssessment(data);
+    };
+
+    fetchAssessment();
+  }, [id, assessment?.id]);
+
+  // Links opened from outside the app have no history entry to go back to
+  const handleBack = () => {
+    if (location.key === 'default') {
+      navigate('/');
+    } else {
+      navigate(-1);
+    }
+  };
+
+  if (!id && !assessment) {
+    return <Navigate to="/assessments/new" replace />;
+  }
+
+  if (error) {
+    return (
+      <div className="max-w-md mx-auto p-4">
+        <Card className="text-center">
+          <AlertTriangle className="w-8 h-8 text-red-600 mx-auto mb-3" />
+          <p className="text-gray-900 font-medium mb-4">{error}</p>
+          <Button variant="outline" onClick={() => navigate('/')}>
+            Volver al Dashboard
+          </Button>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!assessment) {
+    return (
+      <div className="flex justify-center py-12">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <AssessmentResults
+      assessment={assessment}
+      onBack={handleBack}
+      onDashboard={() => navigate('/')}
+    />
+  );
+}
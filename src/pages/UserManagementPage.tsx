@@ -0,0 +1,221 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Search, Shield, UserX, UserCheck } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import { Profile, UserRole } from '../types';
+import { USER_ROLES, getRoleLabel } from '../utils/permissions';
+import { Card } from '../components/Card';
+import { Input } from '../components/Input';
+import { Button } from '../components/Button';
+import { LoadingSpinner } from '../components/LoadingSpinner';
+
+export function UserManagementPage() {
+  const navigate = useNavigate();
+  const { user, hasPermission } = useAuth();
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [updating, setUpdating] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const fetchProfiles = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('*, memberships(*)')
+        .order('email');
+
+      if (error) throw error;
+      setProfiles(data || []);
+    } catch (error) {
+      console.error('Error fetching profiles:', error);
+      setError('No se pudieron cargar los usuarios');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user && hasPermission('users:manage')) {
+      fetchProfiles();
+    }
+  }, [user, hasPermission, fetchProfiles]);
+
+  const filteredProfiles = useMemo(() => {
+    if (!searchTerm) return profiles;
+
+    const term = searchTerm.toLowerCase();
+    return profiles.filter(profile =>
+      profile.email.toLowerCase().includes(term) ||
+      profile.full_name?.toLowerCase().includes(term)
+    );
+  }, [profiles, searchTerm]);
+
+  const toggleRole = async (profile: Profile, role: UserRole) => {
+    if (!user) return;
+
+    const membership = profile.memberships?.find(m => m.role === role);
+
+    // Admins cannot remove their own admin role and lock everyone out
+    if (membership && profile.id === user.id && role === 'admin') {
+      setError('No puede quitarse su propio rol de administrador');
+      return;
+    }
+
+    setUpdating(`${profile.id}:${role}`);
+    setError('');
+
+    try {
+      if (membership) {
+        const { error } = await supabase
+          .from('memberships')
+          .delete()
+          .eq('id', membership.id);
+
+        if (error) throw error;
+        console.log(`🔑 Revoked ${role} from ${profile.email}`);
+      } else {
+        const { error } = await supabase
+          .from('memberships')
+          .insert({ user_id: profile.id, role, created_by: user.id });
+
+        if (error) throw error;
+        console.log(`🔑 Granted ${role} to ${profile.email}`);
+      }
+
+      await fetchProfiles();
+    } catch (error) {
+      console.error('Error updating membership:', error);
+      setError('No se pudo actualizar el rol');
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  const toggleActive = async (profile: Profile) => {
+    if (!user || profile.id === user.id) return;
+
+    setUpdating(`${profile.id}:active`);
+    setError('');
+
+    try {
+      const { error } = await supabase
+        .from('profiles')
+        .update({ is_active: !profile.is_active })
+        .eq('id', profile.id);
+
+      if (error) throw error;
+      await fetchProfiles();
+    } catch (error) {
+      console.error('Error updating profile:', error);
+      setError('No se pudo actualizar el usuario');
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  if (!hasPermission('users:manage')) {
+    return (
+      <div className="max-w-md mx-auto p-4">
+        <Card className="text-center py-8">
+          <Shield className="w-12 h-12 mx-auto text-gray-400 mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Acceso restringido</h3>
+          <p className="text-gray-600 mb-4">Solo los administradores pueden gestionar usuarios.</p>
+          <Button variant="outline" onClick={() => navigate('/')}>Volver</Button>
+        </Card>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="max-w-md mx-auto p-4">
+        <div className="flex items-center justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-md mx-auto p-4 space-y-6">
+      <div>
+        <Button
+          variant="outline"
+          onClick={() => navigate('/')}
+          className="mb-4 p-2"
+        >
+          <ArrowLeft className="w-4 h-4" />
+        </Button>
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Usuarios</h1>
+        <p className="text-gray-600">Asigne roles y active o desactive usuarios</p>
+      </div>
+
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+        <Input
+          type="text"
+          placeholder="Buscar por email o nombre..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className="pl-10"
+        />
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {filteredProfiles.map(profile => (
+          <Card key={profile.id} className={profile.is_active ? '' : 'opacity-60'}>
+            <div className="flex items-start justify-between mb-3">
+              <div>
+                <p className="font-medium text-gray-900">{profile.full_name || profile.email}</p>
+                {profile.full_name && <p className="text-sm text-gray-500">{profile.email}</p>}
+                {!profile.is_active && <p className="text-xs text-red-600 mt-1">Desactivado</p>}
+              </div>
+              {profile.id !== user?.id && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => toggleActive(profile)}
+                  loading={updating === `${profile.id}:active`}
+                  className="p-2"
+                  aria-label={profile.is_active ? 'Desactivar' : 'Activar'}
+                >
+                  {profile.is_active ? <UserX className="w-4 h-4" /> : <UserCheck className="w-4 h-4" />}
+                </Button>
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {USER_ROLES.map(role => {
+                const active = profile.memberships?.some(m => m.role === role);
+
+                return (
+                  <button
+                    key={role}
+                    type="button"
+                    onClick={() => toggleRole(profile, role)}
+                    disabled={updating !== null}
+                    className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                      active
+                        ? 'bg-blue-50 text-blue-700 border-blue-200'
+                        : 'bg-white text-gray-500 border-gray-200 hover:border-gray-300'
+                    } disabled:opacity-50`}
+                  >
+                    {getRoleLabel(role)}
+                  </button>
+                );
+              })}
+            </div>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,51 +1,235 @@
+export type UserRole = 'advisor' | 'analyst' | 'supervisor' | 'admin';
+
+export type Permission =
+  | 'assessments:create'
+  | 'assessments:view_all'
+  | 'operations:create'
+  | 'operations:edit_own'
+  | 'operations:view_all'
+  | 'operations:verify'
+  | 'operations:approve'
+  | 'backoffice:access'
+  | 'users:manage'
+  | 'products:manage';
+
 export interface User {
   id: string;
   email: string;
+  fullName?: string;
+  // Highest-privilege role, for display; permissions are derived from all roles
+  role: UserRole;
+  roles: UserRole[];
+  branches: Branch[];
+  defaultBranchId?: string;
+}
+
+export interface Profile {
+  id: string;
+  email: string;
+  full_name?: string;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+  memberships?: Membership[];
+}
+
+export interface Membership {
+  id: string;
+  user_id: string;
+  role: UserRole;
+  created_by?: string;
+  created_at: string;
+}
+
+export interface Branch {
+  id: string;
+  code: string;
+  name: string;
+  is_active?: boolean;
+}
+
+export interface Team {
+  id: string;
+  branch_id: string;
+  name: string;
+  created_at: string;
+}
+
+export interface BranchMembership {
+  id: string;
+  user_id: string;
+  branch_id: string;
+  team_id?: string;
+  is_default: boolean;
+  created_at: string;
+  branch?: Branch;
 }
 
 export interface Assessment {
   id: string;
   advisor_id: string;
+  branch_id?: string;
   client_cuit: string;
   client_name?: string;
   assessment_result: 'eligible' | 'not_eligible' | 'pending';
   bcra_debt_data?: BCRADebtData;
   bcra_historical_data?: BCRAHistoricalData;
   bcra_eligibility_status?: 'BCRA_APTO' | 'BCRA_NO_APTO' | 'BCRA_PENDING';
+  bcra_bounced_checks?: BCRABouncedChecksData | null;
+  // The bounced checks lookup failed; bcra_bounced_checks is null but doesn't mean "none on record"
+  bcra_bounced_checks_unavailable?: boolean;
+  bcra_eligibility_analysis?: BCRAEligibilityAnalysis;
   created_at: string;
   updated_at: string;
 }
 
+export type LoanOperationStatus =
+  | 'pending'
+  | 'in_progress'
+  | 'under_review'
+  | 'approved'
+  | 'rejected'
+  | 'disbursed'
+  | 'cancelled'
+  | 'withdrawn';
+
+export type RejectionReasonCode =
+  | 'bcra_situation'
+  | 'insufficient_income'
+  | 'excessive_debt'
+  | 'documentation_inconsistent'
+  | 'identity_not_verified'
+  | 'employment_not_verified'
+  | 'fraud_suspicion'
+  | 'other';
+
 export interface LoanOperation {
   id: string;
   operation_number: string;
   assessment_id: string;
   advisor_id: string;
+  branch_id?: string;
+  product_id?: string;
   client_cuit: string;
   client_name?: string;
-  status: 'pending' | 'in_progress' | 'completed' | 'rejected';
+  status: LoanOperationStatus;
   current_stage: 'contact_info' | 'documents' | 'veraz_data' | 'verification';
   contact_info: ContactInfo;
   documents: DocumentsInfo;
   veraz_data: VerazData;
   verification_data: VerificationData;
+  rejection_reason_code?: RejectionReasonCode;
+  rejection_justification?: string;
+  // Stamped by the status transition trigger
+  status_changed_at?: string;
+  status_changed_by?: string;
+  submitted_at?: string;
+  decided_at?: string;
+  decided_by?: string;
+  disbursed_at?: string;
+  verified_by?: string;
+  verified_at?: string;
+  // Comments of the latest review decision; cleared when the operation is verified again
+  review_comments?: string;
   created_at: string;
   updated_at: string;
 }
 
+export type LoanOperationReviewDecision = 'approved' | 'returned' | 'rejected';
+
+export interface LoanOperationReview {
+  id: string;
+  operation_id: string;
+  reviewer_id?: string;
+  decision: LoanOperationReviewDecision;
+  comments?: string;
+  created_at: string;
+}
+
+export type AuditedTable = 'assessments' | 'loan_operations';
+
+export interface AuditLogEntry {
+  id: number;
+  table_name: AuditedTable;
+  row_id: string;
+  action: 'INSERT' | 'UPDATE' | 'DELETE';
+  actor_id?: string;
+  actor_email?: string;
+  changed_at: string;
+  // Changed keys as {old, new}; jsonb columns are nested one object per key
+  diff: Record<string, unknown>;
+}
+
 export interface ContactInfo {
   date_of_birth?: string;
   phone_number?: string;
   email_address?: string;
 }
 
+export type DocumentType =
+  | 'id_card_front'
+  | 'id_card_back'
+  | 'salary_receipt'
+  | 'pension_receipt'
+  | 'proof_of_address'
+  | 'payroll_authorization';
+
 export interface DocumentsInfo {
-  id_card_front?: string;
-  id_card_back?: string;
-  salary_receipt?: string;
+  // Current files of each type when the stage was saved; every version is in loan_operation_documents
+  files?: Partial<Record<DocumentType, string[]>>;
   net_income?: number;
 }
 
+// One uploaded file; a replacement is a new version pointing at the one it replaces
+export interface LoanOperationDocument {
+  id: string;
+  operation_id: string;
+  document_type: DocumentType;
+  file_path: string;
+  file_name?: string;
+  content_type?: string;
+  size_bytes?: number;
+  // SHA-256 of the content, computed in the browser before the upload
+  sha256?: string;
+  version: number;
+  replaces_id?: string;
+  uploaded_by?: string;
+  uploaded_by_email?: string;
+  uploaded_at: string;
+}
+
+// Which income the affordability ratios are computed on
+export type IncomePolicy = 'lowest' | 'declared' | 'veraz';
+
+// Amounts in pesos; rates are fractions like in LoanTerms
+export interface LoanProduct {
+  id: string;
+  code: string;
+  name: string;
+  description?: string;
+  is_active: boolean;
+  min_amount: number;
+  max_amount: number;
+  min_term_months: number;
+  max_term_months: number;
+  tna: number;
+  origination_fee_rate: number;
+  monthly_fee: number;
+  iva_rate: number;
+  max_payment_to_income_ratio?: number;
+  max_debt_to_income_ratio?: number;
+  income_policy: IncomePolicy;
+  // Monthly payment estimated per peso of debt reported to the BCRA
+  debt_service_rate: number;
+  min_age?: number;
+  max_age?: number;
+  required_documents: DocumentType[];
+  // BCRA rules for this product; the active rule set when unset
+  eligibility_rule_set_version?: number;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface VerazData {
   credit_score?: number;
   current_status?: string;
@@ -56,6 +240,76 @@ export interface VerazData {
   payment_amount?: number;
   requested_amount?: number;
   payment_to_income_ratio?: number;
+  // Simulator inputs; payment_amount, the ratio and the disclosed rates are derived from them
+  loan_terms?: Partial<LoanTerms>;
+  tea?: number;
+  cft?: number;
+  cft_with_iva?: number;
+  // Original report in the loan-documents bucket, when the fields were imported from it
+  veraz_report_file?: string;
+  veraz_report_sha256?: string;
+  veraz_report_imported_at?: string;
+  // Snapshot of the affordability check the stage was saved with
+  affordability?: AffordabilityCheck;
+}
+
+export interface AffordabilityCheck {
+  income_policy: IncomePolicy;
+  declared_income?: number;
+  veraz_income?: number;
+  income?: number;
+  income_source?: 'declared' | 'veraz';
+  payment_amount?: number;
+  // Latest BCRA period, in pesos
+  existing_debt_balance: number;
+  existing_debt_service: number;
+  payment_to_income_ratio?: number;
+  debt_to_income_ratio?: number;
+  max_payment_to_income_ratio?: number;
+  max_debt_to_income_ratio?: number;
+  failures: string[];
+}
+
+// Rates are fractions: 0.85 means 85%
+export interface LoanTerms {
+  amount: number;
+  term_months: number;
+  // Tasa nominal anual
+  tna: number;
+  // Comisión de otorgamiento over the amount, deducted at disbursement
+  origination_fee_rate: number;
+  // Fixed charge added to every installment
+  monthly_fee: number;
+  // IVA on interest
+  iva_rate: number;
+}
+
+export interface AmortizationRow {
+  period: number;
+  opening_balance: number;
+  principal: number;
+  interest: number;
+  iva: number;
+  fee: number;
+  // Cuota pura: principal + interest
+  installment: number;
+  total_payment: number;
+  closing_balance: number;
+}
+
+export interface LoanSimulation {
+  installment: number;
+  // Highest total payment; IVA on interest shrinks with the balance
+  first_payment: number;
+  tem: number;
+  tea: number;
+  cft: number;
+  cft_with_iva: number;
+  total_interest: number;
+  total_iva: number;
+  total_fees: number;
+  total_paid: number;
+  schedule: AmortizationRow[];
 }
 
 export interface VerificationData {
@@ -126,6 +380,41 @@ export interface BCRAHistoricalApiResponse {
   errorMessages?: string[];
 }
 
+export interface BCRABouncedChecksApiResponse {
+  status: number;
+  results?: BCRABouncedChecksData;
+  errorMessages?: string[];
+}
+
+export interface BCRABouncedChecksData {
+  identificacion: number;
+  denominacion: string;
+  causales: BCRABouncedCheckCause[];
+}
+
+export interface BCRABouncedCheckCause {
+  causal: string;
+  entidades: BCRABouncedCheckEntity[];
+}
+
+export interface BCRABouncedCheckEntity {
+  entidad: number;
+  detalle: BCRABouncedCheck[];
+}
+
+export interface BCRABouncedCheck {
+  nroCheque: number;
+  fechaRechazo: string;
+  monto: number;
+  fechaPago?: string | null;
+  fechaPagoMulta?: string | null;
+  estadoMulta?: string | null;
+  ctaPersonal: boolean;
+  denomJuridica?: string | null;
+  enRevision: boolean;
+  procesoJud: boolean;
+}
+
 export interface BCRAError {
   status: number;
   errorMessages: string[];
@@ -138,5 +427,58 @@ export interface BCRAEligibilityAnalysis {
   last6MonthsWorstSituation: number | null;
   last12MonthsWorstSituation: number | null;
   failureReasons: string[];
+  ruleTrace: BCRARuleTraceEntry[];
   analysisDate: string;
+  // Date the windows were computed from; absent on analyses stored before it was recorded
+  asOfDate?: string;
+  // Most recent BCRA period the rules were evaluated on; absent without historical data
+  latestPeriod?: string;
+  ruleSetVersion: number;
+}
+
+export interface BCRARuleTraceEntry {
+  ruleId: string;
+  description: string;
+  window: BCRAEligibilityRule['window'];
+  aggregation: BCRARuleAggregation;
+  periods: string[];
+  entities: string[];
+  observedValue: number | null;
+  threshold: number;
+  passed: boolean;
+  // Not evaluated because its BCRA lookup failed; the analysis is pending
+  unavailable?: boolean;
+}
+
+// Eligibility rule engine types
+export type BCRARuleAggregation = 'worst' | 'average' | 'count';
+
+export interface BCRAEntityFilter {
+  includeEntities?: string[];
+  excludeEntities?: string[];
+  minAmount?: number;
+}
+
+export type BCRARuleMetric = 'situacion' | 'unpaid_bounced_checks';
+
+export interface BCRAEligibilityRule {
+  id: string;
+  description: string;
+  // What the rule measures; defaults to the Central de Deudores situation
+  metric?: BCRARuleMetric;
+  // 'current' evaluates only the most recent reported period; a number evaluates the last N months
+  window: 'current' | number;
+  aggregation: BCRARuleAggregation;
+  entityFilter?: BCRAEntityFilter;
+  // For 'count' rules: periods whose worst situation is above this value are counted
+  countSituationAbove?: number;
+  // Maximum allowed observed value
+  threshold: number;
+}
+
+export interface BCRAEligibilityRuleSet {
+  id?: string;
+  version: number;
+  name: string;
+  rules: BCRAEligibilityRule[];
 }
\ No newline at end of file
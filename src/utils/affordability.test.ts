@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { BCRADebtData } from '../types';
+import { AffordabilityPolicy, checkAffordability, getBCRADebtBalance, selectIncome } from './affordability';
+
+function entity(monto: number) {
+  return {
+    entidad: 'BANCO PRUEBA',
+    situacion: 1,
+    monto,
+    diasAtrasoPago: 0,
+    refinanciaciones: false,
+    recategorizacionOblig: false,
+    situacionJuridica: false,
+    irrecDisposicionTecnica: false,
+    enRevision: false,
+    procesoJud: false,
+  };
+}
+
+// 400 thousand pesos owed in the latest period; older periods don't count
+const debtData: BCRADebtData = {
+  identificacion: 20100000009,
+  denominacion: 'CLIENTE PRUEBA',
+  periodos: [
+    { periodo: '202501', entidades: [entity(900)] },
+    { periodo: '202502', entidades: [entity(300), entity(100)] },
+  ],
+};
+
+const policy: AffordabilityPolicy = {
+  income_policy: 'lowest',
+  debt_service_rate: 0.05,
+  max_payment_to_income_ratio: 0.3,
+  max_debt_to_income_ratio: 0.5,
+};
+
+describe('selectIncome', () => {
+  it.each([
+    { policy: 'lowest' as const, declared: 1000000, veraz: 800000, expected: { income: 800000, source: 'veraz' } },
+    { policy: 'lowest' as const, declared: 700000, veraz: 800000, expected: { income: 700000, source: 'declared' } },
+    { policy: 'lowest' as const, declared: undefined, veraz: 800000, expected: { income: 800000, source: 'veraz' } },
+    { policy: 'declared' as const, declared: 1000000, veraz: 800000, expected: { income: 1000000, source: 'declared' } },
+    { policy: 'declared' as const, declared: undefined, veraz: 800000, expected: {} },
+    { policy: 'veraz' as const, declared: 700000, veraz: 800000, expected: { income: 800000, source: 'veraz' } },
+  ])('$policy with $declared / $veraz → $expected', ({ policy, declared, veraz, expected }) => {
+    expect(selectIncome(policy, declared, veraz)).toEqual(expected);
+  });
+});
+
+describe('getBCRADebtBalance', () => {
+  it('adds up the latest period in pesos', () => {
+    expect(getBCRADebtBalance(debtData)).toBe(400000);
+  });
+
+  it('is zero without BCRA data', () => {
+    expect(getBCRADebtBalance(null)).toBe(0);
+    expect(getBCRADebtBalance({ ...debtData, periodos: [] })).toBe(0);
+  });
+});
+
+describe('checkAffordability', () => {
+  it('computes both ratios on the selected income', () => {
+    const check = checkAffordability({
+      policy,
+      declaredIncome: 1000000,
+      verazIncome: 800000,
+      paymentAmount: 200000,
+      bcraDebtData: debtData,
+    });
+
+    expect(check.income).toBe(800000);
+    expect(check.existing_debt_service).toBe(20000);
+    expect(check.payment_to_income_ratio).toBe(0.25);
+    expect(check.debt_to_income_ratio).toBe(0.275);
+    expect(check.failures).toEqual([]);
+  });
+
+  it('explains every cap the installment exceeds', () => {
+    const check = checkAffordability({
+      policy,
+      verazIncome: 800000,
+      paymentAmount: 260000,
+      bcraDebtData: { ...debtData, periodos: [{ periodo: '202502', entidades: [entity(3200)] }] },
+    });
+
+    // 260k / 800k = 32.5%; plus 160k of estimated debt service = 52.5%
+    expect(check.failures).toHaveLength(2);
+    expect(check.failures[0]).toContain('32.5%');
+    expect(check.failures[1]).toContain('52.5%');
+  });
+
+  it('fails when the policy income is missing', () => {
+    const check = checkAffordability({
+      policy: { ...policy, income_policy: 'declared' },
+      verazIncome: 800000,
+      paymentAmount: 100000,
+    });
+
+    expect(check.income).toBeUndefined();
+    expect(check.failures).toEqual(['Falta el ingreso neto declarado en la etapa de documentos']);
+  });
+
+  it('only reports ratios without product caps', () => {
+    const check = checkAffordability({
+      policy: { income_policy: 'lowest', debt_service_rate: 0.05 },
+      verazIncome: 100000,
+      paymentAmount: 90000,
+    });
+
+    expect(check.payment_to_income_ratio).toBe(0.9);
+    expect(check.failures).toEqual([]);
+  });
+});
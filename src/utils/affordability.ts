@@ -0,0 +1,138 @@
+import { AffordabilityCheck, BCRADebtData, IncomePolicy, LoanProduct } from '../types';
+
+/**
+ * Affordability of a new installment: its ratio to the applicant's income,
+ * alone and together with the debts the BCRA already reports, checked
+ * against the caps of the loan product.
+ */
+
+export interface AffordabilityPolicy {
+  income_policy: IncomePolicy;
+  debt_service_rate: number;
+  max_payment_to_income_ratio?: number;
+  max_debt_to_income_ratio?: number;
+}
+
+// Operations without a product: the lower income and the usual 5% of the balance, with no caps
+export const DEFAULT_AFFORDABILITY_POLICY: AffordabilityPolicy = {
+  income_policy: 'lowest',
+  debt_service_rate: 0.05,
+};
+
+export interface AffordabilityInputs {
+  policy: AffordabilityPolicy;
+  declaredIncome?: number;
+  verazIncome?: number;
+  paymentAmount?: number;
+  bcraDebtData?: BCRADebtData | null;
+}
+
+export const INCOME_POLICY_LABELS: Record<IncomePolicy, string> = {
+  lowest: 'Menor entre declarado y VERAZ',
+  declared: 'Ingreso declarado',
+  veraz: 'Ingreso VERAZ',
+};
+
+export function getAffordabilityPolicy(product: LoanProduct | null): AffordabilityPolicy {
+  if (!product) return DEFAULT_AFFORDABILITY_POLICY;
+
+  return {
+    income_policy: product.income_policy ?? DEFAULT_AFFORDABILITY_POLICY.income_policy,
+    debt_service_rate: product.debt_service_rate ?? DEFAULT_AFFORDABILITY_POLICY.debt_service_rate,
+    max_payment_to_income_ratio: product.max_payment_to_income_ratio ?? undefined,
+    max_debt_to_income_ratio: product.max_debt_to_income_ratio ?? undefined,
+  };
+}
+
+export function selectIncome(
+  policy: IncomePolicy,
+  declaredIncome?: number,
+  verazIncome?: number
+): { income?: number; source?: 'declared' | 'veraz' } {
+  const declared = declaredIncome && declaredIncome > 0 ? declaredIncome : undefined;
+  const veraz = verazIncome && verazIncome > 0 ? verazIncome : undefined;
+
+  switch (policy) {
+    case 'declared':
+      return declared ? { income: declared, source: 'declared' } : {};
+    case 'veraz':
+      return veraz ? { income: veraz, source: 'veraz' } : {};
+    case 'lowest':
+      // With a single income available that one is the lowest
+      if (declared && (!veraz || declared <= veraz)) return { income: declared, source: 'declared' };
+      return veraz ? { income: veraz, source: 'veraz' } : {};
+  }
+}
+
+// Balance of the most recent period reported to the Central de Deudores, in pesos
+export function getBCRADebtBalance(debtData?: BCRADebtData | null): number {
+  const latest = [...(debtData?.periodos || [])].sort((a, b) => b.periodo.localeCompare(a.periodo))[0];
+  if (!latest) return 0;
+
+  // The BCRA reports amounts in thousands of pesos
+  return (latest.entidades || []).reduce((sum, entity) => sum + (entity.monto || 0), 0) * 1000;
+}
+
+function roundRatio(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+export function formatRatio(ratio: number): string {
+  return `${(ratio * 100).toFixed(1)}%`;
+}
+
+export function checkAffordability({
+  policy,
+  declaredIncome,
+  verazIncome,
+  paymentAmount,
+  bcraDebtData,
+}: AffordabilityInputs): AffordabilityCheck {
+  const { income, source } = selectIncome(policy.income_policy, declaredIncome, verazIncome);
+  const existingDebtBalance = getBCRADebtBalance(bcraDebtData);
+  const existingDebtService = Math.round(existingDebtBalance * policy.debt_service_rate * 100) / 100;
+
+  const check: AffordabilityCheck = {
+    income_policy: policy.income_policy,
+    declared_income: declaredIncome,
+    veraz_income: verazIncome,
+    income,
+    income_source: source,
+    payment_amount: paymentAmount,
+    existing_debt_balance: existingDebtBalance,
+    existing_debt_service: existingDebtService,
+    max_payment_to_income_ratio: policy.max_payment_to_income_ratio,
+    max_debt_to_income_ratio: policy.max_debt_to_income_ratio,
+    failures: [],
+  };
+
+  if (!income) {
+    if (policy.income_policy === 'declared') {
+      check.failures.push('Falta el ingreso neto declarado en la etapa de documentos');
+    } else if (policy.income_policy === 'veraz') {
+      check.failures.push('Faltan los ingresos del reporte VERAZ');
+    } else {
+      check.failures.push('No hay ingresos declarados ni informados por VERAZ');
+    }
+    return check;
+  }
+
+  if (paymentAmount === undefined) return check;
+
+  check.payment_to_income_ratio = roundRatio(paymentAmount / income);
+  check.debt_to_income_ratio = roundRatio((paymentAmount + existingDebtService) / income);
+
+  if (policy.max_payment_to_income_ratio !== undefined && check.payment_to_income_ratio > policy.max_payment_to_income_ratio) {
+    check.failures.push(
+      `La cuota representa el ${formatRatio(check.payment_to_income_ratio)} del ingreso; el producto admite hasta ${formatRatio(policy.max_payment_to_income_ratio)}`
+    );
+  }
+
+  if (policy.max_debt_to_income_ratio !== undefined && check.debt_to_income_ratio > policy.max_debt_to_income_ratio) {
+    check.failures.push(
+      `La cuota más las deudas informadas al BCRA representan el ${formatRatio(check.debt_to_income_ratio)} del ingreso; el producto admite hasta ${formatRatio(policy.max_debt_to_income_ratio)}`
+    );
+  }
+
+  return check;
+}
@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { supabase } from '../lib/supabase';
+import { BCRAEligibilityAnalysis } from '../types';
+import { clearAssessmentCache, findSavedAssessmentId, performLoanAssessment } from './assessment';
+import { getBCRACircuitStatus, resetBCRACircuit } from './bcraApi';
+import { getBCRAFixtureResponse } from './bcraFixtures';
+import { DEFAULT_ELIGIBILITY_RULE_SET } from './eligibilityRules';
+import { fetchActiveEligibilityRuleSet } from './eligibilityRuleSets';
+
+vi.mock('../lib/supabase', () => ({
+  supabase: { from: vi.fn() },
+  supabaseFunctionsUrl: 'http://localhost/functions/v1',
+  getFunctionHeaders: vi.fn(async () => ({})),
+}));
+
+vi.mock('./eligibilityRuleSets', () => ({
+  fetchActiveEligibilityRuleSet: vi.fn(async () => DEFAULT_ELIGIBILITY_RULE_SET),
+}));
+
+// February 2025: six and twelve month windows reach back into 2024
+const REFERENCE_DATE = new Date(2025, 1, 15);
+
+// Serves the offline fixture catalogue as if it were the BCRA API
+function createFixtureFetch(overrides: Record<string, unknown> = {}) {
+  return vi.fn(async (input: RequestInfo | URL) => {
+    const [, path, cuit] = String(input).match(/v1\.0\/(.+)\/(\d{11})$/) || [];
+    const body = overrides[path] ?? getBCRAFixtureResponse(path, cuit, REFERENCE_DATE);
+    return new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' } });
+  });
+}
+
+async function assess(cuit: string, fetchMock: ReturnType<typeof createFixtureFetch>) {
+  const assessment = performLoanAssessment(cuit, { fetch: fetchMock, now: () => REFERENCE_DATE });
+  await vi.runAllTimersAsync();
+  return assessment;
+}
+
+describe('performLoanAssessment', () => {
+  beforeEach(() => {
+    clearAssessmentCache();
+    resetBCRACircuit();
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it.each([
+    { scenario: 'clean', cuit: '20111111112', result: 'eligible', status: 'BCRA_APTO' },
+    { scenario: 'situation 2 six months ago', cuit: '20222222223', result: 'not_eligible', status: 'BCRA_NO_APTO' },
+    { scenario: 'situation 5', cuit: '27333333339', result: 'not_eligible', status: 'BCRA_NO_APTO' },
+  ])('$scenario → $result', async ({ cuit, result, status }) => {
+    const assessment = await assess(cuit, createFixtureFetch());
+
+    expect(assessment.result).toBe(result);
+    expect(assessment.bcraEligibilityStatus).toBe(status);
+    expect(assessment.bcraBouncedChecks).toBeNull();
+    expect(assessment.bcraEligibilityAnalysis?.asOfDate).toBe(REFERENCE_DATE.toISOString());
+  });
+
+  it('flags the six month window failure for the situation 2 scenario', async () => {
+    const assessment = await assess('20222222223', createFixtureFetch());
+    const trace = assessment.bcraEligibilityAnalysis?.ruleTrace || [];
+
+    expect(trace.find(entry => entry.ruleId === 'worst_situation_6m')).toMatchObject({ observedValue: 2, passed: false });
+    expect(trace.find(entry => entry.ruleId === 'worst_situation_12m')).toMatchObject({ observedValue: 2, passed: true });
+  });
+
+  it('falls back to pending when only current data exists', async () => {
+    const fetchMock = createFixtureFetch({
+      'Deudas/Historicas': { status: 404, errorMessages: ['No se encontró datos para la identificación ingresada.'] },
+    });
+
+    const assessment = await assess('20111111112', fetchMock);
+
+    expect(assessment.result).toBe('pending');
+    expect(assessment.bcraData?.denominacion).toBe('CLIENTE PRUEBA NORMAL');
+    expect(assessment.bcraEligibilityAnalysis?.failureReasons).toEqual([
+      'No hay datos históricos disponibles para análisis completo',
+    ]);
+  });
+
+  it('is pending without an analysis for an unknown CUIT', async () => {
+    const assessment = await assess('20444444445', createFixtureFetch());
+
+    expect(assessment.result).toBe('pending');
+    expect(assessment.bcraEligibilityAnalysis).toBeUndefined();
+  });
+
+  it('is pending and not cached when the eligibility rules fail to load', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(fetchActiveEligibilityRuleSet).mockRejectedValueOnce(new Error('connection refused'));
+    const fetchMock = createFixtureFetch();
+
+    const assessment = await assess('20111111112', fetchMock);
+
+    expect(assessment.result).toBe('pending');
+    expect(assessment.bcraEligibilityStatus).toBe('BCRA_PENDING');
+    expect(assessment.bcraEligibilityAnalysis).toBeUndefined();
+
+    expect((await assess('20111111112', fetchMock)).result).toBe('eligible');
+  });
+
+  it('serves repeated assessments from the cache', async () => {
+    const fetchMock = createFixtureFetch();
+
+    await assess('20111111112', fetchMock);
+    await assess('20111111112', fetchMock);
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('is pending and opens the circuit when BCRA keeps failing', async () => {
+    const fetchMock = createFixtureFetch();
+
+    const assessment = await assess('20555555556', fetchMock);
+
+    expect(assessment.result).toBe('pending');
+    expect(assessment.bcraEligibilityAnalysis).toBeUndefined();
+    expect(getBCRACircuitStatus().state).toBe('open');
+    // Three attempts for current data, two for history before the circuit opens, none for checks
+    expect(fetchMock).toHaveBeenCalledTimes(5);
+  });
+});
+
+describe('findSavedAssessmentId', () => {
+  // Records the filters of the lookup and answers with the given row
+  function mockLookup(row: { id: string } | null) {
+    const filters: unknown[][] = [];
+    const query = {
+      select: () => query,
+      eq: (...args: unknown[]) => {
+        filters.push(['eq', ...args]);
+        return query;
+      },
+      is: (...args: unknown[]) => {
+        filters.push(['is', ...args]);
+        return query;
+      },
+      limit: () => query,
+      maybeSingle: async () => ({ data: row, error: null }),
+    };
+    vi.mocked(supabase.from).mockReturnValue(query as unknown as ReturnType<typeof supabase.from>);
+    return filters;
+  }
+
+  const analysis = { ruleSetVersion: 2, latestPeriod: '202501' } as BCRAEligibilityAnalysis;
+
+  it('matches the rule set version and the latest BCRA period of the analysis', async () => {
+    const filters = mockLookup({ id: 'assessment-1' });
+
+    await expect(findSavedAssessmentId('advisor-1', '20-11111111-2', 'eligible', 'BCRA_APTO', analysis)).resolves.toBe('assessment-1');
+    expect(filters).toContainEqual(['eq', 'bcra_eligibility_analysis->>ruleSetVersion', '2']);
+    expect(filters).toContainEqual(['eq', 'bcra_eligibility_analysis->>latestPeriod', '202501']);
+  });
+
+  it('only matches assessments without an analysis when there is none', async () => {
+    const filters = mockLookup(null);
+
+    await expect(findSavedAssessmentId('advisor-1', '20-44444444-5', 'pending', 'BCRA_PENDING', undefined)).resolves.toBeNull();
+    expect(filters).toContainEqual(['is', 'bcra_eligibility_analysis', null]);
+  });
+});
@@ -1,5 +1,7 @@
-import { BCRADebtData, BCRAHistoricalData, BCRAEligibilityAnalysis } from '../types';
-import { fetchBCRADebtData, fetchBCRAHistoricalData, BCRAApiError, analyzeBCRAEligibility } from './bcraApi';
+import { supabase } from '../lib/supabase';
+import { Assessment, BCRABouncedChecksData, BCRADebtData, BCRAHistoricalData, BCRAEligibilityAnalysis } from '../types';
+import { fetchBCRADebtData, fetchBCRAHistoricalData, fetchBCRABouncedChecks, BCRAApiError, BCRARequestOptions, analyzeBCRAEligibility, isBCRAUnavailableError } from './bcraApi';
+import { fetchActiveEligibilityRuleSet } from './eligibilityRuleSets';
 
 // Mock data for demonstration - in production, this would come from external APIs
 const mockClientData: Record<string, any> = {
@@ -23,15 +25,27 @@ const mockClientData: Record<string, any> = {
 // Cache for assessment results to improve performance
 const assessmentCache = new Map<string, any>();
 
-export async function performLoanAssessment(cuit: string): Promise<{
+export function clearAssessmentCache(): void {
+  assessmentCache.clear();
+}
+
+// Injectable clock and fetch so assessments can be reproduced deterministically
+export interface AssessmentOptions extends BCRARequestOptions {
+  now?: () => Date;
+}
+
+export async function performLoanAssessment(cuit: string, options: AssessmentOptions = {}): Promise<{
   result: 'eligible' | 'not_eligible' | 'pending';
   clientName?: string;
   bcraData?: BCRADebtData;
   bcraHistoricalData?: BCRAHistoricalData;
+  bcraBouncedChecks?: BCRABouncedChecksData | null;
   bcraEligibilityStatus?: 'BCRA_APTO' | 'BCRA_NO_APTO' | 'BCRA_PENDING';
   bcraEligibilityAnalysis?: BCRAEligibilityAnalysis;
 }> {
   const cleanCuit = cuit.replace(/\D/g, '');
+  const requestOptions: BCRARequestOptions = { fetch: options.fetch };
+  const now = options.now ?? (() => new Date());
   
   // Check cache first
   if (assessmentCache.has(cleanCuit)) {
@@ -48,31 +62,57 @@ export async function performLoanAssessment(cuit: string): Promise<{
   const clientData = mockClientData[cleanCuit];
   let bcraData: BCRADebtData | undefined;
   let bcraHistoricalData: BCRAHistoricalData | undefined;
+  let bcraBouncedChecks: BCRABouncedChecksData | null | undefined;
   let bcraEligibilityAnalysis: BCRAEligibilityAnalysis | undefined;
   let bcraEligibilityStatus: 'BCRA_APTO' | 'BCRA_NO_APTO' | 'BCRA_PENDING' = 'BCRA_PENDING';
+  let bcraUnavailable = false;
 
   // Try to fetch BCRA current data
   try {
     console.log('📊 Fetching BCRA current debt data...');
-    bcraData = await fetchBCRADebtData(cleanCuit);
+    bcraData = await fetchBCRADebtData(cleanCuit, requestOptions);
     console.log(`✅ BCRA current data retrieved successfully for: ${bcraData.denominacion}`);
   } catch (error) {
     console.warn('⚠️ BCRA current data fetch failed:', error);
+    bcraUnavailable = bcraUnavailable || isBCRAUnavailableError(error);
   }
 
   // Try to fetch BCRA historical data
   try {
     console.log('📈 Fetching BCRA historical data...');
-    bcraHistoricalData = await fetchBCRAHistoricalData(cleanCuit);
+    bcraHistoricalData = await fetchBCRAHistoricalData(cleanCuit, requestOptions);
     console.log(`✅ BCRA historical data retrieved successfully for: ${bcraHistoricalData.denominacion}`);
   } catch (error) {
     console.warn('⚠️ BCRA historical data fetch failed:', error);
+    bcraUnavailable = bcraUnavailable || isBCRAUnavailableError(error);
   }
 
-  // Analyze BCRA eligibility based on the new rules
+  // Try to fetch BCRA bounced checks (404 means none on record)
+  try {
+    console.log('🧾 Fetching BCRA bounced checks...');
+    bcraBouncedChecks = await fetchBCRABouncedChecks(cleanCuit, requestOptions);
+    console.log(`✅ BCRA bounced checks retrieved successfully for: ${bcraBouncedChecks.denominacion}`);
+  } catch (error) {
+    if (error instanceof BCRAApiError && error.status === 404) {
+      console.log('✅ No bounced checks on record');
+      bcraBouncedChecks = null;
+    } else {
+      console.warn('⚠️ BCRA bounced checks fetch failed:', error);
+      bcraUnavailable = bcraUnavailable || isBCRAUnavailableError(error);
+    }
+  }
+
+  // Analyze BCRA eligibility based on the active rule set
   if (bcraData || bcraHistoricalData) {
-    bcraEligibilityAnalysis = analyzeBCRAEligibility(bcraData || null, bcraHistoricalData || null);
-    bcraEligibilityStatus = bcraEligibilityAnalysis.status;
+    try {
+      const ruleSet = await fetchActiveEligibilityRuleSet();
+      bcraEligibilityAnalysis = analyzeBCRAEligibility(bcraData || null, bcraHistoricalData || null, ruleSet, bcraBouncedChecks, now());
+      bcraEligibilityStatus = bcraEligibilityAnalysis.status;
+    } catch (error) {
+      // Without the configured rules the data is not evaluated: the assessment stays pending and isn't cached
+      console.error('❌ Eligibility rules unavailable, leaving the assessment pending:', error);
+      bcraUnavailable = true;
+    }
   }
 
   // Determine result based on BCRA status
@@ -94,19 +134,60 @@ export async function performLoanAssessment(cuit: string): Promise<{
     clientName,
     bcraData,
     bcraHistoricalData,
+    bcraBouncedChecks,
     bcraEligibilityStatus,
     bcraEligibilityAnalysis,
   };
   
-  // Cache the result
-  assessmentCache.set(cleanCuit, assessmentResult);
+  // Cache the result, unless BCRA was unavailable and a retry may give a complete answer
+  if (!bcraUnavailable) {
+    assessmentCache.set(cleanCuit, assessmentResult);
+  }
   
   console.log(`✅ Assessment completed for ${clientName}: ${result} (BCRA: ${bcraEligibilityStatus})`);
   
   return assessmentResult;
 }
 
+// An advisor keeps one saved assessment per CUIT, outcome, rule set version and BCRA period;
+// repeating it reuses the saved one, while newer BCRA data or rules are saved as a new assessment
+export async function findSavedAssessmentId(
+  advisorId: string,
+  clientCuit: string,
+  result: Assessment['assessment_result'],
+  bcraEligibilityStatus: Assessment['bcra_eligibility_status'],
+  bcraEligibilityAnalysis: Assessment['bcra_eligibility_analysis'] | null
+): Promise<string | null> {
+  let query = supabase
+    .from('assessments')
+    .select('id')
+    .eq('advisor_id', advisorId)
+    .eq('client_cuit', clientCuit)
+    .eq('assessment_result', result);
+
+  query = bcraEligibilityStatus
+    ? query.eq('bcra_eligibility_status', bcraEligibilityStatus)
+    : query.is('bcra_eligibility_status', null);
+
+  if (!bcraEligibilityAnalysis) {
+    query = query.is('bcra_eligibility_analysis', null);
+  } else {
+    query = query.eq('bcra_eligibility_analysis->>ruleSetVersion', String(bcraEligibilityAnalysis.ruleSetVersion));
+    query = bcraEligibilityAnalysis.latestPeriod
+      ? query.eq('bcra_eligibility_analysis->>latestPeriod', bcraEligibilityAnalysis.latestPeriod)
+      : query.is('bcra_eligibility_analysis->>latestPeriod', null);
+  }
+
+  const { data, error } = await query.limit(1).maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data?.id ?? null;
+}
+
 // Clear cache periodically to ensure fresh data
 setInterval(() => {
-  assessmentCache.clear();
+  clearAssessmentCache();
 }, 5 * 60 * 1000); // Clear every 5 minutes
\ No newline at end of file
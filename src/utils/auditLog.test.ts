@@ -0,0 +1,77 @@
+import { describe, expect, it, vi } from 'vitest';
+import { flattenAuditDiff, formatAuditValue, getAuditFieldLabel } from './auditLog';
+
+vi.mock('../lib/supabase', () => ({ supabase: { from: vi.fn() } }));
+
+describe('flattenAuditDiff', () => {
+  it('flattens nested jsonb diffs into dotted paths', () => {
+    const diff = {
+      status: { old: 'in_progress', new: 'under_review' },
+      contact_info: {
+        phone_number: { old: '1122334455', new: '1199887766' },
+      },
+    };
+
+    expect(flattenAuditDiff(diff)).toEqual([
+      { path: 'status', oldValue: 'in_progress', newValue: 'under_review' },
+      { path: 'contact_info.phone_number', oldValue: '1122334455', newValue: '1199887766' },
+    ]);
+  });
+
+  it('hides the row id and timestamps', () => {
+    const diff = {
+      id: { new: 'op-1' },
+      status_changed_at: { old: null, new: '2025-06-16T10:00:00Z' },
+      updated_at: { old: '2025-06-16T09:00:00Z', new: '2025-06-16T10:00:00Z' },
+      review_comments: { old: null, new: 'Falta el recibo' },
+    };
+
+    expect(flattenAuditDiff(diff).map(change => change.path)).toEqual(['review_comments']);
+  });
+
+  it('shows changes of owner and actors', () => {
+    const diff = {
+      advisor_id: { old: 'advisor-1', new: 'advisor-2' },
+      branch_id: { old: 'branch-1', new: 'branch-2' },
+      verified_by: { old: null, new: 'analyst-1' },
+      decided_by: { old: null, new: 'supervisor-1' },
+      status_changed_by: { old: 'analyst-1', new: 'supervisor-1' },
+    };
+
+    expect(flattenAuditDiff(diff).map(change => getAuditFieldLabel(change.path))).toEqual([
+      'Asesor',
+      'Sucursal',
+      'Verificado por',
+      'Decidido por',
+      'Estado cambiado por',
+    ]);
+  });
+
+  it('treats missing sides of a change as null', () => {
+    expect(flattenAuditDiff({ documents: { salary_receipt: { new: 'OP0001/salary_receipt.pdf' } } })).toEqual([
+      { path: 'documents.salary_receipt', oldValue: null, newValue: 'OP0001/salary_receipt.pdf' },
+    ]);
+  });
+
+  it('only hides identifiers at the top level', () => {
+    expect(flattenAuditDiff({ veraz_data: { id: { old: 1, new: 2 } } })).toHaveLength(1);
+  });
+});
+
+describe('getAuditFieldLabel', () => {
+  it('labels each segment of the path', () => {
+    expect(getAuditFieldLabel('contact_info.phone_number')).toBe('Contacto › Teléfono');
+    expect(getAuditFieldLabel('unknown_field')).toBe('unknown_field');
+  });
+});
+
+describe('formatAuditValue', () => {
+  it('formats empty values, booleans and objects', () => {
+    expect(formatAuditValue(null)).toBe('—');
+    expect(formatAuditValue('')).toBe('—');
+    expect(formatAuditValue(true)).toBe('Sí');
+    expect(formatAuditValue(0)).toBe('0');
+    expect(formatAuditValue({ a: 1 })).toBe('{"a":1}');
+    expect(formatAuditValue({ text: 'x'.repeat(100) })).toHaveLength(80);
+  });
+});
@@ -0,0 +1,138 @@
+import { supabase } from '../lib/supabase';
+import { AuditLogEntry, AuditedTable } from '../types';
+
+export interface AuditChange {
+  path: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+// Columns that are noise in the timeline: the row id and timestamps, which the entry itself dates.
+// Ownership and actor columns stay visible, a reassignment is exactly what an auditor looks for
+function isHiddenField(key: string): boolean {
+  return key === 'id' || key.endsWith('_at');
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  advisor_id: 'Asesor',
+  branch_id: 'Sucursal',
+  assessment_id: 'Evaluación',
+  product_id: 'Producto',
+  verified_by: 'Verificado por',
+  decided_by: 'Decidido por',
+  status_changed_by: 'Estado cambiado por',
+  status: 'Estado',
+  current_stage: 'Etapa',
+  client_name: 'Cliente',
+  client_cuit: 'CUIT',
+  contact_info: 'Contacto',
+  documents: 'Documentos',
+  veraz_data: 'Datos VERAZ',
+  verification_data: 'Verificación',
+  rejection_reason_code: 'Motivo de rechazo',
+  rejection_justification: 'Justificación del rechazo',
+  review_comments: 'Observaciones de revisión',
+  assessment_result: 'Resultado',
+  bcra_eligibility_status: 'Estado BCRA',
+  bcra_eligibility_analysis: 'Análisis BCRA',
+  bcra_debt_data: 'Deudas BCRA',
+  bcra_historical_data: 'Historial BCRA',
+  bcra_bounced_checks: 'Cheques rechazados',
+  bcra_bounced_checks_unavailable: 'Cheques rechazados no disponibles',
+  phone_number: 'Teléfono',
+  email_address: 'Email',
+  date_of_birth: 'Fecha de nacimiento',
+  id_card_front: 'DNI frente',
+  id_card_back: 'DNI dorso',
+  salary_receipt: 'Recibo de sueldo',
+  pension_receipt: 'Recibo de haberes',
+  proof_of_address: 'Comprobante de domicilio',
+  payroll_authorization: 'Autorización de descuento',
+  net_income: 'Ingresos netos',
+  credit_score: 'Puntaje',
+  current_status: 'Estado actual',
+  maximum_delay_24m: 'Máximo atraso 24M',
+  financial_system_debt_balance: 'Deuda sistema financiero',
+  veraz_report_income: 'Ingresos VERAZ',
+  financial_inquiries_6m: 'Consultas 6M',
+  requested_amount: 'Monto solicitado',
+  payment_amount: 'Cuota',
+  payment_to_income_ratio: 'Relación cuota/ingreso',
+  loan_terms: 'Condiciones',
+  amount: 'Monto',
+  term_months: 'Plazo',
+  tna: 'TNA',
+  tea: 'TEA',
+  cft: 'CFTEA sin IVA',
+  cft_with_iva: 'CFTEA con IVA',
+  affordability: 'Capacidad de pago',
+  veraz_report_file: 'Reporte VERAZ',
+  veraz_report_imported_at: 'Reporte VERAZ importado',
+  debt_to_income_ratio: 'Endeudamiento total',
+  existing_debt_service: 'Servicio de deuda BCRA',
+  employment_status_verified: 'Empleo verificado',
+  identity_verified: 'Identidad verificada',
+};
+
+// A leaf in the trigger's diff is {old, new}; anything else is a nested object diff
+function isLeafChange(value: unknown): value is { old?: unknown; new?: unknown } {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every(key => key === 'old' || key === 'new');
+}
+
+/**
+ * Flattens the nested jsonb diff written by write_audit_log into one
+ * change per leaf, e.g. `contact_info.phone_number`.
+ */
+export function flattenAuditDiff(diff: Record<string, unknown>, prefix = ''): AuditChange[] {
+  return Object.entries(diff).flatMap(([key, value]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+
+    if (!prefix && isHiddenField(key)) return [];
+
+    if (isLeafChange(value)) {
+      return [{ path, oldValue: value.old ?? null, newValue: value.new ?? null }];
+    }
+
+    if (value && typeof value === 'object') {
+      return flattenAuditDiff(value as Record<string, unknown>, path);
+    }
+
+    return [];
+  });
+}
+
+export function getAuditFieldLabel(path: string): string {
+  return path
+    .split('.')
+    .map(part => FIELD_LABELS[part] || part)
+    .join(' › ');
+}
+
+export function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Sí' : 'No';
+  if (typeof value === 'object') {
+    const json = JSON.stringify(value);
+    return json.length > 80 ? `${json.slice(0, 77)}...` : json;
+  }
+  return String(value);
+}
+
+export async function fetchAuditLog(tableName: AuditedTable, rowId: string): Promise<AuditLogEntry[]> {
+  const { data, error } = await supabase
+    .from('audit_log')
+    .select('*')
+    .eq('table_name', tableName)
+    .eq('row_id', rowId)
+    .order('changed_at', { ascending: false });
+
+  if (error) {
+    console.error('❌ Error fetching audit log:', error);
+    throw error;
+  }
+
+  return data || [];
+}
@@ -0,0 +1,197 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BCRADebtData, BCRAHistoricalData, BCRAHistoricalPeriod } from '../types';
+import { BCRAApiError, analyzeBCRAEligibility, fetchBCRADebtData, getAssessmentBouncedChecks, resetBCRACircuit } from './bcraApi';
+import { DEFAULT_ELIGIBILITY_RULE_SET } from './eligibilityRules';
+
+vi.mock('../lib/supabase', () => ({
+  supabase: {},
+  supabaseFunctionsUrl: 'http://localhost/functions/v1',
+  getFunctionHeaders: vi.fn(async () => ({})),
+}));
+
+const REFERENCE_DATE = new Date(2025, 1, 15);
+
+function period(periodo: string, situacion: number | null): BCRAHistoricalPeriod {
+  return {
+    periodo,
+    entidades: situacion === null ? [] : [{
+      entidad: 'BANCO DE PRUEBA',
+      situacion,
+      monto: 100,
+      enRevision: false,
+      procesoJud: false,
+    }],
+  };
+}
+
+function historical(periodos: BCRAHistoricalPeriod[]): BCRAHistoricalData {
+  return { identificacion: 20100000009, denominacion: 'CLIENTE PRUEBA', periodos };
+}
+
+const currentData: BCRADebtData = {
+  identificacion: 20100000009,
+  denominacion: 'CLIENTE PRUEBA',
+  periodos: [],
+};
+
+describe('analyzeBCRAEligibility', () => {
+  it('is pending when there is no data', () => {
+    const analysis = analyzeBCRAEligibility(null, null, DEFAULT_ELIGIBILITY_RULE_SET, null, REFERENCE_DATE);
+
+    expect(analysis.status).toBe('BCRA_PENDING');
+    expect(analysis.failureReasons).toEqual(['No hay datos disponibles en BCRA']);
+  });
+
+  it('falls back to pending when only current data exists', () => {
+    const analysis = analyzeBCRAEligibility(currentData, null, DEFAULT_ELIGIBILITY_RULE_SET, null, REFERENCE_DATE);
+
+    expect(analysis.status).toBe('BCRA_PENDING');
+    expect(analysis.isEligible).toBe(false);
+    expect(analysis.failureReasons).toEqual(['No hay datos históricos disponibles para análisis completo']);
+    expect(analysis.ruleTrace).toEqual([]);
+  });
+
+  it('is pending when the history has no periods', () => {
+    const analysis = analyzeBCRAEligibility(currentData, historical([]), DEFAULT_ELIGIBILITY_RULE_SET, null, REFERENCE_DATE);
+
+    expect(analysis.status).toBe('BCRA_PENDING');
+    expect(analysis.failureReasons).toEqual(['No hay períodos disponibles en el historial']);
+  });
+
+  it('treats periods with empty entidades as normal situation', () => {
+    const analysis = analyzeBCRAEligibility(
+      currentData,
+      historical([period('202501', null), period('202412', null)]),
+      DEFAULT_ELIGIBILITY_RULE_SET,
+      null,
+      REFERENCE_DATE
+    );
+
+    expect(analysis.status).toBe('BCRA_APTO');
+    expect(analysis.currentSituation).toBe(1);
+    expect(analysis.last6MonthsWorstSituation).toBe(1);
+    expect(analysis.last12MonthsWorstSituation).toBe(1);
+  });
+
+  it.each([
+    { name: 'clean history', periods: [['202501', 1], ['202408', 1], ['202403', 1]], status: 'BCRA_APTO' },
+    { name: 'situation 2 at the edge of the 6 month window', periods: [['202501', 1], ['202408', 2]], status: 'BCRA_NO_APTO' },
+    { name: 'situation 2 just outside the 6 month window', periods: [['202501', 1], ['202407', 2]], status: 'BCRA_APTO' },
+    { name: 'situation 3 inside the 12 month window', periods: [['202501', 1], ['202402', 3]], status: 'BCRA_NO_APTO' },
+    { name: 'situation 3 outside the 12 month window', periods: [['202501', 1], ['202401', 3]], status: 'BCRA_APTO' },
+    { name: 'current situation 2', periods: [['202501', 2]], status: 'BCRA_NO_APTO' },
+  ] as const)('$name → $status', ({ periods, status }) => {
+    // Unsorted on purpose: the analysis sorts most recent first
+    const periodos = [...periods].reverse().map(([p, s]) => period(p, s));
+    const analysis = analyzeBCRAEligibility(currentData, historical(periodos), DEFAULT_ELIGIBILITY_RULE_SET, null, REFERENCE_DATE);
+
+    expect(analysis.status).toBe(status);
+    expect(analysis.ruleTrace).toHaveLength(DEFAULT_ELIGIBILITY_RULE_SET.rules.length);
+  });
+
+  it('is pending when the bounced checks lookup was unavailable', () => {
+    const analysis = analyzeBCRAEligibility(currentData, historical([period('202501', 1)]), DEFAULT_ELIGIBILITY_RULE_SET, undefined, REFERENCE_DATE);
+
+    expect(analysis.status).toBe('BCRA_PENDING');
+    expect(analysis.isEligible).toBe(false);
+    expect(analysis.failureReasons).toEqual(['Cheques rechazados impagos: consulta no disponible']);
+    expect(analysis.ruleTrace.find(entry => entry.ruleId === 'unpaid_bounced_checks')).toMatchObject({
+      observedValue: null,
+      passed: false,
+      unavailable: true,
+    });
+  });
+
+  it('is not eligible despite the unavailable lookup when another rule fails', () => {
+    const analysis = analyzeBCRAEligibility(currentData, historical([period('202501', 3)]), DEFAULT_ELIGIBILITY_RULE_SET, undefined, REFERENCE_DATE);
+
+    expect(analysis.status).toBe('BCRA_NO_APTO');
+    expect(analysis.failureReasons).not.toContain('Cheques rechazados impagos: consulta no disponible');
+  });
+
+  it('records the as-of date and the latest period evaluated with the analysis', () => {
+    const periodos = [period('202503', 1), period('202412', 1), period('202501', 1)];
+    const analysis = analyzeBCRAEligibility(currentData, historical(periodos), DEFAULT_ELIGIBILITY_RULE_SET, null, REFERENCE_DATE);
+
+    expect(analysis.asOfDate).toBe(REFERENCE_DATE.toISOString());
+    expect(analysis.latestPeriod).toBe('202501');
+  });
+
+  it('ignores periods reported after the as-of date', () => {
+    const periodos = [period('202503', 4), period('202502', 1), period('202501', 1)];
+    const analysis = analyzeBCRAEligibility(currentData, historical(periodos), DEFAULT_ELIGIBILITY_RULE_SET, null, REFERENCE_DATE);
+
+    expect(analysis.status).toBe('BCRA_APTO');
+    expect(analysis.currentSituation).toBe(1);
+  });
+
+  it.each([
+    // The same history replayed at different dates: situation 3 in 202402 leaves the 12 month window in March 2025
+    { asOf: new Date(2025, 1, 28), status: 'BCRA_NO_APTO' },
+    { asOf: new Date(2025, 2, 1), status: 'BCRA_APTO' },
+  ])('replayed as of $asOf → $status', ({ asOf, status }) => {
+    const periodos = [period('202502', 1), period('202402', 3)];
+    const analysis = analyzeBCRAEligibility(currentData, historical(periodos), DEFAULT_ELIGIBILITY_RULE_SET, null, asOf);
+
+    expect(analysis.status).toBe(status);
+  });
+
+  it('replays a saved assessment whose bounced checks lookup was unavailable as pending', () => {
+    const saved = { bcra_bounced_checks: null, bcra_bounced_checks_unavailable: true };
+    const analysis = analyzeBCRAEligibility(currentData, historical([period('202501', 1)]), DEFAULT_ELIGIBILITY_RULE_SET, getAssessmentBouncedChecks(saved), REFERENCE_DATE);
+
+    expect(analysis.status).toBe('BCRA_PENDING');
+    expect(getAssessmentBouncedChecks({ ...saved, bcra_bounced_checks_unavailable: false })).toBeNull();
+  });
+});
+
+describe('fetchBCRADebtData', () => {
+  beforeEach(() => {
+    resetBCRACircuit();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function jsonResponse(body: unknown): Response {
+    return new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' } });
+  }
+
+  it('returns the results of a successful response', async () => {
+    const fetchMock = vi.fn(async () => jsonResponse({ status: 200, results: currentData }));
+
+    await expect(fetchBCRADebtData('20-10000000-9', { fetch: fetchMock })).resolves.toEqual(currentData);
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://api.bcra.gob.ar/CentralDeDeudores/v1.0/Deudas/20100000009',
+      expect.objectContaining({ method: 'GET' })
+    );
+  });
+
+  it('rejects CUITs without 11 digits before calling the API', async () => {
+    const fetchMock = vi.fn();
+
+    await expect(fetchBCRADebtData('2010', { fetch: fetchMock })).rejects.toMatchObject({ status: 400 });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('does not retry a 404', async () => {
+    const fetchMock = vi.fn(async () => jsonResponse({ status: 404, errorMessages: ['No se encontró datos'] }));
+
+    const error = await fetchBCRADebtData('20100000009', { fetch: fetchMock }).catch(e => e);
+
+    expect(error).toBeInstanceOf(BCRAApiError);
+    expect(error.status).toBe(404);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries server errors until a response succeeds', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(jsonResponse({ status: 500 }))
+      .mockResolvedValueOnce(jsonResponse({ status: 200, results: currentData }));
+
+    await expect(fetchBCRADebtData('20100000009', { fetch: fetchMock })).resolves.toEqual(currentData);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
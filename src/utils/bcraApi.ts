@@ -1,7 +1,17 @@
-import { BCRAApiResponse, BCRADebtData, BCRAError, BCRAHistoricalApiResponse, BCRAHistoricalData, BCRAEligibilityAnalysis } from '../types';
+import { Assessment, BCRABouncedChecksData, BCRADebtData, BCRAError, BCRAHistoricalData, BCRAEligibilityAnalysis, BCRAEligibilityRuleSet } from '../types';
+import { getFunctionHeaders, supabaseFunctionsUrl } from '../lib/supabase';
+import { getBCRAFixtureResponse } from './bcraFixtures';
+import { CircuitBreaker, CircuitBreakerStatus } from './circuitBreaker';
+import { DEFAULT_ELIGIBILITY_RULE_SET, evaluateRuleSet, formatRuleFailure, formatRuleUnavailable, getWorstSituationForPeriod, selectPeriodsAsOf, selectWindowPeriods, toRuleTraceEntry } from './eligibilityRules';
 
 const BCRA_API_BASE_URL = 'https://api.bcra.gob.ar/CentralDeDeudores/v1.0';
 
+// When enabled, lookups go through the bcra-proxy Edge Function and its shared cache
+const BCRA_USE_PROXY = import.meta.env.VITE_BCRA_USE_PROXY === 'true';
+
+// When enabled, lookups are answered from the offline scenario catalogue (see bcraFixtures)
+const BCRA_USE_FIXTURES = import.meta.env.VITE_BCRA_FIXTURES === 'true';
+
 export class BCRAApiError extends Error {
   constructor(
     message: string,
@@ -13,36 +23,117 @@ export class BCRAApiError extends Error {
   }
 }
 
-export async function fetchBCRADebtData(cuit: string): Promise<BCRADebtData> {
-  // Clean CUIT - remove any formatting
-  const cleanCuit = cuit.replace(/\D/g, '');
-  
-  if (cleanCuit.length !== 11) {
-    throw new BCRAApiError('CUIT must have exactly 11 digits', 400, ['Parámetro erróneo: Ingresar 11 dígitos para realizar la consulta.']);
-  }
+interface BCRAEndpointResponse<T> {
+  status: number;
+  results?: T;
+  errorMessages?: string[];
+}
+
+interface BCRAEndpointOptions {
+  path: string;
+  label: string;
+  icon: string;
+  notFoundMessage: string;
+}
+
+// Dependencies that can be swapped out, e.g. by tests
+export interface BCRARequestOptions {
+  fetch?: typeof fetch;
+}
+
+export interface BCRARetryEvent {
+  label: string;
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  error: BCRAApiError;
+}
+
+const BCRA_REQUEST_TIMEOUT_MS = 10000;
+const BCRA_MAX_ATTEMPTS = 3;
+const BCRA_RETRY_BASE_DELAY_MS = 500;
+
+// Shared by every BCRA endpoint: they are served by the same upstream
+const bcraCircuitBreaker = new CircuitBreaker({
+  failureThreshold: 5,
+  cooldownMs: 30000,
+});
+
+const retryListeners = new Set<(event: BCRARetryEvent) => void>();
+
+export function getBCRACircuitStatus(): CircuitBreakerStatus {
+  return bcraCircuitBreaker.getStatus();
+}
+
+// Closes the shared circuit, e.g. between tests
+export function resetBCRACircuit(): void {
+  bcraCircuitBreaker.reset();
+}
+
+export function subscribeToBCRACircuit(listener: (status: CircuitBreakerStatus) => void): () => void {
+  return bcraCircuitBreaker.subscribe(listener);
+}
+
+export function subscribeToBCRARetries(listener: (event: BCRARetryEvent) => void): () => void {
+  retryListeners.add(listener);
+  return () => {
+    retryListeners.delete(listener);
+  };
+}
+
+// Network failures, timeouts and 5xx responses mean BCRA is unavailable, not that the CUIT has a problem
+export function isBCRAUnavailableError(error: unknown): boolean {
+  return error instanceof BCRAApiError && (error.status === 0 || error.status >= 500);
+}
+
+// Exponential backoff with full jitter: random delay in [0, base * 2^(attempt - 1)]
+function getRetryDelay(attempt: number): number {
+  return Math.round(Math.random() * BCRA_RETRY_BASE_DELAY_MS * Math.pow(2, attempt - 1));
+}
+
+async function requestBCRAEndpoint<T extends { denominacion: string }>(
+  cleanCuit: string,
+  { path, label, icon, notFoundMessage }: BCRAEndpointOptions,
+  requestOptions: BCRARequestOptions
+): Promise<T> {
+  const fetchImpl = requestOptions.fetch ?? fetch;
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), BCRA_REQUEST_TIMEOUT_MS);
 
-  const url = `${BCRA_API_BASE_URL}/Deudas/${cleanCuit}`;
-  
   try {
-    console.log(`🏦 Fetching BCRA debt data for CUIT: ${cleanCuit}`);
-    
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-        'Content-Type': 'application/json',
-      },
-    });
-
-    const data: BCRAApiResponse = await response.json();
+    const source = BCRA_USE_FIXTURES ? ' (fixtures)' : BCRA_USE_PROXY ? ' (via proxy)' : '';
+    console.log(`${icon} Fetching BCRA ${label} for CUIT: ${cleanCuit}${source}`);
+
+    let data: BCRAEndpointResponse<T>;
+    if (BCRA_USE_FIXTURES) {
+      data = getBCRAFixtureResponse(path, cleanCuit) as BCRAEndpointResponse<T>;
+    } else {
+      const response = BCRA_USE_PROXY
+        ? await fetchImpl(`${supabaseFunctionsUrl}/bcra-proxy`, {
+            method: 'POST',
+            headers: await getFunctionHeaders(),
+            body: JSON.stringify({ path, cuit: cleanCuit }),
+            signal: controller.signal,
+          })
+        : await fetchImpl(`${BCRA_API_BASE_URL}/${path}/${cleanCuit}`, {
+            method: 'GET',
+            headers: {
+              'Accept': 'application/json',
+              'Content-Type': 'application/json',
+            },
+            signal: controller.signal,
+          });
+
+      data = await response.json();
+    }
     
-    console.log(`📊 BCRA API Response Status: ${data.status}`);
+    console.log(`📊 BCRA ${label} response status: ${data.status}`);
 
     // Handle different response statuses
     switch (data.status) {
       case 200:
         if (data.results) {
-          console.log(`✅ BCRA data found for: ${data.results.denominacion}`);
+          console.log(`✅ BCRA ${label} found for: ${data.results.denominacion}`);
           return data.results;
         } else {
           throw new BCRAApiError('No results in successful response', 200);
@@ -57,7 +148,7 @@ export async function fetchBCRADebtData(cuit: string): Promise<BCRADebtData> {
         
       case 404:
         throw new BCRAApiError(
-          'No data found for the provided CUIT', 
+          notFoundMessage, 
           404, 
           data.errorMessages || ['No se encontró datos para la identificación ingresada.']
         );
@@ -80,6 +171,14 @@ export async function fetchBCRADebtData(cuit: string): Promise<BCRADebtData> {
     if (error instanceof BCRAApiError) {
       throw error;
     }
+
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new BCRAApiError(
+        `Request timed out after ${BCRA_REQUEST_TIMEOUT_MS}ms`,
+        0,
+        ['La API del BCRA no respondió a tiempo.']
+      );
+    }
     
     // Handle network errors or other fetch errors
     if (error instanceof TypeError && error.message.includes('fetch')) {
@@ -90,16 +189,22 @@ export async function fetchBCRADebtData(cuit: string): Promise<BCRADebtData> {
       );
     }
     
-    console.error('❌ Unexpected error fetching BCRA data:', error);
+    console.error(`❌ Unexpected error fetching BCRA ${label}:`, error);
     throw new BCRAApiError(
       'Unexpected error occurred', 
       0, 
       ['Error inesperado al consultar la API del BCRA.']
     );
+  } finally {
+    clearTimeout(timeoutId);
   }
 }
 
-export async function fetchBCRAHistoricalData(cuit: string): Promise<BCRAHistoricalData> {
+async function fetchBCRAEndpoint<T extends { denominacion: string }>(
+  cuit: string,
+  options: BCRAEndpointOptions,
+  requestOptions: BCRARequestOptions = {}
+): Promise<T> {
   // Clean CUIT - remove any formatting
   const cleanCuit = cuit.replace(/\D/g, '');
   
@@ -107,87 +212,89 @@ export async function fetchBCRAHistoricalData(cuit: string): Promise<BCRAHistori
     throw new BCRAApiError('CUIT must have exactly 11 digits', 400, ['Parámetro erróneo: Ingresar 11 dígitos para realizar la consulta.']);
   }
 
-  const url = `${BCRA_API_BASE_URL}/Deudas/Historicas/${cleanCuit}`;
-  
-  try {
-    console.log(`📈 Fetching BCRA historical data for CUIT: ${cleanCuit}`);
-    
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-        'Content-Type': 'application/json',
-      },
-    });
-
-    const data: BCRAHistoricalApiResponse = await response.json();
-    
-    console.log(`📊 BCRA Historical API Response Status: ${data.status}`);
-
-    // Handle different response statuses
-    switch (data.status) {
-      case 200:
-        if (data.results) {
-          console.log(`✅ BCRA historical data found for: ${data.results.denominacion}`);
-          return data.results;
-        } else {
-          throw new BCRAApiError('No results in successful response', 200);
-        }
-        
-      case 400:
-        throw new BCRAApiError(
-          'Invalid CUIT format', 
-          400, 
-          data.errorMessages || ['Parámetro erróneo: Ingresar 11 dígitos para realizar la consulta.']
-        );
-        
-      case 404:
-        throw new BCRAApiError(
-          'No historical data found for the provided CUIT', 
-          404, 
-          data.errorMessages || ['No se encontró datos para la identificación ingresada.']
-        );
-        
-      case 500:
-        throw new BCRAApiError(
-          'BCRA server error', 
-          500, 
-          data.errorMessages || ['Se produjo un error al ejecutar la acción.']
-        );
-        
-      default:
-        throw new BCRAApiError(
-          `Unexpected response status: ${data.status}`, 
-          data.status, 
-          data.errorMessages || []
-        );
-    }
-  } catch (error) {
-    if (error instanceof BCRAApiError) {
-      throw error;
-    }
-    
-    // Handle network errors or other fetch errors
-    if (error instanceof TypeError && error.message.includes('fetch')) {
+  for (let attempt = 1; ; attempt++) {
+    if (!bcraCircuitBreaker.canRequest()) {
+      console.warn(`🔌 BCRA circuit open, skipping ${options.label} request`);
       throw new BCRAApiError(
-        'Network error: Unable to connect to BCRA API', 
-        0, 
-        ['Error de conexión con la API del BCRA. Verifique su conexión a internet.']
+        'BCRA circuit open',
+        503,
+        ['La API del BCRA no está disponible temporalmente. Intente nuevamente en unos minutos.']
       );
     }
-    
-    console.error('❌ Unexpected error fetching BCRA historical data:', error);
-    throw new BCRAApiError(
-      'Unexpected error occurred', 
-      0, 
-      ['Error inesperado al consultar la API del BCRA.']
-    );
+
+    try {
+      const result = await requestBCRAEndpoint<T>(cleanCuit, options, requestOptions);
+      bcraCircuitBreaker.recordSuccess();
+      return result;
+    } catch (error) {
+      if (!isBCRAUnavailableError(error)) {
+        // BCRA answered (e.g. 404 for an unknown CUIT), so the service is healthy
+        bcraCircuitBreaker.recordSuccess();
+        throw error;
+      }
+
+      bcraCircuitBreaker.recordFailure();
+
+      if (attempt >= BCRA_MAX_ATTEMPTS) {
+        throw error;
+      }
+
+      const delayMs = getRetryDelay(attempt);
+      console.warn(`🔁 BCRA ${options.label} attempt ${attempt}/${BCRA_MAX_ATTEMPTS} failed, retrying in ${delayMs}ms`);
+      retryListeners.forEach(listener => listener({
+        label: options.label,
+        attempt,
+        maxAttempts: BCRA_MAX_ATTEMPTS,
+        delayMs,
+        error: error as BCRAApiError,
+      }));
+
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
   }
 }
 
+export async function fetchBCRADebtData(cuit: string, requestOptions?: BCRARequestOptions): Promise<BCRADebtData> {
+  return fetchBCRAEndpoint<BCRADebtData>(cuit, {
+    path: 'Deudas',
+    label: 'debt data',
+    icon: '🏦',
+    notFoundMessage: 'No data found for the provided CUIT',
+  }, requestOptions);
+}
+
+export async function fetchBCRAHistoricalData(cuit: string, requestOptions?: BCRARequestOptions): Promise<BCRAHistoricalData> {
+  return fetchBCRAEndpoint<BCRAHistoricalData>(cuit, {
+    path: 'Deudas/Historicas',
+    label: 'historical data',
+    icon: '📈',
+    notFoundMessage: 'No historical data found for the provided CUIT',
+  }, requestOptions);
+}
+
+// A 404 from this endpoint means the CUIT has no bounced checks on record
+export async function fetchBCRABouncedChecks(cuit: string, requestOptions?: BCRARequestOptions): Promise<BCRABouncedChecksData> {
+  return fetchBCRAEndpoint<BCRABouncedChecksData>(cuit, {
+    path: 'Deudas/ChequesRechazados',
+    label: 'bounced checks',
+    icon: '🧾',
+    notFoundMessage: 'No bounced checks found for the provided CUIT',
+  }, requestOptions);
+}
+
+// Bounced checks as a saved assessment saw them: undefined when the lookup was unavailable, so a replay stays pending
+export function getAssessmentBouncedChecks(
+  assessment: Pick<Assessment, 'bcra_bounced_checks' | 'bcra_bounced_checks_unavailable'>
+): BCRABouncedChecksData | null | undefined {
+  return assessment.bcra_bounced_checks_unavailable ? undefined : assessment.bcra_bounced_checks;
+}
+
 export function analyzeBCRAEligibility(
   currentData: BCRADebtData | null,
-  historicalData: BCRAHistoricalData | null
+  historicalData: BCRAHistoricalData | null,
+  ruleSet: BCRAEligibilityRuleSet = DEFAULT_ELIGIBILITY_RULE_SET,
+  bouncedChecks?: BCRABouncedChecksData | null,
+  asOfDate: Date = new Date()
 ): BCRAEligibilityAnalysis {
   const analysis: BCRAEligibilityAnalysis = {
     isEligible: false,
@@ -196,7 +303,10 @@ export function analyzeBCRAEligibility(
     last6MonthsWorstSituation: null,
     last12MonthsWorstSituation: null,
     failureReasons: [],
+    ruleTrace: [],
     analysisDate: new Date().toISOString(),
+    asOfDate: asOfDate.toISOString(),
+    ruleSetVersion: ruleSet.version,
   };
 
   // If no data available, consider as pending
@@ -211,72 +321,52 @@ export function analyzeBCRAEligibility(
     return analysis;
   }
 
-  // Sort periods by date (most recent first)
-  const sortedPeriods = [...historicalData.periodos].sort((a, b) => b.periodo.localeCompare(a.periodo));
+  // Sort periods by date (most recent first), ignoring those reported after the as-of date
+  const sortedPeriods = selectPeriodsAsOf(historicalData.periodos, asOfDate).sort((a, b) => b.periodo.localeCompare(a.periodo));
   
   if (sortedPeriods.length === 0) {
     analysis.failureReasons.push('No hay períodos disponibles en el historial');
     return analysis;
   }
 
-  // Get current date for period calculations
-  const currentDate = new Date();
-  const currentYear = currentDate.getFullYear();
-  const currentMonth = currentDate.getMonth() + 1; // JavaScript months are 0-indexed
-  const currentPeriod = `${currentYear}${currentMonth.toString().padStart(2, '0')}`;
-
-  // Helper function to get worst situation for a period
-  const getWorstSituationForPeriod = (periodo: any) => {
-    if (!periodo.entidades || periodo.entidades.length === 0) return 1; // No entities = normal situation
-    return Math.max(...periodo.entidades.map((e: any) => e.situacion));
-  };
-
-  // Helper function to check if period is within months from current
-  const isPeriodWithinMonths = (periodo: string, months: number) => {
-    const periodoYear = parseInt(periodo.substring(0, 4));
-    const periodoMonth = parseInt(periodo.substring(4, 6));
-    
-    const periodoDate = new Date(periodoYear, periodoMonth - 1); // JavaScript months are 0-indexed
-    const cutoffDate = new Date(currentYear, currentMonth - 1 - months);
-    
-    return periodoDate >= cutoffDate;
-  };
+  // Summary of worst situations, independent of the configured rules
+  analysis.latestPeriod = sortedPeriods[0].periodo;
+  analysis.currentSituation = getWorstSituationForPeriod(sortedPeriods[0]);
 
-  // 1. Check current situation (most recent period)
-  const mostRecentPeriod = sortedPeriods[0];
-  analysis.currentSituation = getWorstSituationForPeriod(mostRecentPeriod);
-  
-  if (analysis.currentSituation > 1) {
-    analysis.failureReasons.push(`Situación actual: ${analysis.currentSituation} (debe ser ≤ 1)`);
-  }
-
-  // 2. Check last 6 months
-  const last6MonthsPeriods = sortedPeriods.filter(p => isPeriodWithinMonths(p.periodo, 6));
+  const last6MonthsPeriods = selectWindowPeriods(sortedPeriods, 6, asOfDate);
   if (last6MonthsPeriods.length > 0) {
-    analysis.last6MonthsWorstSituation = Math.max(...last6MonthsPeriods.map(getWorstSituationForPeriod));
-    
-    if (analysis.last6MonthsWorstSituation > 1) {
-      analysis.failureReasons.push(`Peor situación últimos 6 meses: ${analysis.last6MonthsWorstSituation} (debe ser ≤ 1)`);
-    }
+    analysis.last6MonthsWorstSituation = Math.max(...last6MonthsPeriods.map(p => getWorstSituationForPeriod(p)));
   }
 
-  // 3. Check last 12 months
-  const last12MonthsPeriods = sortedPeriods.filter(p => isPeriodWithinMonths(p.periodo, 12));
+  const last12MonthsPeriods = selectWindowPeriods(sortedPeriods, 12, asOfDate);
   if (last12MonthsPeriods.length > 0) {
-    analysis.last12MonthsWorstSituation = Math.max(...last12MonthsPeriods.map(getWorstSituationForPeriod));
-    
-    if (analysis.last12MonthsWorstSituation > 2) {
-      analysis.failureReasons.push(`Peor situación últimos 12 meses: ${analysis.last12MonthsWorstSituation} (debe ser ≤ 2)`);
-    }
+    analysis.last12MonthsWorstSituation = Math.max(...last12MonthsPeriods.map(p => getWorstSituationForPeriod(p)));
   }
 
-  // Determine final eligibility
-  analysis.isEligible = analysis.failureReasons.length === 0;
-  analysis.status = analysis.isEligible ? 'BCRA_APTO' : 'BCRA_NO_APTO';
+  // Evaluate the configured rule set
+  const evaluations = evaluateRuleSet(ruleSet, { sortedPeriods, bouncedChecks }, asOfDate);
+  analysis.ruleTrace = evaluations.map(toRuleTraceEntry);
+  evaluations
+    .filter(evaluation => !evaluation.passed && !evaluation.unavailable)
+    .forEach(evaluation => analysis.failureReasons.push(formatRuleFailure(evaluation)));
+
+  // Determine final eligibility: a failed rule is enough to reject, but approving needs every rule evaluated
+  const unavailable = evaluations.filter(evaluation => evaluation.unavailable);
+  if (analysis.failureReasons.length > 0) {
+    analysis.status = 'BCRA_NO_APTO';
+  } else if (unavailable.length > 0) {
+    analysis.status = 'BCRA_PENDING';
+    unavailable.forEach(evaluation => analysis.failureReasons.push(formatRuleUnavailable(evaluation)));
+  } else {
+    analysis.isEligible = true;
+    analysis.status = 'BCRA_APTO';
+  }
 
   console.log(`🔍 BCRA Eligibility Analysis:`, {
     isEligible: analysis.isEligible,
     status: analysis.status,
+    ruleSetVersion: analysis.ruleSetVersion,
+    asOfDate: analysis.asOfDate,
     currentSituation: analysis.currentSituation,
     last6Months: analysis.last6MonthsWorstSituation,
     last12Months: analysis.last12MonthsWorstSituation,
@@ -344,4 +434,13 @@ export function formatAmount(amount: number): string {
     minimumFractionDigits: 0,
     maximumFractionDigits: 0,
   }).format(amount * 1000); // API returns amounts in thousands
-}
\ No newline at end of file
+}
+
+export function formatCheckAmount(amount: number): string {
+  return new Intl.NumberFormat('es-AR', {
+    style: 'currency',
+    currency: 'ARS',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount); // Bounced check amounts are reported in pesos
+}
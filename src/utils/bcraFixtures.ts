@@ -0,0 +1,173 @@
+import { BCRAApiResponse, BCRABouncedChecksApiResponse, BCRAHistoricalApiResponse, BCRAHistoricalPeriod } from '../types';
+
+/**
+ * Deterministic BCRA payloads for offline development and tests.
+ * Enabled with VITE_BCRA_FIXTURES=true; every lookup is answered from this
+ * catalogue instead of the network. Periods are generated relative to the
+ * reference date so the scenarios keep their meaning as time passes.
+ */
+
+export type BCRAFixtureScenario = 'clean' | 'situation_2_six_months_ago' | 'situation_5' | 'not_found' | 'server_error';
+
+export interface BCRAFixtureClient {
+  cuit: string;
+  scenario: BCRAFixtureScenario;
+  denominacion: string;
+  description: string;
+}
+
+export const BCRA_FIXTURE_CLIENTS: BCRAFixtureClient[] = [
+  {
+    cuit: '20111111112',
+    scenario: 'clean',
+    denominacion: 'CLIENTE PRUEBA NORMAL',
+    description: 'Situación 1 en los últimos 24 meses y sin cheques rechazados',
+  },
+  {
+    cuit: '20222222223',
+    scenario: 'situation_2_six_months_ago',
+    denominacion: 'CLIENTE PRUEBA SITUACION DOS',
+    description: 'Situación 2 hace seis meses, normal el resto del historial',
+  },
+  {
+    cuit: '27333333339',
+    scenario: 'situation_5',
+    denominacion: 'CLIENTE PRUEBA IRRECUPERABLE',
+    description: 'Situación 5 en el período actual',
+  },
+  {
+    cuit: '20444444445',
+    scenario: 'not_found',
+    denominacion: 'CLIENTE PRUEBA DESCONOCIDO',
+    description: 'Sin datos en la Central de Deudores (404)',
+  },
+  {
+    cuit: '20555555556',
+    scenario: 'server_error',
+    denominacion: 'CLIENTE PRUEBA ERROR',
+    description: 'La API del BCRA responde con error interno (500)',
+  },
+];
+
+const FIXTURE_ENTITIES = ['BANCO DE LA NACION ARGENTINA', 'BANCO SANTANDER ARGENTINA S.A.'];
+
+const HISTORY_MONTHS = 24;
+
+// YYYYMM for the month `monthsAgo` months before the reference date
+function formatPeriod(referenceDate: Date, monthsAgo: number): string {
+  const date = new Date(referenceDate.getFullYear(), referenceDate.getMonth() - monthsAgo, 1);
+  return `${date.getFullYear()}${(date.getMonth() + 1).toString().padStart(2, '0')}`;
+}
+
+function getSituation(scenario: BCRAFixtureScenario, monthsAgo: number): number {
+  switch (scenario) {
+    case 'situation_2_six_months_ago':
+      return monthsAgo === 6 ? 2 : 1;
+    case 'situation_5':
+      return monthsAgo <= 2 ? 5 : 1;
+    default:
+      return 1;
+  }
+}
+
+// BCRA publishes with a lag, so the most recent period is the previous month
+function buildHistoricalPeriods(scenario: BCRAFixtureScenario, referenceDate: Date): BCRAHistoricalPeriod[] {
+  const periodos: BCRAHistoricalPeriod[] = [];
+
+  for (let monthsAgo = 1; monthsAgo <= HISTORY_MONTHS; monthsAgo++) {
+    const situacion = getSituation(scenario, monthsAgo);
+    periodos.push({
+      periodo: formatPeriod(referenceDate, monthsAgo),
+      entidades: FIXTURE_ENTITIES.map((entidad, index) => ({
+        entidad,
+        // Only the first entity carries the scenario's situation
+        situacion: index === 0 ? situacion : 1,
+        monto: index === 0 ? 850 : 120,
+        enRevision: false,
+        procesoJud: false,
+      })),
+    });
+  }
+
+  return periodos;
+}
+
+function errorResponse(client: BCRAFixtureClient | undefined) {
+  if (client?.scenario === 'server_error') {
+    return { status: 500, errorMessages: ['Se produjo un error al ejecutar la acción.'] };
+  }
+  return { status: 404, errorMessages: ['No se encontró datos para la identificación ingresada.'] };
+}
+
+export function findBCRAFixtureClient(cuit: string): BCRAFixtureClient | undefined {
+  const cleanCuit = cuit.replace(/\D/g, '');
+  return BCRA_FIXTURE_CLIENTS.find(client => client.cuit === cleanCuit);
+}
+
+export function getBCRADebtFixture(cuit: string, referenceDate: Date = new Date()): BCRAApiResponse {
+  const client = findBCRAFixtureClient(cuit);
+  if (!client || client.scenario === 'not_found' || client.scenario === 'server_error') {
+    return errorResponse(client);
+  }
+
+  const [currentPeriod] = buildHistoricalPeriods(client.scenario, referenceDate);
+
+  return {
+    status: 200,
+    results: {
+      identificacion: Number(client.cuit),
+      denominacion: client.denominacion,
+      periodos: [{
+        periodo: currentPeriod.periodo,
+        entidades: currentPeriod.entidades.map(entity => ({
+          ...entity,
+          fechaSit1: entity.situacion === 1 ? `${referenceDate.getFullYear() - 3}-01-15` : undefined,
+          diasAtrasoPago: entity.situacion === 1 ? 0 : 365,
+          refinanciaciones: false,
+          recategorizacionOblig: false,
+          situacionJuridica: false,
+          irrecDisposicionTecnica: false,
+        })),
+      }],
+    },
+  };
+}
+
+export function getBCRAHistoricalFixture(cuit: string, referenceDate: Date = new Date()): BCRAHistoricalApiResponse {
+  const client = findBCRAFixtureClient(cuit);
+  if (!client || client.scenario === 'not_found' || client.scenario === 'server_error') {
+    return errorResponse(client);
+  }
+
+  return {
+    status: 200,
+    results: {
+      identificacion: Number(client.cuit),
+      denominacion: client.denominacion,
+      periodos: buildHistoricalPeriods(client.scenario, referenceDate),
+    },
+  };
+}
+
+// None of the scenarios has bounced checks on record, which BCRA reports as 404
+export function getBCRABouncedChecksFixture(cuit: string): BCRABouncedChecksApiResponse {
+  return errorResponse(findBCRAFixtureClient(cuit));
+}
+
+// Answers a BCRA endpoint path the same way the live API would
+export function getBCRAFixtureResponse(
+  path: string,
+  cuit: string,
+  referenceDate: Date = new Date()
+): BCRAApiResponse | BCRAHistoricalApiResponse | BCRABouncedChecksApiResponse {
+  switch (path) {
+    case 'Deudas':
+      return getBCRADebtFixture(cuit, referenceDate);
+    case 'Deudas/Historicas':
+      return getBCRAHistoricalFixture(cuit, referenceDate);
+    case 'Deudas/ChequesRechazados':
+      return getBCRABouncedChecksFixture(cuit);
+    default:
+      return { status: 400, errorMessages: ['Endpoint del BCRA no soportado.'] };
+  }
+}
@@ -0,0 +1,155 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { buildBulkResultsCsv, parseBulkAssessmentCsv, runBulkAssessment } from './bulkAssessment';
+import { findSavedAssessmentId, performLoanAssessment } from './assessment';
+
+const insertMock = vi.fn(async () => ({ error: null }));
+
+vi.mock('../lib/supabase', () => ({
+  supabase: { from: vi.fn(() => ({ insert: insertMock })) },
+}));
+
+vi.mock('./assessment', () => ({
+  performLoanAssessment: vi.fn(),
+  findSavedAssessmentId: vi.fn(async () => null),
+}));
+
+describe('parseBulkAssessmentCsv', () => {
+  it.each([
+    {
+      name: 'header with comma delimiter',
+      content: 'cuit,nombre\n20-11111111-2,Juan Pérez\n20222222223,María',
+      expected: [
+        { line: 2, cuit: '20111111112', name: 'Juan Pérez', isValid: true },
+        { line: 3, cuit: '20222222223', name: 'María', isValid: true },
+      ],
+    },
+    {
+      name: 'spreadsheet export with BOM, semicolons and reordered columns',
+      content: '\uFEFFRazón Social;CUIT\r\n"Pérez; Juan";20111111112\r\n\r\nSin CUIT;\r\n',
+      expected: [
+        { line: 2, cuit: '20111111112', name: 'Pérez; Juan', isValid: true },
+        { line: 4, cuit: '', name: 'Sin CUIT', isValid: false },
+      ],
+    },
+    {
+      name: 'no header',
+      content: '20111111112\n20111111113',
+      expected: [
+        { line: 1, cuit: '20111111112', name: undefined, isValid: true },
+        { line: 2, cuit: '20111111113', name: undefined, isValid: false },
+      ],
+    },
+  ])('$name', ({ content, expected }) => {
+    expect(parseBulkAssessmentCsv(content)).toEqual(expected);
+  });
+});
+
+describe('runBulkAssessment', () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('assesses valid rows, skips invalid ones and reports progress', async () => {
+    vi.mocked(performLoanAssessment).mockResolvedValue({
+      result: 'eligible',
+      clientName: 'CLIENTE PRUEBA',
+      bcraEligibilityStatus: 'BCRA_APTO',
+    });
+    const onProgress = vi.fn();
+
+    const results = await runBulkAssessment(
+      parseBulkAssessmentCsv('cuit\n20111111112\n123\n20222222223'),
+      { advisorId: 'advisor-1', branchId: 'branch-1', intervalMs: 0, onProgress }
+    );
+
+    expect(results.map(r => r.status)).toEqual(['eligible', 'invalid', 'eligible']);
+    expect(results.map(r => r.saved)).toEqual([true, false, true]);
+    expect(performLoanAssessment).toHaveBeenCalledTimes(2);
+    expect(insertMock).toHaveBeenCalledTimes(2);
+    expect(insertMock).toHaveBeenCalledWith(expect.objectContaining({ advisor_id: 'advisor-1', branch_id: 'branch-1' }));
+    expect(onProgress).toHaveBeenLastCalledWith({ processed: 3, total: 3 });
+  });
+
+  it('reuses the assessment the advisor already saved for the same outcome', async () => {
+    vi.mocked(performLoanAssessment).mockResolvedValue({ result: 'eligible', bcraEligibilityStatus: 'BCRA_APTO' });
+    vi.mocked(findSavedAssessmentId).mockResolvedValueOnce('assessment-1');
+
+    const results = await runBulkAssessment(
+      parseBulkAssessmentCsv('20111111112\n20222222223'),
+      { advisorId: 'advisor-1', intervalMs: 0 }
+    );
+
+    expect(results.map(r => r.saved)).toEqual([true, true]);
+    expect(findSavedAssessmentId).toHaveBeenCalledWith('advisor-1', '20-11111111-2', 'eligible', 'BCRA_APTO', undefined);
+    expect(insertMock).toHaveBeenCalledTimes(1);
+    expect(insertMock).toHaveBeenCalledWith(expect.objectContaining({ client_cuit: '20-22222222-3' }));
+  });
+
+  it('stops when aborted', async () => {
+    const controller = new AbortController();
+    vi.mocked(performLoanAssessment).mockImplementation(async () => {
+      controller.abort();
+      return { result: 'pending' };
+    });
+
+    const results = await runBulkAssessment(
+      parseBulkAssessmentCsv('20111111112\n20222222223'),
+      { advisorId: 'advisor-1', intervalMs: 0, signal: controller.signal }
+    );
+
+    expect(results).toHaveLength(1);
+    expect(results[0].failureReasons).toEqual(['Sin datos BCRA disponibles']);
+  });
+});
+
+describe('buildBulkResultsCsv', () => {
+  it('includes status, worst situations and failure reasons per row', () => {
+    const csv = buildBulkResultsCsv([
+      {
+        row: { line: 2, cuit: '20222222223', isValid: true },
+        status: 'not_eligible',
+        clientName: 'Pérez, Juan',
+        analysis: {
+          isEligible: false,
+          status: 'BCRA_NO_APTO',
+          currentSituation: 1,
+          last6MonthsWorstSituation: 2,
+          last12MonthsWorstSituation: 2,
+          failureReasons: ['Peor situación últimos 6 meses: 2 (debe ser ≤ 1)'],
+          ruleTrace: [],
+          analysisDate: '2025-02-15T00:00:00.000Z',
+          ruleSetVersion: 2,
+        },
+        failureReasons: ['Peor situación últimos 6 meses: 2 (debe ser ≤ 1)'],
+        saved: true,
+      },
+      {
+        row: { line: 3, cuit: '123', isValid: false },
+        status: 'invalid',
+        failureReasons: ['CUIT inválido'],
+        saved: false,
+      },
+    ]);
+
+    expect(csv.split('\r\n')).toEqual([
+      'linea,cuit,nombre,resultado,estado_bcra,situacion_actual,peor_situacion_6m,peor_situacion_12m,motivos,guardado',
+      '2,20-22222222-3,"Pérez, Juan",No elegible,BCRA_NO_APTO,1,2,2,Peor situación últimos 6 meses: 2 (debe ser ≤ 1),si',
+      '3,123,,CUIT inválido,,,,,CUIT inválido,no',
+    ]);
+  });
+
+  it('neutralizes names that a spreadsheet would run as formulas', () => {
+    const csv = buildBulkResultsCsv([
+      { row: { line: 2, cuit: '123', isValid: false }, status: 'invalid', clientName: '=HYPERLINK("http://x")', failureReasons: [], saved: false },
+      { row: { line: 3, cuit: '123', isValid: false }, status: 'invalid', clientName: '@SUM(A1)', failureReasons: [], saved: false },
+      { row: { line: 4, cuit: '123', isValid: false }, status: 'invalid', clientName: '-2+3', failureReasons: [], saved: false },
+    ]);
+
+    expect(csv.split('\r\n').slice(1).map(line => line.split(',')[2])).toEqual([
+      `"'=HYPERLINK(""http://x"")"`,
+      "'@SUM(A1)",
+      "'-2+3",
+    ]);
+  });
+
+});
@@ -0,0 +1,300 @@
+import { supabase } from '../lib/supabase';
+import { BCRAEligibilityAnalysis } from '../types';
+import { formatCuit, isValidCuit } from './cuit';
+import { findSavedAssessmentId, performLoanAssessment } from './assessment';
+
+/**
+ * Batch mode for lead lists: parses a CSV of CUITs (optionally with names),
+ * runs each valid row through performLoanAssessment at a limited rate and
+ * builds a downloadable CSV with the outcome of every row.
+ */
+
+// Minimum time between two assessments; each one makes several BCRA requests
+const DEFAULT_INTERVAL_MS = 1500;
+
+export interface BulkAssessmentRow {
+  line: number;
+  cuit: string;
+  name?: string;
+  isValid: boolean;
+}
+
+export type BulkAssessmentStatus = 'eligible' | 'not_eligible' | 'pending' | 'invalid' | 'error';
+
+export interface BulkAssessmentResult {
+  row: BulkAssessmentRow;
+  status: BulkAssessmentStatus;
+  clientName?: string;
+  analysis?: BCRAEligibilityAnalysis;
+  failureReasons: string[];
+  saved: boolean;
+}
+
+export interface BulkAssessmentProgress {
+  processed: number;
+  total: number;
+  current?: BulkAssessmentRow;
+}
+
+export interface BulkAssessmentOptions {
+  advisorId: string;
+  // Branch stamped on saved assessments; the database falls back to the advisor's default branch
+  branchId?: string;
+  intervalMs?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: BulkAssessmentProgress) => void;
+  onResult?: (result: BulkAssessmentResult) => void;
+}
+
+// Splits one CSV line, honouring double-quoted fields
+function parseCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === delimiter && !inQuotes) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  cells.push(current.trim());
+  return cells;
+}
+
+// Accepts comma or semicolon separated files (spreadsheets in es-AR export with ';')
+export function parseBulkAssessmentCsv(content: string): BulkAssessmentRow[] {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const firstLine = lines.find(line => line.trim()) || '';
+  const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+
+  let cuitColumn = 0;
+  let nameColumn = 1;
+  let hasHeader = false;
+
+  const headers = parseCsvLine(firstLine, delimiter).map(h => h.toLowerCase());
+  const headerCuitColumn = headers.findIndex(h => h.includes('cuit') || h.includes('cuil'));
+  if (headerCuitColumn !== -1) {
+    hasHeader = true;
+    cuitColumn = headerCuitColumn;
+    nameColumn = headers.findIndex(h => /nombre|name|raz[oó]n|denominaci[oó]n/.test(h));
+  }
+
+  const rows: BulkAssessmentRow[] = [];
+  let headerSkipped = !hasHeader;
+
+  lines.forEach((line, index) => {
+    if (!line.trim()) return;
+
+    if (!headerSkipped) {
+      headerSkipped = true;
+      return;
+    }
+
+    const cells = parseCsvLine(line, delimiter);
+    const cuit = (cells[cuitColumn] || '').replace(/\D/g, '');
+    const name = nameColumn !== -1 ? cells[nameColumn] : undefined;
+
+    rows.push({
+      line: index + 1,
+      cuit,
+      name: name || undefined,
+      isValid: isValidCuit(cuit),
+    });
+  });
+
+  return rows;
+}
+
+async function saveBulkAssessment(
+  advisorId: string,
+  branchId: string | undefined,
+  row: BulkAssessmentRow,
+  assessment: Awaited<ReturnType<typeof performLoanAssessment>>
+): Promise<void> {
+  const clientCuit = formatCuit(row.cuit);
+
+  // Same dedupe as a single assessment: re-running a list doesn't duplicate unchanged outcomes
+  if (await findSavedAssessmentId(
+    advisorId,
+    clientCuit,
+    assessment.result,
+    assessment.bcraEligibilityStatus,
+    assessment.bcraEligibilityAnalysis
+  )) {
+    return;
+  }
+
+  const { error } = await supabase
+    .from('assessments')
+    .insert({
+      advisor_id: advisorId,
+      branch_id: branchId || null,
+      client_cuit: clientCuit,
+      client_name: assessment.clientName || row.name || null,
+      assessment_result: assessment.result,
+      bcra_debt_data: assessment.bcraData || null,
+      bcra_historical_data: assessment.bcraHistoricalData || null,
+      bcra_bounced_checks: assessment.bcraBouncedChecks || null,
+      bcra_bounced_checks_unavailable: assessment.bcraBouncedChecks === undefined,
+      bcra_eligibility_status: assessment.bcraEligibilityStatus || null,
+      bcra_eligibility_analysis: assessment.bcraEligibilityAnalysis || null,
+    });
+
+  if (error) {
+    throw error;
+  }
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timeoutId = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timeoutId);
+      resolve();
+    }, { once: true });
+  });
+}
+
+export async function runBulkAssessment(
+  rows: BulkAssessmentRow[],
+  { advisorId, branchId, intervalMs = DEFAULT_INTERVAL_MS, signal, onProgress, onResult }: BulkAssessmentOptions
+): Promise<BulkAssessmentResult[]> {
+  const results: BulkAssessmentResult[] = [];
+  let lastStartedAt = 0;
+
+  console.log(`📋 Starting bulk assessment of ${rows.length} rows`);
+
+  for (const row of rows) {
+    if (signal?.aborted) {
+      console.log('⏹️ Bulk assessment stopped by user');
+      break;
+    }
+
+    onProgress?.({ processed: results.length, total: rows.length, current: row });
+
+    let result: BulkAssessmentResult;
+
+    if (!row.isValid) {
+      result = { row, status: 'invalid', failureReasons: ['CUIT inválido'], saved: false };
+    } else {
+      // Rate limit: keep a minimum interval between the start of two assessments
+      const elapsed = Date.now() - lastStartedAt;
+      if (elapsed < intervalMs) {
+        await wait(intervalMs - elapsed, signal);
+        if (signal?.aborted) break;
+      }
+      lastStartedAt = Date.now();
+
+      try {
+        const assessment = await performLoanAssessment(row.cuit);
+        result = {
+          row,
+          status: assessment.result,
+          clientName: assessment.clientName || row.name,
+          analysis: assessment.bcraEligibilityAnalysis,
+          failureReasons: assessment.bcraEligibilityAnalysis?.failureReasons
+            || (assessment.result === 'pending' ? ['Sin datos BCRA disponibles'] : []),
+          saved: false,
+        };
+
+        try {
+          await saveBulkAssessment(advisorId, branchId, row, assessment);
+          result.saved = true;
+        } catch (error) {
+          console.error(`❌ Error saving bulk assessment for line ${row.line}:`, error);
+          result.failureReasons = [...result.failureReasons, 'No se pudo guardar la evaluación'];
+        }
+      } catch (error) {
+        console.error(`❌ Bulk assessment failed for line ${row.line}:`, error);
+        result = { row, status: 'error', clientName: row.name, failureReasons: ['Error al realizar la evaluación'], saved: false };
+      }
+    }
+
+    results.push(result);
+    onResult?.(result);
+  }
+
+  onProgress?.({ processed: results.length, total: rows.length });
+  console.log(`✅ Bulk assessment finished: ${results.length}/${rows.length} rows processed`);
+
+  return results;
+}
+
+const STATUS_LABELS: Record<BulkAssessmentStatus, string> = {
+  eligible: 'Elegible',
+  not_eligible: 'No elegible',
+  pending: 'Pendiente',
+  invalid: 'CUIT inválido',
+  error: 'Error',
+};
+
+export function getBulkStatusLabel(status: BulkAssessmentStatus): string {
+  return STATUS_LABELS[status];
+}
+
+function escapeCsvCell(value: string | number | null | undefined): string {
+  let text = value === null || value === undefined ? '' : String(value);
+  // Names come from the uploaded list: keep spreadsheets from running them as formulas
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",;\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function buildBulkResultsCsv(results: BulkAssessmentResult[]): string {
+  const header = [
+    'linea',
+    'cuit',
+    'nombre',
+    'resultado',
+    'estado_bcra',
+    'situacion_actual',
+    'peor_situacion_6m',
+    'peor_situacion_12m',
+    'motivos',
+    'guardado',
+  ];
+
+  const lines = results.map(({ row, status, clientName, analysis, failureReasons, saved }) => [
+    row.line,
+    row.isValid ? formatCuit(row.cuit) : row.cuit,
+    clientName,
+    STATUS_LABELS[status],
+    analysis?.status,
+    analysis?.currentSituation,
+    analysis?.last6MonthsWorstSituation,
+    analysis?.last12MonthsWorstSituation,
+    failureReasons.join(' | '),
+    saved ? 'si' : 'no',
+  ].map(escapeCsvCell).join(','));
+
+  return [header.join(','), ...lines].join('\r\n');
+}
+
+export function downloadCsv(content: string, filename: string): void {
+  // BOM so spreadsheets open accented characters correctly
+  const blob = new Blob(['\uFEFF' + content], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
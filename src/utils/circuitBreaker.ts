@@ -0,0 +1,89 @@
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openUntil: number | null;
+}
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;
+  cooldownMs: number;
+  now?: () => number;
+}
+
+type CircuitListener = (status: CircuitBreakerStatus) => void;
+
+/**
+ * Minimal circuit breaker: opens after `failureThreshold` consecutive failures,
+ * rejects calls during `cooldownMs`, then lets trial calls through (half open) until
+ * the next success closes it or the next failure reopens it.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openUntil: number | null = null;
+  private listeners = new Set<CircuitListener>();
+  private readonly now: () => number;
+
+  constructor(private options: CircuitBreakerOptions) {
+    this.now = options.now || Date.now;
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    // Report half open as soon as the cooldown has elapsed
+    if (this.state === 'open' && this.openUntil !== null && this.now() >= this.openUntil) {
+      this.transition('half_open');
+    }
+
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openUntil: this.openUntil,
+    };
+  }
+
+  canRequest(): boolean {
+    return this.getStatus().state !== 'open';
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.openUntil = null;
+    this.transition('closed');
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++;
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.openUntil = this.now() + this.options.cooldownMs;
+      this.transition('open', true);
+    }
+  }
+
+  reset(): void {
+    this.consecutiveFailures = 0;
+    this.openUntil = null;
+    this.transition('closed', true);
+  }
+
+  subscribe(listener: CircuitListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private transition(state: CircuitState, force = false): void {
+    if (this.state === state && !force) return;
+
+    this.state = state;
+    const status = {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openUntil: this.openUntil,
+    };
+    this.listeners.forEach(listener => listener(status));
+  }
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { formatCuit, isValidCuit, validateCuitChecksum, validateCuitFormat } from './cuit';
+
+describe('validateCuitChecksum', () => {
+  it.each([
+    { cuit: '20100000009', remainder: 2, expected: true },
+    { cuit: '20100000017', remainder: 4, expected: true },
+    { cuit: '27100000011', remainder: 10, expected: true },
+    // Remainder 0: the check digit is 0, not 11
+    { cuit: '30100000020', remainder: 0, expected: true },
+    // Remainder 1 has no valid check digit; the same DNI is issued with prefix 23
+    { cuit: '27100000021', remainder: 1, expected: false },
+    { cuit: '27100000029', remainder: 1, expected: false },
+    { cuit: '23100000024', remainder: 7, expected: true },
+    { cuit: '20100000008', remainder: 2, expected: false },
+  ])('$cuit (remainder $remainder) → $expected', ({ cuit, expected }) => {
+    expect(validateCuitChecksum(cuit)).toBe(expected);
+  });
+
+  it('ignores formatting characters', () => {
+    expect(validateCuitChecksum('20-10000000-9')).toBe(true);
+  });
+
+  it('rejects CUITs without 11 digits', () => {
+    expect(validateCuitChecksum('2010000000')).toBe(false);
+  });
+});
+
+describe('validateCuitFormat', () => {
+  it.each([
+    { cuit: '20-10000000-9', expected: true },
+    { cuit: '20100000009', expected: true },
+    { cuit: '20-1000000-9', expected: false },
+    { cuit: '', expected: false },
+  ])('$cuit → $expected', ({ cuit, expected }) => {
+    expect(validateCuitFormat(cuit)).toBe(expected);
+  });
+});
+
+describe('isValidCuit', () => {
+  it.each([
+    { cuit: '20-10000000-9', expected: true },
+    { cuit: '20-10000000-8', expected: false },
+    { cuit: '20-1000000', expected: false },
+  ])('$cuit → $expected', ({ cuit, expected }) => {
+    expect(isValidCuit(cuit)).toBe(expected);
+  });
+});
+
+describe('formatCuit', () => {
+  it.each([
+    { input: '2', expected: '2' },
+    { input: '201000', expected: '20-1000' },
+    { input: '20100000009', expected: '20-10000000-9' },
+    { input: '20-10000000-9999', expected: '20-10000000-9' },
+  ])('$input → $expected', ({ input, expected }) => {
+    expect(formatCuit(input)).toBe(expected);
+  });
+});
@@ -41,7 +41,13 @@ export function validateCuitChecksum(cuit: string): boolean {
   }
   
   const remainder = sum % 11;
-  const checkDigit = remainder < 2 ? remainder : 11 - remainder;
+
+  // Remainder 1 would need a check digit of 10: AFIP issues those numbers with prefix 23 instead
+  if (remainder === 1) {
+    return false;
+  }
+
+  const checkDigit = remainder === 0 ? 0 : 11 - remainder;
   
   return checkDigit === digits[10];
 }
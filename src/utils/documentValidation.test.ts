@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DocumentValidationError,
+  detectFileKind,
+  getAcceptedFileTypes,
+  getImageDimensions,
+  sha256Hex,
+  validateStoredFile,
+} from './documentValidation';
+
+function bytesOf(...parts: (number[] | string)[]): Uint8Array {
+  return new Uint8Array(parts.flatMap(part =>
+    typeof part === 'string' ? Array.from(part, char => char.charCodeAt(0)) : part
+  ));
+}
+
+const u16 = (value: number) => [value >> 8, value & 0xff];
+const u32 = (value: number) => [value >>> 24, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+
+// SOI, a JFIF APP0 segment, then a baseline start of frame
+function jpeg(width: number, height: number): Uint8Array {
+  return bytesOf(
+    [0xff, 0xd8],
+    [0xff, 0xe0], u16(16), 'JFIF', [0, 1, 1, 0, 0, 1, 0, 1, 0, 0],
+    [0xff, 0xc0], u16(17), [8], u16(height), u16(width), [3, 1, 0x22, 0, 2, 0x11, 1, 3, 0x11, 1],
+    [0xff, 0xd9]
+  );
+}
+
+function png(width: number, height: number): Uint8Array {
+  return bytesOf([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], u32(13), 'IHDR', u32(width), u32(height), [8, 2, 0, 0, 0]);
+}
+
+// An iPhone-style grid: 512×512 tiles and the full picture
+function heic(width: number, height: number): Uint8Array {
+  const ispe = (w: number, h: number) => [...u32(20), ...bytesOf('ispe'), 0, 0, 0, 0, ...u32(w), ...u32(h)];
+  return bytesOf(u32(24), 'ftypheic', [0, 0, 0, 0], 'mif1heic', ispe(512, 512), ispe(width, height));
+}
+
+function file(bytes: Uint8Array, name: string, type = ''): File {
+  return new File([bytes], name, { type });
+}
+
+describe('detectFileKind', () => {
+  it.each([
+    { bytes: jpeg(1200, 800), expected: 'jpeg' },
+    { bytes: png(1200, 800), expected: 'png' },
+    { bytes: heic(4032, 3024), expected: 'heic' },
+    { bytes: bytesOf('%PDF-1.7\n'), expected: 'pdf' },
+    { bytes: bytesOf([0xef, 0xbb, 0xbf], '\n  <?xml version="1.0"?>'), expected: 'xml' },
+    { bytes: bytesOf('{"score": 700}'), expected: 'json' },
+    { bytes: bytesOf('MZ\x90\x00'), expected: null },
+  ])('$expected', ({ bytes, expected }) => {
+    expect(detectFileKind(bytes)).toBe(expected);
+  });
+});
+
+describe('getImageDimensions', () => {
+  it('reads JPEG, PNG and HEIC headers', () => {
+    expect(getImageDimensions('jpeg', jpeg(1600, 1200))).toEqual({ width: 1600, height: 1200 });
+    expect(getImageDimensions('png', png(900, 1400))).toEqual({ width: 900, height: 1400 });
+    expect(getImageDimensions('heic', heic(4032, 3024))).toEqual({ width: 4032, height: 3024 });
+  });
+
+  it('gives up on a truncated JPEG', () => {
+    expect(getImageDimensions('jpeg', jpeg(1600, 1200).subarray(0, 12))).toBeNull();
+  });
+});
+
+describe('sha256Hex', () => {
+  it('hashes the content', async () => {
+    expect(await sha256Hex(bytesOf('abc'))).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+});
+
+describe('validateStoredFile', () => {
+  it('takes the type from the content, not from the name', async () => {
+    const validated = await validateStoredFile(file(png(1200, 800), 'dni.jpg', 'image/jpeg'), 'id_card_front');
+
+    expect(validated).toMatchObject({
+      kind: 'png',
+      extension: 'png',
+      contentType: 'image/png',
+      dimensions: { width: 1200, height: 800 },
+    });
+    expect(validated.sha256).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('accepts PDF receipts but not a PDF ID card', async () => {
+    const pdf = bytesOf('%PDF-1.7\n%âãÏÓ\n');
+
+    await expect(validateStoredFile(file(pdf, 'recibo.pdf'), 'salary_receipt')).resolves.toMatchObject({ kind: 'pdf' });
+    await expect(validateStoredFile(file(pdf, 'dni.pdf'), 'id_card_front')).rejects.toThrow('Formatos aceptados: JPEG, PNG, HEIC');
+  });
+
+  it('rejects files disguised with an image extension', async () => {
+    await expect(validateStoredFile(file(bytesOf('MZ\x90\x00'), 'dni.jpg', 'image/jpeg'), 'id_card_back'))
+      .rejects.toThrow(DocumentValidationError);
+  });
+
+  it('enforces the resolution limits', async () => {
+    await expect(validateStoredFile(file(jpeg(640, 480), 'dni.jpg'), 'id_card_front')).rejects.toThrow('demasiado chica');
+    await expect(validateStoredFile(file(jpeg(9000, 6000), 'dni.jpg'), 'id_card_front')).rejects.toThrow('supera el máximo');
+  });
+
+  it('enforces the size limit of each file type', async () => {
+    const report = bytesOf('{"score": 700,"padding":"', 'x'.repeat(2 * 1024 * 1024), '"}');
+
+    await expect(validateStoredFile(file(report, 'veraz.json'), 'veraz_report')).rejects.toThrow('el máximo es 2 MB');
+    await expect(validateStoredFile(file(new Uint8Array(), 'vacio.pdf'), 'salary_receipt')).rejects.toThrow('vacío');
+  });
+});
+
+describe('getAcceptedFileTypes', () => {
+  it('lists MIME types and extensions for the file input', () => {
+    expect(getAcceptedFileTypes('id_card_front')).toBe('image/jpeg,.jpg,image/png,.png,image/heic,.heic');
+  });
+});
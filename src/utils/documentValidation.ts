@@ -0,0 +1,236 @@
+import type { StoredFileType } from './storage';
+import { MAX_VERAZ_REPORT_SIZE } from './verazImport';
+
+/**
+ * Checks a file before it is stored with an operation: its real type from
+ * the first bytes (the name and the browser's MIME type are whatever the
+ * phone or scanner chose), its size, the resolution of images, and a
+ * SHA-256 of the content that is kept with the operation.
+ */
+
+export class DocumentValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DocumentValidationError';
+  }
+}
+
+export type FileKind = 'jpeg' | 'png' | 'heic' | 'pdf' | 'xml' | 'json';
+
+interface FileFormat {
+  label: string;
+  extension: string;
+  contentType: string;
+  image: boolean;
+}
+
+export const FILE_FORMATS: Record<FileKind, FileFormat> = {
+  jpeg: { label: 'JPEG', extension: 'jpg', contentType: 'image/jpeg', image: true },
+  png: { label: 'PNG', extension: 'png', contentType: 'image/png', image: true },
+  heic: { label: 'HEIC', extension: 'heic', contentType: 'image/heic', image: true },
+  pdf: { label: 'PDF', extension: 'pdf', contentType: 'application/pdf', image: false },
+  xml: { label: 'XML', extension: 'xml', contentType: 'application/xml', image: false },
+  json: { label: 'JSON', extension: 'json', contentType: 'application/json', image: false },
+};
+
+export const MAX_DOCUMENT_SIZE = 10 * 1024 * 1024;
+
+// Below the minimum a DNI or a receipt is no longer legible; above the maximum it's a raw camera file
+export const DOCUMENT_IMAGE_LIMITS = {
+  minShortSide: 600,
+  maxLongSide: 8000,
+};
+
+interface StoredFileRules {
+  kinds: FileKind[];
+  maxSize: number;
+}
+
+export function getStoredFileRules(type: StoredFileType): StoredFileRules {
+  if (type === 'veraz_report') return { kinds: ['xml', 'json'], maxSize: MAX_VERAZ_REPORT_SIZE };
+  // The ID card is photographed; receipts and forms may come as PDF
+  if (type.startsWith('id_card')) return { kinds: ['jpeg', 'png', 'heic'], maxSize: MAX_DOCUMENT_SIZE };
+  return { kinds: ['jpeg', 'png', 'heic', 'pdf'], maxSize: MAX_DOCUMENT_SIZE };
+}
+
+// For the file input; browsers often don't know the HEIC MIME type, hence the extensions too
+export function getAcceptedFileTypes(type: StoredFileType): string {
+  return getStoredFileRules(type).kinds
+    .flatMap(kind => [FILE_FORMATS[kind].contentType, `.${FILE_FORMATS[kind].extension}`])
+    .join(',');
+}
+
+const HEIF_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(start, start + length));
+}
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0): boolean {
+  return signature.every((byte, index) => bytes[offset + index] === byte);
+}
+
+function uint16(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] << 8) | bytes[offset + 1];
+}
+
+function uint32(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+}
+
+export function detectFileKind(bytes: Uint8Array): FileKind | null {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'jpeg';
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'png';
+  if (ascii(bytes, 0, 5) === '%PDF-') return 'pdf';
+  if (ascii(bytes, 4, 4) === 'ftyp' && HEIF_BRANDS.includes(ascii(bytes, 8, 4))) return 'heic';
+
+  // Text exports: the first character after an optional BOM and whitespace
+  let offset = startsWith(bytes, [0xef, 0xbb, 0xbf]) ? 3 : 0;
+  while (offset < bytes.length && [0x09, 0x0a, 0x0d, 0x20].includes(bytes[offset])) offset++;
+  if (bytes[offset] === 0x3c) return 'xml';
+  if (bytes[offset] === 0x7b || bytes[offset] === 0x5b) return 'json';
+
+  return null;
+}
+
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+function jpegDimensions(bytes: Uint8Array): ImageDimensions | null {
+  let offset = 2;
+
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+
+    // Fill bytes and markers without a length
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      offset += 2;
+      continue;
+    }
+
+    // Start of frame, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      return { height: uint16(bytes, offset + 5), width: uint16(bytes, offset + 7) };
+    }
+
+    offset += 2 + uint16(bytes, offset + 2);
+  }
+
+  return null;
+}
+
+// HEIF stores one `ispe` box per image item; with a grid the tiles come first, so the largest one is the picture
+function heicDimensions(bytes: Uint8Array): ImageDimensions | null {
+  let largest: ImageDimensions | null = null;
+
+  for (let offset = 4; offset + 16 <= bytes.length; offset++) {
+    if (bytes[offset] !== 0x69 || ascii(bytes, offset, 4) !== 'ispe') continue;
+
+    const width = uint32(bytes, offset + 8);
+    const height = uint32(bytes, offset + 12);
+    if (!largest || width * height > largest.width * largest.height) {
+      largest = { width, height };
+    }
+  }
+
+  return largest;
+}
+
+export function getImageDimensions(kind: FileKind, bytes: Uint8Array): ImageDimensions | null {
+  switch (kind) {
+    case 'jpeg':
+      return jpegDimensions(bytes);
+    case 'png':
+      return bytes.length >= 24 && ascii(bytes, 12, 4) === 'IHDR'
+        ? { width: uint32(bytes, 16), height: uint32(bytes, 20) }
+        : null;
+    case 'heic':
+      return heicDimensions(bytes);
+    default:
+      return null;
+  }
+}
+
+export async function sha256Hex(data: ArrayBuffer | Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${Math.round((bytes / (1024 * 1024)) * 10) / 10} MB`;
+}
+
+export interface ValidatedFile {
+  bytes: ArrayBuffer;
+  kind: FileKind;
+  extension: string;
+  contentType: string;
+  size: number;
+  sha256: string;
+  dimensions?: ImageDimensions;
+}
+
+export async function validateStoredFile(file: File, type: StoredFileType): Promise<ValidatedFile> {
+  const rules = getStoredFileRules(type);
+
+  if (file.size === 0) {
+    throw new DocumentValidationError('El archivo está vacío');
+  }
+  if (file.size > rules.maxSize) {
+    throw new DocumentValidationError(
+      `El archivo pesa ${formatMegabytes(file.size)}; el máximo es ${formatMegabytes(rules.maxSize)}`
+    );
+  }
+
+  const buffer = await file.arrayBuffer();
+  const bytes = new Uint8Array(buffer);
+  const kind = detectFileKind(bytes);
+
+  if (!kind || !rules.kinds.includes(kind)) {
+    const allowed = rules.kinds.map(allowedKind => FILE_FORMATS[allowedKind].label).join(', ');
+    throw new DocumentValidationError(`Tipo de archivo no admitido. Formatos aceptados: ${allowed}`);
+  }
+
+  const format = FILE_FORMATS[kind];
+  let dimensions: ImageDimensions | undefined;
+
+  if (format.image) {
+    dimensions = getImageDimensions(kind, bytes) ?? undefined;
+    if (!dimensions) {
+      throw new DocumentValidationError('No se pudo leer la resolución de la imagen; el archivo puede estar dañado');
+    }
+
+    const shortSide = Math.min(dimensions.width, dimensions.height);
+    const longSide = Math.max(dimensions.width, dimensions.height);
+    if (shortSide < DOCUMENT_IMAGE_LIMITS.minShortSide) {
+      throw new DocumentValidationError(
+        `La imagen de ${dimensions.width}×${dimensions.height} px es demasiado chica; el lado menor debe tener al menos ${DOCUMENT_IMAGE_LIMITS.minShortSide} px`
+      );
+    }
+    if (longSide > DOCUMENT_IMAGE_LIMITS.maxLongSide) {
+      throw new DocumentValidationError(
+        `La imagen de ${dimensions.width}×${dimensions.height} px supera el máximo de ${DOCUMENT_IMAGE_LIMITS.maxLongSide} px por lado`
+      );
+    }
+  }
+
+  const validated: ValidatedFile = {
+    bytes: buffer,
+    kind,
+    extension: format.extension,
+    contentType: format.contentType,
+    size: file.size,
+    sha256: await sha256Hex(buffer),
+    dimensions,
+  };
+
+  console.log(`🛡️ Validated ${type}:`, { kind, size: file.size, dimensions, sha256: validated.sha256 });
+  return validated;
+}
@@ -0,0 +1,106 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { LoanOperationDocument } from '../types';
+import { addOperationDocument, getCurrentDocumentFiles, getCurrentDocuments, getPreviousVersions } from './documentVersions';
+import { StorageError } from './storage';
+
+const uploadDocumentMock = vi.fn();
+const deleteDocumentMock = vi.fn();
+const insertMock = vi.fn();
+
+vi.mock('./storage', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./storage')>()),
+  uploadDocument: (...args: unknown[]) => uploadDocumentMock(...args),
+  deleteDocument: (...args: unknown[]) => deleteDocumentMock(...args),
+}));
+
+vi.mock('../lib/supabase', () => ({
+  supabase: {
+    from: () => ({
+      insert: (row: unknown) => ({
+        select: () => ({ single: () => insertMock(row) }),
+      }),
+    }),
+  },
+}));
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+function version(id: string, overrides: Partial<LoanOperationDocument> = {}): LoanOperationDocument {
+  return {
+    id,
+    operation_id: 'operation-1',
+    document_type: 'salary_receipt',
+    file_path: `OP0001/salary_receipt/${id}.pdf`,
+    version: 1,
+    uploaded_at: '2025-06-01T12:00:00Z',
+    ...overrides,
+  };
+}
+
+// Three monthly receipts; April's was replaced twice
+const documents = [
+  version('april-v1'),
+  version('may'),
+  version('june'),
+  version('april-v2', { version: 2, replaces_id: 'april-v1' }),
+  version('april-v3', { version: 3, replaces_id: 'april-v2' }),
+  version('dni', { document_type: 'id_card_front', file_path: 'OP0001/id_card_front/dni.jpg' }),
+];
+
+describe('getCurrentDocuments', () => {
+  it('keeps the latest version of every file in the set', () => {
+    expect(getCurrentDocuments(documents, 'salary_receipt').map(({ id }) => id)).toEqual(['may', 'june', 'april-v3']);
+  });
+
+  it('lists the previous versions newest first', () => {
+    expect(getPreviousVersions(documents, documents[4]).map(({ id }) => id)).toEqual(['april-v2', 'april-v1']);
+    expect(getPreviousVersions(documents, documents[1])).toEqual([]);
+  });
+
+  it('builds the files snapshot of the documents stage', () => {
+    expect(getCurrentDocumentFiles(documents)).toEqual({
+      salary_receipt: [
+        'OP0001/salary_receipt/may.pdf',
+        'OP0001/salary_receipt/june.pdf',
+        'OP0001/salary_receipt/april-v3.pdf',
+      ],
+      id_card_front: ['OP0001/id_card_front/dni.jpg'],
+    });
+  });
+});
+
+describe('addOperationDocument', () => {
+  const operation = { id: 'operation-1', operation_number: 'OP0001' };
+  const file = new File(['%PDF-1.7'], 'abril.pdf');
+  const uploaded = { path: 'OP0001/salary_receipt/new.pdf', sha256: 'a'.repeat(64), contentType: 'application/pdf', size: 8 };
+
+  it('records the upload as a new version of the replaced file', async () => {
+    uploadDocumentMock.mockResolvedValue(uploaded);
+    insertMock.mockImplementation(async (row) => ({ data: { ...row, id: 'april-v4', version: 4 }, error: null }));
+
+    const recorded = await addOperationDocument(operation, 'salary_receipt', file, documents[4]);
+
+    expect(insertMock).toHaveBeenCalledWith({
+      operation_id: 'operation-1',
+      document_type: 'salary_receipt',
+      file_path: uploaded.path,
+      file_name: 'abril.pdf',
+      content_type: 'application/pdf',
+      size_bytes: 8,
+      sha256: uploaded.sha256,
+      replaces_id: 'april-v3',
+    });
+    expect(recorded.version).toBe(4);
+  });
+
+  it('removes the stored object when the version cannot be recorded', async () => {
+    uploadDocumentMock.mockResolvedValue(uploaded);
+    deleteDocumentMock.mockResolvedValue(undefined);
+    insertMock.mockResolvedValue({ data: null, error: { code: '23505', message: 'duplicate key value' } });
+
+    await expect(addOperationDocument(operation, 'salary_receipt', file, documents[0])).rejects.toThrow(StorageError);
+    expect(deleteDocumentMock).toHaveBeenCalledWith(uploaded.path);
+  });
+});
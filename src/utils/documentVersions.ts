@@ -0,0 +1,92 @@
+import { supabase } from '../lib/supabase';
+import { DocumentType, DocumentsInfo, LoanOperation, LoanOperationDocument } from '../types';
+import { StorageError, deleteDocument, uploadDocument } from './storage';
+
+/**
+ * Document sets: each checklist type holds any number of files, and every
+ * upload is an immutable version in `loan_operation_documents`. Replacing a
+ * file adds a version pointing at the old one, which stays readable for
+ * reviewers and auditors.
+ */
+
+export async function fetchOperationDocuments(operationId: string): Promise<LoanOperationDocument[]> {
+  const { data, error } = await supabase
+    .from('loan_operation_documents')
+    .select('*')
+    .eq('operation_id', operationId)
+    .order('uploaded_at');
+
+  if (error) {
+    console.error('❌ Error fetching operation documents:', error);
+    throw error;
+  }
+
+  return (data || []) as LoanOperationDocument[];
+}
+
+export async function addOperationDocument(
+  operation: Pick<LoanOperation, 'id' | 'operation_number'>,
+  documentType: DocumentType,
+  file: File,
+  replaces?: LoanOperationDocument
+): Promise<LoanOperationDocument> {
+  const uploaded = await uploadDocument(operation.operation_number, file, documentType);
+
+  const { data, error } = await supabase
+    .from('loan_operation_documents')
+    .insert({
+      operation_id: operation.id,
+      document_type: documentType,
+      file_path: uploaded.path,
+      file_name: file.name,
+      content_type: uploaded.contentType,
+      size_bytes: uploaded.size,
+      sha256: uploaded.sha256,
+      replaces_id: replaces?.id ?? null,
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    console.error('❌ Error recording document version:', error);
+    // Unrecorded objects can still be removed, so a failed insert leaves nothing behind
+    await deleteDocument(uploaded.path).catch(() => undefined);
+    throw new StorageError(
+      error?.code === '23505' ? 'Este archivo ya fue reemplazado; recargue la operación' : 'No se pudo registrar el documento',
+      error?.code
+    );
+  }
+
+  console.log(`✅ Recorded ${documentType} v${data.version}:`, data.file_path);
+  return data as LoanOperationDocument;
+}
+
+// Files of a type that haven't been replaced, oldest first
+export function getCurrentDocuments(documents: LoanOperationDocument[], documentType?: DocumentType): LoanOperationDocument[] {
+  const replaced = new Set(documents.map(document => document.replaces_id).filter(Boolean));
+  return documents.filter(document =>
+    !replaced.has(document.id) && (!documentType || document.document_type === documentType)
+  );
+}
+
+// Earlier versions of a file, newest first
+export function getPreviousVersions(documents: LoanOperationDocument[], document: LoanOperationDocument): LoanOperationDocument[] {
+  const byId = new Map(documents.map(entry => [entry.id, entry]));
+  const versions: LoanOperationDocument[] = [];
+
+  let previous = document.replaces_id ? byId.get(document.replaces_id) : undefined;
+  while (previous) {
+    versions.push(previous);
+    previous = previous.replaces_id ? byId.get(previous.replaces_id) : undefined;
+  }
+
+  return versions;
+}
+
+// The `files` snapshot the documents stage is saved with
+export function getCurrentDocumentFiles(documents: LoanOperationDocument[]): DocumentsInfo['files'] {
+  return getCurrentDocuments(documents).reduce<NonNullable<DocumentsInfo['files']>>((files, document) => ({
+    ...files,
+    [document.document_type]: [...(files[document.document_type] || []), document.file_path],
+  }), {});
+}
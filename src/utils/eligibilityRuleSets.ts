@@ -0,0 +1,52 @@
+import { supabase } from '../lib/supabase';
+import { BCRAEligibilityRuleSet } from '../types';
+import { DEFAULT_ELIGIBILITY_RULE_SET, EligibilityRuleSetError, parseEligibilityRuleSet } from './eligibilityRules';
+
+// Falls back to the default rules only when no rule set is active; load errors and malformed rules are thrown
+export async function fetchActiveEligibilityRuleSet(): Promise<BCRAEligibilityRuleSet> {
+  console.log('📐 Fetching active eligibility rule set...');
+
+  const { data, error } = await supabase
+    .from('eligibility_rule_sets')
+    .select('id, version, name, rules')
+    .eq('is_active', true)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('❌ Error fetching eligibility rule set:', error);
+    throw error;
+  }
+
+  if (!data) {
+    console.warn('⚠️ No active eligibility rule set found, using default rules');
+    return DEFAULT_ELIGIBILITY_RULE_SET;
+  }
+
+  const ruleSet = parseEligibilityRuleSet(data);
+  console.log(`✅ Using eligibility rule set v${ruleSet.version}: ${ruleSet.name}`);
+  return ruleSet;
+}
+
+// Used to replay a stored analysis with the rules it was originally evaluated with
+export async function fetchEligibilityRuleSetByVersion(version: number): Promise<BCRAEligibilityRuleSet> {
+  console.log(`📐 Fetching eligibility rule set v${version}...`);
+
+  const { data, error } = await supabase
+    .from('eligibility_rule_sets')
+    .select('id, version, name, rules')
+    .eq('version', version)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`❌ Error fetching eligibility rule set v${version}:`, error);
+    throw error;
+  }
+
+  if (!data) {
+    throw new EligibilityRuleSetError(`Eligibility rule set v${version} not found`);
+  }
+
+  return parseEligibilityRuleSet(data);
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { BCRABouncedChecksData, BCRAHistoricalPeriod } from '../types';
+import {
+  DEFAULT_ELIGIBILITY_RULE_SET,
+  EligibilityRuleSetError,
+  getUnpaidBouncedChecks,
+  getWorstSituationForPeriod,
+  isPeriodWithinMonths,
+  parseEligibilityRuleSet,
+  selectWindowPeriods,
+} from './eligibilityRules';
+
+function period(periodo: string, situaciones: number[]): BCRAHistoricalPeriod {
+  return {
+    periodo,
+    entidades: situaciones.map((situacion, index) => ({
+      entidad: `ENTIDAD ${index + 1}`,
+      situacion,
+      monto: 100,
+      enRevision: false,
+      procesoJud: false,
+    })),
+  };
+}
+
+describe('isPeriodWithinMonths', () => {
+  it.each([
+    // Windows that cross into the previous year
+    { periodo: '202408', months: 6, reference: new Date(2025, 1, 15), expected: true },
+    { periodo: '202407', months: 6, reference: new Date(2025, 1, 15), expected: false },
+    { periodo: '202401', months: 12, reference: new Date(2025, 0, 10), expected: true },
+    { periodo: '202312', months: 12, reference: new Date(2025, 0, 10), expected: false },
+    { periodo: '202307', months: 18, reference: new Date(2025, 0, 31), expected: true },
+    { periodo: '202306', months: 18, reference: new Date(2025, 0, 31), expected: false },
+    // Same year
+    { periodo: '202503', months: 6, reference: new Date(2025, 8, 1), expected: true },
+    { periodo: '202502', months: 6, reference: new Date(2025, 8, 1), expected: false },
+  ])('$periodo within $months months of $reference → $expected', ({ periodo, months, reference, expected }) => {
+    expect(isPeriodWithinMonths(periodo, months, reference)).toBe(expected);
+  });
+});
+
+describe('getWorstSituationForPeriod', () => {
+  it.each([
+    { situaciones: [], expected: 1 },
+    { situaciones: [1, 1], expected: 1 },
+    { situaciones: [1, 3, 2], expected: 3 },
+  ])('$situaciones → $expected', ({ situaciones, expected }) => {
+    expect(getWorstSituationForPeriod(period('202501', situaciones))).toBe(expected);
+  });
+
+  it('treats a period without an entidades array as normal', () => {
+    const periodo = { periodo: '202501' } as BCRAHistoricalPeriod;
+    expect(getWorstSituationForPeriod(periodo)).toBe(1);
+  });
+});
+
+describe('selectWindowPeriods', () => {
+  const sortedPeriods = ['202502', '202501', '202412', '202408', '202407'].map(p => period(p, [1]));
+  const reference = new Date(2025, 1, 15);
+
+  it.each([
+    { window: 'current' as const, expected: ['202502'] },
+    { window: 1, expected: ['202502', '202501'] },
+    { window: 6, expected: ['202502', '202501', '202412', '202408'] },
+    { window: 12, expected: ['202502', '202501', '202412', '202408', '202407'] },
+  ])('window $window → $expected', ({ window, expected }) => {
+    expect(selectWindowPeriods(sortedPeriods, window, reference).map(p => p.periodo)).toEqual(expected);
+  });
+});
+
+describe('getUnpaidBouncedChecks', () => {
+  const bouncedChecks: BCRABouncedChecksData = {
+    identificacion: 20100000009,
+    denominacion: 'CLIENTE PRUEBA',
+    causales: [{
+      causal: 'SIN FONDOS',
+      entidades: [{
+        entidad: 11,
+        detalle: [
+          { nroCheque: 1, fechaRechazo: '2024-11-05', monto: 1000, fechaPago: null, ctaPersonal: true, enRevision: false, procesoJud: false },
+          { nroCheque: 2, fechaRechazo: '2024-12-10', monto: 2000, fechaPago: '2025-01-20', ctaPersonal: true, enRevision: false, procesoJud: false },
+          { nroCheque: 3, fechaRechazo: '2025-02-01', monto: 3000, fechaPago: null, ctaPersonal: true, enRevision: false, procesoJud: false },
+        ],
+      }],
+    }],
+  };
+
+  it.each([
+    { asOf: undefined, expected: [1, 3] },
+    // Check 2 was still unpaid and check 3 not yet rejected
+    { asOf: new Date(2025, 0, 15), expected: [1, 2] },
+    { asOf: new Date(2025, 0, 20), expected: [1] },
+    { asOf: new Date(2024, 10, 1), expected: [] },
+  ])('as of $asOf → checks $expected', ({ asOf, expected }) => {
+    expect(getUnpaidBouncedChecks(bouncedChecks, asOf).map(c => c.nroCheque)).toEqual(expected);
+  });
+});
+
+describe('parseEligibilityRuleSet', () => {
+  const rule = DEFAULT_ELIGIBILITY_RULE_SET.rules[0];
+
+  it('accepts the default rules', () => {
+    expect(parseEligibilityRuleSet(DEFAULT_ELIGIBILITY_RULE_SET)).toEqual(DEFAULT_ELIGIBILITY_RULE_SET);
+  });
+
+  it.each([
+    { name: 'no rules', rules: [] },
+    { name: 'rules that are not a list', rules: { current: rule } },
+    { name: 'an unknown aggregation', rules: [{ ...rule, aggregation: 'max' }] },
+    { name: 'an unknown window', rules: [{ ...rule, window: '6m' }] },
+    { name: 'a negative window', rules: [{ ...rule, window: -6 }] },
+    { name: 'an unknown metric', rules: [{ ...rule, metric: 'debt_amount' }] },
+    { name: 'a threshold that is not a number', rules: [{ ...rule, threshold: '1' }] },
+  ])('rejects $name', ({ rules }) => {
+    expect(() => parseEligibilityRuleSet({ version: 9, name: 'Reglas rotas', rules })).toThrow(EligibilityRuleSetError);
+  });
+});
@@ -0,0 +1,348 @@
+import { BCRABouncedCheck, BCRABouncedChecksData, BCRAEligibilityRule, BCRAEligibilityRuleSet, BCRAEntityFilter, BCRAHistoricalEntity, BCRAHistoricalPeriod, BCRARuleAggregation, BCRARuleMetric, BCRARuleTraceEntry } from '../types';
+
+/**
+ * Pure evaluation engine for BCRA eligibility rule sets.
+ * Rule sets are versioned and stored in Supabase (see eligibility_rule_sets);
+ * this module has no I/O so it can be reused anywhere.
+ */
+
+// Rule set used when none can be loaded from the database (mirrors the latest seeded version)
+export const DEFAULT_ELIGIBILITY_RULE_SET: BCRAEligibilityRuleSet = {
+  version: 2,
+  name: 'Criterios BCRA con cheques rechazados',
+  rules: [
+    {
+      id: 'current_situation',
+      description: 'Situación actual',
+      window: 'current',
+      aggregation: 'worst',
+      threshold: 1,
+    },
+    {
+      id: 'worst_situation_6m',
+      description: 'Peor situación últimos 6 meses',
+      window: 6,
+      aggregation: 'worst',
+      threshold: 1,
+    },
+    {
+      id: 'worst_situation_12m',
+      description: 'Peor situación últimos 12 meses',
+      window: 12,
+      aggregation: 'worst',
+      threshold: 2,
+    },
+    {
+      id: 'unpaid_bounced_checks',
+      description: 'Cheques rechazados impagos',
+      metric: 'unpaid_bounced_checks',
+      window: 'current',
+      aggregation: 'count',
+      threshold: 0,
+    },
+  ],
+};
+
+export class EligibilityRuleSetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EligibilityRuleSetError';
+  }
+}
+
+const RULE_AGGREGATIONS: BCRARuleAggregation[] = ['worst', 'average', 'count'];
+const RULE_METRICS: BCRARuleMetric[] = ['situacion', 'unpaid_bounced_checks'];
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isStringList(value: unknown): boolean {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function isValidEntityFilter(value: unknown): boolean {
+  if (value === undefined || value === null) return true;
+  if (typeof value !== 'object' || Array.isArray(value)) return false;
+
+  const filter = value as Record<string, unknown>;
+  return (filter.includeEntities === undefined || isStringList(filter.includeEntities)) &&
+    (filter.excludeEntities === undefined || isStringList(filter.excludeEntities)) &&
+    (filter.minAmount === undefined || isNumber(filter.minAmount));
+}
+
+// Why a stored rule can't be evaluated, or null if it can
+function getRuleProblem(value: unknown): string | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return 'not an object';
+
+  const rule = value as Record<string, unknown>;
+  if (typeof rule.id !== 'string' || !rule.id) return 'missing id';
+  if (typeof rule.description !== 'string') return 'missing description';
+  if (rule.metric !== undefined && !RULE_METRICS.includes(rule.metric as BCRARuleMetric)) return `unknown metric ${String(rule.metric)}`;
+  if (rule.window !== 'current' && !(Number.isInteger(rule.window) && (rule.window as number) > 0)) return `unknown window ${String(rule.window)}`;
+  if (!RULE_AGGREGATIONS.includes(rule.aggregation as BCRARuleAggregation)) return `unknown aggregation ${String(rule.aggregation)}`;
+  if (!isNumber(rule.threshold)) return 'missing threshold';
+  if (rule.countSituationAbove !== undefined && !isNumber(rule.countSituationAbove)) return 'invalid countSituationAbove';
+  if (!isValidEntityFilter(rule.entityFilter)) return 'invalid entityFilter';
+  return null;
+}
+
+/**
+ * Checks a rule set loaded from the database. A rule the engine doesn't
+ * understand would otherwise be evaluated as passed, so the whole set is
+ * rejected instead.
+ */
+export function parseEligibilityRuleSet(value: {
+  id?: string;
+  version: number;
+  name: string;
+  rules: unknown;
+}): BCRAEligibilityRuleSet {
+  if (!Array.isArray(value.rules) || value.rules.length === 0) {
+    throw new EligibilityRuleSetError(`Eligibility rule set v${value.version} has no rules`);
+  }
+
+  value.rules.forEach((rule, index) => {
+    const problem = getRuleProblem(rule);
+    if (problem) {
+      throw new EligibilityRuleSetError(`Eligibility rule set v${value.version}, rule ${index + 1}: ${problem}`);
+    }
+  });
+
+  return { ...value, rules: value.rules as BCRAEligibilityRule[] };
+}
+
+export interface EligibilityInputs {
+  // Historical periods sorted most recent first
+  sortedPeriods: BCRAHistoricalPeriod[];
+  // null means the lookup succeeded with no checks on record; undefined means it is unavailable
+  bouncedChecks?: BCRABouncedChecksData | null;
+}
+
+export interface RuleEvaluation {
+  rule: BCRAEligibilityRule;
+  periods: string[];
+  entities: string[];
+  observedValue: number | null;
+  passed: boolean;
+  // The rule's data source could not be queried, so the rule was not evaluated
+  unavailable?: boolean;
+}
+
+export interface UnpaidBouncedCheck extends BCRABouncedCheck {
+  causal: string;
+  entidad: number;
+}
+
+export function matchesEntityFilter(entity: BCRAHistoricalEntity, filter?: BCRAEntityFilter): boolean {
+  if (!filter) return true;
+
+  const name = entity.entidad.toUpperCase();
+
+  if (filter.includeEntities && filter.includeEntities.length > 0 &&
+      !filter.includeEntities.some(e => name.includes(e.toUpperCase()))) {
+    return false;
+  }
+
+  if (filter.excludeEntities && filter.excludeEntities.some(e => name.includes(e.toUpperCase()))) {
+    return false;
+  }
+
+  if (filter.minAmount !== undefined && entity.monto < filter.minAmount) {
+    return false;
+  }
+
+  return true;
+}
+
+// Worst situation for a period considering only entities that pass the filter
+export function getWorstSituationForPeriod(periodo: BCRAHistoricalPeriod, filter?: BCRAEntityFilter): number {
+  const entidades = (periodo.entidades || []).filter(e => matchesEntityFilter(e, filter));
+  if (entidades.length === 0) return 1; // No entities = normal situation
+  return Math.max(...entidades.map(e => e.situacion));
+}
+
+// Check if a YYYYMM period is within the given number of months from the reference date
+export function isPeriodWithinMonths(periodo: string, months: number, referenceDate: Date): boolean {
+  const periodoYear = parseInt(periodo.substring(0, 4));
+  const periodoMonth = parseInt(periodo.substring(4, 6));
+
+  const periodoDate = new Date(periodoYear, periodoMonth - 1); // JavaScript months are 0-indexed
+  const cutoffDate = new Date(referenceDate.getFullYear(), referenceDate.getMonth() - months);
+
+  return periodoDate >= cutoffDate;
+}
+
+// Periods must be sorted most recent first
+export function selectWindowPeriods(
+  sortedPeriods: BCRAHistoricalPeriod[],
+  window: BCRAEligibilityRule['window'],
+  referenceDate: Date
+): BCRAHistoricalPeriod[] {
+  if (window === 'current') {
+    return sortedPeriods.slice(0, 1);
+  }
+  return sortedPeriods.filter(p => isPeriodWithinMonths(p.periodo, window, referenceDate));
+}
+
+// YYYYMM period that contains the given date
+export function toPeriod(date: Date): string {
+  return `${date.getFullYear()}${(date.getMonth() + 1).toString().padStart(2, '0')}`;
+}
+
+// YYYY-MM-DD in local time, comparable with BCRA check dates
+function toDay(date: Date): string {
+  return `${toPeriod(date).substring(0, 4)}-${toPeriod(date).substring(4)}-${date.getDate().toString().padStart(2, '0')}`;
+}
+
+// Periods reported after the as-of date did not exist yet when the decision was made
+export function selectPeriodsAsOf(periods: BCRAHistoricalPeriod[], asOfDate: Date): BCRAHistoricalPeriod[] {
+  const asOfPeriod = toPeriod(asOfDate);
+  return periods.filter(p => p.periodo <= asOfPeriod);
+}
+
+// With an as-of date, only checks rejected by then count, and checks paid afterwards were still unpaid
+export function getUnpaidBouncedChecks(data: BCRABouncedChecksData | null | undefined, asOfDate?: Date): UnpaidBouncedCheck[] {
+  if (!data) return [];
+
+  const asOfDay = asOfDate ? toDay(asOfDate) : null;
+
+  return (data.causales || []).flatMap(causal =>
+    (causal.entidades || []).flatMap(entidad =>
+      (entidad.detalle || [])
+        .filter(cheque => !asOfDay || cheque.fechaRechazo.substring(0, 10) <= asOfDay)
+        .filter(cheque => !cheque.fechaPago || (asOfDay !== null && cheque.fechaPago.substring(0, 10) > asOfDay))
+        .map(cheque => ({ ...cheque, causal: causal.causal, entidad: entidad.entidad }))
+    )
+  );
+}
+
+function evaluateSituationRule(rule: BCRAEligibilityRule, inputs: EligibilityInputs, referenceDate: Date): RuleEvaluation {
+  const periods = selectWindowPeriods(inputs.sortedPeriods, rule.window, referenceDate);
+
+  const entities = new Set<string>();
+  periods.forEach(p => (p.entidades || [])
+    .filter(e => matchesEntityFilter(e, rule.entityFilter))
+    .forEach(e => entities.add(e.entidad)));
+
+  const evaluation: RuleEvaluation = {
+    rule,
+    periods: periods.map(p => p.periodo),
+    entities: [...entities],
+    observedValue: null,
+    passed: true,
+  };
+
+  // Rules without data in their window are not applicable
+  if (periods.length === 0) {
+    return evaluation;
+  }
+
+  const situations = periods.map(p => getWorstSituationForPeriod(p, rule.entityFilter));
+
+  switch (rule.aggregation) {
+    case 'worst':
+      evaluation.observedValue = Math.max(...situations);
+      break;
+    case 'average':
+      evaluation.observedValue = Math.round((situations.reduce((sum, s) => sum + s, 0) / situations.length) * 100) / 100;
+      break;
+    case 'count':
+      evaluation.observedValue = situations.filter(s => s > (rule.countSituationAbove ?? 1)).length;
+      break;
+  }
+
+  evaluation.passed = evaluation.observedValue <= rule.threshold;
+  return evaluation;
+}
+
+// 'current' counts every check still unpaid; a month window only counts checks rejected within it
+function evaluateBouncedChecksRule(rule: BCRAEligibilityRule, inputs: EligibilityInputs, referenceDate: Date): RuleEvaluation {
+  // Lookup unavailable: the rule cannot be evaluated, and must not count as passed
+  if (inputs.bouncedChecks === undefined) {
+    return { rule, periods: [], entities: [], observedValue: null, passed: false, unavailable: true };
+  }
+
+  const window = rule.window;
+  const checks = getUnpaidBouncedChecks(inputs.bouncedChecks, referenceDate).filter(cheque =>
+    window === 'current' || isPeriodWithinMonths(cheque.fechaRechazo.replace(/-/g, '').substring(0, 6), window, referenceDate)
+  );
+
+  // 'worst' and 'average' aggregate the amounts of the unpaid checks
+  const amounts = checks.map(cheque => cheque.monto);
+  let observedValue: number;
+  switch (rule.aggregation) {
+    case 'count':
+      observedValue = checks.length;
+      break;
+    case 'worst':
+      observedValue = amounts.length > 0 ? Math.max(...amounts) : 0;
+      break;
+    case 'average':
+      observedValue = amounts.length > 0 ? Math.round(amounts.reduce((sum, a) => sum + a, 0) / amounts.length) : 0;
+      break;
+  }
+
+  return {
+    rule,
+    periods: [...new Set(checks.map(cheque => cheque.fechaRechazo.replace(/-/g, '').substring(0, 6)))],
+    entities: [...new Set(checks.map(cheque => `Entidad ${cheque.entidad}`))],
+    observedValue,
+    passed: observedValue <= rule.threshold,
+  };
+}
+
+export function evaluateRule(
+  rule: BCRAEligibilityRule,
+  inputs: EligibilityInputs,
+  referenceDate: Date
+): RuleEvaluation {
+  switch (rule.metric ?? 'situacion') {
+    case 'unpaid_bounced_checks':
+      return evaluateBouncedChecksRule(rule, inputs, referenceDate);
+    default:
+      return evaluateSituationRule(rule, inputs, referenceDate);
+  }
+}
+
+export function evaluateRuleSet(
+  ruleSet: BCRAEligibilityRuleSet,
+  inputs: EligibilityInputs,
+  referenceDate: Date
+): RuleEvaluation[] {
+  return ruleSet.rules.map(rule => evaluateRule(rule, inputs, referenceDate));
+}
+
+export function toRuleTraceEntry(evaluation: RuleEvaluation): BCRARuleTraceEntry {
+  const { rule, periods, entities, observedValue, passed, unavailable } = evaluation;
+
+  return {
+    ruleId: rule.id,
+    description: rule.description,
+    window: rule.window,
+    aggregation: rule.aggregation,
+    periods,
+    entities,
+    observedValue,
+    threshold: rule.threshold,
+    passed,
+    ...(unavailable && { unavailable }),
+  };
+}
+
+export function formatRuleWindow(window: BCRAEligibilityRule['window']): string {
+  return window === 'current' ? 'Período actual' : `Últimos ${window} meses`;
+}
+
+export function formatRuleFailure(evaluation: RuleEvaluation): string {
+  const { rule, observedValue } = evaluation;
+  return `${rule.description}: ${observedValue} (debe ser ≤ ${rule.threshold})`;
+}
+
+export function formatRuleUnavailable(evaluation: RuleEvaluation): string {
+  return `${evaluation.rule.description}: consulta no disponible`;
+}
+
+export function formatRuleCriterion(rule: BCRAEligibilityRule): string {
+  return `${rule.description} ≤ ${rule.threshold}`;
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it, vi } from 'vitest';
+import { DocumentValidationError } from './documentValidation';
+import { formatFileSize, getTargetDimensions, processDocumentImage } from './imageProcessing';
+
+describe('getTargetDimensions', () => {
+  it.each([
+    { source: { width: 4032, height: 3024 }, expected: { width: 2000, height: 1500 } },
+    { source: { width: 3024, height: 4032 }, expected: { width: 1500, height: 2000 } },
+    { source: { width: 1280, height: 960 }, expected: { width: 1280, height: 960 } },
+  ])('$source.width×$source.height → $expected.width×$expected.height', ({ source, expected }) => {
+    expect(getTargetDimensions(source, 2000)).toEqual(expected);
+  });
+
+  it('keeps the short side legible for the upload validation', () => {
+    expect(getTargetDimensions({ width: 6000, height: 1000 }, 2000, 600)).toEqual({ width: 3600, height: 600 });
+  });
+});
+
+describe('formatFileSize', () => {
+  it.each([
+    { bytes: 512, expected: '512 B' },
+    { bytes: 640 * 1024, expected: '640 KB' },
+    { bytes: 8.4 * 1024 * 1024, expected: '8,4 MB' },
+  ])('$bytes → $expected', ({ bytes, expected }) => {
+    expect(formatFileSize(bytes)).toBe(expected);
+  });
+});
+
+describe('processDocumentImage', () => {
+  it('leaves PDFs alone', async () => {
+    const pdf = new File([new TextEncoder().encode('%PDF-1.7\n')], 'recibo.pdf', { type: 'application/pdf' });
+    expect(await processDocumentImage(pdf)).toBeNull();
+  });
+
+  it('rejects a photo it cannot re-encode instead of uploading it with its EXIF data', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubGlobal('createImageBitmap', vi.fn(async () => {
+      throw new DOMException('The source image could not be decoded.', 'InvalidStateError');
+    }));
+    const jpeg = new File([new Uint8Array([0xff, 0xd8, 0xff, 0xe1, 0x00, 0x10, 0x45, 0x78, 0x69, 0x66])], 'dni.jpg', { type: 'image/jpeg' });
+
+    await expect(processDocumentImage(jpeg)).rejects.toThrow(DocumentValidationError);
+
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+});
@@ -0,0 +1,120 @@
+import { DOCUMENT_IMAGE_LIMITS, DocumentValidationError, FILE_FORMATS, ImageDimensions, detectFileKind } from './documentValidation';
+
+/**
+ * Prepares document photos before they are uploaded: HEIC becomes JPEG,
+ * the picture is downscaled and recompressed, and re-drawing it on a canvas
+ * drops the EXIF block with it (camera, date and GPS position).
+ */
+
+// Longest side of the uploaded image, in pixels
+const DOCUMENT_MAX_DIMENSION = Number(import.meta.env.VITE_DOCUMENT_MAX_DIMENSION) || 2000;
+
+const JPEG_QUALITY = 0.82;
+
+export interface ProcessedImage {
+  file: File;
+  originalSize: number;
+  processedSize: number;
+  originalDimensions: ImageDimensions;
+  dimensions: ImageDimensions;
+  // Was HEIC, uploaded as JPEG
+  converted: boolean;
+}
+
+/**
+ * Scales the longest side down to `maxDimension`, never the short side below
+ * what the upload validation accepts, and never up.
+ */
+export function getTargetDimensions(
+  { width, height }: ImageDimensions,
+  maxDimension: number = DOCUMENT_MAX_DIMENSION,
+  minShortSide: number = DOCUMENT_IMAGE_LIMITS.minShortSide
+): ImageDimensions {
+  const longSide = Math.max(width, height);
+  const shortSide = Math.min(width, height);
+  const scale = Math.min(1, Math.max(maxDimension / longSide, minShortSide / shortSide));
+
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1).replace('.', ',')} MB`;
+}
+
+function replaceExtension(name: string, extension: string): string {
+  const dot = name.lastIndexOf('.');
+  return `${dot > 0 ? name.slice(0, dot) : name}.${extension}`;
+}
+
+// heic2any bundles libheif, so it's only loaded when a HEIC photo shows up
+async function convertHeic(file: File): Promise<Blob> {
+  const { default: heic2any } = await import('heic2any');
+  const converted = await heic2any({ blob: file, toType: 'image/jpeg', quality: JPEG_QUALITY });
+  return Array.isArray(converted) ? converted[0] : converted;
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Canvas export failed'))),
+      'image/jpeg',
+      JPEG_QUALITY
+    );
+  });
+}
+
+/**
+ * Returns the file to upload. PDFs and anything that isn't a JPEG, PNG or
+ * HEIC photo are left alone (null); the upload validation decides about
+ * those. A photo the browser can't re-encode is rejected rather than
+ * uploaded as is, since the original still carries its EXIF and GPS data.
+ */
+export async function processDocumentImage(file: File): Promise<ProcessedImage | null> {
+  const header = new Uint8Array(await file.slice(0, 16).arrayBuffer());
+  const kind = detectFileKind(header);
+  if (!kind || !FILE_FORMATS[kind].image) return null;
+
+  try {
+    const source = kind === 'heic' ? await convertHeic(file) : file;
+
+    // Rotates by the EXIF orientation, which is about to be dropped
+    const bitmap = await createImageBitmap(source, { imageOrientation: 'from-image' });
+    const originalDimensions = { width: bitmap.width, height: bitmap.height };
+    const dimensions = getTargetDimensions(originalDimensions);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = dimensions.width;
+    canvas.height = dimensions.height;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas 2D context unavailable');
+
+    // JPEG has no transparency: PNG screenshots get a white background instead of black
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, dimensions.width, dimensions.height);
+    context.drawImage(bitmap, 0, 0, dimensions.width, dimensions.height);
+    bitmap.close();
+
+    const blob = await canvasToBlob(canvas);
+    const processed: ProcessedImage = {
+      file: new File([blob], replaceExtension(file.name, 'jpg'), { type: 'image/jpeg', lastModified: file.lastModified }),
+      originalSize: file.size,
+      processedSize: blob.size,
+      originalDimensions,
+      dimensions,
+      converted: kind === 'heic',
+    };
+
+    console.log(`🗜️ Processed ${file.name}:`, {
+      from: `${originalDimensions.width}×${originalDimensions.height} ${formatFileSize(file.size)}`,
+      to: `${dimensions.width}×${dimensions.height} ${formatFileSize(blob.size)}`,
+    });
+    return processed;
+  } catch (error) {
+    console.error('❌ Image processing failed:', error);
+    throw new DocumentValidationError(
+      `No se pudo procesar la foto ${file.name}. Intente con otra foto o escanee el documento como PDF`
+    );
+  }
+}
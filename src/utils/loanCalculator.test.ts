@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyLoanSimulation,
+  buildAmortizationSchedule,
+  calculateMonthlyIRR,
+  simulateLoan,
+  toLoanTerms,
+} from './loanCalculator';
+import { LoanTerms } from '../types';
+
+// TNA 36.5% gives exactly 3% per 30-day period
+const baseTerms: LoanTerms = {
+  amount: 100000,
+  term_months: 12,
+  tna: 0.365,
+  origination_fee_rate: 0,
+  monthly_fee: 0,
+  iva_rate: 0,
+};
+
+describe('simulateLoan', () => {
+  it('computes the French installment and the effective rates', () => {
+    const simulation = simulateLoan(baseTerms);
+
+    expect(simulation.tem).toBeCloseTo(0.03, 10);
+    expect(simulation.installment).toBeCloseTo(10046.21, 2);
+    expect(simulation.tea).toBeCloseTo(Math.pow(1.03, 365 / 30) - 1, 10);
+    // Without taxes or fees the cost of the loan is its rate
+    expect(simulation.cft).toBeCloseTo(simulation.tea, 6);
+    expect(simulation.cft_with_iva).toBeCloseTo(simulation.tea, 6);
+  });
+
+  it('splits the loan into a schedule that amortizes the whole amount', () => {
+    const schedule = buildAmortizationSchedule(baseTerms);
+    const principal = schedule.reduce((sum, row) => sum + row.principal, 0);
+
+    expect(schedule).toHaveLength(12);
+    expect(schedule[0].interest).toBeCloseTo(3000, 6);
+    expect(principal).toBeCloseTo(100000, 6);
+    expect(schedule[11].closing_balance).toBeCloseTo(0, 6);
+  });
+
+  it('adds IVA on interest to the payments and only to the CFT with IVA', () => {
+    const simulation = simulateLoan({ ...baseTerms, iva_rate: 0.21 });
+
+    expect(simulation.first_payment).toBeCloseTo(10046.21 + 630, 2);
+    expect(simulation.cft).toBeCloseTo(simulation.tea, 6);
+    expect(simulation.cft_with_iva).toBeGreaterThan(simulation.cft);
+  });
+
+  it('includes origination and monthly fees in the CFT', () => {
+    const simulation = simulateLoan({ ...baseTerms, origination_fee_rate: 0.02, monthly_fee: 500 });
+
+    expect(simulation.total_fees).toBeCloseTo(2000 + 12 * 500, 6);
+    expect(simulation.cft).toBeGreaterThan(simulation.tea);
+  });
+
+  it('handles interest-free loans', () => {
+    const simulation = simulateLoan({ ...baseTerms, tna: 0 });
+
+    expect(simulation.installment).toBeCloseTo(100000 / 12, 6);
+    expect(simulation.tea).toBe(0);
+    expect(simulation.cft).toBe(0);
+  });
+});
+
+describe('calculateMonthlyIRR', () => {
+  it('finds the rate that discounts the payments to the amount received', () => {
+    expect(calculateMonthlyIRR([1000, -1100])).toBeCloseTo(0.1, 8);
+  });
+});
+
+describe('toLoanTerms', () => {
+  it('requires an amount, a whole term and a rate', () => {
+    expect(toLoanTerms({ amount: 1000, term_months: 12 })).toBeNull();
+    expect(toLoanTerms({ amount: 1000, term_months: 1.5, tna: 0.5 })).toBeNull();
+    expect(toLoanTerms({ amount: 1000, term_months: 12, tna: 0.5 })).toMatchObject({ iva_rate: 0.21, monthly_fee: 0 });
+  });
+});
+
+describe('applyLoanSimulation', () => {
+  it('fills the payment, the ratio and the disclosed rates', () => {
+    const data = applyLoanSimulation({ veraz_report_income: 50000, loan_terms: baseTerms });
+
+    expect(data.requested_amount).toBe(100000);
+    expect(data.payment_amount).toBe(10046.21);
+    expect(data.payment_to_income_ratio).toBe(0.2009);
+    expect(data.cft).toBeCloseTo(data.tea!, 6);
+  });
+
+  it('clears derived values while the terms are incomplete', () => {
+    const data = applyLoanSimulation({ payment_amount: 9000, loan_terms: { amount: 50000 } });
+
+    expect(data.requested_amount).toBe(50000);
+    expect(data.payment_amount).toBeUndefined();
+  });
+
+  it('leaves operations entered before the simulator untouched', () => {
+    const legacy = { requested_amount: 50000, payment_amount: 9000, payment_to_income_ratio: 0.3 };
+
+    expect(applyLoanSimulation(legacy)).toBe(legacy);
+  });
+});
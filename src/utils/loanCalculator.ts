@@ -0,0 +1,198 @@
+import { AmortizationRow, LoanSimulation, LoanTerms, VerazData } from '../types';
+
+/**
+ * French amortization (cuota fija) with the rate conventions of the BCRA
+ * transparency rules: monthly periods of 30 days over a 365-day year, and
+ * TEA and CFT expressed as effective annual rates.
+ */
+
+const PERIOD_DAYS = 30;
+const YEAR_DAYS = 365;
+
+export const DEFAULT_IVA_RATE = 0.21;
+
+export const DEFAULT_LOAN_TERMS: Partial<LoanTerms> = {
+  origination_fee_rate: 0,
+  monthly_fee: 0,
+  iva_rate: DEFAULT_IVA_RATE,
+};
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function getMonthlyRate(tna: number): number {
+  return tna * PERIOD_DAYS / YEAR_DAYS;
+}
+
+export function toEffectiveAnnualRate(monthlyRate: number): number {
+  return Math.pow(1 + monthlyRate, YEAR_DAYS / PERIOD_DAYS) - 1;
+}
+
+export function calculateInstallment(amount: number, monthlyRate: number, termMonths: number): number {
+  if (monthlyRate === 0) return amount / termMonths;
+  return amount * monthlyRate / (1 - Math.pow(1 + monthlyRate, -termMonths));
+}
+
+/**
+ * Monthly internal rate of return of a loan seen from the borrower:
+ * cashFlows[0] is the net amount received, the rest are the payments.
+ */
+export function calculateMonthlyIRR(cashFlows: number[]): number {
+  const presentValue = (rate: number) =>
+    cashFlows.reduce((sum, flow, period) => sum + flow / Math.pow(1 + rate, period), 0);
+
+  // Nothing paid above what was received
+  if (presentValue(0) >= 0) return 0;
+
+  let low = 0;
+  let high = 1;
+  while (presentValue(high) < 0 && high < 1e6) {
+    high *= 2;
+  }
+
+  // Present value grows with the rate, so bisection converges on the single root
+  for (let i = 0; i < 200 && high - low > 1e-12; i++) {
+    const mid = (low + high) / 2;
+    if (presentValue(mid) < 0) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  return (low + high) / 2;
+}
+
+export function buildAmortizationSchedule(terms: LoanTerms): AmortizationRow[] {
+  const monthlyRate = getMonthlyRate(terms.tna);
+  const installment = calculateInstallment(terms.amount, monthlyRate, terms.term_months);
+  const schedule: AmortizationRow[] = [];
+  let balance = terms.amount;
+
+  for (let period = 1; period <= terms.term_months; period++) {
+    const interest = balance * monthlyRate;
+    // The last period clears whatever rounding left over
+    const principal = period === terms.term_months ? balance : installment - interest;
+    const iva = interest * terms.iva_rate;
+
+    schedule.push({
+      period,
+      opening_balance: balance,
+      principal,
+      interest,
+      iva,
+      fee: terms.monthly_fee,
+      installment: principal + interest,
+      total_payment: principal + interest + iva + terms.monthly_fee,
+      closing_balance: balance - principal,
+    });
+
+    balance -= principal;
+  }
+
+  return schedule;
+}
+
+export function simulateLoan(terms: LoanTerms): LoanSimulation {
+  const monthlyRate = getMonthlyRate(terms.tna);
+  const schedule = buildAmortizationSchedule(terms);
+  const originationFee = terms.amount * terms.origination_fee_rate;
+  const netDisbursed = terms.amount - originationFee;
+
+  const sum = (pick: (row: AmortizationRow) => number) => schedule.reduce((total, row) => total + pick(row), 0);
+
+  const cftMonthly = calculateMonthlyIRR([netDisbursed, ...schedule.map(row => -(row.total_payment - row.iva))]);
+  const cftWithIvaMonthly = calculateMonthlyIRR([netDisbursed, ...schedule.map(row => -row.total_payment)]);
+
+  return {
+    installment: calculateInstallment(terms.amount, monthlyRate, terms.term_months),
+    first_payment: schedule[0]?.total_payment ?? 0,
+    tem: monthlyRate,
+    tea: toEffectiveAnnualRate(monthlyRate),
+    cft: toEffectiveAnnualRate(cftMonthly),
+    cft_with_iva: toEffectiveAnnualRate(cftWithIvaMonthly),
+    total_interest: sum(row => row.interest),
+    total_iva: sum(row => row.iva),
+    total_fees: originationFee + sum(row => row.fee),
+    total_paid: originationFee + sum(row => row.total_payment),
+    schedule,
+  };
+}
+
+// Complete terms, or null while the simulator is still being filled in
+export function toLoanTerms(terms: Partial<LoanTerms> | undefined): LoanTerms | null {
+  if (!terms?.amount || terms.amount <= 0) return null;
+  if (!terms.term_months || terms.term_months <= 0 || !Number.isInteger(terms.term_months)) return null;
+  if (terms.tna === undefined || terms.tna < 0) return null;
+
+  return {
+    amount: terms.amount,
+    term_months: terms.term_months,
+    tna: terms.tna,
+    origination_fee_rate: terms.origination_fee_rate ?? 0,
+    monthly_fee: terms.monthly_fee ?? 0,
+    iva_rate: terms.iva_rate ?? DEFAULT_IVA_RATE,
+  };
+}
+
+/**
+ * Recomputes the request fields of the Veraz stage from the simulator terms:
+ * the amount, the first (highest) payment, its ratio to the income (the
+ * reported one unless the affordability policy picks another) and the
+ * disclosed TEA and CFT. Operations without terms keep their values.
+ */
+export function applyLoanSimulation(data: VerazData, income: number | undefined = data.veraz_report_income): VerazData {
+  if (!data.loan_terms) return data;
+
+  const terms = toLoanTerms(data.loan_terms);
+  if (!terms) {
+    return {
+      ...data,
+      requested_amount: data.loan_terms.amount,
+      payment_amount: undefined,
+      payment_to_income_ratio: undefined,
+      tea: undefined,
+      cft: undefined,
+      cft_with_iva: undefined,
+    };
+  }
+
+  const simulation = simulateLoan(terms);
+  const paymentAmount = roundMoney(simulation.first_payment);
+
+  return {
+    ...data,
+    requested_amount: terms.amount,
+    payment_amount: paymentAmount,
+    payment_to_income_ratio: income
+      ? Math.round(paymentAmount / income * 10000) / 10000
+      : undefined,
+    tea: simulation.tea,
+    cft: simulation.cft,
+    cft_with_iva: simulation.cft_with_iva,
+  };
+}
+
+// Rates are stored as fractions but typed in as percentages
+export function toPercentInput(rate: number | null | undefined): number | '' {
+  return rate == null ? '' : +(rate * 100).toFixed(4);
+}
+
+export function fromPercentInput(value: string): number | undefined {
+  return value === '' ? undefined : parseFloat(value) / 100;
+}
+
+export function formatRate(rate: number): string {
+  return `${(rate * 100).toFixed(2)}%`;
+}
+
+// Plain pesos; formatAmount in bcraApi works on the thousands the BCRA API reports
+export function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('es-AR', {
+    style: 'currency',
+    currency: 'ARS',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+}
@@ -0,0 +1,164 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  LoanOperationTransitionError,
+  getAvailableTransitions,
+  getTransitionErrors,
+  isEditableStatus,
+  transitionLoanOperation,
+  validateRejection,
+} from './loanOperationStatus';
+import { LoanOperation } from '../types';
+
+const maybeSingleMock = vi.fn();
+const updateMock = vi.fn();
+
+vi.mock('../lib/supabase', () => {
+  const query = {
+    update: (...args: unknown[]) => {
+      updateMock(...args);
+      return query;
+    },
+    eq: () => query,
+    select: () => query,
+    maybeSingle: () => maybeSingleMock(),
+  };
+  return { supabase: { from: vi.fn(() => query) } };
+});
+
+const advisor = { userId: 'advisor-1', roles: ['advisor' as const] };
+const analyst = { userId: 'analyst-1', roles: ['analyst' as const] };
+const supervisor = { userId: 'supervisor-1', roles: ['supervisor' as const] };
+
+const validRejection = {
+  reasonCode: 'insufficient_income' as const,
+  justification: 'Los ingresos declarados no cubren la cuota solicitada.',
+};
+
+function makeOperation(overrides: Partial<LoanOperation> = {}): LoanOperation {
+  return {
+    id: 'op-1',
+    operation_number: 'OP0001',
+    assessment_id: 'assessment-1',
+    advisor_id: 'advisor-1',
+    client_cuit: '20-11111111-2',
+    status: 'in_progress',
+    current_stage: 'verification',
+    contact_info: { phone_number: '1122334455' },
+    documents: { files: { id_card_front: ['OP0001/id_card_front/a.jpg'] } },
+    veraz_data: { credit_score: 700 },
+    verification_data: {},
+    created_at: '2025-06-01T00:00:00Z',
+    updated_at: '2025-06-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('getTransitionErrors', () => {
+  it('rejects transitions outside the state machine', () => {
+    expect(getTransitionErrors(makeOperation({ status: 'pending' }), 'approved', supervisor)).toHaveLength(1);
+    expect(getTransitionErrors(makeOperation({ status: 'rejected' }), 'in_progress', advisor)).toHaveLength(1);
+  });
+
+  it('only lets analysts submit complete operations for review', () => {
+    expect(getTransitionErrors(makeOperation(), 'under_review', advisor)).toHaveLength(2);
+    expect(getTransitionErrors(makeOperation(), 'under_review', analyst)).toEqual([]);
+    expect(getTransitionErrors(makeOperation({ veraz_data: {} }), 'under_review', analyst)).toHaveLength(1);
+  });
+
+  it('requires a supervisor, a reason code and a justification to reject', () => {
+    const operation = makeOperation({ status: 'under_review' });
+
+    expect(getTransitionErrors(operation, 'rejected', { ...analyst, rejection: validRejection })).toHaveLength(1);
+    expect(getTransitionErrors(operation, 'rejected', supervisor)).toHaveLength(2);
+    expect(getTransitionErrors(operation, 'rejected', { ...supervisor, rejection: validRejection })).toEqual([]);
+  });
+
+  it('keeps makers and verifiers from reviewing their own operations', () => {
+    const adminOwner = { userId: 'advisor-1', roles: ['admin' as const] };
+    const operation = makeOperation({ status: 'under_review', verified_by: 'supervisor-1' });
+
+    expect(getTransitionErrors(makeOperation(), 'under_review', adminOwner)).toHaveLength(1);
+    expect(getTransitionErrors(operation, 'approved', adminOwner)).toHaveLength(1);
+    expect(getTransitionErrors(operation, 'approved', supervisor)).toHaveLength(1);
+    expect(getTransitionErrors(operation, 'approved', { userId: 'supervisor-2', roles: ['supervisor'] })).toEqual([]);
+  });
+
+  it('requires comments to return an operation', () => {
+    const operation = makeOperation({ status: 'under_review' });
+
+    expect(getTransitionErrors(operation, 'in_progress', supervisor)).toHaveLength(1);
+    expect(getTransitionErrors(operation, 'in_progress', { ...supervisor, comments: 'Falta el recibo de sueldo' })).toEqual([]);
+    expect(getTransitionErrors(operation, 'in_progress', { ...advisor, comments: 'Falta el recibo de sueldo' })).toHaveLength(1);
+  });
+
+  it('lets the owning advisor cancel before review but not after', () => {
+    expect(getTransitionErrors(makeOperation(), 'cancelled', advisor)).toEqual([]);
+    expect(getTransitionErrors(makeOperation({ status: 'approved' }), 'cancelled', advisor)).toHaveLength(1);
+    expect(getTransitionErrors(makeOperation({ status: 'approved' }), 'withdrawn', advisor)).toEqual([]);
+    expect(getTransitionErrors(makeOperation({ advisor_id: 'advisor-2' }), 'withdrawn', advisor)).toHaveLength(1);
+  });
+});
+
+describe('getAvailableTransitions', () => {
+  it('offers decisions to supervisors during review', () => {
+    expect(getAvailableTransitions(makeOperation({ status: 'under_review' }), supervisor))
+      .toEqual(['approved', 'rejected', 'in_progress', 'cancelled', 'withdrawn']);
+    expect(getAvailableTransitions(makeOperation({ status: 'under_review' }), advisor)).toEqual(['withdrawn']);
+  });
+
+  it('offers nothing from terminal statuses', () => {
+    for (const status of ['rejected', 'disbursed', 'cancelled', 'withdrawn'] as const) {
+      expect(getAvailableTransitions(makeOperation({ status }), supervisor)).toEqual([]);
+      expect(isEditableStatus(status)).toBe(false);
+    }
+  });
+});
+
+describe('validateRejection', () => {
+  it('flags a missing reason and a short justification', () => {
+    expect(Object.keys(validateRejection({ justification: 'No' }))).toEqual(['reasonCode', 'justification']);
+    expect(validateRejection(validRejection)).toEqual({});
+  });
+});
+
+describe('transitionLoanOperation', () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('writes the rejection details with the new status', async () => {
+    const operation = makeOperation({ status: 'under_review' });
+    maybeSingleMock.mockResolvedValue({ data: { ...operation, status: 'rejected' }, error: null });
+
+    const updated = await transitionLoanOperation(operation, 'rejected', { ...supervisor, rejection: validRejection });
+
+    expect(updated.status).toBe('rejected');
+    expect(updateMock).toHaveBeenCalledWith({
+      status: 'rejected',
+      rejection_reason_code: 'insufficient_income',
+      rejection_justification: validRejection.justification,
+    });
+  });
+
+  it('sends the return comments with the new status', async () => {
+    const operation = makeOperation({ status: 'under_review' });
+    maybeSingleMock.mockResolvedValue({ data: { ...operation, status: 'in_progress' }, error: null });
+
+    await transitionLoanOperation(operation, 'in_progress', { ...supervisor, comments: '  Revisar ingresos declarados ' });
+
+    expect(updateMock).toHaveBeenCalledWith({ status: 'in_progress', review_comments: 'Revisar ingresos declarados' });
+  });
+
+  it('does not call the database for invalid transitions', async () => {
+    await expect(transitionLoanOperation(makeOperation(), 'approved', supervisor))
+      .rejects.toBeInstanceOf(LoanOperationTransitionError);
+    expect(updateMock).not.toHaveBeenCalled();
+  });
+
+  it('reports operations moved by someone else', async () => {
+    maybeSingleMock.mockResolvedValue({ data: null, error: null });
+
+    await expect(transitionLoanOperation(makeOperation({ status: 'under_review' }), 'approved', supervisor))
+      .rejects.toMatchObject({ errorMessages: [expect.stringContaining('modificada por otro usuario')] });
+  });
+});
@@ -0,0 +1,344 @@
+import { supabase } from '../lib/supabase';
+import { LoanOperation, LoanOperationReview, LoanOperationReviewDecision, LoanOperationStatus, RejectionReasonCode, UserRole } from '../types';
+import { hasPermission } from './permissions';
+
+/**
+ * Loan operation lifecycle. The enforce_loan_operation_transition trigger
+ * mirrors these transitions and guards, so a client that skips them is
+ * still rejected by the database.
+ */
+
+export const LOAN_OPERATION_TRANSITIONS: Record<LoanOperationStatus, LoanOperationStatus[]> = {
+  pending: ['in_progress', 'cancelled', 'withdrawn'],
+  in_progress: ['under_review', 'cancelled', 'withdrawn'],
+  // Back to in_progress when the reviewer returns the operation
+  under_review: ['approved', 'rejected', 'in_progress', 'cancelled', 'withdrawn'],
+  approved: ['disbursed', 'cancelled', 'withdrawn'],
+  rejected: [],
+  disbursed: [],
+  cancelled: [],
+  withdrawn: [],
+};
+
+// Statuses in which the advisor can still fill in stages
+const EDITABLE_STATUSES: LoanOperationStatus[] = ['pending', 'in_progress'];
+
+export const REJECTION_JUSTIFICATION_MIN_LENGTH = 20;
+export const RETURN_COMMENTS_MIN_LENGTH = 10;
+
+const STATUS_LABELS: Record<LoanOperationStatus, string> = {
+  pending: 'PENDIENTE',
+  in_progress: 'EN PROCESO',
+  under_review: 'EN REVISIÓN',
+  approved: 'APROBADA',
+  rejected: 'RECHAZADA',
+  disbursed: 'DESEMBOLSADA',
+  cancelled: 'CANCELADA',
+  withdrawn: 'DESISTIDA',
+};
+
+export const REJECTION_REASONS: Record<RejectionReasonCode, string> = {
+  bcra_situation: 'Situación crediticia BCRA',
+  insufficient_income: 'Ingresos insuficientes',
+  excessive_debt: 'Endeudamiento excesivo',
+  documentation_inconsistent: 'Documentación inconsistente',
+  identity_not_verified: 'Identidad no verificada',
+  employment_not_verified: 'Situación laboral no verificada',
+  fraud_suspicion: 'Sospecha de fraude',
+  other: 'Otro motivo',
+};
+
+export interface RejectionDetails {
+  reasonCode?: RejectionReasonCode;
+  justification?: string;
+}
+
+export interface TransitionContext {
+  userId: string;
+  roles: UserRole[];
+  rejection?: RejectionDetails;
+  // Reviewer comments; required when returning an operation
+  comments?: string;
+}
+
+export class LoanOperationTransitionError extends Error {
+  constructor(
+    message: string,
+    public from: LoanOperationStatus,
+    public to: LoanOperationStatus,
+    public errorMessages: string[] = []
+  ) {
+    super(message);
+    this.name = 'LoanOperationTransitionError';
+  }
+}
+
+type TransitionGuard = (operation: LoanOperation, context: TransitionContext) => string | null;
+
+const isOwner = (operation: LoanOperation, context: TransitionContext) =>
+  operation.advisor_id === context.userId;
+
+const requireOwnerOrApprover: TransitionGuard = (operation, context) =>
+  (isOwner(operation, context) && hasPermission(context.roles, 'operations:edit_own')) ||
+  hasPermission(context.roles, 'operations:approve')
+    ? null
+    : 'Solo el asesor de la operación o un supervisor pueden realizar esta acción';
+
+const requireApprover: TransitionGuard = (_operation, context) =>
+  hasPermission(context.roles, 'operations:approve')
+    ? null
+    : 'Solo un supervisor puede realizar esta acción';
+
+// Four eyes: whoever entered or verified the operation can't also decide on it
+const requireIndependentReviewer: TransitionGuard = (operation, context) => {
+  if (operation.advisor_id === context.userId) {
+    return 'El asesor que cargó la operación no puede revisarla';
+  }
+  if (operation.verified_by === context.userId) {
+    return 'Quien verificó la operación no puede revisarla';
+  }
+  return null;
+};
+
+const isReturn = (operation: LoanOperation, to: LoanOperationStatus) =>
+  operation.status === 'under_review' && to === 'in_progress';
+
+// Guards per target status; every transition into the status must pass them
+const TRANSITION_GUARDS: Partial<Record<LoanOperationStatus, TransitionGuard[]>> = {
+  in_progress: [
+    (operation, context) => {
+      if (isReturn(operation, 'in_progress')) {
+        return requireApprover(operation, context) || requireIndependentReviewer(operation, context);
+      }
+      return isOwner(operation, context) && hasPermission(context.roles, 'operations:edit_own')
+        ? null
+        : 'Solo el asesor de la operación puede iniciarla';
+    },
+  ],
+  under_review: [
+    (_operation, context) =>
+      hasPermission(context.roles, 'operations:verify')
+        ? null
+        : 'Solo un analista puede enviar la operación a revisión',
+    (operation, context) =>
+      isOwner(operation, context)
+        ? 'El asesor que cargó la operación no puede verificarla'
+        : null,
+    (operation) =>
+      Object.keys(operation.contact_info || {}).length > 0 &&
+      Object.keys(operation.documents || {}).length > 0 &&
+      Object.keys(operation.veraz_data || {}).length > 0
+        ? null
+        : 'Todas las etapas deben estar completas antes de la revisión',
+  ],
+  approved: [requireApprover, requireIndependentReviewer],
+  rejected: [requireApprover, requireIndependentReviewer],
+  disbursed: [requireApprover],
+  cancelled: [
+    (operation, context) =>
+      EDITABLE_STATUSES.includes(operation.status)
+        ? requireOwnerOrApprover(operation, context)
+        : requireApprover(operation, context),
+  ],
+  withdrawn: [requireOwnerOrApprover],
+};
+
+export function getStatusLabel(status: LoanOperationStatus): string {
+  return STATUS_LABELS[status] || status.toUpperCase();
+}
+
+export function getStatusColor(status: LoanOperationStatus): string {
+  switch (status) {
+    case 'approved':
+    case 'disbursed':
+      return 'text-green-700 bg-green-50 border-green-200';
+    case 'in_progress':
+      return 'text-blue-700 bg-blue-50 border-blue-200';
+    case 'under_review':
+      return 'text-purple-700 bg-purple-50 border-purple-200';
+    case 'rejected':
+      return 'text-red-700 bg-red-50 border-red-200';
+    case 'cancelled':
+    case 'withdrawn':
+      return 'text-gray-700 bg-gray-50 border-gray-200';
+    default:
+      return 'text-amber-700 bg-amber-50 border-amber-200';
+  }
+}
+
+export function getReviewDecisionLabel(decision: LoanOperationReviewDecision): string {
+  switch (decision) {
+    case 'approved':
+      return 'Aprobada';
+    case 'returned':
+      return 'Devuelta con observaciones';
+    case 'rejected':
+      return 'Rechazada';
+  }
+}
+
+export function isEditableStatus(status: LoanOperationStatus): boolean {
+  return EDITABLE_STATUSES.includes(status);
+}
+
+export function isTerminalStatus(status: LoanOperationStatus): boolean {
+  return LOAN_OPERATION_TRANSITIONS[status].length === 0;
+}
+
+export function validateRejection(rejection?: RejectionDetails): Record<string, string> {
+  const errors: Record<string, string> = {};
+
+  if (!rejection?.reasonCode || !(rejection.reasonCode in REJECTION_REASONS)) {
+    errors.reasonCode = 'Seleccione el motivo del rechazo';
+  }
+
+  if ((rejection?.justification?.trim().length || 0) < REJECTION_JUSTIFICATION_MIN_LENGTH) {
+    errors.justification = `La justificación debe tener al menos ${REJECTION_JUSTIFICATION_MIN_LENGTH} caracteres`;
+  }
+
+  return errors;
+}
+
+export function validateReturnComments(comments?: string): Record<string, string> {
+  if ((comments?.trim().length || 0) < RETURN_COMMENTS_MIN_LENGTH) {
+    return { comments: `Indique las observaciones (al menos ${RETURN_COMMENTS_MIN_LENGTH} caracteres)` };
+  }
+  return {};
+}
+
+function getGuardErrors(
+  operation: LoanOperation,
+  to: LoanOperationStatus,
+  context: TransitionContext
+): string[] {
+  if (!LOAN_OPERATION_TRANSITIONS[operation.status]?.includes(to)) {
+    return [`No se puede pasar de ${getStatusLabel(operation.status)} a ${getStatusLabel(to)}`];
+  }
+
+  return (TRANSITION_GUARDS[to] || [])
+    .map(guard => guard(operation, context))
+    .filter((error): error is string => error !== null);
+}
+
+export function getTransitionErrors(
+  operation: LoanOperation,
+  to: LoanOperationStatus,
+  context: TransitionContext
+): string[] {
+  const errors = getGuardErrors(operation, to, context);
+
+  if (to === 'rejected') {
+    errors.push(...Object.values(validateRejection(context.rejection)));
+  }
+
+  if (isReturn(operation, to)) {
+    errors.push(...Object.values(validateReturnComments(context.comments)));
+  }
+
+  return errors;
+}
+
+export function canTransition(
+  operation: LoanOperation,
+  to: LoanOperationStatus,
+  context: TransitionContext
+): boolean {
+  return getTransitionErrors(operation, to, context).length === 0;
+}
+
+// Targets the user may move the operation to; rejection details are validated on submit
+export function getAvailableTransitions(
+  operation: LoanOperation,
+  context: TransitionContext
+): LoanOperationStatus[] {
+  return LOAN_OPERATION_TRANSITIONS[operation.status].filter(to =>
+    getGuardErrors(operation, to, context).length === 0
+  );
+}
+
+export function assertTransition(
+  operation: LoanOperation,
+  to: LoanOperationStatus,
+  context: TransitionContext
+): void {
+  const errors = getTransitionErrors(operation, to, context);
+
+  if (errors.length > 0) {
+    throw new LoanOperationTransitionError(
+      `Invalid transition ${operation.status} → ${to}`,
+      operation.status,
+      to,
+      errors
+    );
+  }
+}
+
+// Fields written alongside the new status; timestamps, actors and review history are stamped by the trigger
+export function buildTransitionUpdate(
+  operation: LoanOperation,
+  to: LoanOperationStatus,
+  context: TransitionContext
+): Partial<LoanOperation> {
+  const update: Partial<LoanOperation> = { status: to };
+
+  if (to === 'rejected') {
+    update.rejection_reason_code = context.rejection!.reasonCode;
+    update.rejection_justification = context.rejection!.justification!.trim();
+  }
+
+  if (to === 'approved' || isReturn(operation, to)) {
+    update.review_comments = context.comments?.trim() || undefined;
+  }
+
+  return update;
+}
+
+export async function transitionLoanOperation(
+  operation: LoanOperation,
+  to: LoanOperationStatus,
+  context: TransitionContext
+): Promise<LoanOperation> {
+  assertTransition(operation, to, context);
+
+  console.log(`🔀 Transitioning operation ${operation.operation_number}: ${operation.status} → ${to}`);
+
+  // Only apply if nobody moved the operation in the meantime
+  const { data, error } = await supabase
+    .from('loan_operations')
+    .update(buildTransitionUpdate(operation, to, context))
+    .eq('id', operation.id)
+    .eq('status', operation.status)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error('❌ Error transitioning operation:', error);
+    throw new LoanOperationTransitionError(error.message, operation.status, to, [
+      'La base de datos rechazó el cambio de estado',
+    ]);
+  }
+
+  if (!data) {
+    throw new LoanOperationTransitionError('Operation status changed concurrently', operation.status, to, [
+      'La operación fue modificada por otro usuario. Actualice e intente nuevamente.',
+    ]);
+  }
+
+  console.log('✅ Operation status updated:', data.status);
+  return data;
+}
+
+export async function fetchLoanOperationReviews(operationId: string): Promise<LoanOperationReview[]> {
+  const { data, error } = await supabase
+    .from('loan_operation_reviews')
+    .select('*')
+    .eq('operation_id', operationId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('❌ Error fetching operation reviews:', error);
+    return [];
+  }
+
+  return data || [];
+}
@@ -0,0 +1,251 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Assessment, BCRAEligibilityRuleSet, LoanProduct } from '../types';
+import {
+  checkProductEligibility,
+  getAgeAt,
+  getDocumentChecklist,
+  getProductLoanTerms,
+  validateLoanProduct,
+  validateProductAge,
+  validateProductTerms,
+  validateRequiredDocuments,
+} from './loanProducts';
+
+vi.mock('../lib/supabase', () => ({
+  supabase: { from: vi.fn() },
+}));
+
+const product: LoanProduct = {
+  id: 'product-1',
+  code: 'PAYROLL',
+  name: 'Préstamo con Descuento de Haberes',
+  is_active: true,
+  min_amount: 100000,
+  max_amount: 1000000,
+  min_term_months: 6,
+  max_term_months: 36,
+  tna: 0.7,
+  origination_fee_rate: 0.02,
+  monthly_fee: 500,
+  iva_rate: 0.21,
+  max_payment_to_income_ratio: 0.35,
+  max_debt_to_income_ratio: 0.5,
+  income_policy: 'declared',
+  debt_service_rate: 0.05,
+  min_age: 18,
+  max_age: 70,
+  required_documents: ['id_card_front', 'id_card_back', 'payroll_authorization'],
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z',
+};
+
+function entity(situacion: number) {
+  return {
+    entidad: 'BANCO PRUEBA',
+    situacion,
+    monto: 100,
+    diasAtrasoPago: 0,
+    refinanciaciones: false,
+    recategorizacionOblig: false,
+    situacionJuridica: false,
+    irrecDisposicionTecnica: false,
+    enRevision: false,
+    procesoJud: false,
+  };
+}
+
+// Normal today, situation 2 eight months before the assessment
+const assessment = {
+  id: 'assessment-1',
+  advisor_id: 'advisor-1',
+  client_cuit: '20100000009',
+  assessment_result: 'eligible',
+  bcra_eligibility_status: 'BCRA_APTO',
+  bcra_debt_data: {
+    identificacion: 20100000009,
+    denominacion: 'CLIENTE PRUEBA',
+    periodos: [{ periodo: '202502', entidades: [entity(1)] }],
+  },
+  bcra_historical_data: {
+    identificacion: 20100000009,
+    denominacion: 'CLIENTE PRUEBA',
+    periodos: [
+      { periodo: '202502', entidades: [entity(1)] },
+      { periodo: '202406', entidades: [entity(2)] },
+    ],
+  },
+  created_at: '2025-02-15T12:00:00Z',
+  updated_at: '2025-02-15T12:00:00Z',
+} as Assessment;
+
+function ruleSet(threshold12m: number): BCRAEligibilityRuleSet {
+  return {
+    version: 7,
+    name: 'Reglas del producto',
+    rules: [{
+      id: 'worst_situation_12m',
+      description: 'Peor situación últimos 12 meses',
+      window: 12,
+      aggregation: 'worst',
+      threshold: threshold12m,
+    }],
+  };
+}
+
+describe('getDocumentChecklist', () => {
+  it('lists the documents the product requires', () => {
+    expect(getDocumentChecklist(product)).toEqual([
+      { type: 'id_card_front', required: true },
+      { type: 'id_card_back', required: true },
+      { type: 'payroll_authorization', required: true },
+    ]);
+  });
+
+  it('keeps uploaded documents the product no longer requires as optional', () => {
+    const checklist = getDocumentChecklist(product, { files: { salary_receipt: ['0001/salary_receipt/a.pdf'] } });
+    expect(checklist).toContainEqual({ type: 'salary_receipt', required: false });
+  });
+
+  it('falls back to the ID card and an optional salary receipt without a product', () => {
+    expect(getDocumentChecklist(null)).toEqual([
+      { type: 'id_card_front', required: true },
+      { type: 'id_card_back', required: true },
+      { type: 'salary_receipt', required: false },
+    ]);
+  });
+});
+
+describe('validateRequiredDocuments', () => {
+  it('reports every missing required document', () => {
+    const errors = validateRequiredDocuments(product, { files: { id_card_front: ['0001/id_card_front/a.jpg'] } });
+    expect(Object.keys(errors)).toEqual(['id_card_back', 'payroll_authorization']);
+  });
+
+  it('does not count a type whose file set is empty', () => {
+    const errors = validateRequiredDocuments(product, {
+      files: { id_card_front: ['a.jpg'], id_card_back: [], payroll_authorization: ['c.pdf'] },
+    });
+    expect(Object.keys(errors)).toEqual(['id_card_back']);
+  });
+
+  it('passes once every required document is uploaded', () => {
+    expect(validateRequiredDocuments(product, {
+      files: {
+        id_card_front: ['a.jpg'],
+        id_card_back: ['b.jpg'],
+        payroll_authorization: ['c.pdf'],
+      },
+    })).toEqual({});
+  });
+});
+
+describe('validateProductTerms', () => {
+  it.each([
+    { terms: { amount: 50000, term_months: 12 }, expected: ['requested_amount'] },
+    { terms: { amount: 500000, term_months: 48 }, expected: ['term_months'] },
+    { terms: { amount: 1000000, term_months: 36 }, expected: [] },
+    { terms: { amount: 1000000, term_months: 36, tna: 0.7 }, expected: [] },
+    { terms: { amount: 1000000, term_months: 36, tna: 0.5 }, expected: ['tna'] },
+    { terms: {}, expected: [] },
+  ])('$terms → $expected', ({ terms, expected }) => {
+    expect(Object.keys(validateProductTerms(product, terms))).toEqual(expected);
+  });
+
+  it('has no limits without a product', () => {
+    expect(validateProductTerms(null, { amount: 1, term_months: 999 })).toEqual({});
+  });
+
+  it('seeds the simulator with the product rates', () => {
+    expect(getProductLoanTerms(product)).toEqual({
+      tna: 0.7,
+      term_months: 6,
+      origination_fee_rate: 0.02,
+      monthly_fee: 500,
+      iva_rate: 0.21,
+    });
+  });
+});
+
+describe('validateProductAge', () => {
+  const today = new Date(2025, 5, 15);
+
+  it.each([
+    { dateOfBirth: '2007-06-15', expected: 18 },
+    { dateOfBirth: '2007-06-16', expected: 17 },
+    { dateOfBirth: '1955-01-01', expected: 70 },
+  ])('$dateOfBirth is $expected years old', ({ dateOfBirth, expected }) => {
+    expect(getAgeAt(dateOfBirth, today)).toBe(expected);
+  });
+
+  it('rejects applicants outside the product age range', () => {
+    expect(validateProductAge(product, '2007-06-16', today)).toContain('al menos 18');
+    expect(validateProductAge(product, '1954-06-14', today)).toContain('hasta 70');
+    expect(validateProductAge(product, '1990-01-01', today)).toBeNull();
+  });
+});
+
+describe('checkProductEligibility', () => {
+  it('accepts BCRA APTO assessments when the product has no rule set', () => {
+    expect(checkProductEligibility(product, assessment)).toEqual([]);
+    expect(checkProductEligibility(product, { ...assessment, bcra_eligibility_status: 'BCRA_NO_APTO' })).toHaveLength(1);
+  });
+
+  it('re-evaluates the assessment with the product rule set', () => {
+    const strictProduct = { ...product, eligibility_rule_set_version: 7 };
+
+    expect(checkProductEligibility(strictProduct, assessment, ruleSet(2))).toEqual([]);
+    expect(checkProductEligibility(strictProduct, assessment, ruleSet(1))).toHaveLength(1);
+  });
+
+  it('replays an unavailable bounced checks lookup as unavailable, not as no checks on record', () => {
+    const checksProduct = { ...product, eligibility_rule_set_version: 7 };
+    const checksRuleSet: BCRAEligibilityRuleSet = {
+      ...ruleSet(2),
+      rules: [
+        ...ruleSet(2).rules,
+        {
+          id: 'unpaid_bounced_checks',
+          description: 'Cheques rechazados impagos',
+          metric: 'unpaid_bounced_checks',
+          window: 'current',
+          aggregation: 'count',
+          threshold: 0,
+        },
+      ],
+    };
+    const saved = { ...assessment, bcra_bounced_checks: null };
+
+    expect(checkProductEligibility(checksProduct, saved, checksRuleSet)).toEqual([]);
+    expect(checkProductEligibility(checksProduct, { ...saved, bcra_bounced_checks_unavailable: true }, checksRuleSet)).toEqual([
+      'Cheques rechazados impagos: consulta no disponible',
+    ]);
+  });
+
+  it('is not eligible when the product rule set could not be loaded', () => {
+    expect(checkProductEligibility({ ...product, eligibility_rule_set_version: 7 }, assessment)).toEqual([
+      'No se pudieron cargar los criterios de elegibilidad del producto',
+    ]);
+  });
+
+  it('rejects inactive products', () => {
+    expect(checkProductEligibility({ ...product, is_active: false }, assessment)).toEqual(['El producto no está activo']);
+  });
+});
+
+describe('validateLoanProduct', () => {
+  it('accepts a complete product', () => {
+    expect(validateLoanProduct(product)).toEqual({});
+  });
+
+  it('requires consistent ranges and at least one document', () => {
+    const errors = validateLoanProduct({
+      ...product,
+      max_amount: 1000,
+      max_term_months: 3,
+      max_age: 10,
+      required_documents: [],
+    });
+
+    expect(Object.keys(errors).sort()).toEqual(['max_age', 'max_amount', 'max_term_months', 'required_documents']);
+  });
+});
@@ -0,0 +1,225 @@
+import { supabase } from '../lib/supabase';
+import { Assessment, BCRAEligibilityRuleSet, DocumentType, DocumentsInfo, LoanProduct, LoanTerms } from '../types';
+import { analyzeBCRAEligibility, getAssessmentBouncedChecks } from './bcraApi';
+import { DEFAULT_LOAN_TERMS, formatCurrency, formatRate } from './loanCalculator';
+
+export const DOCUMENT_TYPES: Record<DocumentType, string> = {
+  id_card_front: 'DNI Frente',
+  id_card_back: 'DNI Dorso',
+  salary_receipt: 'Recibo de Sueldo',
+  pension_receipt: 'Recibo de Haberes Previsionales',
+  proof_of_address: 'Comprobante de Domicilio',
+  payroll_authorization: 'Autorización de Descuento de Haberes',
+};
+
+// What every operation required before products existed
+export const DEFAULT_REQUIRED_DOCUMENTS: DocumentType[] = ['id_card_front', 'id_card_back'];
+
+export function getDocumentLabel(type: DocumentType): string {
+  return DOCUMENT_TYPES[type];
+}
+
+export function getDocumentFiles(documents: DocumentsInfo, type: DocumentType): string[] {
+  return documents.files?.[type] ?? [];
+}
+
+export interface DocumentChecklistItem {
+  type: DocumentType;
+  required: boolean;
+}
+
+/**
+ * Documents shown in the documents stage: the ones the product requires,
+ * then optional ones. Files already uploaded stay listed even if the
+ * product no longer asks for them.
+ */
+export function getDocumentChecklist(product: LoanProduct | null, documents: DocumentsInfo = {}): DocumentChecklistItem[] {
+  const required = product?.required_documents ?? DEFAULT_REQUIRED_DOCUMENTS;
+  const optional = (Object.keys(DOCUMENT_TYPES) as DocumentType[]).filter(type =>
+    !required.includes(type) && (getDocumentFiles(documents, type).length > 0 || (!product && type === 'salary_receipt'))
+  );
+
+  return [
+    ...required.map(type => ({ type, required: true })),
+    ...optional.map(type => ({ type, required: false })),
+  ];
+}
+
+export function validateRequiredDocuments(product: LoanProduct | null, documents: DocumentsInfo): Record<string, string> {
+  const errors: Record<string, string> = {};
+
+  for (const type of product?.required_documents ?? DEFAULT_REQUIRED_DOCUMENTS) {
+    if (getDocumentFiles(documents, type).length === 0) {
+      errors[type] = `${getDocumentLabel(type)} es requerido`;
+    }
+  }
+
+  return errors;
+}
+
+// Simulator defaults for a new operation
+export function getProductLoanTerms(product: LoanProduct | null): Partial<LoanTerms> {
+  if (!product) return DEFAULT_LOAN_TERMS;
+
+  return {
+    tna: product.tna,
+    term_months: product.min_term_months,
+    origination_fee_rate: product.origination_fee_rate,
+    monthly_fee: product.monthly_fee,
+    iva_rate: product.iva_rate,
+  };
+}
+
+export function validateProductTerms(product: LoanProduct | null, terms: Partial<LoanTerms> = {}): Record<string, string> {
+  const errors: Record<string, string> = {};
+  if (!product) return errors;
+
+  if (terms.amount !== undefined && (terms.amount < product.min_amount || terms.amount > product.max_amount)) {
+    errors.requested_amount = `El monto debe estar entre ${formatCurrency(product.min_amount)} y ${formatCurrency(product.max_amount)}`;
+  }
+
+  if (terms.term_months !== undefined && (terms.term_months < product.min_term_months || terms.term_months > product.max_term_months)) {
+    errors.term_months = `El plazo debe estar entre ${product.min_term_months} y ${product.max_term_months} meses`;
+  }
+
+  if (terms.tna !== undefined && terms.tna !== product.tna) {
+    errors.tna = `La TNA de ${product.name} es ${formatRate(product.tna)}`;
+  }
+
+  return errors;
+}
+
+export function getAgeAt(dateOfBirth: string, date: Date): number {
+  const [year, month, day] = dateOfBirth.split('-').map(Number);
+  const age = date.getFullYear() - year;
+  const hadBirthday = date.getMonth() + 1 > month || (date.getMonth() + 1 === month && date.getDate() >= day);
+  return hadBirthday ? age : age - 1;
+}
+
+export function validateProductAge(product: LoanProduct | null, dateOfBirth: string | undefined, today: Date = new Date()): string | null {
+  if (!product || !dateOfBirth) return null;
+
+  const age = getAgeAt(dateOfBirth, today);
+
+  if (product.min_age != null && age < product.min_age) {
+    return `${product.name} requiere al menos ${product.min_age} años`;
+  }
+
+  if (product.max_age != null && age > product.max_age) {
+    return `${product.name} admite hasta ${product.max_age} años`;
+  }
+
+  return null;
+}
+
+/**
+ * Re-evaluates the stored BCRA data of an assessment with the product's own
+ * rule set, as of the date the assessment was made. Products without a rule
+ * set accept any assessment that passed the active rules.
+ */
+export function checkProductEligibility(
+  product: LoanProduct,
+  assessment: Assessment,
+  ruleSet?: BCRAEligibilityRuleSet
+): string[] {
+  if (!product.is_active) return ['El producto no está activo'];
+
+  if (!product.eligibility_rule_set_version) {
+    return assessment.bcra_eligibility_status === 'BCRA_APTO' ? [] : ['El cliente no es BCRA APTO'];
+  }
+
+  // The product's rules couldn't be loaded: eligibility is unknown, not granted
+  if (!ruleSet) {
+    return ['No se pudieron cargar los criterios de elegibilidad del producto'];
+  }
+
+  const asOfDate = new Date(assessment.bcra_eligibility_analysis?.asOfDate || assessment.created_at);
+  const analysis = analyzeBCRAEligibility(
+    assessment.bcra_debt_data || null,
+    assessment.bcra_historical_data || null,
+    ruleSet,
+    getAssessmentBouncedChecks(assessment),
+    asOfDate
+  );
+
+  return analysis.isEligible ? [] : analysis.failureReasons;
+}
+
+export async function fetchLoanProducts(options: { activeOnly?: boolean } = {}): Promise<LoanProduct[]> {
+  let query = supabase
+    .from('loan_products')
+    .select('*')
+    .order('name');
+
+  if (options.activeOnly) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('❌ Error fetching loan products:', error);
+    throw error;
+  }
+
+  return (data || []) as LoanProduct[];
+}
+
+export async function fetchLoanProduct(id: string): Promise<LoanProduct | null> {
+  const { data, error } = await supabase
+    .from('loan_products')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    console.error('❌ Error fetching loan product:', error);
+    throw error;
+  }
+
+  return data as LoanProduct | null;
+}
+
+export function validateLoanProduct(product: Partial<LoanProduct>): Record<string, string> {
+  const errors: Record<string, string> = {};
+
+  if (!product.code?.trim()) errors.code = 'El código es requerido';
+  if (!product.name?.trim()) errors.name = 'El nombre es requerido';
+
+  if (!product.min_amount || product.min_amount <= 0) {
+    errors.min_amount = 'El monto mínimo debe ser mayor a cero';
+  }
+  if (!product.max_amount || (product.min_amount && product.max_amount < product.min_amount)) {
+    errors.max_amount = 'El monto máximo debe ser mayor o igual al mínimo';
+  }
+
+  if (!product.min_term_months || product.min_term_months <= 0) {
+    errors.min_term_months = 'El plazo mínimo debe ser mayor a cero';
+  }
+  if (!product.max_term_months || (product.min_term_months && product.max_term_months < product.min_term_months)) {
+    errors.max_term_months = 'El plazo máximo debe ser mayor o igual al mínimo';
+  }
+
+  if (product.tna === undefined || product.tna < 0) errors.tna = 'La TNA es requerida';
+
+  for (const field of ['max_payment_to_income_ratio', 'max_debt_to_income_ratio'] as const) {
+    const ratio = product[field];
+    if (ratio != null && (ratio <= 0 || ratio > 1)) {
+      errors[field] = 'Debe estar entre 0% y 100%';
+    }
+  }
+
+  if (product.debt_service_rate != null && (product.debt_service_rate < 0 || product.debt_service_rate > 1)) {
+    errors.debt_service_rate = 'Debe estar entre 0% y 100%';
+  }
+
+  if (product.min_age != null && product.max_age != null && product.max_age < product.min_age) {
+    errors.max_age = 'La edad máxima debe ser mayor o igual a la mínima';
+  }
+
+  if (!product.required_documents?.length) {
+    errors.required_documents = 'Seleccione al menos un documento';
+  }
+
+  return errors;
+}
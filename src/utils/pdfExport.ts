@@ -1,6 +1,11 @@
 import { Assessment, LoanOperation, BCRADebtData, BCRAHistoricalData, BCRAEntity, BCRAHistoricalEntity } from '../types';
 import { formatAmount, formatPeriod, getSituationDescription } from './bcraApi';
 import { getDocumentUrl } from './storage';
+import { formatRuleWindow } from './eligibilityRules';
+import { REJECTION_REASONS, getStatusLabel } from './loanOperationStatus';
+import { formatRate } from './loanCalculator';
+import { getDocumentChecklist, getDocumentFiles, getDocumentLabel } from './loanProducts';
+import { formatRatio } from './affordability';
 
 export interface PDFExportData {
   assessment: Assessment;
@@ -16,27 +21,32 @@ async function getDocumentImages(operation?: LoanOperation): Promise<{
 
   const images: { idCardFront?: string; idCardBack?: string; salaryReceipt?: string } = {};
 
+  // The first file of each set; the table below lists how many were attached
+  const [idCardFront] = getDocumentFiles(operation.documents, 'id_card_front');
+  const [idCardBack] = getDocumentFiles(operation.documents, 'id_card_back');
+  const [salaryReceipt] = getDocumentFiles(operation.documents, 'salary_receipt');
+
   try {
     // Get document URLs if they exist
-    if (operation.documents.id_card_front) {
+    if (idCardFront) {
       try {
-        images.idCardFront = await getDocumentUrl(operation.documents.id_card_front);
+        images.idCardFront = await getDocumentUrl(idCardFront, 'pdf_export');
       } catch (error) {
         console.warn('Could not load ID card front image:', error);
       }
     }
 
-    if (operation.documents.id_card_back) {
+    if (idCardBack) {
       try {
-        images.idCardBack = await getDocumentUrl(operation.documents.id_card_back);
+        images.idCardBack = await getDocumentUrl(idCardBack, 'pdf_export');
       } catch (error) {
         console.warn('Could not load ID card back image:', error);
       }
     }
 
-    if (operation.documents.salary_receipt) {
+    if (salaryReceipt) {
       try {
-        images.salaryReceipt = await getDocumentUrl(operation.documents.salary_receipt);
+        images.salaryReceipt = await getDocumentUrl(salaryReceipt, 'pdf_export');
       } catch (error) {
         console.warn('Could not load salary receipt image:', error);
       }
@@ -48,6 +58,11 @@ async function getDocumentImages(operation?: LoanOperation): Promise<{
   return images;
 }
 
+function formatAttachedFiles(count: number): string {
+  if (count === 0) return '❌ No adjunto';
+  return count === 1 ? '✅ Adjunto' : `✅ ${count} archivos adjuntos`;
+}
+
 export async function generateDigitalFileHTML(data: PDFExportData): Promise<string> {
   const { assessment, operation } = data;
   
@@ -197,6 +212,12 @@ export async function generateDigitalFileHTML(data: PDFExportData): Promise<stri
   const renderOperationSummary = () => {
     if (!operation) return '';
 
+    const statusColors = ['approved', 'disbursed'].includes(operation.status)
+      ? { background: '#dcfce7', text: '#166534' }
+      : operation.status === 'rejected'
+        ? { background: '#fee2e2', text: '#991b1b' }
+        : { background: '#dbeafe', text: '#1e40af' };
+
     return `
       <div style="margin-bottom: 24px; padding: 16px; border: 1px solid #e5e7eb; border-radius: 8px; background-color: #f8fafc;">
         <h3 style="color: #1f2937; margin: 0 0 12px 0; font-size: 16px;">
@@ -210,10 +231,10 @@ export async function generateDigitalFileHTML(data: PDFExportData): Promise<stri
           <tr>
             <td style="color: #6b7280; padding: 4px 0;">Estado:</td>
             <td style="padding: 4px 0;">
-              <span style="background-color: ${operation.status === 'completed' ? '#dcfce7' : '#dbeafe'}; 
-                           color: ${operation.status === 'completed' ? '#166534' : '#1e40af'}; 
+              <span style="background-color: ${statusColors.background}; 
+                           color: ${statusColors.text}; 
                            padding: 2px 8px; border-radius: 4px; font-size: 11px; font-weight: 600;">
-                ${operation.status === 'completed' ? 'COMPLETADA' : operation.status.toUpperCase()}
+                ${getStatusLabel(operation.status)}
               </span>
             </td>
           </tr>
@@ -221,10 +242,31 @@ export async function generateDigitalFileHTML(data: PDFExportData): Promise<stri
             <td style="color: #6b7280; padding: 4px 0;">Fecha de Creación:</td>
             <td style="padding: 4px 0;">${new Date(operation.created_at).toLocaleDateString('es-AR')}</td>
           </tr>
-          ${operation.status === 'completed' ? `
+          ${operation.submitted_at ? `
+          <tr>
+            <td style="color: #6b7280; padding: 4px 0;">Enviada a Revisión:</td>
+            <td style="padding: 4px 0;">${new Date(operation.submitted_at).toLocaleDateString('es-AR')}</td>
+          </tr>
+          ` : ''}
+          ${operation.decided_at ? `
+          <tr>
+            <td style="color: #6b7280; padding: 4px 0;">Fecha de Decisión:</td>
+            <td style="padding: 4px 0;">${new Date(operation.decided_at).toLocaleDateString('es-AR')}</td>
+          </tr>
+          ` : ''}
+          ${operation.disbursed_at ? `
+          <tr>
+            <td style="color: #6b7280; padding: 4px 0;">Fecha de Desembolso:</td>
+            <td style="padding: 4px 0;">${new Date(operation.disbursed_at).toLocaleDateString('es-AR')}</td>
+          </tr>
+          ` : ''}
+          ${operation.status === 'rejected' && operation.rejection_reason_code ? `
           <tr>
-            <td style="color: #6b7280; padding: 4px 0;">Fecha de Finalización:</td>
-            <td style="padding: 4px 0;">${new Date(operation.updated_at).toLocaleDateString('es-AR')}</td>
+            <td style="color: #6b7280; padding: 4px 0; vertical-align: top;">Motivo de Rechazo:</td>
+            <td style="padding: 4px 0;">
+              <strong>${REJECTION_REASONS[operation.rejection_reason_code]}</strong>
+              ${operation.rejection_justification ? `<br/>${operation.rejection_justification}` : ''}
+            </td>
           </tr>
           ` : ''}
         </table>
@@ -280,18 +322,12 @@ export async function generateDigitalFileHTML(data: PDFExportData): Promise<stri
         
         <div style="margin-bottom: 16px;">
           <table style="width: 100%; font-size: 12px; margin-bottom: 16px;">
+            ${getDocumentChecklist(null, docs).map(({ type }) => `
             <tr>
-              <td style="color: #6b7280; padding: 4px 0; width: 30%;">DNI Frente:</td>
-              <td style="padding: 4px 0;">${docs.id_card_front ? '✅ Adjunto' : '❌ No adjunto'}</td>
-            </tr>
-            <tr>
-              <td style="color: #6b7280; padding: 4px 0;">DNI Dorso:</td>
-              <td style="padding: 4px 0;">${docs.id_card_back ? '✅ Adjunto' : '❌ No adjunto'}</td>
-            </tr>
-            <tr>
-              <td style="color: #6b7280; padding: 4px 0;">Recibo de Sueldo:</td>
-              <td style="padding: 4px 0;">${docs.salary_receipt ? '✅ Adjunto' : '❌ No adjunto'}</td>
+              <td style="color: #6b7280; padding: 4px 0; width: 30%;">${getDocumentLabel(type)}:</td>
+              <td style="padding: 4px 0;">${formatAttachedFiles(getDocumentFiles(docs, type).length)}</td>
             </tr>
+            `).join('')}
             ${docs.net_income ? `
             <tr>
               <td style="color: #6b7280; padding: 4px 0;">Ingresos Netos:</td>
@@ -429,9 +465,39 @@ export async function generateDigitalFileHTML(data: PDFExportData): Promise<stri
             </div>
             ` : ''}
             ${veraz.payment_to_income_ratio !== undefined ? `
-            <div style="padding: 8px 0; grid-column: span 2;">
+            <div style="padding: 8px 0;">
               <div style="color: #6b7280; font-size: 12px; margin-bottom: 2px;">Relación Cuota/Ingreso</div>
-              <div style="font-weight: 600; font-size: 14px; color: #059669;">${(veraz.payment_to_income_ratio * 100).toFixed(1)}%</div>
+              <div style="font-weight: 600; font-size: 14px; color: #059669;">${formatRatio(veraz.payment_to_income_ratio)}</div>
+            </div>
+            ` : ''}
+            ${veraz.affordability?.debt_to_income_ratio !== undefined ? `
+            <div style="padding: 8px 0;">
+              <div style="color: #6b7280; font-size: 12px; margin-bottom: 2px;">Endeudamiento Total</div>
+              <div style="font-weight: 600; font-size: 14px;">${formatRatio(veraz.affordability.debt_to_income_ratio)}</div>
+            </div>
+            ` : ''}
+            ${veraz.loan_terms?.term_months !== undefined && veraz.loan_terms.tna !== undefined ? `
+            <div style="padding: 8px 0;">
+              <div style="color: #6b7280; font-size: 12px; margin-bottom: 2px;">Plazo / TNA</div>
+              <div style="font-weight: 600; font-size: 14px;">${veraz.loan_terms.term_months} meses · ${formatRate(veraz.loan_terms.tna)}</div>
+            </div>
+            ` : ''}
+            ${veraz.tea !== undefined ? `
+            <div style="padding: 8px 0;">
+              <div style="color: #6b7280; font-size: 12px; margin-bottom: 2px;">TEA</div>
+              <div style="font-weight: 600; font-size: 14px;">${formatRate(veraz.tea)}</div>
+            </div>
+            ` : ''}
+            ${veraz.cft !== undefined ? `
+            <div style="padding: 8px 0;">
+              <div style="color: #6b7280; font-size: 12px; margin-bottom: 2px;">CFTEA sin IVA</div>
+              <div style="font-weight: 600; font-size: 14px;">${formatRate(veraz.cft)}</div>
+            </div>
+            ` : ''}
+            ${veraz.cft_with_iva !== undefined ? `
+            <div style="padding: 8px 0;">
+              <div style="color: #6b7280; font-size: 12px; margin-bottom: 2px;">CFTEA con IVA</div>
+              <div style="font-weight: 600; font-size: 14px;">${formatRate(veraz.cft_with_iva)}</div>
             </div>
             ` : ''}
           </div>
@@ -476,6 +542,104 @@ export async function generateDigitalFileHTML(data: PDFExportData): Promise<stri
     `;
   };
 
+  // Generate eligibility criteria section from the per-rule trace
+  const renderEligibilityCriteria = () => {
+    const analysis = assessment.bcra_eligibility_analysis;
+
+    // Assessments saved before the rule trace existed only carry the overall status
+    if (!analysis?.ruleTrace || analysis.ruleTrace.length === 0) {
+      return `
+      <div class="section">
+        <h2 class="section-title">🎯 Criterios de Elegibilidad BCRA</h2>
+        <p style="margin-bottom: 16px; color: #6b7280; font-size: 14px;">
+          El sistema evalúa automáticamente los siguientes criterios basados en la normativa del Banco Central:
+        </p>
+        <table style="width: 100%; border-collapse: collapse; margin-bottom: 16px;">
+          <thead>
+            <tr style="background-color: #f9fafb;">
+              <th style="border: 1px solid #e5e7eb; padding: 12px; text-align: left; font-size: 14px;">Criterio</th>
+              <th style="border: 1px solid #e5e7eb; padding: 12px; text-align: center; font-size: 14px;">Requisito</th>
+              <th style="border: 1px solid #e5e7eb; padding: 12px; text-align: center; font-size: 14px;">Estado</th>
+            </tr>
+          </thead>
+          <tbody>
+            <tr>
+              <td style="border: 1px solid #e5e7eb; padding: 12px; font-size: 13px;">Situación crediticia actual</td>
+              <td style="border: 1px solid #e5e7eb; padding: 12px; text-align: center; font-size: 13px;">≤ 1</td>
+              <td style="border: 1px solid #e5e7eb; padding: 12px; text-align: center; font-size: 13px;">
+                <span style="color: ${assessment.bcra_eligibility_status === 'BCRA_APTO' ? '#166534' : '#dc2626'};">
+                  ${assessment.bcra_eligibility_status === 'BCRA_APTO' ? '✅ Cumple' : '❌ No cumple'}
+                </span>
+              </td>
+            </tr>
+            <tr>
+              <td style="border: 1px solid #e5e7eb; padding: 12px; font-size: 13px;">Últimos 6 meses</td>
+              <td style="border: 1px solid #e5e7eb; padding: 12px; text-align: center; font-size: 13px;">≤ 1</td>
+              <td style="border: 1px solid #e5e7eb; padding: 12px; text-align: center; font-size: 13px;">
+                <span style="color: ${assessment.bcra_eligibility_status === 'BCRA_APTO' ? '#166534' : '#dc2626'};">
+                  ${assessment.bcra_eligibility_status === 'BCRA_APTO' ? '✅ Cumple' : '❌ No cumple'}
+                </span>
+              </td>
+            </tr>
+            <tr>
+              <td style="border: 1px solid #e5e7eb; padding: 12px; font-size: 13px;">Últimos 12 meses</td>
+              <td style="border: 1px solid #e5e7eb; padding: 12px; text-align: center; font-size: 13px;">≤ 2</td>
+              <td style="border: 1px solid #e5e7eb; padding: 12px; text-align: center; font-size: 13px;">
+                <span style="color: ${assessment.bcra_eligibility_status === 'BCRA_APTO' ? '#166534' : '#dc2626'};">
+                  ${assessment.bcra_eligibility_status === 'BCRA_APTO' ? '✅ Cumple' : '❌ No cumple'}
+                </span>
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+      `;
+    }
+
+    return `
+      <div class="section">
+        <h2 class="section-title">🎯 Criterios de Elegibilidad BCRA</h2>
+        <p style="margin-bottom: 16px; color: #6b7280; font-size: 14px;">
+          Resultado de cada regla evaluada (reglas v${analysis.ruleSetVersion}, análisis del ${new Date(analysis.analysisDate).toLocaleDateString('es-AR')}${analysis.asOfDate ? `, datos al ${new Date(analysis.asOfDate).toLocaleDateString('es-AR')}` : ''}):
+        </p>
+        <table style="width: 100%; border-collapse: collapse; margin-bottom: 16px;">
+          <thead>
+            <tr style="background-color: #f9fafb;">
+              <th style="border: 1px solid #e5e7eb; padding: 12px; text-align: left; font-size: 14px;">Criterio</th>
+              <th style="border: 1px solid #e5e7eb; padding: 12px; text-align: center; font-size: 14px;">Observado</th>
+              <th style="border: 1px solid #e5e7eb; padding: 12px; text-align: center; font-size: 14px;">Requisito</th>
+              <th style="border: 1px solid #e5e7eb; padding: 12px; text-align: center; font-size: 14px;">Estado</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${analysis.ruleTrace.map(entry => `
+            <tr>
+              <td style="border: 1px solid #e5e7eb; padding: 12px; font-size: 13px;">
+                ${entry.description}
+                <div style="color: #6b7280; font-size: 11px; margin-top: 2px;">
+                  ${formatRuleWindow(entry.window)}${entry.periods.length > 0 ? ` · ${entry.periods.map(formatPeriod).join(', ')}` : ''}
+                </div>
+                ${entry.entities.length > 0 ? `
+                <div style="color: #9ca3af; font-size: 10px; margin-top: 2px;">${entry.entities.join(', ')}</div>
+                ` : ''}
+              </td>
+              <td style="border: 1px solid #e5e7eb; padding: 12px; text-align: center; font-size: 13px; font-weight: 600;">
+                ${entry.observedValue !== null ? entry.observedValue : '—'}
+              </td>
+              <td style="border: 1px solid #e5e7eb; padding: 12px; text-align: center; font-size: 13px;">≤ ${entry.threshold}</td>
+              <td style="border: 1px solid #e5e7eb; padding: 12px; text-align: center; font-size: 13px;">
+                <span style="color: ${entry.unavailable ? '#d97706' : entry.observedValue === null ? '#6b7280' : entry.passed ? '#166534' : '#dc2626'};">
+                  ${entry.unavailable ? '⏳ No disponible' : entry.observedValue === null ? 'Sin datos' : entry.passed ? '✅ Cumple' : '❌ No cumple'}
+                </span>
+              </td>
+            </tr>
+            `).join('')}
+          </tbody>
+        </table>
+      </div>
+    `;
+  };
+
   return `
     <!DOCTYPE html>
     <html lang="es">
@@ -632,50 +796,7 @@ export async function generateDigitalFileHTML(data: PDFExportData): Promise<stri
       ${renderVerazData()}
       ${renderVerification()}
 
-      <div class="section">
-        <h2 class="section-title">🎯 Criterios de Elegibilidad BCRA</h2>
-        <p style="margin-bottom: 16px; color: #6b7280; font-size: 14px;">
-          El sistema evalúa automáticamente los siguientes criterios basados en la normativa del Banco Central:
-        </p>
-        <table style="width: 100%; border-collapse: collapse; margin-bottom: 16px;">
-          <thead>
-            <tr style="background-color: #f9fafb;">
-              <th style="border: 1px solid #e5e7eb; padding: 12px; text-align: left; font-size: 14px;">Criterio</th>
-              <th style="border: 1px solid #e5e7eb; padding: 12px; text-align: center; font-size: 14px;">Requisito</th>
-              <th style="border: 1px solid #e5e7eb; padding: 12px; text-align: center; font-size: 14px;">Estado</th>
-            </tr>
-          </thead>
-          <tbody>
-            <tr>
-              <td style="border: 1px solid #e5e7eb; padding: 12px; font-size: 13px;">Situación crediticia actual</td>
-              <td style="border: 1px solid #e5e7eb; padding: 12px; text-align: center; font-size: 13px;">≤ 1</td>
-              <td style="border: 1px solid #e5e7eb; padding: 12px; text-align: center; font-size: 13px;">
-                <span style="color: ${assessment.bcra_eligibility_status === 'BCRA_APTO' ? '#166534' : '#dc2626'};">
-                  ${assessment.bcra_eligibility_status === 'BCRA_APTO' ? '✅ Cumple' : '❌ No cumple'}
-                </span>
-              </td>
-            </tr>
-            <tr>
-              <td style="border: 1px solid #e5e7eb; padding: 12px; font-size: 13px;">Últimos 6 meses</td>
-              <td style="border: 1px solid #e5e7eb; padding: 12px; text-align: center; font-size: 13px;">≤ 1</td>
-              <td style="border: 1px solid #e5e7eb; padding: 12px; text-align: center; font-size: 13px;">
-                <span style="color: ${assessment.bcra_eligibility_status === 'BCRA_APTO' ? '#166534' : '#dc2626'};">
-                  ${assessment.bcra_eligibility_status === 'BCRA_APTO' ? '✅ Cumple' : '❌ No cumple'}
-                </span>
-              </td>
-            </tr>
-            <tr>
-              <td style="border: 1px solid #e5e7eb; padding: 12px; font-size: 13px;">Últimos 12 meses</td>
-              <td style="border: 1px solid #e5e7eb; padding: 12px; text-align: center; font-size: 13px;">≤ 2</td>
-              <td style="border: 1px solid #e5e7eb; padding: 12px; text-align: center; font-size: 13px;">
-                <span style="color: ${assessment.bcra_eligibility_status === 'BCRA_APTO' ? '#166534' : '#dc2626'};">
-                  ${assessment.bcra_eligibility_status === 'BCRA_APTO' ? '✅ Cumple' : '❌ No cumple'}
-                </span>
-              </td>
-            </tr>
-          </tbody>
-        </table>
-      </div>
+      ${renderEligibilityCriteria()}
 
       ${renderBCRACurrentData()}
       ${renderBCRAHistoricalData()}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { getPermissions, getPrimaryRole, hasPermission } from './permissions';
+
+describe('permissions', () => {
+  it('lets advisors originate but not verify or approve operations', () => {
+    expect(hasPermission(['advisor'], 'operations:create')).toBe(true);
+    expect(hasPermission(['advisor'], 'operations:verify')).toBe(false);
+    expect(hasPermission(['advisor'], 'operations:approve')).toBe(false);
+  });
+
+  it('separates verification from approval', () => {
+    expect(hasPermission(['analyst'], 'operations:verify')).toBe(true);
+    expect(hasPermission(['analyst'], 'operations:approve')).toBe(false);
+    expect(hasPermission(['supervisor'], 'operations:approve')).toBe(true);
+    expect(hasPermission(['supervisor'], 'operations:verify')).toBe(false);
+  });
+
+  it('restricts user management to admins', () => {
+    expect(hasPermission(['advisor', 'analyst', 'supervisor'], 'users:manage')).toBe(false);
+    expect(hasPermission(['admin'], 'users:manage')).toBe(true);
+  });
+
+  it('merges permissions across memberships without duplicates', () => {
+    const permissions = getPermissions(['advisor', 'analyst']);
+
+    expect(permissions).toContain('operations:create');
+    expect(permissions).toContain('operations:verify');
+    expect(new Set(permissions).size).toBe(permissions.length);
+  });
+
+  it('picks the most privileged role as primary', () => {
+    expect(getPrimaryRole(['advisor', 'supervisor', 'analyst'])).toBe('supervisor');
+    expect(getPrimaryRole([])).toBe('advisor');
+  });
+
+  it('grants nothing to deactivated users', () => {
+    expect(getPermissions([])).toEqual([]);
+  });
+});
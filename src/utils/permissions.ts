@@ -0,0 +1,67 @@
+import { Permission, UserRole } from '../types';
+
+/**
+ * Role → permission matrix. UI gating only: the database enforces the
+ * same rules through RLS (see has_role in the memberships migration).
+ */
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  advisor: [
+    'assessments:create',
+    'operations:create',
+    'operations:edit_own',
+    'backoffice:access',
+  ],
+  analyst: [
+    'assessments:create',
+    'assessments:view_all',
+    'operations:view_all',
+    'operations:verify',
+    'backoffice:access',
+  ],
+  supervisor: [
+    'assessments:create',
+    'assessments:view_all',
+    'operations:view_all',
+    'operations:approve',
+    'backoffice:access',
+  ],
+  admin: [
+    'assessments:create',
+    'assessments:view_all',
+    'operations:create',
+    'operations:edit_own',
+    'operations:view_all',
+    'operations:verify',
+    'operations:approve',
+    'backoffice:access',
+    'users:manage',
+    'products:manage',
+  ],
+};
+
+// Ordered from least to most privileged
+export const USER_ROLES: UserRole[] = ['advisor', 'analyst', 'supervisor', 'admin'];
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  advisor: 'Asesor',
+  analyst: 'Analista',
+  supervisor: 'Supervisor',
+  admin: 'Administrador',
+};
+
+export function getRoleLabel(role: UserRole): string {
+  return ROLE_LABELS[role];
+}
+
+export function getPrimaryRole(roles: UserRole[]): UserRole {
+  return [...USER_ROLES].reverse().find(role => roles.includes(role)) || 'advisor';
+}
+
+export function getPermissions(roles: UserRole[]): Permission[] {
+  return [...new Set(roles.flatMap(role => ROLE_PERMISSIONS[role] || []))];
+}
+
+export function hasPermission(roles: UserRole[], permission: Permission): boolean {
+  return roles.some(role => ROLE_PERMISSIONS[role]?.includes(permission));
+}
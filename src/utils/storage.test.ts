@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { SIGNED_URL_TTL_SECONDS, StorageError, getDocumentUrl, uploadDocument, verifyFileUpload } from './storage';
+import { DocumentValidationError } from './documentValidation';
+
+const rpcMock = vi.fn();
+const createSignedUrlMock = vi.fn();
+const uploadMock = vi.fn();
+const downloadMock = vi.fn();
+
+vi.mock('../lib/supabase', () => ({
+  supabase: {
+    rpc: (...args: unknown[]) => rpcMock(...args),
+    storage: {
+      from: () => ({
+        createSignedUrl: (...args: unknown[]) => createSignedUrlMock(...args),
+        upload: (...args: unknown[]) => uploadMock(...args),
+        download: (...args: unknown[]) => downloadMock(...args),
+      }),
+    },
+  },
+}));
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('getDocumentUrl', () => {
+  it('logs the access and returns a short-lived signed URL', async () => {
+    rpcMock.mockResolvedValue({ error: null });
+    createSignedUrlMock.mockResolvedValue({ data: { signedUrl: 'https://storage/signed?token=abc' }, error: null });
+
+    const url = await getDocumentUrl('OP0001/id_card_front.jpg');
+
+    expect(url).toBe('https://storage/signed?token=abc');
+    expect(rpcMock).toHaveBeenCalledWith('log_document_access', { file_path: 'OP0001/id_card_front.jpg', purpose: 'view' });
+    expect(createSignedUrlMock).toHaveBeenCalledWith('OP0001/id_card_front.jpg', SIGNED_URL_TTL_SECONDS.view);
+  });
+
+  it('gives the PDF export more time to load the images', async () => {
+    rpcMock.mockResolvedValue({ error: null });
+    createSignedUrlMock.mockResolvedValue({ data: { signedUrl: 'https://storage/signed' }, error: null });
+
+    await getDocumentUrl('OP0001/id_card_back.jpg', 'pdf_export');
+
+    expect(rpcMock).toHaveBeenCalledWith('log_document_access', { file_path: 'OP0001/id_card_back.jpg', purpose: 'pdf_export' });
+    expect(createSignedUrlMock).toHaveBeenCalledWith('OP0001/id_card_back.jpg', SIGNED_URL_TTL_SECONDS.pdf_export);
+  });
+
+  it('never signs a URL when the access check fails', async () => {
+    rpcMock.mockResolvedValue({ error: { code: '42501', message: 'Access denied to document OP0002/id_card_front.jpg' } });
+
+    await expect(getDocumentUrl('OP0002/id_card_front.jpg')).rejects.toThrow(StorageError);
+    expect(createSignedUrlMock).not.toHaveBeenCalled();
+  });
+});
+
+const PDF = new TextEncoder().encode('%PDF-1.7\n');
+
+describe('verifyFileUpload', () => {
+  it('compares the hash of the stored object', async () => {
+    downloadMock.mockResolvedValue({ data: new Blob([PDF], { type: 'application/pdf' }), error: null });
+
+    const result = await verifyFileUpload('OP0001/salary_receipt.pdf');
+    expect(result).toMatchObject({ exists: true, contentType: 'application/pdf', size: PDF.length });
+    expect(result.sha256).toMatch(/^[0-9a-f]{64}$/);
+
+    expect((await verifyFileUpload('OP0001/salary_receipt.pdf', result.sha256)).matches).toBe(true);
+    expect((await verifyFileUpload('OP0001/salary_receipt.pdf', '0'.repeat(64))).matches).toBe(false);
+  });
+
+  it('reports missing objects', async () => {
+    downloadMock.mockResolvedValue({ data: null, error: { name: 'StorageUnknownError', message: 'Object not found' } });
+
+    expect(await verifyFileUpload('OP0001/missing.pdf')).toEqual({ exists: false });
+  });
+});
+
+describe('uploadDocument', () => {
+  it('stores every upload under a new path named after the detected type', async () => {
+    uploadMock.mockImplementation(async (path: string) => ({ data: { path }, error: null }));
+    downloadMock.mockResolvedValue({ data: new Blob([PDF]), error: null });
+
+    const first = await uploadDocument('OP0001', new File([PDF], 'scan.jpeg', { type: 'image/jpeg' }), 'salary_receipt');
+    const second = await uploadDocument('OP0001', new File([PDF], 'scan.jpeg'), 'salary_receipt');
+
+    expect(uploadMock).toHaveBeenCalledWith(
+      expect.stringMatching(/^OP0001\/salary_receipt\/[0-9a-f-]{36}\.pdf$/),
+      expect.any(ArrayBuffer),
+      expect.objectContaining({ contentType: 'application/pdf', upsert: false })
+    );
+    expect(second.path).not.toBe(first.path);
+    expect(first).toMatchObject({ contentType: 'application/pdf', size: PDF.length });
+    expect(first.sha256).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('fails when the stored object differs from the file', async () => {
+    uploadMock.mockResolvedValue({ data: { path: 'OP0001/salary_receipt.pdf' }, error: null });
+    downloadMock.mockResolvedValue({ data: new Blob([PDF.subarray(0, 5)]), error: null });
+
+    await expect(uploadDocument('OP0001', new File([PDF], 'recibo.pdf'), 'salary_receipt')).rejects.toThrow(StorageError);
+  });
+
+  it('never uploads a file that fails validation', async () => {
+    await expect(uploadDocument('OP0001', new File([PDF], 'dni.pdf'), 'id_card_front')).rejects.toThrow(DocumentValidationError);
+    expect(uploadMock).not.toHaveBeenCalled();
+  });
+});
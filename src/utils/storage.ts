@@ -1,4 +1,6 @@
 import { supabase } from '../lib/supabase';
+import { DocumentType } from '../types';
+import { DocumentValidationError, sha256Hex, validateStoredFile } from './documentValidation';
 
 export class StorageError extends Error {
   constructor(message: string, public code?: string) {
@@ -7,11 +9,21 @@ export class StorageError extends Error {
   }
 }
 
+// Files kept under {operation_number}/ besides the checklist documents
+export type StoredFileType = DocumentType | 'veraz_report';
+
+export interface UploadedFile {
+  path: string;
+  sha256: string;
+  contentType: string;
+  size: number;
+}
+
 export async function uploadDocument(
   operationNumber: string,
   file: File,
-  documentType: 'id_card_front' | 'id_card_back' | 'salary_receipt'
-): Promise<string> {
+  documentType: StoredFileType
+): Promise<UploadedFile> {
   try {
     console.log(`📤 Uploading ${documentType} for operation ${operationNumber}`);
     console.log(`📄 File details:`, {
@@ -21,95 +33,86 @@ export async function uploadDocument(
       lastModified: file.lastModified
     });
     
-    // Create a unique filename
-    const fileExtension = file.name.split('.').pop();
-    const fileName = `${documentType}.${fileExtension}`;
-    const filePath = `${operationNumber}/${fileName}`;
+    // Type, size and resolution come from the content, not from the file name
+    const validated = await validateStoredFile(file, documentType);
+    // Every upload gets its own path, so a new version never overwrites an old one
+    const filePath = `${operationNumber}/${documentType}/${crypto.randomUUID()}.${validated.extension}`;
     
     console.log(`📁 Upload path: ${filePath}`);
     
-    // Method 1: Try with ArrayBuffer for binary data
-    try {
-      console.log('🔄 Attempting upload with ArrayBuffer...');
-      
-      const arrayBuffer = await file.arrayBuffer();
-      console.log(`📊 ArrayBuffer size: ${arrayBuffer.byteLength} bytes`);
-      
-      const { data, error } = await supabase.storage
-        .from('loan-documents')
-        .upload(filePath, arrayBuffer, {
-          cacheControl: '3600',
-          upsert: true,
-          contentType: file.type
-        });
-
-      if (error) {
-        console.warn('⚠️ ArrayBuffer upload failed:', error);
-        throw error;
-      }
-
-      console.log('✅ ArrayBuffer upload successful:', data.path);
-      console.log('📊 Upload response:', data);
-      return data.path;
-      
-    } catch (arrayBufferError) {
-      console.warn('⚠️ ArrayBuffer method failed, trying File directly...');
-      
-      // Method 2: Fallback to direct File upload
-      const { data, error } = await supabase.storage
-        .from('loan-documents')
-        .upload(filePath, file, {
-          cacheControl: '3600',
-          upsert: true,
-          contentType: file.type
-        });
-
-      if (error) {
-        console.error('❌ Direct file upload also failed:', error);
-        throw new StorageError(`Failed to upload ${documentType}: ${error.message}`, error.name);
-      }
-
-      console.log('✅ Direct file upload successful:', data.path);
-      console.log('📊 Upload response:', data);
-      return data.path;
+    // A single attempt: a failed upload is not re-sent whole over a slow connection
+    const { data, error } = await supabase.storage
+      .from('loan-documents')
+      .upload(filePath, validated.bytes, {
+        cacheControl: '3600',
+        upsert: false,
+        contentType: validated.contentType
+      });
+
+    if (error) {
+      console.error('❌ Storage upload error:', error);
+      throw new StorageError(`Failed to upload ${documentType}: ${error.message}`, error.name);
     }
+
+    console.log(`✅ Upload successful: ${data.path} (${validated.bytes.byteLength} bytes)`);
+    const uploadedPath = data.path;
+
+    const verification = await verifyFileUpload(uploadedPath, validated.sha256);
+    if (!verification.exists) {
+      throw new StorageError('No se pudo verificar el archivo subido', 'not_found');
+    }
+    if (!verification.matches) {
+      throw new StorageError('El archivo almacenado no coincide con el original; vuelva a subirlo', 'hash_mismatch');
+    }
+
+    return { path: uploadedPath, sha256: validated.sha256, contentType: validated.contentType, size: validated.size };
     
   } catch (error) {
     console.error('❌ Upload error:', error);
-    if (error instanceof StorageError) {
+    if (error instanceof StorageError || error instanceof DocumentValidationError) {
       throw error;
     }
     throw new StorageError(`Unexpected error uploading ${documentType}`);
   }
 }
 
-export async function getDocumentUrl(filePath: string): Promise<string> {
-  try {
-    console.log(`🔗 Getting URL for file: ${filePath}`);
-    
-    const { data } = await supabase.storage
-      .from('loan-documents')
-      .getPublicUrl(filePath);
+export type DocumentAccessPurpose = 'view' | 'pdf_export';
 
-    console.log(`✅ Generated URL: ${data.publicUrl}`);
-    
-    // Test if the URL actually returns the correct content type
-    try {
-      const response = await fetch(data.publicUrl, { method: 'HEAD' });
-      console.log(`🔍 File HEAD response:`, {
-        status: response.status,
-        contentType: response.headers.get('content-type'),
-        contentLength: response.headers.get('content-length')
-      });
-    } catch (testError) {
-      console.warn('⚠️ Could not test file URL:', testError);
-    }
-    
-    return data.publicUrl;
-  } catch (error) {
-    console.error('❌ Error getting document URL:', error);
-    throw new StorageError('Failed to get document URL');
+// The bucket is private: files are only reachable through short-lived signed URLs
+export const SIGNED_URL_TTL_SECONDS: Record<DocumentAccessPurpose, number> = {
+  view: 60,
+  // The digital file keeps loading images while html2canvas renders it
+  pdf_export: 300,
+};
+
+/**
+ * Signed URL for a file of an operation. The database checks that the user
+ * can see the operation and logs the access before any URL is issued.
+ */
+export async function getDocumentUrl(filePath: string, purpose: DocumentAccessPurpose = 'view'): Promise<string> {
+  console.log(`🔗 Getting signed URL for file: ${filePath} (${purpose})`);
+
+  const { error: accessError } = await supabase.rpc('log_document_access', {
+    file_path: filePath,
+    purpose,
+  });
+
+  if (accessError) {
+    console.error('❌ Document access denied:', accessError);
+    throw new StorageError('No tiene acceso a este documento', accessError.code);
+  }
+
+  const { data, error } = await supabase.storage
+    .from('loan-documents')
+    .createSignedUrl(filePath, SIGNED_URL_TTL_SECONDS[purpose]);
+
+  if (error || !data) {
+    console.error('❌ Error creating signed URL:', error);
+    throw new StorageError('Failed to get document URL', error?.name);
   }
+
+  console.log(`✅ Signed URL valid for ${SIGNED_URL_TTL_SECONDS[purpose]}s`);
+  return data.signedUrl;
 }
 
 export async function deleteDocument(filePath: string): Promise<void> {
@@ -157,22 +160,31 @@ export async function listOperationDocuments(operationNumber: string): Promise<s
   }
 }
 
-// Utility function to verify file upload integrity
-export async function verifyFileUpload(filePath: string): Promise<{
+// Utility function to verify file upload integrity: downloads the stored object and
+// compares its SHA-256 with the one computed before the upload. Not logged as a view.
+export async function verifyFileUpload(filePath: string, expectedSha256?: string): Promise<{
   exists: boolean;
+  matches?: boolean;
+  sha256?: string;
   contentType?: string;
   size?: number;
 }> {
   try {
     console.log(`🔍 Verifying file upload: ${filePath}`);
-    
-    const url = await getDocumentUrl(filePath);
-    const response = await fetch(url, { method: 'HEAD' });
-    
+
+    const { data, error } = await supabase.storage
+      .from('loan-documents')
+      .download(filePath);
+
+    if (error || !data) throw error;
+
+    const sha256 = await sha256Hex(await data.arrayBuffer());
     const result = {
-      exists: response.ok,
-      contentType: response.headers.get('content-type') || undefined,
-      size: parseInt(response.headers.get('content-length') || '0') || undefined
+      exists: true,
+      matches: expectedSha256 === undefined ? undefined : sha256 === expectedSha256,
+      sha256,
+      contentType: data.type || undefined,
+      size: data.size
     };
     
     console.log(`📊 File verification result:`, result);
@@ -182,4 +194,4 @@ export async function verifyFileUpload(filePath: string): Promise<{
     console.error('❌ File verification error:', error);
     return { exists: false };
   }
-}
\ No newline at end of file
+}
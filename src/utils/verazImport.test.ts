@@ -0,0 +1,109 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  VerazImportError,
+  checkReportIdentification,
+  getVerazImportPreview,
+  parseVerazNumber,
+  parseVerazReport,
+} from './verazImport';
+
+const jsonReport = JSON.stringify({
+  informe: {
+    persona: { cuit: '20-10000000-9', nombre: 'CLIENTE PRUEBA' },
+    resumen: {
+      scoreVeraz: '720',
+      situacionActual: 'Normal',
+      maximo_atraso_24m: 31,
+      deudaSistemaFinanciero: '$ 1.234.567,89',
+      ingresoEstimado: '850.000',
+      consultas_6m: '3',
+    },
+    // Detail rows further down must not override the summary
+    deudas: [{ entidad: 'BANCO', situacion: 2, saldoDeuda: 1000 }],
+  },
+});
+
+describe('parseVerazNumber', () => {
+  it.each([
+    { value: 720, expected: 720 },
+    { value: '720', expected: 720 },
+    { value: '1.234.567,89', expected: 1234567.89 },
+    { value: '$ 850.000', expected: 850000 },
+    { value: '12.5', expected: 12.5 },
+    { value: '1500,5', expected: 1500.5 },
+    { value: 'N/D', expected: undefined },
+    { value: '', expected: undefined },
+  ])('$value → $expected', ({ value, expected }) => {
+    expect(parseVerazNumber(value)).toBe(expected);
+  });
+});
+
+describe('parseVerazReport', () => {
+  it('maps the JSON export into the Veraz stage fields', () => {
+    const report = parseVerazReport(jsonReport);
+
+    expect(report.format).toBe('json');
+    expect(report.identification).toBe('20100000009');
+    expect(report.missingFields).toEqual([]);
+    expect(report.values).toEqual({
+      credit_score: 720,
+      current_status: 'Normal',
+      maximum_delay_24m: 31,
+      financial_system_debt_balance: 1234567.89,
+      veraz_report_income: 850000,
+      financial_inquiries_6m: 3,
+    });
+  });
+
+  it('logs the field names but not the client data', () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    parseVerazReport(jsonReport);
+
+    const logged = JSON.stringify(log.mock.calls);
+    expect(logged).toContain('credit_score');
+    expect(logged).not.toContain('20100000009');
+    expect(logged).not.toContain('720');
+    log.mockRestore();
+  });
+
+  it('lists the fields the report does not include', () => {
+    const report = parseVerazReport('{"score": {"valor": 640}}');
+
+    expect(report.values).toEqual({ credit_score: 640 });
+    expect(report.missingFields).toHaveLength(5);
+  });
+
+  it.each([
+    { content: 'Informe VERAZ', message: 'Formato no reconocido' },
+    { content: '{"score": ', message: 'JSON no es válido' },
+    { content: '{"cliente": {"nombre": "X"}}', message: 'no contiene datos VERAZ' },
+  ])('rejects $content', ({ content, message }) => {
+    expect(() => parseVerazReport(content)).toThrow(VerazImportError);
+    expect(() => parseVerazReport(content)).toThrow(message);
+  });
+});
+
+describe('checkReportIdentification', () => {
+  it.each([
+    { identification: '20100000009', expected: null },
+    { identification: '10000000', expected: null },
+    { identification: '27100000004', expected: 'El reporte corresponde a 27100000004, no al cliente 20-10000000-9' },
+    { identification: '30111222', expected: 'El reporte corresponde a 30111222, no al cliente 20-10000000-9' },
+    { identification: undefined, expected: null },
+  ])('$identification → $expected', ({ identification, expected }) => {
+    expect(checkReportIdentification(identification, '20-10000000-9')).toBe(expected);
+  });
+});
+
+describe('getVerazImportPreview', () => {
+  it('marks the fields the import would change', () => {
+    const rows = getVerazImportPreview(
+      { credit_score: 720, current_status: 'Normal' },
+      { credit_score: 720, current_status: 'Con seguimiento', financial_inquiries_6m: 2 }
+    );
+
+    expect(rows.filter(row => row.changed).map(row => row.field)).toEqual(['current_status', 'financial_inquiries_6m']);
+    expect(rows.find(row => row.field === 'veraz_report_income')).toMatchObject({ current: undefined, imported: undefined, changed: false });
+  });
+});
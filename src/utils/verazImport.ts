@@ -0,0 +1,276 @@
+import { VerazData } from '../types';
+import { cleanCuit } from './cuit';
+
+/**
+ * Reads the XML and JSON exports of a Veraz (Equifax) report into the
+ * VerazData fields the advisor used to retype. Exports differ between
+ * Veraz products and versions, so every field is looked up by a list of
+ * known element names anywhere in the document.
+ */
+
+export class VerazImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VerazImportError';
+  }
+}
+
+export type VerazImportField =
+  | 'credit_score'
+  | 'current_status'
+  | 'maximum_delay_24m'
+  | 'financial_system_debt_balance'
+  | 'veraz_report_income'
+  | 'financial_inquiries_6m';
+
+export type VerazImportValues = Partial<Pick<VerazData, VerazImportField>>;
+
+interface VerazFieldDefinition {
+  field: VerazImportField;
+  label: string;
+  kind: 'integer' | 'amount' | 'text';
+  // Normalized element names: lowercase, without separators
+  aliases: string[];
+}
+
+export const VERAZ_IMPORT_FIELDS: VerazFieldDefinition[] = [
+  {
+    field: 'credit_score',
+    label: 'Puntaje Crediticio',
+    kind: 'integer',
+    aliases: ['score', 'scoreveraz', 'puntaje', 'puntajeveraz', 'creditscore', 'riskscore'],
+  },
+  {
+    field: 'current_status',
+    label: 'Estado Actual',
+    kind: 'text',
+    aliases: ['situacionactual', 'estadoactual', 'currentstatus', 'estado', 'situacion'],
+  },
+  {
+    field: 'maximum_delay_24m',
+    label: 'Máximo Atraso (24M)',
+    kind: 'integer',
+    aliases: ['maximoatraso24m', 'maxatraso24m', 'peoratraso24m', 'diasatrasomaximo24m', 'maximumdelay24m'],
+  },
+  {
+    field: 'financial_system_debt_balance',
+    label: 'Saldo Deuda Sistema Financiero',
+    kind: 'amount',
+    aliases: ['deudasistemafinanciero', 'saldodeudasistemafinanciero', 'saldodeuda', 'deudatotal', 'montodeuda', 'financialsystemdebtbalance'],
+  },
+  {
+    field: 'veraz_report_income',
+    label: 'Ingresos Reporte VERAZ',
+    kind: 'amount',
+    aliases: ['ingresoestimado', 'ingresoinferido', 'nivelingresos', 'ingresos', 'ingreso', 'estimatedincome', 'income'],
+  },
+  {
+    field: 'financial_inquiries_6m',
+    label: 'Consultas Financieras (Últimos 6M)',
+    kind: 'integer',
+    aliases: ['consultas6m', 'cantidadconsultas6m', 'consultasultimos6meses', 'consultasfinancieras6m', 'inquiries6m', 'financialinquiries6m'],
+  },
+];
+
+const IDENTIFICATION_ALIASES = ['cuit', 'cuil', 'identificacion', 'nrodocumento', 'documento', 'dni'];
+
+export const MAX_VERAZ_REPORT_SIZE = 2 * 1024 * 1024;
+
+function normalizeKey(key: string): string {
+  return key
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+}
+
+// Elements like <score tipo="veraz">720</score> come out of the XML as { tipo, '#text' }
+function scalarValue(value: unknown): string | number | undefined {
+  if (typeof value === 'string' || typeof value === 'number') return value;
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const record = value as Record<string, unknown>;
+    for (const key of ['#text', 'value', 'valor']) {
+      if (typeof record[key] === 'string' || typeof record[key] === 'number') {
+        return record[key] as string | number;
+      }
+    }
+  }
+  return undefined;
+}
+
+// Breadth first, so top-level summary elements win over nested detail rows
+function findValue(report: unknown, aliases: string[]): string | number | undefined {
+  const queue: unknown[] = [report];
+
+  while (queue.length > 0) {
+    const node = queue.shift();
+    if (!node || typeof node !== 'object') continue;
+
+    if (Array.isArray(node)) {
+      queue.push(...node);
+      continue;
+    }
+
+    const entries = Object.entries(node as Record<string, unknown>);
+    for (const alias of aliases) {
+      const match = entries.find(([key]) => normalizeKey(key) === alias);
+      const value = match ? scalarValue(match[1]) : undefined;
+      if (value !== undefined && value !== '') return value;
+    }
+
+    entries.forEach(([, value]) => queue.push(value));
+  }
+
+  return undefined;
+}
+
+/**
+ * Numbers as Veraz exports them: plain, or in the Argentine format with dots
+ * for thousands and a decimal comma ($ 1.234.567,89).
+ */
+export function parseVerazNumber(value: string | number | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+
+  let text = value.replace(/[$\s]/g, '').replace(/^ARS/i, '');
+  if (text.includes(',')) {
+    text = text.replace(/\./g, '').replace(',', '.');
+  } else if (/^-?\d{1,3}(\.\d{3})+$/.test(text)) {
+    text = text.replace(/\./g, '');
+  }
+
+  const parsed = Number(text);
+  return text !== '' && Number.isFinite(parsed) ? parsed : undefined;
+}
+
+export function xmlElementToObject(element: Element): unknown {
+  const result: Record<string, unknown> = {};
+
+  Array.from(element.attributes).forEach(attribute => {
+    result[attribute.name] = attribute.value;
+  });
+
+  const children = Array.from(element.children);
+  if (children.length === 0) {
+    const text = element.textContent?.trim() || '';
+    if (element.attributes.length === 0) return text;
+    result['#text'] = text;
+    return result;
+  }
+
+  children.forEach(child => {
+    const value = xmlElementToObject(child);
+    const existing = result[child.localName];
+    if (existing === undefined) {
+      result[child.localName] = value;
+    } else {
+      result[child.localName] = Array.isArray(existing) ? [...existing, value] : [existing, value];
+    }
+  });
+
+  return result;
+}
+
+function parseXml(content: string): unknown {
+  const document = new DOMParser().parseFromString(content, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new VerazImportError('El archivo XML no es válido');
+  }
+  return { [document.documentElement.localName]: xmlElementToObject(document.documentElement) };
+}
+
+export interface VerazReportImport {
+  format: 'xml' | 'json';
+  values: VerazImportValues;
+  // CUIT, CUIL or DNI of the person the report is about, digits only
+  identification?: string;
+  missingFields: VerazImportField[];
+}
+
+export function extractVerazValues(report: unknown): Omit<VerazReportImport, 'format'> {
+  const values: VerazImportValues = {};
+  const missingFields: VerazImportField[] = [];
+
+  for (const { field, kind, aliases } of VERAZ_IMPORT_FIELDS) {
+    const raw = findValue(report, aliases);
+    const value = kind === 'text'
+      ? (raw === undefined ? undefined : String(raw).trim() || undefined)
+      : parseVerazNumber(raw);
+
+    if (value === undefined) {
+      missingFields.push(field);
+    } else {
+      (values as Record<VerazImportField, string | number>)[field] = kind === 'integer' ? Math.round(value as number) : value;
+    }
+  }
+
+  const identification = findValue(report, IDENTIFICATION_ALIASES);
+
+  return {
+    values,
+    identification: identification === undefined ? undefined : String(identification).replace(/\D/g, '') || undefined,
+    missingFields,
+  };
+}
+
+export function parseVerazReport(content: string): VerazReportImport {
+  const text = content.replace(/^\uFEFF/, '').trim();
+  let format: VerazReportImport['format'];
+  let report: unknown;
+
+  if (text.startsWith('{') || text.startsWith('[')) {
+    format = 'json';
+    try {
+      report = JSON.parse(text);
+    } catch {
+      throw new VerazImportError('El archivo JSON no es válido');
+    }
+  } else if (text.startsWith('<')) {
+    format = 'xml';
+    report = parseXml(text);
+  } else {
+    throw new VerazImportError('Formato no reconocido: se espera la exportación XML o JSON del reporte VERAZ');
+  }
+
+  const extracted = extractVerazValues(report);
+  if (Object.keys(extracted.values).length === 0) {
+    throw new VerazImportError('El archivo no contiene datos VERAZ reconocibles');
+  }
+
+  // Field names only: the values and the identification are the client's personal and credit data
+  console.log(`📥 Parsed Veraz ${format} report with fields:`, Object.keys(extracted.values));
+  return { format, ...extracted };
+}
+
+/**
+ * A report about someone else must not be imported. A DNI matches the
+ * middle eight digits of the client's CUIT.
+ */
+export function checkReportIdentification(identification: string | undefined, clientCuit: string | undefined): string | null {
+  if (!identification || !clientCuit) return null;
+
+  const cuit = cleanCuit(clientCuit);
+  const matches = identification.length === 11
+    ? identification === cuit
+    : identification.padStart(8, '0') === cuit.slice(2, 10);
+
+  return matches ? null : `El reporte corresponde a ${identification}, no al cliente ${clientCuit}`;
+}
+
+export interface VerazImportPreviewRow {
+  field: VerazImportField;
+  label: string;
+  current?: string | number;
+  imported?: string | number;
+  changed: boolean;
+}
+
+export function getVerazImportPreview(current: VerazData, values: VerazImportValues): VerazImportPreviewRow[] {
+  return VERAZ_IMPORT_FIELDS.map(({ field, label }) => ({
+    field,
+    label,
+    current: current[field],
+    imported: values[field],
+    changed: values[field] !== undefined && values[field] !== current[field],
+  }));
+}
@@ -0,0 +1,175 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+/**
+ * Server-side proxy for the BCRA Central de Deudores API.
+ * Responses are cached per CUIT, endpoint and reporting period in `bcra_cache`
+ * so a single lookup serves every advisor until the TTL expires.
+ * Only signed-in users can call it; the anon key alone is rejected.
+ */
+
+const BCRA_API_BASE_URL = 'https://api.bcra.gob.ar/CentralDeDeudores/v1.0';
+
+const DEFAULT_CACHE_TTL_SECONDS = 6 * 60 * 60; // 6 hours
+
+// Below the browser's own 10 second timeout, so the client gets an answer instead of aborting
+const BCRA_REQUEST_TIMEOUT_MS = 8000;
+
+// Only these endpoints can be proxied
+const ALLOWED_PATHS = ['Deudas', 'Deudas/Historicas', 'Deudas/ChequesRechazados'];
+
+// Statuses that describe the CUIT rather than BCRA's availability are safe to cache
+const CACHEABLE_STATUSES = [200, 404];
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+interface ProxyRequest {
+  path: string;
+  cuit: string;
+}
+
+interface BCRAResponseBody {
+  status: number;
+  results?: unknown;
+  errorMessages?: string[];
+}
+
+function jsonResponse(body: BCRAResponseBody): Response {
+  // Always answer 200 so the client reads the BCRA status from the body, like the upstream API
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function errorBody(status: number, errorMessages: string[]): BCRAResponseBody {
+  return { status, errorMessages };
+}
+
+// Same body shape as every other answer, but a real 401 so gateways and logs see the rejection
+function unauthorizedResponse(): Response {
+  return new Response(JSON.stringify(errorBody(401, ['Debe iniciar sesión para consultar el BCRA.'])), {
+    status: 401,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function currentPeriod(): string {
+  const now = new Date();
+  return `${now.getUTCFullYear()}${(now.getUTCMonth() + 1).toString().padStart(2, '0')}`;
+}
+
+async function fetchFromBCRA(path: string, cuit: string): Promise<BCRAResponseBody> {
+  try {
+    const response = await fetch(`${BCRA_API_BASE_URL}/${path}/${cuit}`, {
+      method: 'GET',
+      headers: { 'Accept': 'application/json' },
+      signal: AbortSignal.timeout(BCRA_REQUEST_TIMEOUT_MS),
+    });
+
+    const data = await response.json() as BCRAResponseBody;
+
+    if (typeof data?.status !== 'number') {
+      return errorBody(response.status || 500, ['Respuesta inválida de la API del BCRA.']);
+    }
+
+    return data;
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'TimeoutError') {
+      console.error(`BCRA request timed out after ${BCRA_REQUEST_TIMEOUT_MS}ms`);
+      return errorBody(0, ['La API del BCRA no respondió a tiempo.']);
+    }
+
+    console.error('BCRA request failed:', error);
+    return errorBody(0, ['Error de conexión con la API del BCRA.']);
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse(errorBody(405, ['Método no permitido.']));
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  );
+
+  // The anon key is a valid JWT too, but it doesn't resolve to a user
+  const jwt = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!jwt) {
+    return unauthorizedResponse();
+  }
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser(jwt);
+  if (authError || !user) {
+    return unauthorizedResponse();
+  }
+
+  let payload: ProxyRequest;
+  try {
+    payload = await req.json();
+  } catch {
+    return jsonResponse(errorBody(400, ['Cuerpo de la solicitud inválido.']));
+  }
+
+  const cleanCuit = String(payload.cuit || '').replace(/\D/g, '');
+  if (cleanCuit.length !== 11) {
+    return jsonResponse(errorBody(400, ['Parámetro erróneo: Ingresar 11 dígitos para realizar la consulta.']));
+  }
+
+  if (!ALLOWED_PATHS.includes(payload.path)) {
+    return jsonResponse(errorBody(400, ['Endpoint del BCRA no soportado.']));
+  }
+
+  const ttlSeconds = parseInt(Deno.env.get('BCRA_CACHE_TTL_SECONDS') || '', 10) || DEFAULT_CACHE_TTL_SECONDS;
+  const period = currentPeriod();
+
+  // Serve from cache when a fresh entry exists
+  const { data: cached, error: cacheError } = await supabase
+    .from('bcra_cache')
+    .select('response')
+    .eq('cuit', cleanCuit)
+    .eq('endpoint', payload.path)
+    .eq('period', period)
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle();
+
+  if (cacheError) {
+    console.warn('Cache lookup failed:', cacheError.message);
+  }
+
+  if (cached) {
+    return jsonResponse(cached.response as BCRAResponseBody);
+  }
+
+  const body = await fetchFromBCRA(payload.path, cleanCuit);
+
+  if (CACHEABLE_STATUSES.includes(body.status)) {
+    const fetchedAt = new Date();
+    const { error: upsertError } = await supabase
+      .from('bcra_cache')
+      .upsert({
+        cuit: cleanCuit,
+        endpoint: payload.path,
+        period,
+        status: body.status,
+        response: body,
+        fetched_at: fetchedAt.toISOString(),
+        expires_at: new Date(fetchedAt.getTime() + ttlSeconds * 1000).toISOString(),
+      }, { onConflict: 'cuit,endpoint,period' });
+
+    if (upsertError) {
+      console.warn('Cache write failed:', upsertError.message);
+    }
+  }
+
+  return jsonResponse(body);
+});
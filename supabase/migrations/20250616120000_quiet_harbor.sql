@@ -0,0 +1,58 @@
+/*
+  # Create versioned eligibility rule sets
+
+  1. New Tables
+    - `eligibility_rule_sets`
+      - `id` (uuid, primary key)
+      - `version` (integer, unique) - Monotonic version recorded on each analysis
+      - `name` (text)
+      - `rules` (jsonb) - Array of rules: id, description, window, aggregation, entityFilter, threshold
+      - `is_active` (boolean) - Only one rule set can be active at a time
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `eligibility_rule_sets` table
+    - Authenticated users can read rule sets; changes are made by the credit committee via the service role
+
+  3. Seed Data
+    - Version 1 with the original criteria: current ≤ 1, last 6 months ≤ 1, last 12 months ≤ 2
+*/
+
+-- Create eligibility_rule_sets table
+CREATE TABLE IF NOT EXISTS eligibility_rule_sets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  version integer UNIQUE NOT NULL CHECK (version > 0),
+  name text NOT NULL,
+  rules jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(rules) = 'array'),
+  is_active boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Only one active rule set at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_eligibility_rule_sets_single_active
+  ON eligibility_rule_sets(is_active)
+  WHERE is_active;
+
+-- Enable RLS
+ALTER TABLE eligibility_rule_sets ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can read eligibility rule sets"
+  ON eligibility_rule_sets
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Seed the initial rule set
+INSERT INTO eligibility_rule_sets (version, name, rules, is_active)
+VALUES (
+  1,
+  'Criterios BCRA iniciales',
+  '[
+    {"id": "current_situation", "description": "Situación actual", "window": "current", "aggregation": "worst", "threshold": 1},
+    {"id": "worst_situation_6m", "description": "Peor situación últimos 6 meses", "window": 6, "aggregation": "worst", "threshold": 1},
+    {"id": "worst_situation_12m", "description": "Peor situación últimos 12 meses", "window": 12, "aggregation": "worst", "threshold": 2}
+  ]'::jsonb,
+  true
+)
+ON CONFLICT (version) DO NOTHING;
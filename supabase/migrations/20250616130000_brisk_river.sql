@@ -0,0 +1,26 @@
+/*
+  # Persist BCRA eligibility analysis on assessments
+
+  1. New Columns
+    - `bcra_eligibility_analysis` (jsonb) - Full analysis as produced at decision time:
+      failure reasons, worst situations, per-rule trace, rule set version and analysis date
+
+  2. Updates
+    - Add index on the rule set version recorded in the analysis for audit queries
+*/
+
+-- Add new column to assessments table
+DO $$
+BEGIN
+  -- Add bcra_eligibility_analysis column if it doesn't exist
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'assessments' AND column_name = 'bcra_eligibility_analysis'
+  ) THEN
+    ALTER TABLE assessments ADD COLUMN bcra_eligibility_analysis jsonb;
+  END IF;
+END $$;
+
+-- Add index for audit queries by rule set version
+CREATE INDEX IF NOT EXISTS idx_assessments_rule_set_version
+  ON assessments (((bcra_eligibility_analysis->>'ruleSetVersion')::integer));
@@ -0,0 +1,39 @@
+/*
+  # Add BCRA bounced checks (cheques rechazados)
+
+  1. New Columns
+    - `bcra_bounced_checks` (jsonb) - Result of the ChequesRechazados lookup on assessments
+
+  2. Rule Sets
+    - Publish rule set version 2, adding a rule that marks clients as no-apto
+      when they have unpaid bounced checks, and make it the active version
+*/
+
+-- Add new column to assessments table
+DO $$
+BEGIN
+  -- Add bcra_bounced_checks column if it doesn't exist
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'assessments' AND column_name = 'bcra_bounced_checks'
+  ) THEN
+    ALTER TABLE assessments ADD COLUMN bcra_bounced_checks jsonb;
+  END IF;
+END $$;
+
+-- Deactivate the previous rule set before publishing the new version
+UPDATE eligibility_rule_sets SET is_active = false WHERE is_active;
+
+INSERT INTO eligibility_rule_sets (version, name, rules, is_active)
+VALUES (
+  2,
+  'Criterios BCRA con cheques rechazados',
+  '[
+    {"id": "current_situation", "description": "Situación actual", "window": "current", "aggregation": "worst", "threshold": 1},
+    {"id": "worst_situation_6m", "description": "Peor situación últimos 6 meses", "window": 6, "aggregation": "worst", "threshold": 1},
+    {"id": "worst_situation_12m", "description": "Peor situación últimos 12 meses", "window": 12, "aggregation": "worst", "threshold": 2},
+    {"id": "unpaid_bounced_checks", "description": "Cheques rechazados impagos", "metric": "unpaid_bounced_checks", "window": "current", "aggregation": "count", "threshold": 0}
+  ]'::jsonb,
+  true
+)
+ON CONFLICT (version) DO NOTHING;
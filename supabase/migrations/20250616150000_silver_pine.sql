@@ -0,0 +1,54 @@
+/*
+  # Create shared BCRA response cache
+
+  1. New Tables
+    - `bcra_cache`
+      - `id` (uuid, primary key)
+      - `cuit` (text)
+      - `endpoint` (text) - Deudas, Deudas/Historicas or Deudas/ChequesRechazados
+      - `period` (text) - Reporting period (YYYYMM) the response was fetched in
+      - `status` (integer) - BCRA status of the cached response (200 or 404)
+      - `response` (jsonb) - Response body as returned by BCRA
+      - `fetched_at` (timestamp)
+      - `expires_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `bcra_cache` table with no policies: only the `bcra-proxy`
+      Edge Function reads and writes it, using the service role
+
+  3. Maintenance
+    - `purge_expired_bcra_cache()` removes expired entries
+*/
+
+-- Create bcra_cache table
+CREATE TABLE IF NOT EXISTS bcra_cache (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  cuit text NOT NULL,
+  endpoint text NOT NULL,
+  period text NOT NULL,
+  status integer NOT NULL,
+  response jsonb NOT NULL,
+  fetched_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL,
+  UNIQUE (cuit, endpoint, period)
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_bcra_cache_expires_at ON bcra_cache(expires_at);
+
+-- Enable RLS
+ALTER TABLE bcra_cache ENABLE ROW LEVEL SECURITY;
+
+-- Function to purge expired cache entries
+CREATE OR REPLACE FUNCTION purge_expired_bcra_cache()
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  deleted_count integer;
+BEGIN
+  DELETE FROM bcra_cache WHERE expires_at < now();
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+  RETURN deleted_count;
+END;
+$$;
@@ -0,0 +1,226 @@
+/*
+  # Restore profiles with role memberships
+
+  1. New Tables
+    - `profiles`
+      - `id` (uuid, primary key, references auth.users)
+      - `email` (text)
+      - `full_name` (text, optional)
+      - `is_active` (boolean) - Deactivated users keep their data but lose every role
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+    - `memberships`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles)
+      - `role` (text, advisor/analyst/supervisor/admin)
+      - `created_by` (uuid, optional) - Admin who granted the role
+      - `created_at` (timestamp)
+
+  2. Functions
+    - `has_role(text[])` - Whether the current user holds an active membership in any of the roles
+    - `is_active_user()` - Whether the current user's profile is active
+    - `handle_new_user()` - Creates the profile and an advisor membership on signup
+
+  3. Security
+    - Enable RLS on `profiles` and `memberships`
+    - Users read their own profile and memberships; admins manage everyone's
+    - Deactivated users lose access to assessments and loan operations, including their own
+      (restrictive policies on top of the advisor_id-based ones)
+    - Advisors can no longer update their assessments: the stored result and analysis are final,
+      and only admins can correct them
+    - Analysts, supervisors and admins can read all assessments and loan operations
+    - Analysts, supervisors and admins can update loan operations (verification and approval)
+    - Only advisors and admins can create loan operations
+
+  4. Data
+    - Backfill a profile and an advisor membership for every existing user
+*/
+
+-- Create profiles table
+CREATE TABLE IF NOT EXISTS profiles (
+  id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  full_name text,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create memberships table
+CREATE TABLE IF NOT EXISTS memberships (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  role text NOT NULL CHECK (role IN ('advisor', 'analyst', 'supervisor', 'admin')),
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, role)
+);
+
+CREATE INDEX IF NOT EXISTS idx_memberships_user_id ON memberships(user_id);
+CREATE INDEX IF NOT EXISTS idx_profiles_email ON profiles(email);
+
+CREATE TRIGGER update_profiles_updated_at
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Role check used by RLS policies; SECURITY DEFINER so it can read memberships without recursing into their policies
+CREATE OR REPLACE FUNCTION has_role(required_roles text[])
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM memberships m
+    JOIN profiles p ON p.id = m.user_id
+    WHERE m.user_id = auth.uid()
+      AND p.is_active
+      AND m.role = ANY(required_roles)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION has_role(text[]) TO authenticated;
+
+-- Active-profile check for access that doesn't go through a role, like the advisor_id = auth.uid() policies
+CREATE OR REPLACE FUNCTION is_active_user()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.is_active
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION is_active_user() TO authenticated;
+
+-- Create the profile and default advisor membership for new users
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO profiles (id, email, full_name)
+  VALUES (NEW.id, NEW.email, NEW.raw_user_meta_data->>'full_name')
+  ON CONFLICT (id) DO NOTHING;
+
+  INSERT INTO memberships (user_id, role)
+  VALUES (NEW.id, 'advisor')
+  ON CONFLICT (user_id, role) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION handle_new_user();
+
+-- Backfill existing users
+INSERT INTO profiles (id, email, full_name)
+SELECT id, COALESCE(email, ''), raw_user_meta_data->>'full_name'
+FROM auth.users
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO memberships (user_id, role)
+SELECT id, 'advisor'
+FROM profiles
+ON CONFLICT (user_id, role) DO NOTHING;
+
+-- Enable RLS
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE memberships ENABLE ROW LEVEL SECURITY;
+
+-- Profiles policies
+CREATE POLICY "Users can read own profile"
+  ON profiles FOR SELECT
+  TO authenticated
+  USING (id = auth.uid());
+
+CREATE POLICY "Staff can read all profiles"
+  ON profiles FOR SELECT
+  TO authenticated
+  USING (has_role(ARRAY['analyst', 'supervisor', 'admin']));
+
+CREATE POLICY "Admins can update profiles"
+  ON profiles FOR UPDATE
+  TO authenticated
+  USING (has_role(ARRAY['admin']))
+  WITH CHECK (has_role(ARRAY['admin']));
+
+-- Memberships policies
+CREATE POLICY "Users can read own memberships"
+  ON memberships FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can read all memberships"
+  ON memberships FOR SELECT
+  TO authenticated
+  USING (has_role(ARRAY['admin']));
+
+CREATE POLICY "Admins can grant memberships"
+  ON memberships FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role(ARRAY['admin']));
+
+CREATE POLICY "Admins can revoke memberships"
+  ON memberships FOR DELETE
+  TO authenticated
+  USING (has_role(ARRAY['admin']));
+
+-- Deactivated users keep their rows but can't reach them: restrictive policies are ANDed with every other one
+CREATE POLICY "Only active users can access assessments"
+  ON assessments AS RESTRICTIVE FOR ALL
+  TO authenticated
+  USING (is_active_user())
+  WITH CHECK (is_active_user());
+
+CREATE POLICY "Only active users can access loan operations"
+  ON loan_operations AS RESTRICTIVE FOR ALL
+  TO authenticated
+  USING (is_active_user())
+  WITH CHECK (is_active_user());
+
+-- Assessments: reviewers see every advisor's assessments; the saved outcome is only corrected by admins
+DROP POLICY IF EXISTS "Users can update own assessments" ON assessments;
+
+CREATE POLICY "Reviewers can read all assessments"
+  ON assessments FOR SELECT
+  TO authenticated
+  USING (has_role(ARRAY['analyst', 'supervisor', 'admin']));
+
+CREATE POLICY "Admins can update assessments"
+  ON assessments FOR UPDATE
+  TO authenticated
+  USING (has_role(ARRAY['admin']))
+  WITH CHECK (has_role(ARRAY['admin']));
+
+-- Loan operations: only advisors and admins originate operations
+DROP POLICY IF EXISTS "Users can create loan operations" ON loan_operations;
+
+CREATE POLICY "Advisors can create loan operations"
+  ON loan_operations FOR INSERT
+  TO authenticated
+  WITH CHECK (advisor_id = auth.uid() AND has_role(ARRAY['advisor', 'admin']));
+
+CREATE POLICY "Reviewers can read all loan operations"
+  ON loan_operations FOR SELECT
+  TO authenticated
+  USING (has_role(ARRAY['analyst', 'supervisor', 'admin']));
+
+CREATE POLICY "Reviewers can update loan operations"
+  ON loan_operations FOR UPDATE
+  TO authenticated
+  USING (has_role(ARRAY['analyst', 'supervisor', 'admin']))
+  WITH CHECK (has_role(ARRAY['analyst', 'supervisor', 'admin']));
@@ -0,0 +1,284 @@
+/*
+  # Add branches and teams
+
+  1. New Tables
+    - `branches`
+      - `id` (uuid, primary key)
+      - `code` (text, unique) - Short office code shown in the UI
+      - `name` (text)
+      - `is_active` (boolean)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+    - `teams`
+      - `id` (uuid, primary key)
+      - `branch_id` (uuid, references branches)
+      - `name` (text)
+      - `created_at` (timestamp)
+    - `branch_memberships`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles)
+      - `branch_id` (uuid, references branches)
+      - `team_id` (uuid, optional, references teams)
+      - `is_default` (boolean) - Branch stamped on new rows when none is given
+      - `created_at` (timestamp)
+
+  2. Changes
+    - Add `branch_id` to `assessments` and `loan_operations`, stamped at creation and fixed afterwards
+
+  3. Functions
+    - `user_branch_ids()` - Branches the current user belongs to
+    - `set_branch_id()` - Defaults `branch_id` to the creator's default branch, rejects rows left without
+      a branch (a user with no active branch can't create any) and keeps the branch on updates
+
+  4. Security
+    - Enable RLS on `branches`, `teams` and `branch_memberships`
+    - Users read the branches and teams they belong to; admins manage all of them
+    - New assessments and operations must be stamped with one of the creator's branches
+    - Analysts and supervisors only see assessments and operations of their branches; admins see every branch
+
+  5. Data
+    - Create a head office branch and assign every existing user and row to it
+*/
+
+-- Create branches table
+CREATE TABLE IF NOT EXISTS branches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text UNIQUE NOT NULL,
+  name text NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create teams table
+CREATE TABLE IF NOT EXISTS teams (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  branch_id uuid NOT NULL REFERENCES branches(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (branch_id, name)
+);
+
+-- Create branch_memberships table
+CREATE TABLE IF NOT EXISTS branch_memberships (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  branch_id uuid NOT NULL REFERENCES branches(id) ON DELETE CASCADE,
+  team_id uuid REFERENCES teams(id) ON DELETE SET NULL,
+  is_default boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, branch_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_teams_branch_id ON teams(branch_id);
+CREATE INDEX IF NOT EXISTS idx_branch_memberships_user_id ON branch_memberships(user_id);
+CREATE INDEX IF NOT EXISTS idx_branch_memberships_branch_id ON branch_memberships(branch_id);
+
+-- A user has at most one default branch
+CREATE UNIQUE INDEX IF NOT EXISTS idx_branch_memberships_single_default
+  ON branch_memberships(user_id)
+  WHERE is_default;
+
+CREATE TRIGGER update_branches_updated_at
+  BEFORE UPDATE ON branches
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Add branch_id to assessments and loan_operations
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'assessments' AND column_name = 'branch_id'
+  ) THEN
+    ALTER TABLE assessments ADD COLUMN branch_id uuid REFERENCES branches(id);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'loan_operations' AND column_name = 'branch_id'
+  ) THEN
+    ALTER TABLE loan_operations ADD COLUMN branch_id uuid REFERENCES branches(id);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_assessments_branch_id ON assessments(branch_id);
+CREATE INDEX IF NOT EXISTS idx_loan_operations_branch_id ON loan_operations(branch_id);
+
+-- Branch lookup used by RLS policies; SECURITY DEFINER so it can read memberships without recursing into their policies
+CREATE OR REPLACE FUNCTION user_branch_ids()
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT bm.branch_id
+  FROM branch_memberships bm
+  JOIN branches b ON b.id = bm.branch_id
+  WHERE bm.user_id = auth.uid()
+    AND b.is_active;
+$$;
+
+GRANT EXECUTE ON FUNCTION user_branch_ids() TO authenticated;
+
+-- Stamp new rows with the creator's default branch when the client doesn't choose one,
+-- skipping inactive branches like user_branch_ids() does
+CREATE OR REPLACE FUNCTION set_branch_id()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Moving a row to another branch would take it out of its reviewers' queue
+  IF TG_OP = 'UPDATE' THEN
+    NEW.branch_id := OLD.branch_id;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.branch_id IS NULL THEN
+    SELECT bm.branch_id INTO NEW.branch_id
+    FROM branch_memberships bm
+    JOIN branches b ON b.id = bm.branch_id
+    WHERE bm.user_id = NEW.advisor_id
+      AND b.is_active
+    ORDER BY bm.is_default DESC, bm.created_at
+    LIMIT 1;
+  END IF;
+
+  -- Without a branch no analyst or supervisor would ever see the row
+  IF NEW.branch_id IS NULL THEN
+    RAISE EXCEPTION 'User % belongs to no active branch', NEW.advisor_id
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Backfill: a head office for everything created before branches existed
+INSERT INTO branches (code, name)
+VALUES ('CC', 'Casa Central')
+ON CONFLICT (code) DO NOTHING;
+
+INSERT INTO branch_memberships (user_id, branch_id, is_default)
+SELECT p.id, b.id, true
+FROM profiles p
+CROSS JOIN branches b
+WHERE b.code = 'CC'
+ON CONFLICT (user_id, branch_id) DO NOTHING;
+
+UPDATE assessments
+SET branch_id = (SELECT id FROM branches WHERE code = 'CC')
+WHERE branch_id IS NULL;
+
+UPDATE loan_operations
+SET branch_id = (SELECT id FROM branches WHERE code = 'CC')
+WHERE branch_id IS NULL;
+
+-- Created after the backfill, which is the only update allowed to set a branch
+CREATE TRIGGER set_assessments_branch_id
+  BEFORE INSERT OR UPDATE ON assessments
+  FOR EACH ROW
+  EXECUTE FUNCTION set_branch_id();
+
+CREATE TRIGGER set_loan_operations_branch_id
+  BEFORE INSERT OR UPDATE ON loan_operations
+  FOR EACH ROW
+  EXECUTE FUNCTION set_branch_id();
+
+-- Enable RLS
+ALTER TABLE branches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE branch_memberships ENABLE ROW LEVEL SECURITY;
+
+-- Branches policies
+CREATE POLICY "Users can read own branches"
+  ON branches FOR SELECT
+  TO authenticated
+  USING (id IN (SELECT user_branch_ids()) OR has_role(ARRAY['admin']));
+
+CREATE POLICY "Admins can manage branches"
+  ON branches FOR ALL
+  TO authenticated
+  USING (has_role(ARRAY['admin']))
+  WITH CHECK (has_role(ARRAY['admin']));
+
+-- Teams policies
+CREATE POLICY "Users can read teams of own branches"
+  ON teams FOR SELECT
+  TO authenticated
+  USING (branch_id IN (SELECT user_branch_ids()) OR has_role(ARRAY['admin']));
+
+CREATE POLICY "Admins can manage teams"
+  ON teams FOR ALL
+  TO authenticated
+  USING (has_role(ARRAY['admin']))
+  WITH CHECK (has_role(ARRAY['admin']));
+
+-- Branch memberships policies
+CREATE POLICY "Users can read own branch memberships"
+  ON branch_memberships FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can manage branch memberships"
+  ON branch_memberships FOR ALL
+  TO authenticated
+  USING (has_role(ARRAY['admin']))
+  WITH CHECK (has_role(ARRAY['admin']));
+
+-- Assessments: creators stamp one of their branches, reviewers are limited to their branches
+DROP POLICY IF EXISTS "Users can create assessments" ON assessments;
+DROP POLICY IF EXISTS "Reviewers can read all assessments" ON assessments;
+
+CREATE POLICY "Users can create assessments"
+  ON assessments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    advisor_id = auth.uid() AND
+    (branch_id IS NULL OR branch_id IN (SELECT user_branch_ids()))
+  );
+
+CREATE POLICY "Reviewers can read branch assessments"
+  ON assessments FOR SELECT
+  TO authenticated
+  USING (
+    has_role(ARRAY['admin']) OR
+    (has_role(ARRAY['analyst', 'supervisor']) AND branch_id IN (SELECT user_branch_ids()))
+  );
+
+-- Loan operations: same branch scoping for creation, reading and review
+DROP POLICY IF EXISTS "Advisors can create loan operations" ON loan_operations;
+DROP POLICY IF EXISTS "Reviewers can read all loan operations" ON loan_operations;
+DROP POLICY IF EXISTS "Reviewers can update loan operations" ON loan_operations;
+
+CREATE POLICY "Advisors can create loan operations"
+  ON loan_operations FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    advisor_id = auth.uid() AND
+    has_role(ARRAY['advisor', 'admin']) AND
+    (branch_id IS NULL OR branch_id IN (SELECT user_branch_ids()))
+  );
+
+CREATE POLICY "Reviewers can read branch loan operations"
+  ON loan_operations FOR SELECT
+  TO authenticated
+  USING (
+    has_role(ARRAY['admin']) OR
+    (has_role(ARRAY['analyst', 'supervisor']) AND branch_id IN (SELECT user_branch_ids()))
+  );
+
+CREATE POLICY "Reviewers can update branch loan operations"
+  ON loan_operations FOR UPDATE
+  TO authenticated
+  USING (
+    has_role(ARRAY['admin']) OR
+    (has_role(ARRAY['analyst', 'supervisor']) AND branch_id IN (SELECT user_branch_ids()))
+  )
+  WITH CHECK (
+    has_role(ARRAY['admin']) OR
+    (has_role(ARRAY['analyst', 'supervisor']) AND branch_id IN (SELECT user_branch_ids()))
+  );
@@ -0,0 +1,167 @@
+/*
+  # Loan operation status state machine
+
+  1. Changes
+    - `loan_operations.status` becomes text constrained to:
+      pending, in_progress, under_review, approved, rejected, disbursed, cancelled, withdrawn
+    - Operations previously marked `completed` move to `under_review`
+    - New columns on `loan_operations`:
+      - `rejection_reason_code` (text, optional) - Structured reason, required when rejected
+      - `rejection_justification` (text, optional) - Free-text justification, required when rejected
+      - `status_changed_at` (timestamp, optional)
+      - `status_changed_by` (uuid, optional)
+      - `submitted_at` (timestamp, optional) - When the operation entered review
+      - `decided_at` (timestamp, optional) - When it was approved or rejected
+      - `decided_by` (uuid, optional)
+      - `disbursed_at` (timestamp, optional)
+
+  2. Functions
+    - `enforce_loan_operation_transition()` - Rejects transitions outside the state machine,
+      checks the role required for each target status, requires rejection details and
+      stamps the status timestamps
+
+  3. Security
+    - New operations can only be created as pending or in_progress
+    - Rows in a terminal status (rejected, disbursed, cancelled, withdrawn) can no longer change
+*/
+
+-- Move status from the enum to text so new statuses can be added with a CHECK constraint
+ALTER TABLE loan_operations ALTER COLUMN status DROP DEFAULT;
+ALTER TABLE loan_operations ALTER COLUMN status TYPE text USING status::text;
+ALTER TABLE loan_operations ALTER COLUMN status SET DEFAULT 'pending';
+ALTER TABLE loan_operations ALTER COLUMN status SET NOT NULL;
+DROP TYPE IF EXISTS loan_operation_status;
+
+-- Completed operations were waiting for a decision
+UPDATE loan_operations SET status = 'under_review' WHERE status = 'completed';
+
+ALTER TABLE loan_operations ADD CONSTRAINT loan_operations_status_check
+  CHECK (status IN ('pending', 'in_progress', 'under_review', 'approved', 'rejected', 'disbursed', 'cancelled', 'withdrawn'));
+
+-- Add transition tracking columns
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'loan_operations' AND column_name = 'rejection_reason_code'
+  ) THEN
+    ALTER TABLE loan_operations ADD COLUMN rejection_reason_code text
+      CHECK (rejection_reason_code IN (
+        'bcra_situation', 'insufficient_income', 'excessive_debt', 'documentation_inconsistent',
+        'identity_not_verified', 'employment_not_verified', 'fraud_suspicion', 'other'
+      ));
+    ALTER TABLE loan_operations ADD COLUMN rejection_justification text;
+    ALTER TABLE loan_operations ADD COLUMN status_changed_at timestamptz;
+    ALTER TABLE loan_operations ADD COLUMN status_changed_by uuid REFERENCES profiles(id) ON DELETE SET NULL;
+    ALTER TABLE loan_operations ADD COLUMN submitted_at timestamptz;
+    ALTER TABLE loan_operations ADD COLUMN decided_at timestamptz;
+    ALTER TABLE loan_operations ADD COLUMN decided_by uuid REFERENCES profiles(id) ON DELETE SET NULL;
+    ALTER TABLE loan_operations ADD COLUMN disbursed_at timestamptz;
+  END IF;
+END $$;
+
+-- Backfill review timestamps for operations moved out of completed
+UPDATE loan_operations
+SET submitted_at = updated_at, status_changed_at = updated_at
+WHERE status = 'under_review' AND submitted_at IS NULL;
+
+-- Mirror of LOAN_OPERATION_TRANSITIONS and its guards in src/utils/loanOperationStatus.ts
+CREATE OR REPLACE FUNCTION enforce_loan_operation_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  allowed text[];
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status NOT IN ('pending', 'in_progress') THEN
+      RAISE EXCEPTION 'Loan operations must be created as pending or in_progress, got %', NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    NEW.status_changed_at := now();
+    NEW.status_changed_by := auth.uid();
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = OLD.status THEN
+    IF OLD.status IN ('rejected', 'disbursed', 'cancelled', 'withdrawn') THEN
+      RAISE EXCEPTION 'Loan operation % is % and can no longer change', OLD.operation_number, OLD.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Rejection details are only written by the rejection itself
+    NEW.rejection_reason_code := OLD.rejection_reason_code;
+    NEW.rejection_justification := OLD.rejection_justification;
+    RETURN NEW;
+  END IF;
+
+  allowed := CASE OLD.status
+    WHEN 'pending' THEN ARRAY['in_progress', 'cancelled', 'withdrawn']
+    WHEN 'in_progress' THEN ARRAY['under_review', 'cancelled', 'withdrawn']
+    WHEN 'under_review' THEN ARRAY['approved', 'rejected', 'cancelled', 'withdrawn']
+    WHEN 'approved' THEN ARRAY['disbursed', 'cancelled', 'withdrawn']
+    ELSE ARRAY[]::text[]
+  END;
+
+  IF NOT NEW.status = ANY(allowed) THEN
+    RAISE EXCEPTION 'Invalid loan operation transition % -> %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Role guards; service role calls (no auth.uid()) bypass them
+  IF auth.uid() IS NOT NULL THEN
+    IF NEW.status = 'under_review' AND NOT has_role(ARRAY['analyst', 'admin']) THEN
+      RAISE EXCEPTION 'Only analysts can submit operations for review'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF NEW.status IN ('approved', 'rejected', 'disbursed') AND NOT has_role(ARRAY['supervisor', 'admin']) THEN
+      RAISE EXCEPTION 'Only supervisors can move operations to %', NEW.status
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF NEW.status IN ('cancelled', 'withdrawn')
+      AND NOT has_role(ARRAY['supervisor', 'admin'])
+      AND NOT (
+        OLD.advisor_id = auth.uid()
+        AND (NEW.status = 'withdrawn' OR OLD.status IN ('pending', 'in_progress'))
+      ) THEN
+      RAISE EXCEPTION 'Not allowed to move operation to %', NEW.status
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  END IF;
+
+  IF NEW.status = 'rejected' THEN
+    IF NEW.rejection_reason_code IS NULL OR length(trim(coalesce(NEW.rejection_justification, ''))) < 20 THEN
+      RAISE EXCEPTION 'Rejecting an operation requires a reason code and a justification of at least 20 characters'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  ELSE
+    NEW.rejection_reason_code := NULL;
+    NEW.rejection_justification := NULL;
+  END IF;
+
+  -- Side effects
+  NEW.status_changed_at := now();
+  NEW.status_changed_by := auth.uid();
+
+  IF NEW.status = 'under_review' THEN
+    NEW.submitted_at := now();
+  ELSIF NEW.status IN ('approved', 'rejected') THEN
+    NEW.decided_at := now();
+    NEW.decided_by := auth.uid();
+  ELSIF NEW.status = 'disbursed' THEN
+    NEW.disbursed_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_loan_operations_transition
+  BEFORE INSERT OR UPDATE ON loan_operations
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_loan_operation_transition();
@@ -0,0 +1,239 @@
+/*
+  # Maker-checker review of loan operations
+
+  1. New Tables
+    - `loan_operation_reviews` (append-only)
+      - `id` (uuid, primary key)
+      - `operation_id` (uuid, references loan_operations)
+      - `reviewer_id` (uuid, references profiles)
+      - `decision` (text: approved, returned, rejected)
+      - `comments` (text, optional)
+      - `created_at` (timestamp)
+
+  2. Changes
+    - New columns on `loan_operations`:
+      - `verified_by` (uuid, optional) - Analyst who submitted the operation for review
+      - `verified_at` (timestamp, optional)
+      - `review_comments` (text, optional) - Comments of the latest review decision
+    - New transition under_review → in_progress: the reviewer returns the operation with comments
+
+  3. Functions
+    - `enforce_loan_operation_transition()` now also:
+      - Rejects verification by the advisor who entered the operation
+      - Rejects approval, rejection or return by the advisor or by the analyst who verified it
+      - Requires comments when returning an operation
+      - Records every review decision in `loan_operation_reviews`
+      - Rejects changes to the stage data (contact info, documents, Veraz data, verification)
+        once the operation has left pending and in_progress
+      - Keeps the advisor, the branch and the submission, verification, decision and status change
+        stamps on every update, except where the transition itself sets them
+
+  4. Security
+    - Enable RLS on `loan_operation_reviews`
+    - Reviews are readable by whoever can read the operation; they are only written by the trigger
+*/
+
+-- Create loan_operation_reviews table
+CREATE TABLE IF NOT EXISTS loan_operation_reviews (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  operation_id uuid NOT NULL REFERENCES loan_operations(id) ON DELETE CASCADE,
+  reviewer_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  decision text NOT NULL CHECK (decision IN ('approved', 'returned', 'rejected')),
+  comments text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_loan_operation_reviews_operation_id ON loan_operation_reviews(operation_id);
+
+-- Add review tracking columns
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'loan_operations' AND column_name = 'verified_by'
+  ) THEN
+    ALTER TABLE loan_operations ADD COLUMN verified_by uuid REFERENCES profiles(id) ON DELETE SET NULL;
+    ALTER TABLE loan_operations ADD COLUMN verified_at timestamptz;
+    ALTER TABLE loan_operations ADD COLUMN review_comments text;
+  END IF;
+END $$;
+
+-- Operations already under review were verified by whoever last changed their status
+UPDATE loan_operations
+SET verified_by = status_changed_by, verified_at = submitted_at
+WHERE status = 'under_review' AND verified_by IS NULL;
+
+-- Mirror of LOAN_OPERATION_TRANSITIONS and its guards in src/utils/loanOperationStatus.ts
+CREATE OR REPLACE FUNCTION enforce_loan_operation_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  allowed text[];
+  is_return boolean;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status NOT IN ('pending', 'in_progress') THEN
+      RAISE EXCEPTION 'Loan operations must be created as pending or in_progress, got %', NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    NEW.status_changed_at := now();
+    NEW.status_changed_by := auth.uid();
+    RETURN NEW;
+  END IF;
+
+  -- What was verified and reviewed is frozen, whoever writes it and whatever the status moves to
+  IF OLD.status NOT IN ('pending', 'in_progress') AND (
+    NEW.contact_info IS DISTINCT FROM OLD.contact_info OR
+    NEW.documents IS DISTINCT FROM OLD.documents OR
+    NEW.veraz_data IS DISTINCT FROM OLD.veraz_data OR
+    NEW.verification_data IS DISTINCT FROM OLD.verification_data
+  ) THEN
+    RAISE EXCEPTION 'Loan operation % is % and its data can no longer change', OLD.operation_number, OLD.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Who owns the operation and who moved it are only written by the transitions below, so the
+  -- four-eyes guards can't be sidestepped by reassigning the advisor or forging a decision
+  NEW.advisor_id := OLD.advisor_id;
+  NEW.branch_id := OLD.branch_id;
+  NEW.submitted_at := OLD.submitted_at;
+  NEW.verified_by := OLD.verified_by;
+  NEW.verified_at := OLD.verified_at;
+  NEW.decided_by := OLD.decided_by;
+  NEW.decided_at := OLD.decided_at;
+  NEW.disbursed_at := OLD.disbursed_at;
+  NEW.status_changed_by := OLD.status_changed_by;
+  NEW.status_changed_at := OLD.status_changed_at;
+
+  IF NEW.status = OLD.status THEN
+    IF OLD.status IN ('rejected', 'disbursed', 'cancelled', 'withdrawn') THEN
+      RAISE EXCEPTION 'Loan operation % is % and can no longer change', OLD.operation_number, OLD.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Review fields are only written by the transitions themselves
+    NEW.rejection_reason_code := OLD.rejection_reason_code;
+    NEW.rejection_justification := OLD.rejection_justification;
+    NEW.review_comments := OLD.review_comments;
+    RETURN NEW;
+  END IF;
+
+  allowed := CASE OLD.status
+    WHEN 'pending' THEN ARRAY['in_progress', 'cancelled', 'withdrawn']
+    WHEN 'in_progress' THEN ARRAY['under_review', 'cancelled', 'withdrawn']
+    WHEN 'under_review' THEN ARRAY['approved', 'rejected', 'in_progress', 'cancelled', 'withdrawn']
+    WHEN 'approved' THEN ARRAY['disbursed', 'cancelled', 'withdrawn']
+    ELSE ARRAY[]::text[]
+  END;
+
+  IF NOT NEW.status = ANY(allowed) THEN
+    RAISE EXCEPTION 'Invalid loan operation transition % -> %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  is_return := OLD.status = 'under_review' AND NEW.status = 'in_progress';
+
+  -- Role guards; service role calls (no auth.uid()) bypass them
+  IF auth.uid() IS NOT NULL THEN
+    IF NEW.status = 'under_review' AND NOT has_role(ARRAY['analyst', 'admin']) THEN
+      RAISE EXCEPTION 'Only analysts can submit operations for review'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF (NEW.status IN ('approved', 'rejected', 'disbursed') OR is_return) AND NOT has_role(ARRAY['supervisor', 'admin']) THEN
+      RAISE EXCEPTION 'Only supervisors can move operations to %', NEW.status
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF NEW.status IN ('cancelled', 'withdrawn')
+      AND NOT has_role(ARRAY['supervisor', 'admin'])
+      AND NOT (
+        OLD.advisor_id = auth.uid()
+        AND (NEW.status = 'withdrawn' OR OLD.status IN ('pending', 'in_progress'))
+      ) THEN
+      RAISE EXCEPTION 'Not allowed to move operation to %', NEW.status
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    -- Four eyes: the maker can't verify, and neither maker nor verifier can decide
+    IF NEW.status = 'under_review' AND OLD.advisor_id = auth.uid() THEN
+      RAISE EXCEPTION 'The advisor who entered operation % cannot verify it', OLD.operation_number
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF (NEW.status IN ('approved', 'rejected') OR is_return)
+      AND (OLD.advisor_id = auth.uid() OR OLD.verified_by = auth.uid()) THEN
+      RAISE EXCEPTION 'Operation % cannot be reviewed by its advisor or verifier', OLD.operation_number
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  END IF;
+
+  IF NEW.status = 'rejected' THEN
+    IF NEW.rejection_reason_code IS NULL OR length(trim(coalesce(NEW.rejection_justification, ''))) < 20 THEN
+      RAISE EXCEPTION 'Rejecting an operation requires a reason code and a justification of at least 20 characters'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  ELSE
+    NEW.rejection_reason_code := NULL;
+    NEW.rejection_justification := NULL;
+  END IF;
+
+  IF is_return AND length(trim(coalesce(NEW.review_comments, ''))) < 10 THEN
+    RAISE EXCEPTION 'Returning an operation requires comments of at least 10 characters'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Side effects
+  NEW.status_changed_at := now();
+  NEW.status_changed_by := auth.uid();
+
+  IF NEW.status = 'under_review' THEN
+    NEW.submitted_at := now();
+    NEW.verified_at := now();
+    NEW.verified_by := auth.uid();
+    NEW.review_comments := NULL;
+  ELSIF NEW.status IN ('approved', 'rejected') THEN
+    NEW.decided_at := now();
+    NEW.decided_by := auth.uid();
+  ELSIF is_return THEN
+    -- The analyst has to verify the operation again
+    NEW.verified_by := NULL;
+    NEW.verified_at := NULL;
+  ELSE
+    IF NEW.status = 'disbursed' THEN
+      NEW.disbursed_at := now();
+    END IF;
+    NEW.review_comments := OLD.review_comments;
+  END IF;
+
+  IF NEW.status IN ('approved', 'rejected') OR is_return THEN
+    INSERT INTO loan_operation_reviews (operation_id, reviewer_id, decision, comments)
+    VALUES (
+      NEW.id,
+      auth.uid(),
+      CASE WHEN is_return THEN 'returned' ELSE NEW.status END,
+      CASE WHEN NEW.status = 'rejected' THEN NEW.rejection_justification ELSE nullif(trim(NEW.review_comments), '') END
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Enable RLS
+ALTER TABLE loan_operation_reviews ENABLE ROW LEVEL SECURITY;
+
+-- Reviews follow the visibility of their operation; no write policies, so only the trigger can add them
+CREATE POLICY "Users can read reviews of visible loan operations"
+  ON loan_operation_reviews FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM loan_operations lo
+      WHERE lo.id = loan_operation_reviews.operation_id
+    )
+  );
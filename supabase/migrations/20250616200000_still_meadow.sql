@@ -0,0 +1,163 @@
+/*
+  # Audit log for assessments and loan operations
+
+  1. New Tables
+    - `audit_log` (append-only)
+      - `id` (bigint, identity primary key)
+      - `table_name` (text)
+      - `row_id` (uuid)
+      - `action` (text: INSERT, UPDATE, DELETE)
+      - `actor_id` (uuid, optional) - auth.uid() of the change; null for service role jobs
+      - `actor_email` (text, optional) - Copied at write time so the log survives user deletion
+      - `changed_at` (timestamp)
+      - `diff` (jsonb) - Changed keys as {"old": ..., "new": ...}; jsonb columns are diffed per key
+
+  2. Functions
+    - `jsonb_diff(old, new)` - Recursive key-level diff of two jsonb objects
+    - `write_audit_log()` - Row trigger that records the diff of every change
+    - `prevent_audit_log_changes()` - Rejects updates and deletes on `audit_log`
+
+  3. Security
+    - Enable RLS on `audit_log`
+    - Entries are readable by whoever can read the audited row
+    - No insert, update or delete policies: only the SECURITY DEFINER trigger writes entries
+*/
+
+-- Create audit_log table
+CREATE TABLE IF NOT EXISTS audit_log (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  table_name text NOT NULL,
+  row_id uuid NOT NULL,
+  action text NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
+  actor_id uuid,
+  actor_email text,
+  changed_at timestamptz NOT NULL DEFAULT now(),
+  diff jsonb NOT NULL DEFAULT '{}'::jsonb
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_row ON audit_log(table_name, row_id, changed_at);
+
+-- Key-level diff; nested objects are diffed recursively, anything else is reported whole
+CREATE OR REPLACE FUNCTION jsonb_diff(old_value jsonb, new_value jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  result jsonb := '{}'::jsonb;
+  key text;
+  old_item jsonb;
+  new_item jsonb;
+BEGIN
+  FOR key IN
+    SELECT jsonb_object_keys(coalesce(old_value, '{}'::jsonb))
+    UNION
+    SELECT jsonb_object_keys(coalesce(new_value, '{}'::jsonb))
+  LOOP
+    old_item := old_value -> key;
+    new_item := new_value -> key;
+
+    IF old_item IS DISTINCT FROM new_item THEN
+      IF jsonb_typeof(old_item) = 'object' AND jsonb_typeof(new_item) = 'object' THEN
+        result := result || jsonb_build_object(key, jsonb_diff(old_item, new_item));
+      ELSE
+        result := result || jsonb_build_object(key, jsonb_build_object('old', old_item, 'new', new_item));
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION write_audit_log()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  changes jsonb;
+  row_uuid uuid;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    changes := jsonb_diff('{}'::jsonb, to_jsonb(NEW));
+    row_uuid := NEW.id;
+  ELSIF TG_OP = 'UPDATE' THEN
+    changes := jsonb_diff(to_jsonb(OLD), to_jsonb(NEW));
+    row_uuid := NEW.id;
+  ELSE
+    changes := jsonb_diff(to_jsonb(OLD), '{}'::jsonb);
+    row_uuid := OLD.id;
+  END IF;
+
+  -- Bookkeeping columns alone are not worth an entry
+  changes := changes - 'updated_at';
+
+  IF changes = '{}'::jsonb THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO audit_log (table_name, row_id, action, actor_id, actor_email, diff)
+  VALUES (
+    TG_TABLE_NAME,
+    row_uuid,
+    TG_OP,
+    auth.uid(),
+    (SELECT email FROM profiles WHERE id = auth.uid()),
+    changes
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION prevent_audit_log_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log is append-only'
+    USING ERRCODE = 'insufficient_privilege';
+END;
+$$;
+
+CREATE TRIGGER audit_assessments
+  AFTER INSERT OR UPDATE OR DELETE ON assessments
+  FOR EACH ROW
+  EXECUTE FUNCTION write_audit_log();
+
+CREATE TRIGGER audit_loan_operations
+  AFTER INSERT OR UPDATE OR DELETE ON loan_operations
+  FOR EACH ROW
+  EXECUTE FUNCTION write_audit_log();
+
+-- Applies to every role, including the service role
+CREATE TRIGGER audit_log_append_only
+  BEFORE UPDATE OR DELETE ON audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_audit_log_changes();
+
+CREATE TRIGGER audit_log_no_truncate
+  BEFORE TRUNCATE ON audit_log
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION prevent_audit_log_changes();
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON audit_log FROM anon, authenticated;
+
+-- Enable RLS
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Entries follow the visibility of the audited row
+CREATE POLICY "Users can read audit log of visible rows"
+  ON audit_log FOR SELECT
+  TO authenticated
+  USING (
+    (table_name = 'assessments' AND EXISTS (
+      SELECT 1 FROM assessments a WHERE a.id = audit_log.row_id
+    )) OR
+    (table_name = 'loan_operations' AND EXISTS (
+      SELECT 1 FROM loan_operations lo WHERE lo.id = audit_log.row_id
+    )) OR
+    has_role(ARRAY['admin'])
+  );
@@ -0,0 +1,129 @@
+/*
+  # Loan product catalogue
+
+  1. New Tables
+    - `loan_products`
+      - `id` (uuid, primary key)
+      - `code` (text, unique) - Short code, e.g. PERSONAL
+      - `name` (text)
+      - `description` (text, optional)
+      - `is_active` (boolean) - Inactive products can't be chosen for new operations
+      - `min_amount`, `max_amount` (numeric) - Amount limits in pesos
+      - `min_term_months`, `max_term_months` (integer)
+      - `tna` (numeric) - Default nominal annual rate, as a fraction
+      - `origination_fee_rate`, `monthly_fee`, `iva_rate` (numeric) - Simulator defaults
+      - `max_payment_to_income_ratio` (numeric, optional)
+      - `min_age`, `max_age` (integer, optional) - Applicant age at the date of the request
+      - `required_documents` (text[]) - Document types the documents stage requires
+      - `eligibility_rule_set_version` (integer, optional) - BCRA rules for this product; the active set when null
+      - `created_at`, `updated_at` (timestamp)
+
+  2. Changes
+    - New column `product_id` on `loan_operations`
+    - Seeds the personal, payroll and pensioner loan products
+
+  3. Security
+    - Enable RLS on `loan_products`
+    - Every authenticated user can read products; only admins can manage them
+    - New loan operations can only reference an active product
+*/
+
+-- Create loan_products table
+CREATE TABLE IF NOT EXISTS loan_products (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text UNIQUE NOT NULL,
+  name text NOT NULL,
+  description text,
+  is_active boolean NOT NULL DEFAULT true,
+  min_amount numeric NOT NULL CHECK (min_amount > 0),
+  max_amount numeric NOT NULL,
+  min_term_months integer NOT NULL CHECK (min_term_months > 0),
+  max_term_months integer NOT NULL,
+  tna numeric NOT NULL CHECK (tna >= 0),
+  origination_fee_rate numeric NOT NULL DEFAULT 0 CHECK (origination_fee_rate >= 0),
+  monthly_fee numeric NOT NULL DEFAULT 0 CHECK (monthly_fee >= 0),
+  iva_rate numeric NOT NULL DEFAULT 0.21 CHECK (iva_rate >= 0),
+  max_payment_to_income_ratio numeric CHECK (max_payment_to_income_ratio > 0 AND max_payment_to_income_ratio <= 1),
+  min_age integer,
+  max_age integer,
+  required_documents text[] NOT NULL DEFAULT ARRAY['id_card_front', 'id_card_back'],
+  eligibility_rule_set_version integer REFERENCES eligibility_rule_sets(version),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (max_amount >= min_amount),
+  CHECK (max_term_months >= min_term_months),
+  CHECK (max_age IS NULL OR min_age IS NULL OR max_age >= min_age),
+  CHECK (required_documents <@ ARRAY[
+    'id_card_front', 'id_card_back', 'salary_receipt', 'pension_receipt', 'proof_of_address', 'payroll_authorization'
+  ])
+);
+
+CREATE TRIGGER update_loan_products_updated_at
+  BEFORE UPDATE ON loan_products
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Add product reference to loan operations
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'loan_operations' AND column_name = 'product_id'
+  ) THEN
+    ALTER TABLE loan_operations ADD COLUMN product_id uuid REFERENCES loan_products(id);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_loan_operations_product_id ON loan_operations(product_id);
+
+-- Seed the current catalogue
+INSERT INTO loan_products (
+  code, name, description, min_amount, max_amount, min_term_months, max_term_months,
+  tna, origination_fee_rate, monthly_fee, max_payment_to_income_ratio, min_age, max_age, required_documents
+)
+VALUES
+  (
+    'PERSONAL', 'Préstamo Personal', 'Préstamo de libre destino para trabajadores en relación de dependencia o independientes',
+    100000, 5000000, 6, 48, 0.85, 0.03, 0, 0.30, 18, 75,
+    ARRAY['id_card_front', 'id_card_back', 'salary_receipt', 'proof_of_address']
+  ),
+  (
+    'PAYROLL', 'Préstamo con Descuento de Haberes', 'Préstamo con la cuota descontada del recibo de sueldo',
+    100000, 8000000, 6, 60, 0.70, 0.02, 0, 0.35, 18, 70,
+    ARRAY['id_card_front', 'id_card_back', 'salary_receipt', 'payroll_authorization']
+  ),
+  (
+    'PENSION', 'Préstamo para Jubilados', 'Préstamo para jubilados y pensionados con cobro de haberes en la entidad',
+    50000, 3000000, 6, 36, 0.65, 0.02, 0, 0.30, NULL, 85,
+    ARRAY['id_card_front', 'id_card_back', 'pension_receipt']
+  )
+ON CONFLICT (code) DO NOTHING;
+
+-- Enable RLS
+ALTER TABLE loan_products ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read loan products"
+  ON loan_products FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage loan products"
+  ON loan_products FOR ALL
+  TO authenticated
+  USING (has_role(ARRAY['admin']))
+  WITH CHECK (has_role(ARRAY['admin']));
+
+-- Same as before, plus the product check: a deactivated product can't start new operations
+DROP POLICY IF EXISTS "Advisors can create loan operations" ON loan_operations;
+
+CREATE POLICY "Advisors can create loan operations"
+  ON loan_operations FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    advisor_id = auth.uid() AND
+    has_role(ARRAY['advisor', 'admin']) AND
+    (branch_id IS NULL OR branch_id IN (SELECT user_branch_ids())) AND
+    (product_id IS NULL OR EXISTS (
+      SELECT 1 FROM loan_products p WHERE p.id = loan_operations.product_id AND p.is_active
+    ))
+  );
@@ -0,0 +1,45 @@
+/*
+  # Affordability policy per loan product
+
+  1. Changes
+    - `loan_products`
+      - `income_policy` (text) - Income used for the ratios: the lower of declared and Veraz, or only one of them
+      - `debt_service_rate` (numeric) - Monthly payment estimated per peso of debt reported to the BCRA
+      - `max_debt_to_income_ratio` (numeric, optional) - Cap on the new installment plus existing debt service over income
+    - Seeds the caps of the current catalogue
+
+  2. Security
+    - No changes; the existing loan product policies apply
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'loan_products' AND column_name = 'income_policy'
+  ) THEN
+    ALTER TABLE loan_products ADD COLUMN income_policy text NOT NULL DEFAULT 'lowest'
+      CHECK (income_policy IN ('lowest', 'declared', 'veraz'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'loan_products' AND column_name = 'debt_service_rate'
+  ) THEN
+    ALTER TABLE loan_products ADD COLUMN debt_service_rate numeric NOT NULL DEFAULT 0.05
+      CHECK (debt_service_rate >= 0 AND debt_service_rate <= 1);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'loan_products' AND column_name = 'max_debt_to_income_ratio'
+  ) THEN
+    ALTER TABLE loan_products ADD COLUMN max_debt_to_income_ratio numeric
+      CHECK (max_debt_to_income_ratio > 0 AND max_debt_to_income_ratio <= 1);
+  END IF;
+END $$;
+
+-- Payroll deductions are checked against the receipt, so only the declared income counts
+UPDATE loan_products SET max_debt_to_income_ratio = 0.45 WHERE code = 'PERSONAL' AND max_debt_to_income_ratio IS NULL;
+UPDATE loan_products SET max_debt_to_income_ratio = 0.50, income_policy = 'declared' WHERE code = 'PAYROLL' AND max_debt_to_income_ratio IS NULL;
+UPDATE loan_products SET max_debt_to_income_ratio = 0.40 WHERE code = 'PENSION' AND max_debt_to_income_ratio IS NULL;
@@ -0,0 +1,100 @@
+/*
+  # Document access checks and view log
+
+  1. New Tables
+    - `document_access_log` (append-only)
+      - `id` (bigint, identity primary key)
+      - `operation_id` (uuid) - Operation the file belongs to
+      - `file_path` (text) - Path in the `loan-documents` bucket
+      - `purpose` (text: view, pdf_export)
+      - `actor_id` (uuid), `actor_email` (text)
+      - `accessed_at` (timestamp)
+
+  2. Functions
+    - `can_access_loan_operation(operation_number)` - Same rules as the loan_operations read policies:
+      the owning advisor while active, admins, and analysts or supervisors of the operation's branch
+    - `log_document_access(file_path, purpose)` - Checks access to the file's operation and records the view;
+      the client only requests a signed URL after it succeeds
+
+  3. Security
+    - Enable RLS on `document_access_log`
+    - Supervisors and admins can read the log of operations they can see
+    - No insert, update or delete policies: only `log_document_access` writes entries
+*/
+
+CREATE TABLE IF NOT EXISTS document_access_log (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  operation_id uuid NOT NULL REFERENCES loan_operations(id) ON DELETE CASCADE,
+  file_path text NOT NULL,
+  purpose text NOT NULL CHECK (purpose IN ('view', 'pdf_export')),
+  actor_id uuid NOT NULL,
+  actor_email text,
+  accessed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_access_log_operation ON document_access_log(operation_id, accessed_at);
+
+-- SECURITY DEFINER like has_role, so storage policies can use it without the caller's loan_operations policies
+CREATE OR REPLACE FUNCTION can_access_loan_operation(target_operation_number text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM loan_operations o
+    WHERE o.operation_number = target_operation_number
+      AND (
+        (o.advisor_id = auth.uid() AND is_active_user()) OR
+        has_role(ARRAY['admin']) OR
+        (has_role(ARRAY['analyst', 'supervisor']) AND o.branch_id IN (SELECT user_branch_ids()))
+      )
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION can_access_loan_operation(text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION log_document_access(file_path text, purpose text DEFAULT 'view')
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_operation_number text := split_part(file_path, '/', 1);
+  target_operation_id uuid;
+BEGIN
+  IF auth.uid() IS NULL OR position('..' IN file_path) > 0 OR NOT can_access_loan_operation(target_operation_number) THEN
+    RAISE EXCEPTION 'Access denied to document %', file_path
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT id INTO target_operation_id
+  FROM loan_operations
+  WHERE operation_number = target_operation_number;
+
+  INSERT INTO document_access_log (operation_id, file_path, purpose, actor_id, actor_email)
+  VALUES (
+    target_operation_id,
+    file_path,
+    purpose,
+    auth.uid(),
+    (SELECT email FROM profiles WHERE id = auth.uid())
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION log_document_access(text, text) TO authenticated;
+
+-- Enable RLS
+ALTER TABLE document_access_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Supervisors can read document access log"
+  ON document_access_log FOR SELECT
+  TO authenticated
+  USING (
+    has_role(ARRAY['supervisor', 'admin']) AND
+    EXISTS (SELECT 1 FROM loan_operations o WHERE o.id = document_access_log.operation_id)
+  );
@@ -0,0 +1,81 @@
+/*
+  # Per-operation storage policies for loan documents
+
+  1. Changes
+    - Replaces the bucket-wide policies on `loan-documents`, which let any authenticated user
+      read, overwrite or delete every file
+    - Objects live under `{operation_number}/...` and follow the `loan_operations` row:
+      - Read: whoever can see the operation (`can_access_loan_operation`)
+      - Upload, overwrite, delete: the operation's advisor or an admin, only while the operation
+        is pending or in progress; submitted, decided and closed operations keep their files as they are
+
+  2. Functions
+    - `can_modify_loan_operation_files(operation_number)`
+
+  3. Security
+    - Objects outside an operation folder are no longer reachable by authenticated users
+    - Limitation: the read policy is what lets the app list files, verify uploads and sign URLs, so anyone
+      who can see an operation can also call `createSignedUrl` or `download` on its files directly.
+      Those calls skip `log_document_access`: the view log only covers clients that go through
+      `getDocumentUrl`, and is not a complete record of who read a document
+*/
+
+CREATE OR REPLACE FUNCTION can_modify_loan_operation_files(target_operation_number text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM loan_operations o
+    WHERE o.operation_number = target_operation_number
+      AND o.status IN ('pending', 'in_progress')
+      AND ((o.advisor_id = auth.uid() AND is_active_user()) OR has_role(ARRAY['admin']))
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION can_modify_loan_operation_files(text) TO authenticated;
+
+DROP POLICY IF EXISTS "Users can upload loan documents" ON storage.objects;
+DROP POLICY IF EXISTS "Users can view own loan documents" ON storage.objects;
+DROP POLICY IF EXISTS "Users can update own loan documents" ON storage.objects;
+DROP POLICY IF EXISTS "Users can delete own loan documents" ON storage.objects;
+
+CREATE POLICY "Users can read documents of visible operations"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'loan-documents' AND
+    can_access_loan_operation((storage.foldername(name))[1])
+  );
+
+CREATE POLICY "Advisors can upload documents to editable operations"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'loan-documents' AND
+    can_modify_loan_operation_files((storage.foldername(name))[1])
+  );
+
+-- Uploads use upsert, so replacing a document is an update of the same path
+CREATE POLICY "Advisors can replace documents of editable operations"
+  ON storage.objects FOR UPDATE
+  TO authenticated
+  USING (
+    bucket_id = 'loan-documents' AND
+    can_modify_loan_operation_files((storage.foldername(name))[1])
+  )
+  WITH CHECK (
+    bucket_id = 'loan-documents' AND
+    can_modify_loan_operation_files((storage.foldername(name))[1])
+  );
+
+CREATE POLICY "Advisors can delete documents of editable operations"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'loan-documents' AND
+    can_modify_loan_operation_files((storage.foldername(name))[1])
+  );
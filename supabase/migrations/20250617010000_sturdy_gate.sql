@@ -0,0 +1,38 @@
+/*
+  # Upload limits for loan documents
+
+  1. Changes
+    - `loan-documents` bucket: 10 MB per file and only the declared content types the app uses
+      (JPEG, PNG, HEIC, PDF, and the XML/JSON Veraz reports)
+    - `loan_operations.documents.sha256`: each entry must be a lowercase hex SHA-256
+
+  2. Security
+    - The storage API only checks the size and the content type the uploader declares; it doesn't
+      read the file. The content checks (magic bytes, image resolution) and the SHA-256 comparison
+      run in the browser, so a client that skips them can still store a mislabelled file
+*/
+
+UPDATE storage.buckets
+SET
+  file_size_limit = 10485760,
+  allowed_mime_types = ARRAY[
+    'image/jpeg',
+    'image/png',
+    'image/heic',
+    'application/pdf',
+    'application/xml',
+    'application/json'
+  ]
+WHERE id = 'loan-documents';
+
+-- Add check constraint for the document hashes
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.check_constraints
+    WHERE constraint_name = 'loan_operations_documents_sha256_check'
+  ) THEN
+    ALTER TABLE loan_operations ADD CONSTRAINT loan_operations_documents_sha256_check
+    CHECK (NOT jsonb_path_exists(documents, '$.sha256.* ? (!(@ like_regex "^[0-9a-f]{64}$"))'));
+  END IF;
+END $$;
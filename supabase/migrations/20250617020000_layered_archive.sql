@@ -0,0 +1,184 @@
+/*
+  # Document sets and version history
+
+  1. New Tables
+    - `loan_operation_documents` (append-only) - Every file uploaded to an operation
+      - `id` (uuid, primary key)
+      - `operation_id` (uuid, references loan_operations) - An operation with documents can't be deleted
+      - `document_type` (text) - Checklist document type; a type can hold several files (pages, months)
+      - `file_path` (text, unique) - Path in the `loan-documents` bucket, never reused
+      - `file_name`, `content_type`, `size_bytes`, `sha256` - As uploaded
+      - `version` (integer) - 1 for a new file, previous version + 1 for a replacement
+      - `replaces_id` (uuid, optional) - The version this file replaces; a version is replaced at most once
+      - `uploaded_by` (uuid), `uploaded_by_email` (text), `uploaded_at` (timestamp)
+
+  2. Changes
+    - Existing single-file documents are copied into `loan_operation_documents` as version 1
+    - `loan_operations.documents` keeps the file set the stage was saved with under `files`
+      (document type -> paths); the per-type path and `sha256` keys move to the new table
+    - `loan-documents` bucket: objects are no longer overwritten, and objects recorded as a
+      document version can't be deleted
+
+  3. Functions
+    - `stamp_loan_operation_document()` - Stamps the uploader and numbers replacements
+    - `prevent_loan_operation_document_changes()` - Rejects updates, deletes and truncation of versions,
+      for every role including the service role
+
+  4. Security
+    - Enable RLS on `loan_operation_documents`
+    - Readable by whoever can read the operation, including every replaced version
+    - Added only by the operation's advisor or an admin while the operation is pending or in progress
+*/
+
+CREATE TABLE IF NOT EXISTS loan_operation_documents (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  operation_id uuid NOT NULL REFERENCES loan_operations(id) ON DELETE RESTRICT,
+  document_type text NOT NULL CHECK (document_type IN (
+    'id_card_front', 'id_card_back', 'salary_receipt', 'pension_receipt', 'proof_of_address', 'payroll_authorization'
+  )),
+  file_path text UNIQUE NOT NULL,
+  file_name text,
+  content_type text,
+  size_bytes bigint CHECK (size_bytes >= 0),
+  sha256 text CHECK (sha256 ~ '^[0-9a-f]{64}$'),
+  version integer NOT NULL DEFAULT 1 CHECK (version > 0),
+  replaces_id uuid UNIQUE REFERENCES loan_operation_documents(id),
+  uploaded_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  uploaded_by_email text,
+  uploaded_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_loan_operation_documents_operation ON loan_operation_documents(operation_id, document_type);
+
+CREATE OR REPLACE FUNCTION stamp_loan_operation_document()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  replaced loan_operation_documents%ROWTYPE;
+BEGIN
+  -- Service role calls (no auth.uid()) keep the uploader they were given, like the backfill below
+  IF auth.uid() IS NOT NULL THEN
+    NEW.uploaded_by := auth.uid();
+    NEW.uploaded_by_email := (SELECT email FROM profiles WHERE id = auth.uid());
+    NEW.uploaded_at := now();
+  END IF;
+
+  IF NEW.replaces_id IS NULL THEN
+    NEW.version := 1;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO replaced FROM loan_operation_documents WHERE id = NEW.replaces_id;
+
+  IF replaced.operation_id IS DISTINCT FROM NEW.operation_id OR replaced.document_type IS DISTINCT FROM NEW.document_type THEN
+    RAISE EXCEPTION 'A document can only be replaced by one of the same operation and type'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.version := replaced.version + 1;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION prevent_loan_operation_document_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Document versions are immutable; upload a replacement instead'
+    USING ERRCODE = 'insufficient_privilege';
+END;
+$$;
+
+-- Copy the single-file documents before the stamping trigger exists
+INSERT INTO loan_operation_documents (operation_id, document_type, file_path, sha256, uploaded_by, uploaded_by_email, uploaded_at)
+SELECT
+  o.id,
+  t.document_type,
+  o.documents->>t.document_type,
+  o.documents->'sha256'->>t.document_type,
+  o.advisor_id,
+  p.email,
+  o.updated_at
+FROM loan_operations o
+CROSS JOIN unnest(ARRAY[
+  'id_card_front', 'id_card_back', 'salary_receipt', 'pension_receipt', 'proof_of_address', 'payroll_authorization'
+]) AS t(document_type)
+LEFT JOIN profiles p ON p.id = o.advisor_id
+WHERE jsonb_typeof(o.documents->t.document_type) = 'string'
+ON CONFLICT (file_path) DO NOTHING;
+
+CREATE TRIGGER stamp_loan_operation_documents
+  BEFORE INSERT ON loan_operation_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION stamp_loan_operation_document();
+
+-- Applies to every role, including the service role
+CREATE TRIGGER loan_operation_documents_immutable
+  BEFORE UPDATE OR DELETE ON loan_operation_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_loan_operation_document_changes();
+
+CREATE TRIGGER loan_operation_documents_no_truncate
+  BEFORE TRUNCATE ON loan_operation_documents
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION prevent_loan_operation_document_changes();
+
+REVOKE UPDATE, DELETE, TRUNCATE ON loan_operation_documents FROM anon, authenticated;
+
+-- The hashes now live with each version
+ALTER TABLE loan_operations DROP CONSTRAINT IF EXISTS loan_operations_documents_sha256_check;
+
+-- Closed operations can't change through the transition trigger; this rewrite only moves the paths
+ALTER TABLE loan_operations DISABLE TRIGGER enforce_loan_operations_transition;
+
+UPDATE loan_operations o
+SET documents = (o.documents - ARRAY[
+  'id_card_front', 'id_card_back', 'salary_receipt', 'pension_receipt', 'proof_of_address', 'payroll_authorization', 'sha256'
+]) || jsonb_build_object('files', (
+  SELECT jsonb_object_agg(d.document_type, jsonb_build_array(d.file_path))
+  FROM loan_operation_documents d
+  WHERE d.operation_id = o.id
+))
+WHERE EXISTS (SELECT 1 FROM loan_operation_documents d WHERE d.operation_id = o.id);
+
+ALTER TABLE loan_operations ENABLE TRIGGER enforce_loan_operations_transition;
+
+-- Enable RLS
+ALTER TABLE loan_operation_documents ENABLE ROW LEVEL SECURITY;
+
+-- Versions follow the visibility of the operation
+CREATE POLICY "Users can read documents of visible operations"
+  ON loan_operation_documents FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM loan_operations o WHERE o.id = loan_operation_documents.operation_id)
+  );
+
+CREATE POLICY "Advisors can add documents to editable operations"
+  ON loan_operation_documents FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM loan_operations o
+      WHERE o.id = loan_operation_documents.operation_id
+        AND can_modify_loan_operation_files(o.operation_number)
+        AND loan_operation_documents.file_path LIKE o.operation_number || '/%'
+    )
+  );
+
+-- Storage: a replacement is a new object, and recorded versions stay in the bucket
+DROP POLICY IF EXISTS "Advisors can replace documents of editable operations" ON storage.objects;
+DROP POLICY IF EXISTS "Advisors can delete documents of editable operations" ON storage.objects;
+
+CREATE POLICY "Advisors can delete unrecorded documents of editable operations"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'loan-documents' AND
+    can_modify_loan_operation_files((storage.foldername(name))[1]) AND
+    NOT EXISTS (SELECT 1 FROM loan_operation_documents d WHERE d.file_path = storage.objects.name)
+  );
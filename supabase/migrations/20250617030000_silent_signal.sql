@@ -0,0 +1,25 @@
+/*
+  # Record unavailable bounced checks lookups on assessments
+
+  1. New Columns
+    - `bcra_bounced_checks_unavailable` (boolean) - The ChequesRechazados lookup failed when the
+      assessment ran; `bcra_bounced_checks` is null either way, so without it a replay would read
+      "no checks on record"
+
+  2. Data
+    - Backfill from stored analyses: the bounced checks rule is the only one that can be unavailable
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'assessments' AND column_name = 'bcra_bounced_checks_unavailable'
+  ) THEN
+    ALTER TABLE assessments ADD COLUMN bcra_bounced_checks_unavailable boolean NOT NULL DEFAULT false;
+  END IF;
+END $$;
+
+UPDATE assessments
+SET bcra_bounced_checks_unavailable = true
+WHERE bcra_eligibility_analysis->'ruleTrace' @> '[{"unavailable": true}]'::jsonb;
@@ -0,0 +1,126 @@
+-- Version history of operation documents. Run against a local Supabase with:
+--   supabase start && supabase test db
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(12);
+
+-- Fixtures, as the service role: an advisor and an analyst of one branch, an open and a submitted operation
+INSERT INTO branches (id, code, name) VALUES
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'T1', 'Sucursal Test 1');
+
+INSERT INTO auth.users (id, email) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'advisor-a@test.local'),
+  ('33333333-3333-3333-3333-333333333333', 'analyst-1@test.local');
+
+INSERT INTO memberships (user_id, role) VALUES
+  ('33333333-3333-3333-3333-333333333333', 'analyst');
+
+INSERT INTO branch_memberships (user_id, branch_id, is_default) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', true),
+  ('33333333-3333-3333-3333-333333333333', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', true);
+
+INSERT INTO loan_operations (operation_number, advisor_id, branch_id, client_cuit, status) VALUES
+  ('TEST-OPEN', '11111111-1111-1111-1111-111111111111', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '20100000009', 'in_progress'),
+  ('TEST-SUBMITTED', '11111111-1111-1111-1111-111111111111', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '20100000009', 'in_progress');
+
+UPDATE loan_operations SET status = 'under_review' WHERE operation_number = 'TEST-SUBMITTED';
+
+-- As the advisor
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+SELECT lives_ok(
+  $$ INSERT INTO loan_operation_documents (id, operation_id, document_type, file_path)
+     SELECT 'dddddddd-0000-0000-0000-000000000001', id, 'salary_receipt', 'TEST-OPEN/salary_receipt/v1.pdf'
+     FROM loan_operations WHERE operation_number = 'TEST-OPEN' $$,
+  'The advisor adds a file to their operation in progress'
+);
+
+SELECT lives_ok(
+  $$ INSERT INTO loan_operation_documents (operation_id, document_type, file_path, replaces_id)
+     SELECT id, 'salary_receipt', 'TEST-OPEN/salary_receipt/v2.pdf', 'dddddddd-0000-0000-0000-000000000001'
+     FROM loan_operations WHERE operation_number = 'TEST-OPEN' $$,
+  'The advisor replaces it'
+);
+
+SELECT is(
+  (SELECT version FROM loan_operation_documents WHERE file_path = 'TEST-OPEN/salary_receipt/v2.pdf'),
+  2,
+  'The replacement is numbered after the version it replaces'
+);
+
+SELECT is(
+  (SELECT uploaded_by_email FROM loan_operation_documents WHERE file_path = 'TEST-OPEN/salary_receipt/v2.pdf'),
+  'advisor-a@test.local',
+  'The uploader is stamped from the session'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO loan_operation_documents (operation_id, document_type, file_path, replaces_id)
+     SELECT id, 'salary_receipt', 'TEST-OPEN/salary_receipt/fork.pdf', 'dddddddd-0000-0000-0000-000000000001'
+     FROM loan_operations WHERE operation_number = 'TEST-OPEN' $$,
+  '23505',
+  NULL,
+  'A version is replaced at most once'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO loan_operation_documents (operation_id, document_type, file_path)
+     SELECT id, 'salary_receipt', 'TEST-SUBMITTED/salary_receipt/late.pdf'
+     FROM loan_operations WHERE operation_number = 'TEST-SUBMITTED' $$,
+  '42501',
+  NULL,
+  'Nothing is added once the operation is submitted'
+);
+
+SELECT throws_ok(
+  $$ UPDATE loan_operation_documents SET file_path = 'TEST-OPEN/salary_receipt/other.pdf'
+     WHERE id = 'dddddddd-0000-0000-0000-000000000001' $$,
+  '42501',
+  NULL,
+  'Versions cannot be edited'
+);
+
+-- As an analyst of the branch
+SELECT set_config('request.jwt.claims', '{"sub": "33333333-3333-3333-3333-333333333333", "role": "authenticated"}', true);
+
+SELECT is(
+  (SELECT count(*)::int FROM loan_operation_documents WHERE document_type = 'salary_receipt'),
+  2,
+  'Reviewers see the replaced version too'
+);
+
+RESET ROLE;
+
+SELECT throws_ok(
+  $$ UPDATE loan_operation_documents SET sha256 = NULL WHERE id = 'dddddddd-0000-0000-0000-000000000001' $$,
+  '42501',
+  NULL,
+  'Versions are immutable for the service role as well'
+);
+
+SELECT throws_ok(
+  $$ DELETE FROM loan_operation_documents WHERE id = 'dddddddd-0000-0000-0000-000000000001' $$,
+  '42501',
+  NULL,
+  'The service role cannot delete a replaced version'
+);
+
+SELECT throws_ok(
+  $$ TRUNCATE loan_operation_documents $$,
+  '42501',
+  NULL,
+  'The version history cannot be truncated'
+);
+
+SELECT throws_ok(
+  $$ DELETE FROM loan_operations WHERE operation_number = 'TEST-OPEN' $$,
+  '23503',
+  NULL,
+  'Deleting an operation does not drop its document versions'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
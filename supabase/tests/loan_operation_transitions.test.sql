@@ -0,0 +1,121 @@
+-- Stage data and ownership of loan operations after submission. Run against a local Supabase with:
+--   supabase start && supabase test db
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(11);
+
+-- Fixtures, as the service role: an advisor, a supervisor and an advisor who is also a supervisor, all of one branch;
+-- an open, a submitted and an approved operation, and one under review entered by the advisor-supervisor
+INSERT INTO branches (id, code, name) VALUES
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'T1', 'Sucursal Test 1');
+
+INSERT INTO auth.users (id, email) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'advisor-a@test.local'),
+  ('66666666-6666-6666-6666-666666666666', 'supervisor-1@test.local'),
+  ('77777777-7777-7777-7777-777777777777', 'advisor-supervisor@test.local');
+
+INSERT INTO memberships (user_id, role) VALUES
+  ('66666666-6666-6666-6666-666666666666', 'supervisor'),
+  ('77777777-7777-7777-7777-777777777777', 'supervisor');
+
+INSERT INTO branch_memberships (user_id, branch_id, is_default) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', true),
+  ('66666666-6666-6666-6666-666666666666', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', true),
+  ('77777777-7777-7777-7777-777777777777', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', true);
+
+INSERT INTO loan_operations (operation_number, advisor_id, branch_id, client_cuit, status, veraz_data) VALUES
+  ('TEST-OPEN', '11111111-1111-1111-1111-111111111111', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '20100000009', 'in_progress', '{"credit_score": 700}'),
+  ('TEST-SUBMITTED', '11111111-1111-1111-1111-111111111111', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '20100000009', 'in_progress', '{"credit_score": 700}'),
+  ('TEST-APPROVED', '11111111-1111-1111-1111-111111111111', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '20100000009', 'in_progress', '{"credit_score": 700}'),
+  ('TEST-OWN', '77777777-7777-7777-7777-777777777777', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '20100000009', 'in_progress', '{"credit_score": 700}');
+
+-- Without auth.uid() the transition trigger skips its role guards
+UPDATE loan_operations SET status = 'under_review' WHERE operation_number IN ('TEST-SUBMITTED', 'TEST-APPROVED', 'TEST-OWN');
+UPDATE loan_operations SET status = 'approved' WHERE operation_number = 'TEST-APPROVED';
+
+-- As the advisor
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+SELECT lives_ok(
+  $$ UPDATE loan_operations SET veraz_data = '{"credit_score": 650}' WHERE operation_number = 'TEST-OPEN' $$,
+  'The advisor edits the Veraz data of an operation in progress'
+);
+
+SELECT throws_ok(
+  $$ UPDATE loan_operations SET veraz_data = '{"credit_score": 900}' WHERE operation_number = 'TEST-APPROVED' $$,
+  '23514',
+  NULL,
+  'The advisor cannot rewrite the Veraz data of an approved operation'
+);
+
+SELECT throws_ok(
+  $$ UPDATE loan_operations SET contact_info = '{"phone": "1100000000"}' WHERE operation_number = 'TEST-SUBMITTED' $$,
+  '23514',
+  NULL,
+  'The advisor cannot edit the contact info of an operation under review'
+);
+
+SELECT throws_ok(
+  $$ UPDATE loan_operations SET status = 'withdrawn', verification_data = '{"notes": "cambiado"}' WHERE operation_number = 'TEST-SUBMITTED' $$,
+  '23514',
+  NULL,
+  'Withdrawing an operation does not let the advisor change its data'
+);
+
+-- As the supervisor
+SELECT set_config('request.jwt.claims', '{"sub": "66666666-6666-6666-6666-666666666666", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ UPDATE loan_operations SET documents = '{}' WHERE operation_number = 'TEST-SUBMITTED' $$,
+  '23514',
+  NULL,
+  'The supervisor cannot edit the documents of an operation under review'
+);
+
+SELECT lives_ok(
+  $$ UPDATE loan_operations SET decided_by = '66666666-6666-6666-6666-666666666666', decided_at = now() WHERE operation_number = 'TEST-APPROVED' $$,
+  'Rewriting who decided an approved operation is not an error'
+);
+
+SELECT is(
+  (SELECT decided_by FROM loan_operations WHERE operation_number = 'TEST-APPROVED'),
+  NULL::uuid,
+  'The decision keeps the reviewer who made it'
+);
+
+-- As the advisor who is also a supervisor: reassign the operation, then approve it
+SELECT set_config('request.jwt.claims', '{"sub": "77777777-7777-7777-7777-777777777777", "role": "authenticated"}', true);
+
+SELECT lives_ok(
+  $$ UPDATE loan_operations SET advisor_id = '11111111-1111-1111-1111-111111111111' WHERE operation_number = 'TEST-OWN' $$,
+  'Reassigning an operation is not an error'
+);
+
+SELECT is(
+  (SELECT advisor_id FROM loan_operations WHERE operation_number = 'TEST-OWN'),
+  '77777777-7777-7777-7777-777777777777'::uuid,
+  'The operation keeps the advisor who entered it'
+);
+
+SELECT throws_ok(
+  $$ UPDATE loan_operations SET status = 'approved' WHERE operation_number = 'TEST-OWN' $$,
+  '42501',
+  NULL,
+  'The advisor cannot approve their own operation after trying to reassign it'
+);
+
+-- The service role is held to the same rule
+RESET ROLE;
+
+SELECT throws_ok(
+  $$ UPDATE loan_operations SET veraz_data = '{}' WHERE operation_number = 'TEST-APPROVED' $$,
+  '23514',
+  NULL,
+  'The service role cannot rewrite the Veraz data of an approved operation'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,176 @@
+-- Storage policies of the loan-documents bucket. Run against a local Supabase with:
+--   supabase start && supabase test db
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(17);
+
+-- Fixtures, as the service role: two branches, two advisors and an analyst in the first, an analyst in the second, an admin
+INSERT INTO branches (id, code, name) VALUES
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'T1', 'Sucursal Test 1'),
+  ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'T2', 'Sucursal Test 2');
+
+INSERT INTO auth.users (id, email) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'advisor-a@test.local'),
+  ('22222222-2222-2222-2222-222222222222', 'advisor-b@test.local'),
+  ('33333333-3333-3333-3333-333333333333', 'analyst-1@test.local'),
+  ('44444444-4444-4444-4444-444444444444', 'analyst-2@test.local'),
+  ('55555555-5555-5555-5555-555555555555', 'admin@test.local');
+
+INSERT INTO memberships (user_id, role) VALUES
+  ('33333333-3333-3333-3333-333333333333', 'analyst'),
+  ('44444444-4444-4444-4444-444444444444', 'analyst'),
+  ('55555555-5555-5555-5555-555555555555', 'admin');
+
+INSERT INTO branch_memberships (user_id, branch_id, is_default) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', true),
+  ('22222222-2222-2222-2222-222222222222', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', true),
+  ('33333333-3333-3333-3333-333333333333', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', true),
+  ('44444444-4444-4444-4444-444444444444', 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', true);
+
+INSERT INTO loan_operations (operation_number, advisor_id, branch_id, client_cuit, status) VALUES
+  ('TEST-OPEN', '11111111-1111-1111-1111-111111111111', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '20100000009', 'in_progress'),
+  ('TEST-SUBMITTED', '11111111-1111-1111-1111-111111111111', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '20100000009', 'in_progress');
+
+-- Without auth.uid() the transition trigger skips its role guards
+UPDATE loan_operations SET status = 'under_review' WHERE operation_number = 'TEST-SUBMITTED';
+
+INSERT INTO storage.objects (bucket_id, name, metadata) VALUES
+  ('loan-documents', 'TEST-OPEN/id_card_front.jpg', '{"size": 100}'),
+  ('loan-documents', 'TEST-SUBMITTED/id_card_front.jpg', '{"size": 100}'),
+  ('loan-documents', 'stray.jpg', '{"size": 100}');
+
+-- Direct deletes are otherwise rejected by the storage schema
+SELECT set_config('storage.allow_delete_query', 'true', true);
+
+-- Reading
+SET LOCAL ROLE authenticated;
+
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+SELECT is(
+  (SELECT count(*)::int FROM storage.objects WHERE bucket_id = 'loan-documents'),
+  2,
+  'The advisor reads the files of their own operations only'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}', true);
+SELECT is(
+  (SELECT count(*)::int FROM storage.objects WHERE bucket_id = 'loan-documents'),
+  0,
+  'Another advisor of the same branch reads nothing'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "33333333-3333-3333-3333-333333333333", "role": "authenticated"}', true);
+SELECT is(
+  (SELECT count(*)::int FROM storage.objects WHERE bucket_id = 'loan-documents'),
+  2,
+  'An analyst reads the files of operations in their branch'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "44444444-4444-4444-4444-444444444444", "role": "authenticated"}', true);
+SELECT is(
+  (SELECT count(*)::int FROM storage.objects WHERE bucket_id = 'loan-documents'),
+  0,
+  'An analyst of another branch reads nothing'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "55555555-5555-5555-5555-555555555555", "role": "authenticated"}', true);
+SELECT is(
+  (SELECT count(*)::int FROM storage.objects WHERE bucket_id = 'loan-documents'),
+  2,
+  'An admin reads every operation file but not files outside an operation folder'
+);
+
+-- Uploading and replacing
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+SELECT lives_ok(
+  $$ INSERT INTO storage.objects (bucket_id, name) VALUES ('loan-documents', 'TEST-OPEN/id_card_back.jpg') $$,
+  'The advisor uploads to their operation in progress'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO storage.objects (bucket_id, name) VALUES ('loan-documents', 'TEST-SUBMITTED/salary_receipt.pdf') $$,
+  '42501',
+  NULL,
+  'The advisor cannot add files once the operation is submitted'
+);
+
+UPDATE storage.objects SET metadata = '{"size": 200}' WHERE name = 'TEST-OPEN/id_card_front.jpg';
+UPDATE storage.objects SET metadata = '{"size": 200}' WHERE name = 'TEST-SUBMITTED/id_card_front.jpg';
+DELETE FROM storage.objects WHERE name = 'TEST-SUBMITTED/id_card_front.jpg';
+
+SELECT set_config('request.jwt.claims', '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}', true);
+SELECT throws_ok(
+  $$ INSERT INTO storage.objects (bucket_id, name) VALUES ('loan-documents', 'TEST-OPEN/salary_receipt.pdf') $$,
+  '42501',
+  NULL,
+  'Another advisor cannot upload to the operation'
+);
+
+DELETE FROM storage.objects WHERE name = 'TEST-OPEN/id_card_front.jpg';
+
+SELECT set_config('request.jwt.claims', '{"sub": "33333333-3333-3333-3333-333333333333", "role": "authenticated"}', true);
+SELECT throws_ok(
+  $$ INSERT INTO storage.objects (bucket_id, name) VALUES ('loan-documents', 'TEST-OPEN/salary_receipt.pdf') $$,
+  '42501',
+  NULL,
+  'Analysts read but do not upload documents'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO storage.objects (bucket_id, name) VALUES ('loan-documents', 'stray-upload.jpg') $$,
+  '42501',
+  NULL,
+  'Files outside an operation folder cannot be uploaded'
+);
+
+-- Document views go through log_document_access before a signed URL is issued
+SELECT throws_ok(
+  $$ SELECT log_document_access('TEST-OPEN/../TEST-SUBMITTED/id_card_front.jpg') $$,
+  '42501',
+  NULL,
+  'Paths that climb out of the operation folder are rejected'
+);
+
+SELECT lives_ok(
+  $$ SELECT log_document_access('TEST-OPEN/id_card_front.jpg') $$,
+  'An analyst of the branch can view the document'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "44444444-4444-4444-4444-444444444444", "role": "authenticated"}', true);
+SELECT throws_ok(
+  $$ SELECT log_document_access('TEST-OPEN/id_card_front.jpg') $$,
+  '42501',
+  NULL,
+  'An analyst of another branch cannot view the document'
+);
+
+RESET ROLE;
+
+-- What the blocked statements above left behind
+SELECT is(
+  (SELECT metadata->>'size' FROM storage.objects WHERE name = 'TEST-OPEN/id_card_front.jpg'),
+  '100',
+  'Files are never overwritten, even while the operation is in progress'
+);
+
+SELECT is(
+  (SELECT metadata->>'size' FROM storage.objects WHERE name = 'TEST-SUBMITTED/id_card_front.jpg'),
+  '100',
+  'Files of a submitted operation cannot be overwritten'
+);
+
+SELECT ok(
+  EXISTS (SELECT 1 FROM storage.objects WHERE name = 'TEST-SUBMITTED/id_card_front.jpg'),
+  'Files of a submitted operation cannot be deleted'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM document_access_log l JOIN loan_operations o ON o.id = l.operation_id WHERE o.operation_number = 'TEST-OPEN'),
+  1,
+  'Only the granted view is logged'
+);
+
+SELECT * FROM finish();
+ROLLBACK;